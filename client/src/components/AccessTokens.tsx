@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { format, formatDistanceToNow } from 'date-fns';
+import { KeyRound, Copy, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { api, getErrorMessage } from '../lib/api';
+
+type AccessTokenScope = 'tasks:read' | 'tasks:write' | 'activity:read';
+
+interface AccessToken {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: AccessTokenScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+interface CreatedAccessToken extends AccessToken {
+  token: string;
+}
+
+const SCOPE_OPTIONS: { value: AccessTokenScope; label: string }[] = [
+  { value: 'tasks:read', label: 'Read tasks, tags and projects' },
+  { value: 'tasks:write', label: 'Create, edit and delete tasks, tags and projects' },
+  { value: 'activity:read', label: 'Read activity history' },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'No expiry' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClass =
+  'w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2.5 text-sm focus:border-sky-500 focus:ring-2 focus:ring-sky-500/20 outline-none transition';
+
+/**
+ * Profile card for personal access tokens: create one with scopes and an expiry,
+ * copy it while it is shown (just once), and revoke tokens that are no longer needed.
+ */
+export function AccessTokens() {
+  const queryClient = useQueryClient();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(['tasks:read']);
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [created, setCreated] = useState<CreatedAccessToken | null>(null);
+
+  const { data: tokens = [], isLoading, error } = useQuery({
+    queryKey: ['auth', 'tokens'],
+    queryFn: async () => {
+      const res = await api.get<AccessToken[]>('/api/auth/tokens');
+      return res.data;
+    },
+  });
+
+  const refresh = () => {
+    void queryClient.invalidateQueries({ queryKey: ['auth', 'tokens'] });
+    void queryClient.invalidateQueries({ queryKey: ['auth', 'security-events'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.post<CreatedAccessToken>('/api/auth/tokens', {
+        name: name.trim(),
+        scopes,
+        expiresAt: expiryDays > 0 ? new Date(Date.now() + expiryDays * DAY_MS).toISOString() : null,
+      });
+      return res.data;
+    },
+    onSuccess: (data) => {
+      setCreated(data);
+      setIsCreating(false);
+      setName('');
+      setScopes(['tasks:read']);
+      setExpiryDays(30);
+      refresh();
+    },
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to create token')),
+  });
+
+  const revokeMutation = useMutation<void, unknown, AccessToken>({
+    mutationFn: async (token) => {
+      await api.delete(`/api/auth/tokens/${token.id}`);
+    },
+    onSuccess: (_data, token) => {
+      toast.success(`Revoked "${token.name}"`);
+      if (created?.id === token.id) setCreated(null);
+      refresh();
+    },
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to revoke token')),
+  });
+
+  const toggleScope = (scope: AccessTokenScope) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]));
+  };
+
+  const copyToken = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast.success('Token copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.112, duration: 0.3 }}
+      className="rounded-2xl border border-slate-200 dark:border-slate-700/80 bg-white dark:bg-slate-900/60 p-6 shadow-sm backdrop-blur-sm"
+    >
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <KeyRound className="h-4 w-4" />
+          Personal access tokens
+        </h2>
+        {!isCreating && (
+          <button
+            type="button"
+            onClick={() => setIsCreating(true)}
+            className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-sky-700 dark:text-sky-400 hover:bg-sky-500/10 transition"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            New token
+          </button>
+        )}
+      </div>
+      <p className="mb-4 text-sm text-slate-600 dark:text-slate-400">
+        Use a token instead of your password in scripts and CI: send it as{' '}
+        <code className="rounded bg-slate-100 dark:bg-slate-800 px-1 py-0.5 text-xs">Authorization: Bearer &lt;token&gt;</code>.
+      </p>
+
+      {created && (
+        <div className="mb-4 space-y-2 rounded-xl border border-emerald-200 dark:border-emerald-900/60 bg-emerald-50 dark:bg-emerald-950/30 p-4">
+          <p className="text-sm font-medium text-emerald-800 dark:text-emerald-300">
+            Copy "{created.name}" now. You won't be able to see it again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="min-w-0 flex-1 break-all rounded-lg bg-white dark:bg-slate-900 px-3 py-2 font-mono text-xs text-slate-900 dark:text-slate-100">
+              {created.token}
+            </code>
+            <button
+              type="button"
+              onClick={() => void copyToken(created.token)}
+              className="shrink-0 rounded-lg p-2 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-500/10 transition"
+              aria-label="Copy token"
+            >
+              <Copy className="h-4 w-4" />
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setCreated(null)}
+            className="text-xs font-medium text-emerald-700 dark:text-emerald-400 hover:underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {isCreating && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!name.trim()) {
+              toast.error('Give the token a name');
+              return;
+            }
+            if (scopes.length === 0) {
+              toast.error('Pick at least one scope');
+              return;
+            }
+            createMutation.mutate();
+          }}
+          className="mb-4 space-y-4 rounded-xl border border-slate-200 dark:border-slate-700 p-4"
+        >
+          <div>
+            <label className="mb-1.5 block text-xs font-medium text-slate-600 dark:text-slate-400" htmlFor="token-name">
+              Name
+            </label>
+            <input
+              id="token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. CI pipeline"
+              maxLength={100}
+              autoFocus
+              className={inputClass}
+            />
+          </div>
+          <fieldset>
+            <legend className="mb-1.5 text-xs font-medium text-slate-600 dark:text-slate-400">Scopes</legend>
+            <div className="space-y-2">
+              {SCOPE_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(option.value)}
+                    onChange={() => toggleScope(option.value)}
+                    className="mt-0.5 rounded border-slate-300 dark:border-slate-600 text-sky-500 focus:ring-sky-500/30"
+                  />
+                  <span>
+                    <code className="text-xs font-semibold">{option.value}</code>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">{option.label}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div>
+            <label className="mb-1.5 block text-xs font-medium text-slate-600 dark:text-slate-400" htmlFor="token-expiry">
+              Expires
+            </label>
+            <select
+              id="token-expiry"
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(Number(e.target.value))}
+              className={inputClass}
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/25 hover:from-sky-600 hover:to-indigo-600 disabled:opacity-70 transition"
+            >
+              {createMutation.isPending ? 'Creating...' : 'Create token'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsCreating(false)}
+              className="rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-2.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="h-12 animate-pulse rounded-xl bg-slate-100 dark:bg-slate-800/60" />
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load tokens.</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No tokens yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+          {tokens.map((token) => {
+            const expired = token.expiresAt !== null && new Date(token.expiresAt) <= new Date();
+            return (
+              <li key={token.id} className="flex items-center gap-3 py-3 first:pt-0 last:pb-0">
+                <div className="min-w-0 flex-1">
+                  <p className="flex items-center gap-2 text-sm font-medium text-slate-900 dark:text-slate-100">
+                    <span className="truncate">{token.name}</span>
+                    <code className="shrink-0 text-xs font-normal text-slate-500 dark:text-slate-400">
+                      {token.tokenPrefix}…
+                    </code>
+                    {expired && (
+                      <span className="shrink-0 rounded-md bg-red-500/15 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-red-700 dark:text-red-400">
+                        Expired
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{token.scopes.join(', ')}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {token.lastUsedAt
+                      ? `Used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : 'Never used'}
+                    {' · '}
+                    {token.expiresAt
+                      ? `${expired ? 'Expired' : 'Expires'} ${format(new Date(token.expiresAt), 'MMM d, yyyy')}`
+                      : 'No expiry'}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => revokeMutation.mutate(token)}
+                  disabled={revokeMutation.isPending}
+                  className="shrink-0 rounded-lg px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-400 transition disabled:opacity-60"
+                >
+                  Revoke
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
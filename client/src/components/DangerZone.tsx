@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { AlertTriangle, Download, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { api, getErrorMessage } from '../lib/api';
+import { useAuthStore } from '../store/authStore';
+
+interface AccountDeletionResponse {
+  message: string;
+  deletionScheduledAt: string;
+}
+
+const inputClass =
+  'w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2.5 text-sm focus:border-red-500 focus:ring-2 focus:ring-red-500/20 outline-none transition';
+
+/**
+ * "Danger zone" card on the profile page: download a copy of all personal data,
+ * or delete the account. Deletion signs out everywhere and takes effect after a
+ * grace period; signing in again before then keeps the account.
+ */
+export function DangerZone() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const logout = useAuthStore((s) => s.logout);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmed, setConfirmed] = useState(false);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.get<Blob>('/api/auth/me/export', { responseType: 'blob' });
+      return res.data;
+    },
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vitasoft-export-${format(new Date(), 'yyyy-MM-dd')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      void queryClient.invalidateQueries({ queryKey: ['auth', 'security-events'] });
+    },
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to export your data')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await api.delete<AccountDeletionResponse>('/api/auth/me', { data: { password } });
+      return res.data;
+    },
+    onSuccess: (data) => {
+      toast.success(data.message, { duration: 10000 });
+      // Every session was revoked on the server, this one included.
+      logout();
+      queryClient.clear();
+      navigate('/login');
+    },
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to delete your account')),
+  });
+
+  const handleDelete = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) {
+      toast.error('Enter your password to confirm');
+      return;
+    }
+    if (!confirmed) {
+      toast.error('Confirm that you understand what gets deleted');
+      return;
+    }
+    deleteMutation.mutate();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.118, duration: 0.3 }}
+      className="rounded-2xl border border-red-200 dark:border-red-900/60 bg-white dark:bg-slate-900/60 p-6 shadow-sm backdrop-blur-sm"
+    >
+      <h2 className="mb-4 flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-red-600 dark:text-red-400">
+        <AlertTriangle className="h-4 w-4" />
+        Danger zone
+      </h2>
+      <div className="divide-y divide-slate-100 dark:divide-slate-800">
+        <div className="flex flex-col gap-3 pb-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <p className="text-sm font-medium text-slate-900 dark:text-slate-100">Export your data</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Download your profile, projects, tags, tasks and full activity history as a JSON file.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+            className="inline-flex shrink-0 items-center justify-center gap-2 rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800 transition disabled:opacity-60"
+          >
+            <Download className="h-4 w-4" />
+            {exportMutation.isPending ? 'Preparing...' : 'Download'}
+          </button>
+        </div>
+
+        <div className="pt-4">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <p className="text-sm font-medium text-slate-900 dark:text-slate-100">Delete account</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Signs you out everywhere. Your account and everything in it are erased after a grace period; sign in
+                before then to keep it.
+              </p>
+            </div>
+            {!isDeleting && (
+              <button
+                type="button"
+                onClick={() => setIsDeleting(true)}
+                className="inline-flex shrink-0 items-center justify-center gap-2 rounded-xl border border-red-200 dark:border-red-900/60 px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-500/10 transition"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete account
+              </button>
+            )}
+          </div>
+
+          {isDeleting && (
+            <form onSubmit={handleDelete} className="mt-4 space-y-3 rounded-xl border border-red-200 dark:border-red-900/60 p-4">
+              <div>
+                <label className="mb-1.5 block text-xs font-medium text-slate-600 dark:text-slate-400" htmlFor="delete-password">
+                  Password
+                </label>
+                <input
+                  id="delete-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="••••••••"
+                  autoComplete="current-password"
+                  autoFocus
+                  required
+                  className={inputClass}
+                />
+              </div>
+              <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={confirmed}
+                  onChange={(e) => setConfirmed(e.target.checked)}
+                  className="mt-0.5 rounded border-slate-300 dark:border-slate-600 text-red-500 focus:ring-red-500/30"
+                />
+                I understand that my tasks, projects, tags and history will be permanently deleted.
+              </label>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={deleteMutation.isPending}
+                  className="rounded-xl bg-red-600 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-red-500/25 hover:bg-red-700 disabled:opacity-70 transition"
+                >
+                  {deleteMutation.isPending ? 'Deleting...' : 'Delete my account'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsDeleting(false);
+                    setPassword('');
+                    setConfirmed(false);
+                  }}
+                  className="rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-2.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
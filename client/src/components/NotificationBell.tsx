@@ -0,0 +1,300 @@
+import { useState, useRef, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Bell, CheckCheck, Trash2, X } from 'lucide-react';
+import { api } from '../lib/api';
+import { notificationKindConfig, type AppNotification, type NotificationPage } from '../lib/notifications';
+import { useAuthStore } from '../store/authStore';
+
+const PAGE_SIZE = 20;
+const UNREAD_POLL_MS = 60 * 1000;
+
+const listKey = ['notifications', 'list'];
+const unreadKey = ['notifications', 'unread-count'];
+
+type InboxSnapshot = {
+  list: InfiniteData<NotificationPage, string | null> | undefined;
+  unread: { unreadCount: number } | undefined;
+};
+
+/**
+ * Bell in the header with the notification inbox: reminders, due-soon and
+ * overdue tasks, and system messages. Read and dismissed state is kept on the
+ * server, so it is the same in every browser.
+ */
+export const NotificationBell = () => {
+  const token = useAuthStore((s) => s.token);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  const { data: unread } = useQuery({
+    queryKey: unreadKey,
+    queryFn: async () => {
+      const res = await api.get<{ unreadCount: number }>('/notifications/unread-count');
+      return res.data;
+    },
+    enabled: !!token,
+    refetchInterval: UNREAD_POLL_MS,
+  });
+  const unreadCount = unread?.unreadCount ?? 0;
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: listKey,
+    queryFn: async ({ pageParam }) => {
+      const res = await api.get<NotificationPage>('/notifications', {
+        params: { limit: PAGE_SIZE, ...(pageParam ? { cursor: pageParam } : {}) },
+      });
+      return res.data;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!token && open,
+  });
+  const notifications = data?.pages.flatMap((page) => page.items) ?? [];
+
+  /** Optimistically rewrite the cached inbox; returns the previous state for rollback. */
+  const updateInbox = async (
+    update: (items: AppNotification[]) => AppNotification[],
+    nextUnread: (count: number) => number,
+  ): Promise<InboxSnapshot> => {
+    await queryClient.cancelQueries({ queryKey: ['notifications'] });
+    const snapshot: InboxSnapshot = {
+      list: queryClient.getQueryData(listKey),
+      unread: queryClient.getQueryData(unreadKey),
+    };
+    queryClient.setQueryData<InfiniteData<NotificationPage, string | null>>(listKey, (current) =>
+      current && { ...current, pages: current.pages.map((page) => ({ ...page, items: update(page.items) })) },
+    );
+    queryClient.setQueryData<{ unreadCount: number }>(unreadKey, (current) =>
+      current && { unreadCount: Math.max(0, nextUnread(current.unreadCount)) },
+    );
+    return snapshot;
+  };
+
+  const rollback = (snapshot: InboxSnapshot | undefined) => {
+    queryClient.setQueryData(listKey, snapshot?.list);
+    queryClient.setQueryData(unreadKey, snapshot?.unread);
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['notifications'] });
+
+  const markReadMutation = useMutation<void, unknown, AppNotification, InboxSnapshot>({
+    mutationFn: async (notification) => {
+      await api.post(`/notifications/${notification.id}/read`);
+    },
+    onMutate: (notification) =>
+      updateInbox(
+        (items) => items.map((n) => (n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n)),
+        (count) => count - 1,
+      ),
+    onError: (_err, _notification, snapshot) => rollback(snapshot),
+    onSettled: invalidate,
+  });
+
+  const dismissMutation = useMutation<void, unknown, AppNotification, InboxSnapshot>({
+    mutationFn: async (notification) => {
+      await api.delete(`/notifications/${notification.id}`);
+    },
+    onMutate: (notification) =>
+      updateInbox(
+        (items) => items.filter((n) => n.id !== notification.id),
+        (count) => (notification.readAt ? count : count - 1),
+      ),
+    onError: (_err, _notification, snapshot) => {
+      rollback(snapshot);
+      toast.error('Failed to dismiss notification');
+    },
+    onSettled: invalidate,
+  });
+
+  const markAllReadMutation = useMutation<void, unknown, void, InboxSnapshot>({
+    mutationFn: async () => {
+      await api.post('/notifications/read-all');
+    },
+    onMutate: () =>
+      updateInbox(
+        (items) => items.map((n) => (n.readAt ? n : { ...n, readAt: new Date().toISOString() })),
+        () => 0,
+      ),
+    onError: (_err, _vars, snapshot) => {
+      rollback(snapshot);
+      toast.error('Failed to mark notifications as read');
+    },
+    onSettled: invalidate,
+  });
+
+  const clearMutation = useMutation<void, unknown, void, InboxSnapshot>({
+    mutationFn: async () => {
+      await api.delete('/notifications');
+    },
+    onMutate: () => updateInbox(() => [], () => 0),
+    onError: (_err, _vars, snapshot) => {
+      rollback(snapshot);
+      toast.error('Failed to clear notifications');
+    },
+    onSettled: invalidate,
+  });
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.readAt) markReadMutation.mutate(notification);
+    if (notification.taskId !== null) {
+      setOpen(false);
+      void navigate(`/tasks/${notification.taskId}`);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (panelRef.current?.contains(target) || buttonRef.current?.contains(target)) return;
+      setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  if (!token) return null;
+
+  return (
+    <div className="relative">
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="relative flex h-10 w-10 items-center justify-center rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 transition hover:bg-slate-200 dark:hover:bg-slate-700"
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+        aria-expanded={open}
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div
+          ref={panelRef}
+          className="absolute right-0 top-full z-30 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-xl"
+          role="dialog"
+          aria-label="Notifications"
+        >
+          <div className="flex items-center justify-between gap-2 border-b border-slate-200 dark:border-slate-700 px-3 py-2">
+            <div>
+              <p className="text-sm font-semibold text-slate-900 dark:text-slate-50">Notifications</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {unreadCount === 0 ? 'All caught up' : `${unreadCount} unread`}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {unreadCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => markAllReadMutation.mutate()}
+                  className="flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-slate-900 dark:hover:text-slate-200 transition"
+                  aria-label="Mark all notifications as read"
+                >
+                  <CheckCheck className="h-3.5 w-3.5" />
+                  Read all
+                </button>
+              )}
+              {notifications.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => clearMutation.mutate()}
+                  className="flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-slate-900 dark:hover:text-slate-200 transition"
+                  aria-label="Clear all notifications"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="max-h-96 overflow-y-auto py-1">
+            {isLoading ? (
+              <div className="space-y-2 px-3 py-2">
+                <div className="h-10 animate-pulse rounded bg-slate-100 dark:bg-slate-800" />
+                <div className="h-10 animate-pulse rounded bg-slate-100 dark:bg-slate-800" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="px-3 py-6 text-center text-sm text-slate-500 dark:text-slate-400">No notifications</p>
+            ) : (
+              <ul>
+                {notifications.map((notification) => {
+                  const config = notificationKindConfig[notification.kind];
+                  const Icon = config.icon;
+                  return (
+                    <li
+                      key={notification.id}
+                      className={`group flex items-start gap-2 px-3 py-2 ${
+                        notification.readAt ? '' : 'bg-sky-500/5 dark:bg-sky-500/10'
+                      }`}
+                    >
+                      <span
+                        className={`mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-full ${config.className}`}
+                        title={config.label}
+                      >
+                        <Icon className="h-3.5 w-3.5" />
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => openNotification(notification)}
+                        className="min-w-0 flex-1 text-left"
+                      >
+                        <span
+                          className={`block truncate text-sm ${
+                            notification.readAt
+                              ? 'text-slate-600 dark:text-slate-400'
+                              : 'font-semibold text-slate-900 dark:text-slate-100'
+                          }`}
+                        >
+                          {notification.title}
+                        </span>
+                        {notification.body && (
+                          <span className="block text-xs text-slate-500 dark:text-slate-400 line-clamp-2">
+                            {notification.body}
+                          </span>
+                        )}
+                        <span className="block text-[11px] text-slate-400 dark:text-slate-500">
+                          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                        </span>
+                      </button>
+                      {!notification.readAt && (
+                        <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-sky-500" aria-label="Unread" />
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => dismissMutation.mutate(notification)}
+                        className="shrink-0 rounded p-0.5 text-slate-400 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-600 dark:hover:text-red-400 transition"
+                        aria-label={`Dismiss ${notification.title}`}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {hasNextPage && (
+              <button
+                type="button"
+                onClick={() => void fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="w-full px-3 py-2 text-xs font-medium text-sky-600 dark:text-sky-400 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-60"
+              >
+                {isFetchingNextPage ? 'Loading…' : 'Show older'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
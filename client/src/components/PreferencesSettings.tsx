@@ -0,0 +1,273 @@
+import { useState, type FormEvent } from 'react';
+import { motion } from 'framer-motion';
+import { SlidersHorizontal } from 'lucide-react';
+import { toast } from 'sonner';
+import { getErrorMessage } from '../lib/api';
+import { resolveTimeZone, TASK_SORT_OPTIONS, useUpdatePreferences, type PreferencesUpdate } from '../lib/preferences';
+import {
+  usePreferencesStore,
+  type NotificationPreferences,
+  type TaskStatusFilter,
+  type TaskSortKey,
+  type TaskViewMode,
+  type UserPreferences,
+} from '../store/preferencesStore';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DUE_SOON_OPTIONS = [
+  { hours: 12, label: '12 hours' },
+  { hours: 24, label: '1 day' },
+  { hours: 48, label: '2 days' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '1 week' },
+];
+
+const NOTIFICATION_OPTIONS: { key: Exclude<keyof NotificationPreferences, 'webhookUrl' | 'webhookSecret'>; label: string; hint: string }[] = [
+  { key: 'dueSoon', label: 'Due soon', hint: 'Tasks due within the window above' },
+  { key: 'overdue', label: 'Overdue', hint: 'Tasks past their due date' },
+  { key: 'email', label: 'Email', hint: 'Also send reminders and due alerts to your email address' },
+];
+
+const selectClass =
+  'w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2 text-sm focus:border-sky-500 focus:ring-2 focus:ring-sky-500/20 outline-none transition';
+const labelClass = 'mb-1.5 block text-xs font-medium text-slate-600 dark:text-slate-400';
+
+function timeZoneNames(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * "Preferences" card on the profile page. Every change is saved to the account
+ * right away, so it applies in any browser the user signs in to.
+ */
+export function PreferencesSettings() {
+  const preferences = usePreferencesStore((s) => s.preferences);
+  const updateMutation = useUpdatePreferences();
+  const [webhookDraft, setWebhookDraft] = useState<string | null>(null);
+  const webhookUrl = webhookDraft ?? preferences.notifications.webhookUrl ?? '';
+
+  const save = (changes: PreferencesUpdate) => {
+    updateMutation.mutate(changes, {
+      onError: (err) => toast.error(getErrorMessage(err, 'Failed to save preferences')),
+    });
+  };
+
+  const saveWebhook = (e?: FormEvent) => {
+    e?.preventDefault();
+    if (webhookDraft === null) return;
+    const next = webhookDraft.trim() || null;
+    if (next !== preferences.notifications.webhookUrl) {
+      updateMutation.mutate(
+        { notifications: { webhookUrl: next } },
+        {
+          onSuccess: () => setWebhookDraft(null),
+          onError: (err) => toast.error(getErrorMessage(err, 'Failed to save the webhook URL')),
+        },
+      );
+    } else {
+      setWebhookDraft(null);
+    }
+  };
+
+  const timeZones = timeZoneNames();
+  const browserZone = resolveTimeZone(null);
+  // Keep a saved zone selectable even if this browser doesn't list it.
+  if (preferences.timezone && !timeZones.includes(preferences.timezone)) timeZones.unshift(preferences.timezone);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.09, duration: 0.3 }}
+      className="rounded-2xl border border-slate-200 dark:border-slate-700/80 bg-white dark:bg-slate-900/60 p-6 shadow-sm backdrop-blur-sm"
+    >
+      <h2 className="mb-4 flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+        <SlidersHorizontal className="h-4 w-4" />
+        Preferences
+      </h2>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className={labelClass} htmlFor="pref-theme">
+            Theme
+          </label>
+          <select
+            id="pref-theme"
+            value={preferences.theme}
+            onChange={(e) => save({ theme: e.target.value as UserPreferences['theme'] })}
+            className={selectClass}
+          >
+            <option value="dark">Dark</option>
+            <option value="light">Light</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="pref-view">
+            Task view
+          </label>
+          <select
+            id="pref-view"
+            value={preferences.defaultViewMode}
+            onChange={(e) => save({ defaultViewMode: e.target.value as TaskViewMode })}
+            className={selectClass}
+          >
+            <option value="grid">Grid</option>
+            <option value="list">List</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="pref-sort">
+            Default sort
+          </label>
+          <select
+            id="pref-sort"
+            value={`${preferences.defaultSort}:${preferences.defaultSortOrder}`}
+            onChange={(e) => {
+              const [defaultSort, defaultSortOrder] = e.target.value.split(':') as [TaskSortKey, 'asc' | 'desc'];
+              save({ defaultSort, defaultSortOrder });
+            }}
+            className={selectClass}
+          >
+            {TASK_SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="pref-filter">
+            Default filter
+          </label>
+          <select
+            id="pref-filter"
+            value={preferences.defaultStatusFilter}
+            onChange={(e) => save({ defaultStatusFilter: e.target.value as TaskStatusFilter })}
+            className={selectClass}
+          >
+            <option value="all">All tasks</option>
+            <option value="active">Active</option>
+            <option value="completed">Completed</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="pref-week-start">
+            Week starts on
+          </label>
+          <select
+            id="pref-week-start"
+            value={preferences.weekStartsOn}
+            onChange={(e) => save({ weekStartsOn: Number(e.target.value) as UserPreferences['weekStartsOn'] })}
+            className={selectClass}
+          >
+            {WEEKDAY_NAMES.map((name, idx) => (
+              <option key={name} value={idx}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="pref-timezone">
+            Time zone
+          </label>
+          <select
+            id="pref-timezone"
+            value={preferences.timezone ?? ''}
+            onChange={(e) => save({ timezone: e.target.value || null })}
+            className={selectClass}
+          >
+            <option value="">This browser ({browserZone})</option>
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="pref-due-soon">
+            "Due soon" means within
+          </label>
+          <select
+            id="pref-due-soon"
+            value={preferences.dueSoonHours}
+            onChange={(e) => save({ dueSoonHours: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {!DUE_SOON_OPTIONS.some((option) => option.hours === preferences.dueSoonHours) && (
+              <option value={preferences.dueSoonHours}>{preferences.dueSoonHours} hours</option>
+            )}
+            {DUE_SOON_OPTIONS.map((option) => (
+              <option key={option.hours} value={option.hours}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <fieldset className="mt-5 border-t border-slate-100 dark:border-slate-800 pt-4">
+        <legend className="sr-only">Notifications</legend>
+        <p className="mb-2 text-sm font-medium text-slate-900 dark:text-slate-100">Notifications</p>
+        <div className="space-y-2">
+          {NOTIFICATION_OPTIONS.map((option) => (
+            <label key={option.key} className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={preferences.notifications[option.key]}
+                onChange={(e) => save({ notifications: { [option.key]: e.target.checked } })}
+                className="mt-0.5 rounded border-slate-300 dark:border-slate-600 text-sky-500 focus:ring-sky-500/30"
+              />
+              <span>
+                {option.label}
+                <span className="block text-xs text-slate-500 dark:text-slate-400">{option.hint}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <form onSubmit={saveWebhook} className="mt-4">
+          <label className={labelClass} htmlFor="pref-webhook">
+            Webhook URL
+          </label>
+          <input
+            id="pref-webhook"
+            type="url"
+            value={webhookUrl}
+            onChange={(e) => setWebhookDraft(e.target.value)}
+            onBlur={() => saveWebhook()}
+            placeholder="https://example.com/hooks/vitasoft"
+            maxLength={2000}
+            className={selectClass}
+          />
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+            Reminders are also sent here as a JSON POST request. Leave empty to turn it off.
+          </p>
+          {preferences.notifications.webhookSecret && (
+            <>
+              <label className={`${labelClass} mt-3`} htmlFor="pref-webhook-secret">
+                Signing secret
+              </label>
+              <input
+                id="pref-webhook-secret"
+                type="text"
+                value={preferences.notifications.webhookSecret}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                className={`${selectClass} font-mono`}
+              />
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                Each request carries an X-Vitasoft-Signature header: an HMAC-SHA256 of the timestamp and body made
+                with this secret.
+              </p>
+            </>
+          )}
+        </form>
+      </fieldset>
+    </motion.div>
+  );
+}
@@ -1,19 +1,13 @@
 import { useState, useRef, useEffect } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { Lock, Key, X, LogOut } from 'lucide-react';
+import { Lock, Key, X, LogOut, Mail, UserPen } from 'lucide-react';
 import { toast } from 'sonner';
-import { api } from '../lib/api';
+import { api, getErrorMessage, signOut } from '../lib/api';
+import { validatePassword } from '../lib/password';
+import { useRequestEmailChange, useUpdateUsername } from '../lib/profile';
 import { useAuthStore } from '../store/authStore';
-
-function validatePassword(password: string): string | null {
-  if (password.length < 8) return 'Password must be at least 8 characters';
-  if (!/[A-Z]/.test(password)) return 'Password must contain at least 1 uppercase letter';
-  if (!/[0-9]/.test(password)) return 'Password must contain at least 1 number';
-  if (!/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?`~]/.test(password))
-    return 'Password must contain at least 1 special character';
-  return null;
-}
+import { UserAvatar } from './UserAvatar';
 
 interface ProfileMenuProps {
   onClose: () => void;
@@ -46,22 +40,31 @@ export function ProfileMenu({ onClose, anchorRef }: ProfileMenuProps) {
       exit={{ opacity: 0, y: -4 }}
       className="absolute right-0 top-full z-30 mt-2 w-72 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-xl"
     >
-      <div className="border-b border-slate-200 dark:border-slate-700 px-4 py-3">
-        <p className="text-sm font-semibold text-slate-900 dark:text-slate-50">
-          {user?.username ?? user?.email ?? 'User'}
-        </p>
-        {user?.email && user.username && (
-          <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
-            {user.email}
+      <div className="flex items-center gap-3 border-b border-slate-200 dark:border-slate-700 px-4 py-3">
+        <UserAvatar
+          user={user}
+          size={36}
+          className="h-9 w-9 shrink-0 rounded-full bg-gradient-to-br from-sky-500 to-indigo-500 text-sm font-bold text-white"
+        />
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-slate-900 dark:text-slate-50 truncate">
+            {user?.username ?? user?.email ?? 'User'}
           </p>
-        )}
+          {user?.email && user.username && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+              {user.email}
+            </p>
+          )}
+        </div>
       </div>
       <div className="p-2 space-y-0.5">
+        <EditUsernameButton currentUsername={user?.username ?? ''} onSuccess={onClose} />
+        <ChangeEmailButton onSuccess={onClose} />
         <UpdatePasswordButton onSuccess={onClose} />
         <button
           type="button"
           onClick={() => {
-            useAuthStore.getState().logout();
+            void signOut();
             onClose();
           }}
           className="flex w-full items-center gap-3 rounded-lg px-3 py-2.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-500/10 transition"
@@ -74,6 +77,175 @@ export function ProfileMenu({ onClose, anchorRef }: ProfileMenuProps) {
   );
 }
 
+const menuItemClass =
+  'flex w-full items-center gap-3 rounded-lg px-3 py-2.5 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition';
+
+const menuInputClass =
+  'w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 pl-8 pr-2.5 py-1.5 text-sm';
+
+function FormHeader({ title, onClose }: { title: string; onClose: () => void }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-sm font-medium text-slate-700 dark:text-slate-200">{title}</span>
+      <button
+        type="button"
+        onClick={onClose}
+        className="rounded p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+        aria-label="Close"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+function EditUsernameButton({ currentUsername, onSuccess }: { currentUsername: string; onSuccess: () => void }) {
+  const [showForm, setShowForm] = useState(false);
+  const [username, setUsername] = useState(currentUsername);
+  const mutation = useUpdateUsername();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = username.trim();
+    if (trimmed.length < 2) {
+      toast.error('Username must be at least 2 characters');
+      return;
+    }
+    if (trimmed === currentUsername) {
+      setShowForm(false);
+      return;
+    }
+    mutation.mutate(trimmed, {
+      onSuccess: () => {
+        toast.success('Username updated');
+        setShowForm(false);
+        onSuccess();
+      },
+      onError: (err) => toast.error(getErrorMessage(err, 'Failed to update username')),
+    });
+  };
+
+  if (!showForm) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setUsername(currentUsername);
+          setShowForm(true);
+        }}
+        className={menuItemClass}
+      >
+        <UserPen className="h-4 w-4 text-slate-500" />
+        Edit username
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-2">
+      <FormHeader title="Edit username" onClose={() => setShowForm(false)} />
+      <input
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        aria-label="Username"
+        required
+        minLength={2}
+        autoFocus
+        className="w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-2.5 py-1.5 text-sm"
+      />
+      <button
+        type="submit"
+        disabled={mutation.isPending}
+        className="w-full rounded-lg bg-sky-500 py-1.5 text-sm font-medium text-white hover:bg-sky-600 disabled:opacity-70"
+      >
+        {mutation.isPending ? 'Saving...' : 'Save'}
+      </button>
+    </form>
+  );
+}
+
+function ChangeEmailButton({ onSuccess }: { onSuccess: () => void }) {
+  const [showForm, setShowForm] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const mutation = useRequestEmailChange();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail.trim() || !password) {
+      toast.error('New email and current password are required');
+      return;
+    }
+    mutation.mutate(
+      { newEmail: newEmail.trim(), password },
+      {
+        onSuccess: (data) => {
+          toast.success(data.message);
+          setShowForm(false);
+          setNewEmail('');
+          setPassword('');
+          onSuccess();
+        },
+        onError: (err) => toast.error(getErrorMessage(err, 'Could not start the email change')),
+      },
+    );
+  };
+
+  if (!showForm) {
+    return (
+      <button type="button" onClick={() => setShowForm(true)} className={menuItemClass}>
+        <Mail className="h-4 w-4 text-slate-500" />
+        Change email
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-2">
+      <FormHeader title="Change email" onClose={() => setShowForm(false)} />
+      <div>
+        <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">New email</label>
+        <div className="relative">
+          <Mail className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400" />
+          <input
+            type="email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            placeholder="you@example.com"
+            required
+            autoFocus
+            className={menuInputClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">Current password</label>
+        <div className="relative">
+          <Lock className="absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400" />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="••••••••"
+            required
+            className={menuInputClass}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Your email changes once you open the link we send to the new address.
+      </p>
+      <button
+        type="submit"
+        disabled={mutation.isPending}
+        className="w-full rounded-lg bg-sky-500 py-1.5 text-sm font-medium text-white hover:bg-sky-600 disabled:opacity-70"
+      >
+        {mutation.isPending ? 'Sending...' : 'Send confirmation link'}
+      </button>
+    </form>
+  );
+}
+
 function UpdatePasswordButton({ onSuccess }: { onSuccess: () => void }) {
   const [showForm, setShowForm] = useState(false);
   const [currentPassword, setCurrentPassword] = useState('');
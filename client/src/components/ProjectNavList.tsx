@@ -0,0 +1,53 @@
+import { NavLink } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../lib/api';
+
+export interface Project {
+  id: number;
+  name: string;
+  color: string;
+  description: string | null;
+  archived: boolean;
+  taskCount: number;
+  completedCount: number;
+  completionPercent: number;
+  createdAt: string;
+}
+
+interface ProjectNavListProps {
+  onNavigate?: () => void;
+}
+
+const projectLinkClass = ({ isActive }: { isActive: boolean }) =>
+  `flex items-center gap-2.5 rounded-lg px-3 py-1.5 text-sm transition-all ${
+    isActive
+      ? 'bg-sky-500/15 text-sky-600 dark:text-sky-400 dark:bg-sky-500/20'
+      : 'text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800 hover:text-slate-900 dark:hover:text-white'
+  }`;
+
+/** Active projects shown under the Projects link in the sidebar. */
+export function ProjectNavList({ onNavigate }: ProjectNavListProps) {
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects'],
+    queryFn: async () => {
+      const res = await api.get<Project[]>('/projects');
+      return res.data;
+    },
+  });
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="ml-4 space-y-0.5 border-l border-slate-200 dark:border-slate-800 pl-2">
+      {projects.map((project) => (
+        <NavLink key={project.id} to={`/projects/${project.id}`} className={projectLinkClass} onClick={onNavigate}>
+          <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: project.color }} />
+          <span className="truncate">{project.name}</span>
+          <span className="ml-auto text-[10px] tabular-nums text-slate-400 dark:text-slate-500">
+            {project.completionPercent}%
+          </span>
+        </NavLink>
+      ))}
+    </div>
+  );
+}
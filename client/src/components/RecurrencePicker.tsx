@@ -0,0 +1,246 @@
+import { Repeat } from 'lucide-react';
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  ordinal,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from '../lib/recurrence';
+import { usePreferencesStore } from '../store/preferencesStore';
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  /** The task's due date (YYYY-MM-DD); new rules start from it. */
+  dueDate: string;
+}
+
+type EndMode = 'never' | 'count' | 'until';
+
+const NTH_OPTIONS = [1, 2, 3, 4, -1];
+
+const inputClass =
+  'rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-2 py-1.5 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500';
+
+/** A sensible rule for the chosen frequency, anchored on the due date. */
+function defaultRule(frequency: RecurrenceFrequency, dueDate: string): RecurrenceRule {
+  const date = dueDate ? new Date(`${dueDate}T00:00:00`) : new Date();
+  const weekday = WEEKDAYS[date.getDay()] ?? 'MO';
+  if (frequency === 'weekly') return { frequency, interval: 1, weekdays: [weekday] };
+  if (frequency === 'monthly') return { frequency, interval: 1, monthDay: date.getDate() };
+  return { frequency, interval: 1 };
+}
+
+export function RecurrencePicker({ value, onChange, dueDate }: RecurrencePickerProps) {
+  const weekStartsOn = usePreferencesStore((s) => s.preferences.weekStartsOn);
+  const endMode: EndMode = value?.count !== undefined ? 'count' : value?.until ? 'until' : 'never';
+  // Weekday buttons start on the user's first day of the week.
+  const weekOrder = [...WEEKDAYS.slice(weekStartsOn), ...WEEKDAYS.slice(0, weekStartsOn)];
+
+  const update = (patch: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...patch });
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    if (!value) return;
+    const current = value.weekdays ?? [];
+    const next = current.includes(day) ? current.filter((d) => d !== day) : [...current, day];
+    if (next.length === 0) return;
+    update({ weekdays: weekOrder.filter((d) => next.includes(d)) });
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    if (!value) return;
+    const rest = { ...value };
+    delete rest.count;
+    delete rest.until;
+    if (mode === 'count') onChange({ ...rest, count: 5 });
+    else if (mode === 'until') onChange({ ...rest, until: dueDate || new Date().toISOString().slice(0, 10) });
+    else onChange(rest);
+  };
+
+  const setMonthlyMode = (mode: 'day' | 'nth') => {
+    if (!value) return;
+    const date = dueDate ? new Date(`${dueDate}T00:00:00`) : new Date();
+    const rest = { ...value };
+    delete rest.monthDay;
+    delete rest.nthWeekday;
+    if (mode === 'day') {
+      onChange({ ...rest, monthDay: date.getDate() });
+    } else {
+      onChange({
+        ...rest,
+        nthWeekday: { n: Math.min(Math.ceil(date.getDate() / 7), 4), weekday: WEEKDAYS[date.getDay()] ?? 'MO' },
+      });
+    }
+  };
+
+  const units = value ? { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[value.frequency] : '';
+
+  return (
+    <div className="space-y-2">
+      <select
+        id="recurrence"
+        value={value?.frequency ?? ''}
+        onChange={(e) =>
+          onChange(e.target.value ? defaultRule(e.target.value as RecurrenceFrequency, dueDate) : null)
+        }
+        disabled={!dueDate && !value}
+        className={`w-full ${inputClass}`}
+      >
+        <option value="">Does not repeat</option>
+        <option value="daily">Daily</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+        <option value="yearly">Yearly</option>
+      </select>
+      {!dueDate && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">Set a due date to make this task repeat.</p>
+      )}
+
+      {value && (
+        <div className="space-y-2 rounded-lg border border-slate-200 dark:border-slate-700 p-2.5 text-xs text-slate-700 dark:text-slate-200">
+          <div className="flex items-center gap-2">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Math.min(365, Number(e.target.value) || 1)) })}
+              className={`w-16 ${inputClass}`}
+              aria-label="Repeat interval"
+            />
+            <span>
+              {units}
+              {value.interval !== 1 ? 's' : ''}
+            </span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-1">
+              {weekOrder.map((day) => {
+                const selected = value.weekdays?.includes(day) ?? false;
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`h-7 w-9 rounded-md text-[11px] font-semibold transition ${
+                      selected
+                        ? 'bg-sky-500 text-white'
+                        : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+                    }`}
+                    aria-pressed={selected}
+                    title={WEEKDAY_LABELS[day]}
+                  >
+                    {WEEKDAY_LABELS[day].slice(0, 2)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <div className="space-y-1.5">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={!value.nthWeekday} onChange={() => setMonthlyMode('day')} />
+                On day
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={value.monthDay ?? ''}
+                  disabled={Boolean(value.nthWeekday)}
+                  onChange={(e) => update({ monthDay: Math.max(1, Math.min(31, Number(e.target.value) || 1)) })}
+                  className={`w-16 ${inputClass}`}
+                  aria-label="Day of month"
+                />
+              </label>
+              <label className="flex flex-wrap items-center gap-2">
+                <input type="radio" checked={Boolean(value.nthWeekday)} onChange={() => setMonthlyMode('nth')} />
+                On the
+                <select
+                  value={value.nthWeekday?.n ?? 1}
+                  disabled={!value.nthWeekday}
+                  onChange={(e) =>
+                    value.nthWeekday && update({ nthWeekday: { ...value.nthWeekday, n: Number(e.target.value) } })
+                  }
+                  className={inputClass}
+                  aria-label="Week of month"
+                >
+                  {NTH_OPTIONS.map((n) => (
+                    <option key={n} value={n}>
+                      {ordinal(n)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={value.nthWeekday?.weekday ?? 'MO'}
+                  disabled={!value.nthWeekday}
+                  onChange={(e) =>
+                    value.nthWeekday &&
+                    update({ nthWeekday: { ...value.nthWeekday, weekday: e.target.value as Weekday } })
+                  }
+                  className={inputClass}
+                  aria-label="Weekday"
+                >
+                  {weekOrder.map((day) => (
+                    <option key={day} value={day}>
+                      {WEEKDAY_LABELS[day]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span>Ends</span>
+            <select
+              value={endMode}
+              onChange={(e) => setEndMode(e.target.value as EndMode)}
+              className={inputClass}
+              aria-label="Ends"
+            >
+              <option value="never">Never</option>
+              <option value="count">After</option>
+              <option value="until">On date</option>
+            </select>
+            {endMode === 'count' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={value.count}
+                  onChange={(e) => update({ count: Math.max(1, Math.min(1000, Number(e.target.value) || 1)) })}
+                  className={`w-16 ${inputClass}`}
+                  aria-label="Number of occurrences"
+                />
+                <span>occurrences</span>
+              </>
+            )}
+            {endMode === 'until' && (
+              <input
+                type="date"
+                value={value.until?.slice(0, 10) ?? ''}
+                min={dueDate || undefined}
+                onChange={(e) => e.target.value && update({ until: e.target.value })}
+                className={inputClass}
+                aria-label="End date"
+              />
+            )}
+          </div>
+
+          <p className="flex items-center gap-1.5 font-medium text-sky-700 dark:text-sky-400">
+            <Repeat className="h-3.5 w-3.5" />
+            {describeRecurrence(value)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { ShieldAlert, ShieldCheck, ShieldX, History } from 'lucide-react';
+import { api } from '../lib/api';
+import { describeUserAgent } from '../lib/userAgent';
+
+type SecurityEventOutcome = 'success' | 'failure' | 'blocked';
+
+interface SecurityEvent {
+  id: number;
+  type: string;
+  outcome: SecurityEventOutcome;
+  ipAddress: string | null;
+  userAgent: string | null;
+  detail: string | null;
+  createdAt: string;
+}
+
+interface SecurityEventPage {
+  items: SecurityEvent[];
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 10;
+
+const EVENT_LABELS: Record<string, string> = {
+  register: 'Account created',
+  login: 'Sign-in',
+  mfa_challenge: 'Two-factor code',
+  logout: 'Signed out',
+  logout_all: 'Signed out everywhere',
+  session_revoked: 'Session revoked',
+  token_refresh: 'Session renewed',
+  token_reuse: 'Old session token reused',
+  access_denied: 'Access with a revoked session',
+  password_change: 'Password change',
+  password_reset_requested: 'Password reset requested',
+  password_reset: 'Password reset',
+  email_verified: 'Email verified',
+  username_changed: 'Username changed',
+  email_change_requested: 'Email change requested',
+  email_changed: 'Email changed',
+  data_exported: 'Data exported',
+  account_deletion_scheduled: 'Account deletion requested',
+  account_deletion_cancelled: 'Account deletion cancelled',
+  mfa_enabled: 'Two-factor turned on',
+  mfa_disabled: 'Two-factor turned off',
+  recovery_codes_regenerated: 'New recovery codes',
+  access_token_created: 'Access token created',
+  access_token_revoked: 'Access token revoked',
+};
+
+// Sessions renew every few minutes, which would bury everything else.
+const DEFAULT_TYPES = Object.keys(EVENT_LABELS).filter((type) => type !== 'token_refresh');
+
+const OUTCOME_STYLES: Record<SecurityEventOutcome, { icon: typeof ShieldCheck; className: string; label: string }> = {
+  success: { icon: ShieldCheck, className: 'text-emerald-500', label: 'Succeeded' },
+  failure: { icon: ShieldX, className: 'text-red-500', label: 'Failed' },
+  blocked: { icon: ShieldAlert, className: 'text-amber-500', label: 'Blocked' },
+};
+
+/**
+ * "Recent security activity" card on the profile page: sign-ins, failed attempts
+ * and account changes with the device and address they came from.
+ */
+export function SecurityActivity() {
+  const [includeRefreshes, setIncludeRefreshes] = useState(false);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['auth', 'security-events', { includeRefreshes }],
+    queryFn: async ({ pageParam }) => {
+      const res = await api.get<SecurityEventPage>('/api/auth/security-events', {
+        params: {
+          limit: PAGE_SIZE,
+          ...(includeRefreshes ? {} : { type: DEFAULT_TYPES.join(',') }),
+          ...(pageParam ? { cursor: pageParam } : {}),
+        },
+      });
+      return res.data;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const events = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.115, duration: 0.3 }}
+      className="rounded-2xl border border-slate-200 dark:border-slate-700/80 bg-white dark:bg-slate-900/60 p-6 shadow-sm backdrop-blur-sm"
+    >
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <History className="h-4 w-4" />
+          Recent security activity
+        </h2>
+        <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <input
+            type="checkbox"
+            checked={includeRefreshes}
+            onChange={(e) => setIncludeRefreshes(e.target.checked)}
+            className="rounded border-slate-300 dark:border-slate-600 text-sky-500 focus:ring-sky-500/30"
+          />
+          Show session renewals
+        </label>
+      </div>
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, idx) => (
+            <div key={idx} className="h-12 animate-pulse rounded-xl bg-slate-100 dark:bg-slate-800/60" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load security activity.</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No security activity yet.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+            {events.map((event) => {
+              const outcome = OUTCOME_STYLES[event.outcome] ?? OUTCOME_STYLES.failure;
+              const OutcomeIcon = outcome.icon;
+              const device = describeUserAgent(event.userAgent);
+              return (
+                <li key={event.id} className="flex items-start gap-3 py-3 first:pt-0 last:pb-0">
+                  <OutcomeIcon className={`mt-0.5 h-5 w-5 shrink-0 ${outcome.className}`} aria-label={outcome.label} />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
+                      {EVENT_LABELS[event.type] ?? event.type}
+                      {event.outcome !== 'success' && (
+                        <span className={`ml-2 text-xs font-semibold uppercase ${outcome.className}`}>
+                          {outcome.label}
+                        </span>
+                      )}
+                    </p>
+                    {event.detail && (
+                      <p className="text-xs text-slate-600 dark:text-slate-300">{event.detail}</p>
+                    )}
+                    <p className="truncate text-xs text-slate-500 dark:text-slate-400" title={event.userAgent ?? undefined}>
+                      {device.label}
+                      {event.ipAddress ? ` · ${event.ipAddress}` : ''}
+                      {' · '}
+                      <time dateTime={event.createdAt} title={new Date(event.createdAt).toLocaleString()}>
+                        {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                      </time>
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {hasNextPage && (
+            <button
+              type="button"
+              onClick={() => void fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="mt-4 w-full rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition disabled:opacity-60"
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Show more'}
+            </button>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,49 @@
+import { X } from 'lucide-react';
+
+interface TagChipProps {
+  name: string;
+  color: string;
+  selected?: boolean;
+  onClick?: () => void;
+  onRemove?: () => void;
+}
+
+export function TagChip({ name, color, selected = true, onClick, onRemove }: TagChipProps) {
+  const style = selected
+    ? { backgroundColor: `${color}26`, color, borderColor: `${color}66` }
+    : { borderColor: `${color}66` };
+
+  const content = (
+    <>
+      <span className="h-1.5 w-1.5 shrink-0 rounded-full" style={{ backgroundColor: color }} />
+      <span className="truncate">{name}</span>
+    </>
+  );
+
+  return (
+    <span
+      className={`inline-flex max-w-[10rem] items-center gap-1 rounded-md border px-2 py-0.5 text-[10px] font-semibold ${
+        selected ? '' : 'text-slate-600 dark:text-slate-300'
+      }`}
+      style={style}
+    >
+      {onClick ? (
+        <button type="button" onClick={onClick} className="inline-flex min-w-0 items-center gap-1" aria-pressed={selected}>
+          {content}
+        </button>
+      ) : (
+        content
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="-mr-0.5 rounded opacity-70 hover:opacity-100"
+          aria-label={`Remove tag ${name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useMemo, type KeyboardEvent } from 'react';
+import { Plus } from 'lucide-react';
+import { TagChip } from './TagChip';
+
+export interface Tag {
+  id: number;
+  name: string;
+  color: string;
+  taskCount: number;
+}
+
+interface TagInputProps {
+  tags: Tag[];
+  value: number[];
+  onChange: (tagIds: number[]) => void;
+  onCreate: (name: string) => Promise<Tag>;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Selected tags as removable chips plus an autocomplete field.
+ * Enter picks the highlighted suggestion, or creates a new tag when nothing matches.
+ */
+export function TagInput({ tags, value, onChange, onCreate }: TagInputProps) {
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedTags = useMemo(
+    () => value.map((id) => tags.find((t) => t.id === id)).filter((t): t is Tag => Boolean(t)),
+    [tags, value],
+  );
+
+  const trimmed = query.trim();
+  const suggestions = useMemo(() => {
+    const q = trimmed.toLowerCase();
+    return tags
+      .filter((t) => !value.includes(t.id) && (!q || t.name.toLowerCase().includes(q)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [tags, value, trimmed]);
+  const hasExactMatch = tags.some((t) => t.name.toLowerCase() === trimmed.toLowerCase());
+  const canCreate = trimmed.length > 0 && !hasExactMatch;
+
+  const addTag = (tag: Tag) => {
+    if (!value.includes(tag.id)) onChange([...value, tag.id]);
+    setQuery('');
+    setHighlight(0);
+  };
+
+  const createTag = async () => {
+    if (!canCreate || isCreating) return;
+    setIsCreating(true);
+    try {
+      addTag(await onCreate(trimmed));
+    } catch {
+      // The caller reports the error; keep the typed name so it can be retried.
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // The "Create" row, when shown, sits after the suggestions in keyboard order.
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlight((h) => Math.min(h + 1, Math.max(optionCount - 1, 0)));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight((h) => Math.max(h - 1, 0));
+    } else if (e.key === 'Enter' && trimmed) {
+      e.preventDefault();
+      const suggestion = suggestions[highlight];
+      if (suggestion) addTag(suggestion);
+      else if (canCreate) void createTag();
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex min-h-[38px] w-full flex-wrap items-center gap-1.5 rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-2 py-1.5 focus-within:border-sky-400 focus-within:ring-1 focus-within:ring-sky-500">
+        {selectedTags.map((tag) => (
+          <TagChip
+            key={tag.id}
+            name={tag.name}
+            color={tag.color}
+            onRemove={() => onChange(value.filter((id) => id !== tag.id))}
+          />
+        ))}
+        <input
+          id="tags"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlight(0);
+          }}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={selectedTags.length ? '' : 'Add tags...'}
+          className="min-w-[6rem] flex-1 bg-transparent text-sm text-slate-900 dark:text-slate-50 outline-none placeholder:text-slate-400"
+          autoComplete="off"
+        />
+      </div>
+      {isFocused && (suggestions.length > 0 || canCreate) && (
+        <ul className="absolute left-0 right-0 top-full z-40 mt-1 max-h-48 overflow-y-auto rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 py-1 shadow-lg">
+          {suggestions.map((tag, i) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className={`flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-slate-700 dark:text-slate-200 ${
+                  i === highlight ? 'bg-slate-100 dark:bg-slate-800' : 'hover:bg-slate-100 dark:hover:bg-slate-800'
+                }`}
+              >
+                <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: tag.color }} />
+                <span className="truncate">{tag.name}</span>
+                <span className="ml-auto text-[11px] text-slate-400">{tag.taskCount}</span>
+              </button>
+            </li>
+          ))}
+          {canCreate && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => void createTag()}
+                disabled={isCreating}
+                className={`flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-sky-600 dark:text-sky-400 disabled:opacity-60 ${
+                  highlight === suggestions.length ? 'bg-slate-100 dark:bg-slate-800' : 'hover:bg-slate-100 dark:hover:bg-slate-800'
+                }`}
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Create &ldquo;{trimmed}&rdquo;
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
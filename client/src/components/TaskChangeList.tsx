@@ -0,0 +1,57 @@
+import { ArrowRight } from 'lucide-react';
+import { useTimeZone } from '../lib/dueDates';
+import { CHANGE_FIELD_LABELS, formatChangeValue, type NamedRef, type TaskFieldChange } from '../lib/taskChanges';
+
+function TagsDiff({ from, to }: { from: NamedRef[]; to: NamedRef[] }) {
+  const added = to.filter((tag) => !from.some((t) => t.id === tag.id));
+  const removed = from.filter((tag) => !to.some((t) => t.id === tag.id));
+  return (
+    <span className="flex flex-wrap gap-1">
+      {added.map((tag) => (
+        <span
+          key={`+${tag.id}`}
+          className="rounded-md bg-emerald-500/15 px-1.5 py-0.5 text-xs text-emerald-700 dark:text-emerald-400"
+        >
+          +{tag.name}
+        </span>
+      ))}
+      {removed.map((tag) => (
+        <span
+          key={`-${tag.id}`}
+          className="rounded-md bg-red-500/15 px-1.5 py-0.5 text-xs text-red-700 dark:text-red-400 line-through"
+        >
+          {tag.name}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+/** Before → after list of the fields an update changed. */
+export function TaskChangeList({ changes }: { changes: TaskFieldChange[] }) {
+  const timeZone = useTimeZone();
+  return (
+    <ul className="space-y-1.5 text-sm">
+      {changes.map((change) => (
+        <li key={change.field} className="flex flex-wrap items-baseline gap-x-2 gap-y-1">
+          <span className="w-24 shrink-0 text-xs font-medium text-slate-500 dark:text-slate-400">
+            {CHANGE_FIELD_LABELS[change.field]}
+          </span>
+          {change.field === 'tags' ? (
+            <TagsDiff from={(change.from as NamedRef[] | null) ?? []} to={(change.to as NamedRef[] | null) ?? []} />
+          ) : (
+            <span className="flex min-w-0 flex-wrap items-baseline gap-1.5">
+              <span className="break-words text-slate-500 dark:text-slate-400 line-through decoration-slate-400/60">
+                {formatChangeValue(change.field, change.from, timeZone)}
+              </span>
+              <ArrowRight className="h-3 w-3 shrink-0 self-center text-slate-400" />
+              <span className="break-words font-medium text-slate-800 dark:text-slate-100">
+                {formatChangeValue(change.field, change.to, timeZone)}
+              </span>
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState, type FormEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Reorder } from 'framer-motion';
+import { toast } from 'sonner';
+import { CheckSquare, GripVertical, Plus, Square, X } from 'lucide-react';
+import { api } from '../lib/api';
+
+interface ChecklistItem {
+  id: number;
+  title: string;
+  done: boolean;
+  position: number;
+  createdAt: string;
+}
+
+interface TaskChecklistProps {
+  taskId: number;
+}
+
+/** Inline checklist editor shown under a task card. */
+export function TaskChecklist({ taskId }: TaskChecklistProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ['tasks', 'checklist', taskId];
+  const [newTitle, setNewTitle] = useState('');
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const res = await api.get<ChecklistItem[]>(`/tasks/${taskId}/checklist`);
+      return res.data;
+    },
+  });
+
+  /** Optimistically rewrite the cached checklist; returns the previous value for rollback. */
+  const updateItems = async (update: (current: ChecklistItem[]) => ChecklistItem[]) => {
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData<ChecklistItem[]>(queryKey);
+    queryClient.setQueryData<ChecklistItem[]>(queryKey, (current = []) => update(current));
+    return { previous };
+  };
+
+  const rollback = (context: { previous: ChecklistItem[] | undefined } | undefined) => {
+    queryClient.setQueryData(queryKey, context?.previous);
+  };
+
+  const invalidate = () => {
+    void queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    void queryClient.invalidateQueries({ queryKey: ['projects'] });
+    void queryClient.invalidateQueries({ queryKey: ['activity'] });
+  };
+
+  const addMutation = useMutation<ChecklistItem, unknown, string, { previous: ChecklistItem[] | undefined }>({
+    mutationFn: async (title) => {
+      const res = await api.post<ChecklistItem>(`/tasks/${taskId}/checklist`, { title });
+      return res.data;
+    },
+    onMutate: (title) =>
+      updateItems((current) => [
+        ...current,
+        { id: -Date.now(), title, done: false, position: current.length, createdAt: new Date().toISOString() },
+      ]),
+    onError: (_err, _title, context) => {
+      rollback(context);
+      toast.error('Failed to add checklist item');
+    },
+    onSettled: invalidate,
+  });
+
+  const toggleMutation = useMutation<void, unknown, ChecklistItem, { previous: ChecklistItem[] | undefined }>({
+    mutationFn: async (item) => {
+      await api.patch(`/tasks/${taskId}/checklist/${item.id}`, { done: !item.done });
+    },
+    onMutate: (item) =>
+      updateItems((current) => current.map((i) => (i.id === item.id ? { ...i, done: !i.done } : i))),
+    onError: (_err, _item, context) => {
+      rollback(context);
+      toast.error('Failed to update checklist item');
+    },
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation<void, unknown, ChecklistItem, { previous: ChecklistItem[] | undefined }>({
+    mutationFn: async (item) => {
+      await api.delete(`/tasks/${taskId}/checklist/${item.id}`);
+    },
+    onMutate: (item) => updateItems((current) => current.filter((i) => i.id !== item.id)),
+    onError: (_err, _item, context) => {
+      rollback(context);
+      toast.error('Failed to delete checklist item');
+    },
+    onSettled: invalidate,
+  });
+
+  const reorderMutation = useMutation<void, unknown, number[]>({
+    mutationFn: async (itemIds) => {
+      await api.put(`/tasks/${taskId}/checklist/order`, { itemIds });
+    },
+    onError: () => toast.error('Failed to reorder checklist'),
+    onSettled: invalidate,
+  });
+
+  // Dragging only reorders the cache; the new order is saved once the drag ends.
+  const handleReorder = (next: ChecklistItem[]) => {
+    queryClient.setQueryData<ChecklistItem[]>(queryKey, next);
+  };
+
+  const saveOrder = () => {
+    const current = queryClient.getQueryData<ChecklistItem[]>(queryKey) ?? [];
+    if (current.some((item) => item.id < 0)) return;
+    reorderMutation.mutate(current.map((item) => item.id));
+  };
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+    addMutation.mutate(title);
+    setNewTitle('');
+  };
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/40 p-2">
+      {isLoading ? (
+        <div className="h-6 animate-pulse rounded bg-slate-200 dark:bg-slate-800" />
+      ) : (
+        <Reorder.Group axis="y" values={items} onReorder={handleReorder} className="space-y-0.5">
+          {items.map((item) => (
+            <Reorder.Item
+              key={item.id}
+              value={item}
+              onDragEnd={saveOrder}
+              className="group flex items-center gap-1.5 rounded-md bg-slate-50 dark:bg-slate-800/40 px-1 py-1"
+            >
+              <GripVertical className="h-3.5 w-3.5 shrink-0 cursor-grab text-slate-300 dark:text-slate-600" />
+              <button
+                type="button"
+                onClick={() => toggleMutation.mutate(item)}
+                disabled={item.id < 0}
+                className="shrink-0 text-slate-500 dark:text-slate-400 hover:text-sky-600 dark:hover:text-sky-400"
+                aria-label={item.done ? `Uncheck ${item.title}` : `Check ${item.title}`}
+              >
+                {item.done ? <CheckSquare className="h-4 w-4 text-emerald-500" /> : <Square className="h-4 w-4" />}
+              </button>
+              <span
+                className={`min-w-0 flex-1 truncate text-xs ${item.done ? 'line-through text-slate-400 dark:text-slate-500' : 'text-slate-700 dark:text-slate-200'}`}
+              >
+                {item.title}
+              </span>
+              <button
+                type="button"
+                onClick={() => deleteMutation.mutate(item)}
+                disabled={item.id < 0}
+                className="shrink-0 rounded p-0.5 text-slate-400 opacity-0 group-hover:opacity-100 hover:text-red-600 dark:hover:text-red-400 transition"
+                aria-label={`Delete ${item.title}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </Reorder.Item>
+          ))}
+        </Reorder.Group>
+      )}
+      <form onSubmit={handleAdd} className="mt-1 flex items-center gap-1.5 px-1">
+        <Plus className="h-3.5 w-3.5 shrink-0 text-slate-400" />
+        <input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder="Add an item"
+          maxLength={200}
+          className="min-w-0 flex-1 bg-transparent py-1 text-xs text-slate-700 dark:text-slate-200 placeholder:text-slate-400 outline-none"
+        />
+      </form>
+    </div>
+  );
+}
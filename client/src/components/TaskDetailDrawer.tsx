@@ -0,0 +1,324 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import axios from 'axios';
+import { motion } from 'framer-motion';
+import { format, formatDistanceToNow } from 'date-fns';
+import { X, Calendar, CalendarCheck, Hourglass, Flag, FolderKanban, ListChecks, Repeat, Trash2, CheckCircle2, Circle } from 'lucide-react';
+import { api } from '../lib/api';
+import { formatDue, useTimeZone } from '../lib/dueDates';
+import { actionConfig, type ActivityLog } from '../lib/activity';
+import { describeRecurrence, type RecurrenceRule } from '../lib/recurrence';
+import { TaskChangeList } from './TaskChangeList';
+import { TaskReminders } from './TaskReminders';
+import { TagChip } from './TagChip';
+import type { Tag } from './TagInput';
+import type { Project } from './ProjectNavList';
+
+type Priority = 'low' | 'medium' | 'high';
+
+interface TaskDetail {
+  id: number;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  priority: Priority;
+  dueDate: string | null;
+  startDate: string | null;
+  scheduledFor: string | null;
+  createdAt: string;
+  projectId: number | null;
+  tagIds: number[];
+  checklist: { done: number; total: number };
+  recurrence: RecurrenceRule | null;
+  deletedAt: string | null;
+}
+
+interface TaskDetailDrawerProps {
+  taskId: number;
+  onClose: () => void;
+}
+
+const priorityColors: Record<Priority, string> = {
+  low: 'bg-emerald-500/80 text-emerald-950',
+  medium: 'bg-amber-400/80 text-amber-950',
+  high: 'bg-red-500/80 text-red-950',
+};
+
+/**
+ * Side drawer with a task's full details and its activity timeline. Permanently
+ * deleted tasks are shown from the last snapshot in their history.
+ */
+export function TaskDetailDrawer({ taskId, onClose }: TaskDetailDrawerProps) {
+  const timeZone = useTimeZone();
+  const { data: task, isLoading: isTaskLoading } = useQuery({
+    queryKey: ['tasks', 'detail', taskId],
+    queryFn: async () => {
+      try {
+        const res = await api.get<TaskDetail>(`/tasks/${taskId}`);
+        return res.data;
+      } catch (error) {
+        // Gone for good; fall back to the history snapshots.
+        if (axios.isAxiosError(error) && error.response?.status === 404) return null;
+        throw error;
+      }
+    },
+  });
+
+  const { data: history = [], isLoading: isHistoryLoading, error: historyError } = useQuery({
+    queryKey: ['activity', 'task', taskId],
+    queryFn: async () => {
+      const res = await api.get<ActivityLog[]>(`/tasks/${taskId}/history`);
+      return res.data;
+    },
+    retry: false,
+  });
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects'],
+    queryFn: async () => {
+      const res = await api.get<Project[]>('/projects');
+      return res.data;
+    },
+  });
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['tags'],
+    queryFn: async () => {
+      const res = await api.get<Tag[]>('/tags');
+      return res.data;
+    },
+  });
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const snapshot = history[0];
+  const isLoading = isTaskLoading || isHistoryLoading;
+  const isGone = !isLoading && !task && Boolean(snapshot);
+  const title = task?.title ?? snapshot?.taskTitle ?? 'Task';
+  const description = task ? task.description : snapshot?.taskDescription;
+  const dueDate = task ? task.dueDate : snapshot?.taskDueDate;
+  const completed = task ? task.completed : snapshot?.taskCompleted;
+  const project = task?.projectId ? projects.find((p) => p.id === task.projectId) : undefined;
+  const taskTags = task ? tags.filter((tag) => task.tagIds.includes(tag.id)) : [];
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 z-30 bg-slate-900/40 dark:bg-slate-950/60 backdrop-blur-sm"
+        aria-hidden
+      />
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ duration: 0.25, ease: [0.32, 0.72, 0, 1] }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="task-detail-title"
+        className="fixed inset-y-0 right-0 z-40 flex w-full max-w-md flex-col border-l border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl"
+      >
+        <div className="flex items-start justify-between gap-3 border-b border-slate-200 dark:border-slate-800 px-5 py-4">
+          <div className="flex min-w-0 items-start gap-2">
+            {completed ? (
+              <CheckCircle2 className="mt-0.5 h-5 w-5 shrink-0 text-emerald-500" />
+            ) : (
+              <Circle className="mt-0.5 h-5 w-5 shrink-0 text-slate-400 dark:text-slate-500" />
+            )}
+            <h2
+              id="task-detail-title"
+              className={`text-lg font-semibold text-slate-900 dark:text-slate-50 break-words ${completed ? 'line-through opacity-70' : ''}`}
+            >
+              {isLoading ? 'Loading…' : title}
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="shrink-0 rounded-lg p-1.5 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-6 overflow-y-auto px-5 py-4">
+          {isLoading ? (
+            <div className="space-y-3">
+              <div className="h-4 w-2/3 animate-pulse rounded bg-slate-200 dark:bg-slate-800" />
+              <div className="h-4 w-1/2 animate-pulse rounded bg-slate-200 dark:bg-slate-800" />
+              <div className="h-20 animate-pulse rounded bg-slate-100 dark:bg-slate-800/60" />
+            </div>
+          ) : !task && !snapshot ? (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {historyError ? 'This task could not be found.' : 'Failed to load this task.'}
+            </p>
+          ) : (
+            <>
+              {task?.deletedAt && (
+                <div className="flex items-center justify-between gap-3 rounded-lg border border-amber-300/60 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 px-3 py-2 text-xs text-amber-800 dark:text-amber-300">
+                  <span className="inline-flex items-center gap-1.5">
+                    <Trash2 className="h-3.5 w-3.5" />
+                    In the trash since {format(new Date(task.deletedAt), 'PP')}
+                  </span>
+                  <Link to="/trash" className="font-semibold underline-offset-2 hover:underline">
+                    Open trash
+                  </Link>
+                </div>
+              )}
+              {isGone && (
+                <div className="rounded-lg border border-red-300/60 dark:border-red-500/30 bg-red-50 dark:bg-red-500/10 px-3 py-2 text-xs text-red-700 dark:text-red-300">
+                  This task was deleted permanently. Details below come from its last recorded snapshot.
+                </div>
+              )}
+
+              <dl className="grid grid-cols-2 gap-3 text-sm">
+                {task && (
+                  <div>
+                    <dt className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Priority</dt>
+                    <dd className="mt-1">
+                      <span className={`inline-flex items-center gap-1 rounded-md px-2 py-0.5 text-xs font-semibold ${priorityColors[task.priority]}`}>
+                        <Flag className="h-3 w-3" />
+                        {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
+                      </span>
+                    </dd>
+                  </div>
+                )}
+                <div>
+                  <dt className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Due</dt>
+                  <dd className="mt-1 inline-flex items-center gap-1 text-slate-700 dark:text-slate-300">
+                    <Calendar className="h-3.5 w-3.5" />
+                    {dueDate ? formatDue(dueDate, timeZone, 'PPP') : 'No due date'}
+                  </dd>
+                </div>
+                {task?.startDate && (
+                  <div>
+                    <dt className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Starts</dt>
+                    <dd className="mt-1 inline-flex items-center gap-1 text-slate-700 dark:text-slate-300">
+                      <Hourglass className="h-3.5 w-3.5" />
+                      {formatDue(task.startDate, timeZone, 'PPP')}
+                    </dd>
+                  </div>
+                )}
+                {task?.scheduledFor && (
+                  <div>
+                    <dt className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Planned for</dt>
+                    <dd className="mt-1 inline-flex items-center gap-1 text-slate-700 dark:text-slate-300">
+                      <CalendarCheck className="h-3.5 w-3.5" />
+                      {formatDue(task.scheduledFor, timeZone, 'PPP')}
+                    </dd>
+                  </div>
+                )}
+                {task && (
+                  <div>
+                    <dt className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Project</dt>
+                    <dd className="mt-1 inline-flex items-center gap-1 text-slate-700 dark:text-slate-300">
+                      <FolderKanban className="h-3.5 w-3.5" />
+                      {project ? (
+                        <Link to={`/projects/${project.id}`} className="hover:text-sky-600 dark:hover:text-sky-400">
+                          {project.name}
+                        </Link>
+                      ) : task.projectId ? (
+                        'Archived project'
+                      ) : (
+                        'Inbox'
+                      )}
+                    </dd>
+                  </div>
+                )}
+                {task && task.checklist.total > 0 && (
+                  <div>
+                    <dt className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Checklist</dt>
+                    <dd className="mt-1 inline-flex items-center gap-1 text-slate-700 dark:text-slate-300">
+                      <ListChecks className="h-3.5 w-3.5" />
+                      {task.checklist.done}/{task.checklist.total} done
+                    </dd>
+                  </div>
+                )}
+                {task?.recurrence && (
+                  <div className="col-span-2">
+                    <dt className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Repeats</dt>
+                    <dd className="mt-1 inline-flex items-center gap-1 text-slate-700 dark:text-slate-300">
+                      <Repeat className="h-3.5 w-3.5" />
+                      {describeRecurrence(task.recurrence)}
+                    </dd>
+                  </div>
+                )}
+                {task && (
+                  <div className="col-span-2">
+                    <dt className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Created</dt>
+                    <dd className="mt-1 text-slate-700 dark:text-slate-300">{format(new Date(task.createdAt), 'PPp')}</dd>
+                  </div>
+                )}
+              </dl>
+
+              {taskTags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {taskTags.map((tag) => (
+                    <TagChip key={tag.id} name={tag.name} color={tag.color} />
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Description</h3>
+                <p className="mt-1 whitespace-pre-wrap text-sm text-slate-700 dark:text-slate-300">
+                  {description || <span className="italic text-slate-400">No description</span>}
+                </p>
+              </div>
+
+              {task && !task.deletedAt && (
+                <TaskReminders taskId={task.id} hasDueDate={Boolean(task.dueDate)} timeZone={timeZone} />
+              )}
+
+              <div>
+                <h3 className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">History</h3>
+                {history.length === 0 ? (
+                  <p className="mt-2 text-sm text-slate-500 dark:text-slate-400">No recorded activity.</p>
+                ) : (
+                  <ol className="relative mt-3 space-y-4 border-l border-slate-200 dark:border-slate-700 pl-5">
+                    {history.map((entry) => {
+                      const config = actionConfig[entry.action];
+                      const Icon = config.icon;
+                      return (
+                        <li key={entry.id} className="relative">
+                          <span
+                            className={`absolute -left-[31px] flex h-5 w-5 items-center justify-center rounded-full ring-4 ring-white dark:ring-slate-900 ${config.className}`}
+                          >
+                            <Icon className="h-3 w-3" />
+                          </span>
+                          <p className="text-sm font-medium text-slate-800 dark:text-slate-100">{config.label}</p>
+                          <p className="text-xs text-slate-500 dark:text-slate-400" title={format(new Date(entry.createdAt), 'PPp')}>
+                            {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                          </p>
+                          {entry.detail && (
+                            <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">{entry.detail}</p>
+                          )}
+                          {entry.changes && (
+                            <div className="mt-2">
+                              <TaskChangeList changes={entry.changes} />
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </motion.aside>
+    </>
+  );
+}
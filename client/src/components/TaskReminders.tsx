@@ -0,0 +1,169 @@
+import { useState, type FormEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { BellRing, Check, Plus, X } from 'lucide-react';
+import { api, getErrorMessage } from '../lib/api';
+import { formatDue, fromDueInputs } from '../lib/dueDates';
+import { describeReminderOffset, REMINDER_PRESETS, type Reminder } from '../lib/reminders';
+
+interface TaskRemindersProps {
+  taskId: number;
+  hasDueDate: boolean;
+  timeZone: string;
+}
+
+type NewReminder = { offsetMinutes: number } | { remindAt: string };
+
+/**
+ * Reminders section of the task drawer. Relative reminders follow the due date;
+ * a custom one fires at a fixed moment. The server sends them, so they arrive
+ * even when no browser is open.
+ */
+export function TaskReminders({ taskId, hasDueDate, timeZone }: TaskRemindersProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ['tasks', 'reminders', taskId];
+  const [preset, setPreset] = useState('');
+  const [customAt, setCustomAt] = useState('');
+
+  const { data: reminders = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const res = await api.get<Reminder[]>(`/tasks/${taskId}/reminders`);
+      return res.data;
+    },
+  });
+
+  const addMutation = useMutation<Reminder, unknown, NewReminder>({
+    mutationFn: async (reminder) => {
+      const res = await api.post<Reminder>(`/tasks/${taskId}/reminders`, reminder);
+      return res.data;
+    },
+    onSuccess: () => {
+      setPreset('');
+      setCustomAt('');
+    },
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to add reminder')),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const deleteMutation = useMutation<void, unknown, Reminder, { previous: Reminder[] | undefined }>({
+    mutationFn: async (reminder) => {
+      await api.delete(`/tasks/${taskId}/reminders/${reminder.id}`);
+    },
+    onMutate: async (reminder) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Reminder[]>(queryKey);
+      queryClient.setQueryData<Reminder[]>(queryKey, (current = []) => current.filter((r) => r.id !== reminder.id));
+      return { previous };
+    },
+    onError: (_err, _reminder, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast.error('Failed to delete reminder');
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const usedOffsets = new Set(reminders.map((r) => r.offsetMinutes));
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    if (preset === 'custom') {
+      const [date = '', time = ''] = customAt.split('T');
+      const remindAt = fromDueInputs(date, time, timeZone);
+      if (!remindAt || !time) {
+        toast.error('Pick a date and time for the reminder');
+        return;
+      }
+      addMutation.mutate({ remindAt });
+    } else if (preset) {
+      addMutation.mutate({ offsetMinutes: Number(preset) });
+    }
+  };
+
+  const describe = (reminder: Reminder) =>
+    reminder.offsetMinutes !== null
+      ? describeReminderOffset(reminder.offsetMinutes)
+      : formatDue(reminder.remindAt ?? '', timeZone);
+
+  return (
+    <div>
+      <h3 className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">Reminders</h3>
+      {isLoading ? (
+        <div className="mt-2 h-6 animate-pulse rounded bg-slate-200 dark:bg-slate-800" />
+      ) : reminders.length === 0 ? (
+        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">No reminders.</p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {reminders.map((reminder) => (
+            <li
+              key={reminder.id}
+              className="group flex items-center gap-2 rounded-lg bg-slate-50 dark:bg-slate-800/40 px-2 py-1.5 text-sm"
+            >
+              {reminder.firedAt ? (
+                <Check className="h-3.5 w-3.5 shrink-0 text-emerald-500" />
+              ) : (
+                <BellRing className="h-3.5 w-3.5 shrink-0 text-sky-500" />
+              )}
+              <span className="min-w-0 flex-1 truncate text-slate-700 dark:text-slate-200">{describe(reminder)}</span>
+              <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400">
+                {reminder.firedAt
+                  ? `Sent ${formatDistanceToNow(new Date(reminder.firedAt), { addSuffix: true })}`
+                  : reminder.fireAt
+                    ? formatDue(reminder.fireAt, timeZone)
+                    : 'Needs a due date'}
+              </span>
+              <button
+                type="button"
+                onClick={() => deleteMutation.mutate(reminder)}
+                className="shrink-0 rounded p-0.5 text-slate-400 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-600 dark:hover:text-red-400 transition"
+                aria-label={`Delete reminder ${describe(reminder)}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="mt-2 flex flex-wrap items-center gap-2">
+        <select
+          value={preset}
+          onChange={(e) => setPreset(e.target.value)}
+          aria-label="New reminder"
+          className="min-w-0 flex-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-2 py-1.5 text-xs text-slate-700 dark:text-slate-200 outline-none focus:border-sky-500"
+        >
+          <option value="">Add a reminder…</option>
+          {REMINDER_PRESETS.map((offset) => (
+            <option key={offset} value={offset} disabled={!hasDueDate || usedOffsets.has(offset)}>
+              {describeReminderOffset(offset)}
+            </option>
+          ))}
+          <option value="custom">At a specific time…</option>
+        </select>
+        {preset === 'custom' && (
+          <input
+            type="datetime-local"
+            value={customAt}
+            onChange={(e) => setCustomAt(e.target.value)}
+            aria-label="Reminder time"
+            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-2 py-1 text-xs text-slate-700 dark:text-slate-200 outline-none focus:border-sky-500"
+          />
+        )}
+        <button
+          type="submit"
+          disabled={!preset || addMutation.isPending}
+          className="inline-flex items-center gap-1 rounded-lg bg-sky-500 px-2.5 py-1.5 text-xs font-semibold text-white hover:bg-sky-600 disabled:opacity-50 transition"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </button>
+      </form>
+      {!hasDueDate && (
+        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+          Set a due date to get reminded relative to it.
+        </p>
+      )}
+    </div>
+  );
+}
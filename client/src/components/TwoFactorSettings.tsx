@@ -0,0 +1,320 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { ShieldCheck, ShieldOff, Copy, Download, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { api, getErrorMessage } from '../lib/api';
+
+interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface MfaSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+type Step = 'idle' | 'setup' | 'disable' | 'regenerate';
+
+const inputClass =
+  'w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2.5 text-sm focus:border-sky-500 focus:ring-2 focus:ring-sky-500/20 outline-none transition';
+const primaryButtonClass =
+  'rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/25 hover:from-sky-600 hover:to-indigo-600 disabled:opacity-70 transition';
+const secondaryButtonClass =
+  'rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-2.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition';
+
+/**
+ * Profile card for authenticator-app two-factor auth: enrollment with a QR code,
+ * one-time display of recovery codes, regenerating them and turning MFA off.
+ */
+export function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('idle');
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['auth', 'mfa'],
+    queryFn: async () => {
+      const res = await api.get<MfaStatus>('/api/auth/mfa');
+      return res.data;
+    },
+  });
+
+  const reset = (next: Step = 'idle') => {
+    setStep(next);
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  const showCodes = (codes: string[]) => {
+    setRecoveryCodes(codes);
+    setSetup(null);
+    reset();
+    void queryClient.invalidateQueries({ queryKey: ['auth', 'mfa'] });
+    void queryClient.invalidateQueries({ queryKey: ['auth', 'security-events'] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => (await api.post<MfaSetup>('/api/auth/mfa/setup')).data,
+    onSuccess: (data) => {
+      setSetup(data);
+      setRecoveryCodes(null);
+      reset('setup');
+    },
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to start two-factor setup')),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () =>
+      (await api.post<{ recoveryCodes: string[] }>('/api/auth/mfa/enable', { code: code.trim() })).data,
+    onSuccess: (data) => {
+      toast.success('Two-factor authentication enabled');
+      showCodes(data.recoveryCodes);
+    },
+    onError: (err) => setError(getErrorMessage(err, 'Invalid authentication code')),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () =>
+      (await api.post<{ recoveryCodes: string[] }>('/api/auth/mfa/recovery-codes', { password })).data,
+    onSuccess: (data) => {
+      toast.success('New recovery codes generated');
+      showCodes(data.recoveryCodes);
+    },
+    onError: (err) => setError(getErrorMessage(err, 'Failed to generate recovery codes')),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await api.post('/api/auth/mfa/disable', { password, code: code.trim() });
+    },
+    onSuccess: () => {
+      toast.success('Two-factor authentication disabled');
+      setRecoveryCodes(null);
+      reset();
+      void queryClient.invalidateQueries({ queryKey: ['auth', 'mfa'] });
+      void queryClient.invalidateQueries({ queryKey: ['auth', 'security-events'] });
+    },
+    onError: (err) => setError(getErrorMessage(err, 'Failed to disable two-factor authentication')),
+  });
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`Vitasoft recovery codes\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'vitasoft-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const enabled = status?.enabled ?? false;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.105, duration: 0.3 }}
+      className="rounded-2xl border border-slate-200 dark:border-slate-700/80 bg-white dark:bg-slate-900/60 p-6 shadow-sm backdrop-blur-sm"
+    >
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <ShieldCheck className="h-4 w-4" />
+          Two-factor authentication
+        </h2>
+        {!isLoading && (
+          <span
+            className={`rounded-md px-1.5 py-0.5 text-[10px] font-semibold uppercase ${
+              enabled
+                ? 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-400'
+                : 'bg-slate-500/15 text-slate-600 dark:text-slate-400'
+            }`}
+          >
+            {enabled ? 'On' : 'Off'}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="h-12 animate-pulse rounded-xl bg-slate-100 dark:bg-slate-800/60" />
+      ) : recoveryCodes ? (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            authenticator. They won't be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 rounded-xl bg-slate-50 dark:bg-slate-800/60 p-4 font-mono text-sm text-slate-800 dark:text-slate-200">
+            {recoveryCodes.map((c) => (
+              <li key={c}>{c}</li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => void copyCodes()} className={`${secondaryButtonClass} inline-flex items-center gap-2`}>
+              <Copy className="h-4 w-4" />
+              Copy
+            </button>
+            <button type="button" onClick={downloadCodes} className={`${secondaryButtonClass} inline-flex items-center gap-2`}>
+              <Download className="h-4 w-4" />
+              Download
+            </button>
+            <button type="button" onClick={() => setRecoveryCodes(null)} className={primaryButtonClass}>
+              I've saved them
+            </button>
+          </div>
+        </div>
+      ) : step === 'setup' && setup ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setError(null);
+            enableMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Scan the QR code with an authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col items-center gap-3 sm:flex-row sm:items-start">
+            <img
+              src={setup.qrCodeDataUrl}
+              alt="QR code for your authenticator app"
+              className="h-40 w-40 rounded-xl bg-white p-2"
+            />
+            <div className="min-w-0 text-sm">
+              <p className="text-slate-500 dark:text-slate-400">Can't scan? Enter this key manually:</p>
+              <code className="mt-1 block break-all font-mono text-slate-900 dark:text-slate-100">{setup.secret}</code>
+            </div>
+          </div>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            className={`${inputClass} font-mono tracking-widest`}
+          />
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button type="submit" disabled={enableMutation.isPending || !code.trim()} className={primaryButtonClass}>
+              {enableMutation.isPending ? 'Verifying...' : 'Turn on'}
+            </button>
+            <button type="button" onClick={() => reset()} className={secondaryButtonClass}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : step === 'disable' || step === 'regenerate' ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setError(null);
+            if (step === 'disable') disableMutation.mutate();
+            else regenerateMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {step === 'disable'
+              ? 'Confirm with your password and a code from your authenticator app or a recovery code.'
+              : 'Confirm with your password. Your current recovery codes will stop working.'}
+          </p>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            required
+            className={inputClass}
+          />
+          {step === 'disable' && (
+            <input
+              type="text"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Authentication or recovery code"
+              required
+              className={`${inputClass} font-mono`}
+            />
+          )}
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={disableMutation.isPending || regenerateMutation.isPending}
+              className={
+                step === 'disable'
+                  ? 'rounded-xl bg-red-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-70 transition'
+                  : primaryButtonClass
+              }
+            >
+              {step === 'disable' ? 'Turn off' : 'Generate new codes'}
+            </button>
+            <button type="button" onClick={() => reset()} className={secondaryButtonClass}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : enabled ? (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Sign-ins ask for a code from your authenticator app.{' '}
+            {status?.recoveryCodesRemaining === 0
+              ? 'You have no recovery codes left.'
+              : `${status?.recoveryCodesRemaining} recovery code${status?.recoveryCodesRemaining === 1 ? '' : 's'} left.`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => reset('regenerate')} className={`${secondaryButtonClass} inline-flex items-center gap-2`}>
+              <RefreshCw className="h-4 w-4" />
+              New recovery codes
+            </button>
+            <button
+              type="button"
+              onClick={() => reset('disable')}
+              className="inline-flex items-center gap-2 rounded-xl px-4 py-2.5 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-500/10 transition"
+            >
+              <ShieldOff className="h-4 w-4" />
+              Turn off
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Add a second step to sign-in with a code from an authenticator app such as Google
+            Authenticator, 1Password or Authy.
+          </p>
+          <button
+            type="button"
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            className={primaryButtonClass}
+          >
+            {setupMutation.isPending ? 'Preparing...' : 'Set up two-factor authentication'}
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
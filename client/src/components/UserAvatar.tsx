@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { avatarSrc } from '../lib/profile';
+
+interface UserAvatarProps {
+  user: { username?: string | null; email?: string | null; avatarUrls?: Record<number, string> | null } | null;
+  /** Rendered size in CSS pixels; a sharper image is picked for high-density screens. */
+  size: number;
+  className?: string;
+  /** Characters of the name to show when there is no picture. */
+  initialsLength?: number;
+}
+
+/**
+ * The user's avatar image, or their initials when there is none or it fails to
+ * load (e.g. its signed URL has expired). Sizing and shape come from `className`.
+ */
+export function UserAvatar({ user, size, className = '', initialsLength = 1 }: UserAvatarProps) {
+  const src = avatarSrc(user?.avatarUrls, size * 2);
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+  const initials = (user?.username || user?.email || '?').slice(0, initialsLength).toUpperCase();
+
+  if (src && src !== failedSrc) {
+    return (
+      <img
+        src={src}
+        alt=""
+        width={size}
+        height={size}
+        onError={() => setFailedSrc(src)}
+        className={`object-cover ${className}`}
+      />
+    );
+  }
+
+  return (
+    <span aria-hidden="true" className={`flex items-center justify-center ${className}`}>
+      {initials}
+    </span>
+  );
+}
@@ -0,0 +1,61 @@
+import { Plus, Pencil, CheckCircle2, Trash2, ListChecks, RotateCcw, Undo2 } from 'lucide-react';
+import type { TaskFieldChange } from './taskChanges';
+
+export type ActionType = 'created' | 'updated' | 'completed' | 'deleted' | 'restored' | 'reverted' | 'checklist';
+
+/** Mirrors the server's ActivityLogResponseDto. */
+export interface ActivityLog {
+  id: number;
+  userId: number;
+  action: ActionType;
+  taskId: number | null;
+  taskTitle: string | null;
+  taskDescription: string | null;
+  taskDueDate: string | null;
+  taskCompleted: boolean | null;
+  detail: string | null;
+  changes: TaskFieldChange[] | null;
+  createdAt: string;
+}
+
+/** Icon, label and badge colours for each activity action. */
+export const actionConfig: Record<
+  ActionType,
+  { icon: typeof Plus; label: string; className: string }
+> = {
+  created: {
+    icon: Plus,
+    label: 'Created',
+    className: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-400',
+  },
+  updated: {
+    icon: Pencil,
+    label: 'Updated',
+    className: 'bg-sky-500/15 text-sky-700 dark:text-sky-400',
+  },
+  completed: {
+    icon: CheckCircle2,
+    label: 'Completed',
+    className: 'bg-violet-500/15 text-violet-700 dark:text-violet-400',
+  },
+  deleted: {
+    icon: Trash2,
+    label: 'Deleted',
+    className: 'bg-red-500/15 text-red-700 dark:text-red-400',
+  },
+  restored: {
+    icon: RotateCcw,
+    label: 'Restored',
+    className: 'bg-teal-500/15 text-teal-700 dark:text-teal-400',
+  },
+  reverted: {
+    icon: Undo2,
+    label: 'Reverted',
+    className: 'bg-indigo-500/15 text-indigo-700 dark:text-indigo-400',
+  },
+  checklist: {
+    icon: ListChecks,
+    label: 'Checklist',
+    className: 'bg-amber-500/15 text-amber-700 dark:text-amber-400',
+  },
+};
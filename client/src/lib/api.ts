@@ -1,9 +1,19 @@
 import axios, { AxiosHeaders } from 'axios';
 import { useAuthStore } from '../store/authStore';
 
-export const api = axios.create({
-  baseURL: import.meta.env.VITE_API_URL ?? 'http://localhost:4000',
-});
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Set on a request that is being replayed after a token refresh. */
+    _retried?: boolean;
+  }
+}
+
+const baseURL = import.meta.env.VITE_API_URL ?? 'http://localhost:4000';
+
+export const api = axios.create({ baseURL });
+
+// Token endpoints go through a bare client so their 401s never trigger another refresh.
+const authClient = axios.create({ baseURL });
 
 api.interceptors.request.use((config) => {
   const token = useAuthStore.getState().token;
@@ -15,11 +25,55 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+let refreshPromise: Promise<boolean> | null = null;
+
+/** Web Lock held while a tab renews the token pair, so tabs take turns. */
+const REFRESH_LOCK = 'vitasoft_token_refresh';
+
+/**
+ * Exchanges `staleToken` for a new pair, unless another tab already did so while
+ * this one waited for the lock: then the pair it stored is used instead.
+ */
+async function renewTokens(staleToken: string | null): Promise<boolean> {
+  useAuthStore.getState().syncFromStorage();
+  const { refreshToken, setTokens } = useAuthStore.getState();
+  if (!refreshToken) return false;
+  if (refreshToken !== staleToken) return true;
+  try {
+    const res = await authClient.post<{ token: string; refreshToken: string }>('/api/auth/refresh', {
+      refreshToken,
+    });
+    setTokens(res.data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Renews the access token with the stored refresh token. The server rotates the
+ * refresh token on every use, so concurrent callers share one request and other
+ * tabs wait on a Web Lock (where the browser has them) instead of racing.
+ */
+function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    const staleToken = useAuthStore.getState().refreshToken;
+    const run = async () =>
+      'locks' in navigator
+        ? navigator.locks.request(REFRESH_LOCK, () => renewTokens(staleToken))
+        : renewTokens(staleToken);
+    refreshPromise = run().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
 let isHandlingUnauthorized = false;
 
 api.interceptors.response.use(
   (response) => response,
-  (error: unknown) => {
+  async (error: unknown) => {
     if (axios.isAxiosError(error) && error.response?.status === 401) {
       // change-password 401 = wrong current password: do not logout, let component handle it
       const config = error.config;
@@ -29,7 +83,13 @@ api.interceptors.response.use(
         return Promise.reject(error);
       }
 
-      // Token missing/invalid/expired: clear auth and redirect to login
+      // Access token expired: renew it once and replay the request
+      if (config && !config._retried && (await refreshAccessToken())) {
+        config._retried = true;
+        return api.request(config);
+      }
+
+      // Session gone for good: clear auth and redirect to login
       if (!isHandlingUnauthorized) {
         isHandlingUnauthorized = true;
         useAuthStore.getState().logout();
@@ -50,3 +110,44 @@ api.interceptors.response.use(
   },
 );
 
+/** Ends the current session on the server, then clears it locally. */
+export async function signOut(): Promise<void> {
+  const { refreshToken, logout } = useAuthStore.getState();
+  if (refreshToken) {
+    try {
+      await authClient.post('/api/auth/logout', { refreshToken });
+    } catch {
+      // Signing out locally still works when the server is unreachable.
+    }
+  }
+  logout();
+}
+
+/** Message from an API error response, or the fallback when the server sent none. */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error)) {
+    const msg = (error.response?.data as { message?: string } | undefined)?.message;
+    if (msg) return msg;
+  }
+  return fallback;
+}
+
+/**
+ * Seconds a throttled (429) request asks the caller to wait: the Retry-After
+ * header, or `retryAfter` in the body. Null for any other error.
+ */
+export function getRetryAfterSeconds(error: unknown): number | null {
+  if (!axios.isAxiosError(error) || error.response?.status !== 429) return null;
+  const header = Number(error.response.headers['retry-after']);
+  if (Number.isFinite(header) && header > 0) return header;
+  const body = (error.response.data as { retryAfter?: number } | undefined)?.retryAfter;
+  return typeof body === 'number' && body > 0 ? body : null;
+}
+
+/** Machine-readable `code` from an API error response, e.g. 'EMAIL_NOT_VERIFIED'. */
+export function getErrorCode(error: unknown): string | undefined {
+  if (axios.isAxiosError(error)) {
+    return (error.response?.data as { code?: string } | undefined)?.code;
+  }
+  return undefined;
+}
@@ -0,0 +1,104 @@
+import { TZDate } from '@date-fns/tz';
+import { format, formatDistanceStrict } from 'date-fns';
+import { resolveTimeZone } from './preferences';
+import { usePreferencesStore } from '../store/preferencesStore';
+
+/**
+ * Due dates come from the API as "YYYY-MM-DD" for all-day tasks and as an ISO
+ * timestamp otherwise. A calendar date has no moment of its own, so everything
+ * here reads it in the user's time zone.
+ */
+
+export type DueStatus = 'overdue' | 'dueToday' | 'dueSoon' | 'later';
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isDateOnly(dueDate: string): boolean {
+  return DATE_ONLY_REGEX.test(dueDate);
+}
+
+/** The time zone from the user's preferences, or the browser's. */
+export function useTimeZone(): string {
+  return resolveTimeZone(usePreferencesStore((s) => s.preferences.timezone));
+}
+
+/** The calendar date (YYYY-MM-DD) it is in `timeZone` at `instant`. */
+export function dayIn(timeZone: string, instant: Date = new Date()): string {
+  return format(new TZDate(instant, timeZone), 'yyyy-MM-dd');
+}
+
+/** Midnight at the start of a YYYY-MM-DD date in `timeZone`. */
+function startOfDayIn(day: string, timeZone: string): TZDate {
+  const [year = 0, month = 1, date = 1] = day.split('-').map(Number);
+  return new TZDate(year, month - 1, date, timeZone);
+}
+
+/**
+ * Where a due date stands at `now`. An all-day task is due today for the whole
+ * of that day and only becomes overdue once the day is over in `timeZone`.
+ */
+export function getDueStatus(dueDate: string, timeZone: string, dueSoonHours: number, now = new Date()): DueStatus {
+  const today = dayIn(timeZone, now);
+  const soon = now.getTime() + dueSoonHours * HOUR_MS;
+
+  if (isDateOnly(dueDate)) {
+    if (dueDate < today) return 'overdue';
+    if (dueDate === today) return 'dueToday';
+    return startOfDayIn(dueDate, timeZone).getTime() <= soon ? 'dueSoon' : 'later';
+  }
+
+  const due = new Date(dueDate);
+  if (due.getTime() < now.getTime()) return 'overdue';
+  if (dayIn(timeZone, due) === today) return 'dueToday';
+  return due.getTime() <= soon ? 'dueSoon' : 'later';
+}
+
+/** The moment a due date is reached: the given time, or midnight starting the day in `timeZone`. */
+export function dueMoment(dueDate: string, timeZone: string): Date {
+  return isDateOnly(dueDate) ? startOfDayIn(dueDate, timeZone) : new Date(dueDate);
+}
+
+/** "in 3 days" style distance to a due date, measured in whole days for all-day tasks. */
+export function formatDueDistance(dueDate: string, timeZone: string, now = new Date()): string {
+  if (!isDateOnly(dueDate)) return formatDistanceStrict(new Date(dueDate), now, { addSuffix: true });
+  return formatDistanceStrict(startOfDayIn(dueDate, timeZone), startOfDayIn(dayIn(timeZone, now), timeZone), {
+    addSuffix: true,
+    unit: 'day',
+  });
+}
+
+/**
+ * Formats a due date for display with a date-fns pattern; timed due dates also
+ * get the time of day in `timeZone`.
+ */
+export function formatDue(dueDate: string, timeZone: string, dateFormat = 'PP'): string {
+  if (isDateOnly(dueDate)) return format(startOfDayIn(dueDate, timeZone), dateFormat);
+  return format(new TZDate(new Date(dueDate), timeZone), `${dateFormat}, p`);
+}
+
+/** The time of day a due date falls at in `timeZone`, or "All day". */
+export function formatDueTime(dueDate: string, timeZone: string): string {
+  return isDateOnly(dueDate) ? 'All day' : format(new TZDate(new Date(dueDate), timeZone), 'p');
+}
+
+/** Splits a due date into the values of a date input and an (optional) time input. */
+export function toDueInputs(dueDate: string | null | undefined, timeZone: string): { date: string; time: string } {
+  if (!dueDate) return { date: '', time: '' };
+  if (isDateOnly(dueDate)) return { date: dueDate, time: '' };
+  const local = new TZDate(new Date(dueDate), timeZone);
+  return { date: format(local, 'yyyy-MM-dd'), time: format(local, 'HH:mm') };
+}
+
+/**
+ * The due date to send for a date input and an optional time input: the date
+ * alone for an all-day task, otherwise that wall-clock time in `timeZone`.
+ */
+export function fromDueInputs(date: string, time: string, timeZone: string): string | null {
+  if (!date) return null;
+  if (!time) return date;
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return new TZDate(year, month - 1, day, hours, minutes, timeZone).toISOString();
+}
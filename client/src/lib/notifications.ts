@@ -0,0 +1,47 @@
+import { AlarmClock, AlertTriangle, Clock, Info } from 'lucide-react';
+
+export type NotificationKind = 'due_soon' | 'overdue' | 'reminder' | 'system';
+
+/** Mirrors the server's NotificationResponseDto. */
+export interface AppNotification {
+  id: number;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  taskId: number | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPage {
+  items: AppNotification[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
+/** Icon, label and colours for each kind of notification. */
+export const notificationKindConfig: Record<
+  NotificationKind,
+  { icon: typeof Info; label: string; className: string }
+> = {
+  overdue: {
+    icon: AlertTriangle,
+    label: 'Overdue',
+    className: 'bg-red-500/15 text-red-700 dark:text-red-400',
+  },
+  due_soon: {
+    icon: Clock,
+    label: 'Due soon',
+    className: 'bg-amber-500/15 text-amber-700 dark:text-amber-400',
+  },
+  reminder: {
+    icon: AlarmClock,
+    label: 'Reminder',
+    className: 'bg-sky-500/15 text-sky-700 dark:text-sky-400',
+  },
+  system: {
+    icon: Info,
+    label: 'System',
+    className: 'bg-slate-500/15 text-slate-700 dark:text-slate-300',
+  },
+};
@@ -0,0 +1,12 @@
+/** Hint shown next to new-password fields; mirrors `validatePassword`. */
+export const PASSWORD_RULES_HINT = '8+ chars, 1 uppercase, 1 number, 1 special char';
+
+/** Client-side copy of the server's password rules, so forms can fail fast. */
+export function validatePassword(password: string): string | null {
+  if (password.length < 8) return 'Password must be at least 8 characters';
+  if (!/[A-Z]/.test(password)) return 'Password must contain at least 1 uppercase letter';
+  if (!/[0-9]/.test(password)) return 'Password must contain at least 1 number';
+  if (!/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?`~]/.test(password))
+    return 'Password must contain at least 1 special character';
+  return null;
+}
@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from './api';
+import {
+  usePreferencesStore,
+  type NotificationPreferences,
+  type TaskSortKey,
+  type UserPreferences,
+} from '../store/preferencesStore';
+import { useThemeStore } from '../store/themeStore';
+
+export type PreferencesUpdate = Partial<Omit<UserPreferences, 'notifications'>> & {
+  notifications?: Partial<NotificationPreferences>;
+};
+
+export const PREFERENCES_QUERY_KEY = ['auth', 'preferences'] as const;
+
+/** Sort choices offered on the task list, as `key:order`. */
+export const TASK_SORT_OPTIONS: { value: `${TaskSortKey}:${'asc' | 'desc'}`; label: string }[] = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'dueDate:asc', label: 'Due date' },
+  { value: 'priority:desc', label: 'Priority' },
+  { value: 'title:asc', label: 'Title A–Z' },
+];
+
+/** Puts the preferences into effect: the preferences store and the theme. */
+function applyPreferences(preferences: UserPreferences) {
+  usePreferencesStore.getState().setPreferences(preferences);
+  if (useThemeStore.getState().theme !== preferences.theme) {
+    useThemeStore.getState().setTheme(preferences.theme);
+  }
+}
+
+function mergePreferences(current: UserPreferences, changes: PreferencesUpdate): UserPreferences {
+  return {
+    ...current,
+    ...changes,
+    notifications: { ...current.notifications, ...changes.notifications },
+  };
+}
+
+/** The zone dates are shown in: the user's chosen one, or the browser's. */
+export function resolveTimeZone(timezone: string | null): string {
+  return timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Loads the signed-in user's preferences from the server and applies them, so
+ * settings made in another browser take effect here.
+ */
+export function usePreferences({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: PREFERENCES_QUERY_KEY,
+    enabled,
+    queryFn: async () => {
+      const res = await api.get<UserPreferences>('/api/auth/me/preferences');
+      applyPreferences(res.data);
+      return res.data;
+    },
+  });
+}
+
+/**
+ * Saves preference changes. They apply immediately and are rolled back if the
+ * server rejects them.
+ */
+export function useUpdatePreferences() {
+  const queryClient = useQueryClient();
+  return useMutation<UserPreferences, unknown, PreferencesUpdate, { previous: UserPreferences }>({
+    mutationFn: async (changes) => {
+      const res = await api.put<UserPreferences>('/api/auth/me/preferences', changes);
+      return res.data;
+    },
+    onMutate: (changes) => {
+      const previous = usePreferencesStore.getState().preferences;
+      applyPreferences(mergePreferences(previous, changes));
+      return { previous };
+    },
+    onError: (_err, _changes, context) => {
+      if (context) applyPreferences(context.previous);
+    },
+    onSuccess: (preferences) => {
+      applyPreferences(preferences);
+      queryClient.setQueryData(PREFERENCES_QUERY_KEY, preferences);
+    },
+  });
+}
@@ -0,0 +1,124 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from './api';
+import { useAuthStore } from '../store/authStore';
+
+export interface UserProfile {
+  id: number;
+  username: string;
+  email: string;
+  emailVerified: boolean;
+  mfaEnabled: boolean;
+  /** New address waiting to be confirmed from its inbox. */
+  pendingEmail: string | null;
+  /** Signed image URLs keyed by size in pixels (64, 128, 256). */
+  avatarUrls: Record<number, string> | null;
+}
+
+export const PROFILE_QUERY_KEY = ['auth', 'me'] as const;
+
+export const AVATAR_MAX_BYTES = 5 * 1024 * 1024;
+export const AVATAR_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+/**
+ * Absolute URL of the smallest avatar image that is at least `size` pixels,
+ * or null without an avatar. The server returns paths relative to the API.
+ */
+export function avatarSrc(avatarUrls: Record<number, string> | null | undefined, size: number): string | null {
+  if (!avatarUrls) return null;
+  const sizes = Object.keys(avatarUrls)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const best = sizes.find((s) => s >= size) ?? sizes[sizes.length - 1];
+  const url = best !== undefined ? avatarUrls[best] : undefined;
+  return url ? new URL(url, api.defaults.baseURL).toString() : null;
+}
+
+/** Keeps the persisted user (header, menu) in line with what the server returned. */
+function syncStoreUser(profile: UserProfile) {
+  useAuthStore.getState().updateUser({
+    id: profile.id,
+    username: profile.username,
+    email: profile.email,
+    avatarUrls: profile.avatarUrls,
+  });
+}
+
+export function useProfile({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: PROFILE_QUERY_KEY,
+    enabled,
+    queryFn: async () => {
+      const res = await api.get<UserProfile>('/api/auth/me');
+      syncStoreUser(res.data);
+      return res.data;
+    },
+  });
+}
+
+export function useUpdateUsername() {
+  const queryClient = useQueryClient();
+  return useMutation<UserProfile, unknown, string>({
+    mutationFn: async (username) => {
+      const res = await api.put<UserProfile>('/api/auth/me', { username });
+      return res.data;
+    },
+    onSuccess: (profile) => {
+      syncStoreUser(profile);
+      queryClient.setQueryData(PROFILE_QUERY_KEY, profile);
+      void queryClient.invalidateQueries({ queryKey: ['auth', 'security-events'] });
+    },
+  });
+}
+
+export function useRequestEmailChange() {
+  const queryClient = useQueryClient();
+  return useMutation<{ message: string; pendingEmail: string }, unknown, { newEmail: string; password: string }>({
+    mutationFn: async (payload) => {
+      const res = await api.post<{ message: string; pendingEmail: string }>('/api/auth/me/email', payload);
+      return res.data;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: PROFILE_QUERY_KEY });
+      void queryClient.invalidateQueries({ queryKey: ['auth', 'security-events'] });
+    },
+  });
+}
+
+export function useCancelEmailChange() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      await api.delete('/api/auth/me/email');
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: PROFILE_QUERY_KEY });
+    },
+  });
+}
+
+function useAvatarMutation<TVariables>(request: (variables: TVariables) => Promise<UserProfile>) {
+  const queryClient = useQueryClient();
+  return useMutation<UserProfile, unknown, TVariables>({
+    mutationFn: request,
+    onSuccess: (profile) => {
+      syncStoreUser(profile);
+      queryClient.setQueryData(PROFILE_QUERY_KEY, profile);
+    },
+  });
+}
+
+export function useUploadAvatar() {
+  return useAvatarMutation(async (file: File) => {
+    const form = new FormData();
+    form.append('avatar', file);
+    const res = await api.put<UserProfile>('/api/auth/me/avatar', form);
+    return res.data;
+  });
+}
+
+export function useRemoveAvatar() {
+  return useAvatarMutation(async () => {
+    const res = await api.delete<UserProfile>('/api/auth/me/avatar');
+    return res.data;
+  });
+}
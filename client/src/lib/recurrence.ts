@@ -0,0 +1,76 @@
+import { format } from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/** Mirrors the server's RecurrenceRuleDto. */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: Weekday[];
+  monthDay?: number;
+  nthWeekday?: { n: number; weekday: Weekday };
+  count?: number;
+  until?: string;
+}
+
+/** Indexed like Date#getDay(). */
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const UNIT_LABELS: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+  yearly: ['year', 'years'],
+};
+
+const SIMPLE_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+export function ordinal(n: number): string {
+  if (n === -1) return 'last';
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+/** Human-readable summary, e.g. "Every 2 weeks on Monday and Friday, 5 times". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const [unit, units] = UNIT_LABELS[rule.frequency];
+  let text = rule.interval === 1 ? SIMPLE_LABELS[rule.frequency] : `Every ${rule.interval} ${units}`;
+  if (rule.interval === 1 && rule.frequency === 'daily') text = `Every ${unit}`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    const names = rule.weekdays.map((day) => WEEKDAY_LABELS[day]);
+    const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+    text += ` on ${list}`;
+  }
+  if (rule.frequency === 'monthly') {
+    if (rule.nthWeekday) {
+      text += ` on the ${ordinal(rule.nthWeekday.n)} ${WEEKDAY_LABELS[rule.nthWeekday.weekday]}`;
+    } else if (rule.monthDay !== undefined) {
+      text += ` on the ${ordinal(rule.monthDay)}`;
+    }
+  }
+
+  if (rule.count !== undefined) {
+    text += rule.count === 1 ? ', last occurrence' : `, ${rule.count} times`;
+  } else if (rule.until) {
+    // The server stores the end of the chosen day in UTC; show that calendar day.
+    text += ` until ${format(new Date(`${rule.until.slice(0, 10)}T00:00:00`), 'PP')}`;
+  }
+  return text;
+}
@@ -0,0 +1,27 @@
+/** Mirrors the server's ReminderResponseDto. */
+export interface Reminder {
+  id: number;
+  offsetMinutes: number | null;
+  remindAt: string | null;
+  fireAt: string | null;
+  firedAt: string | null;
+  createdAt: string;
+}
+
+/** Offsets offered as one-click reminders, in minutes before the due date. */
+export const REMINDER_PRESETS = [0, 10, 60, 120, 24 * 60, 2 * 24 * 60, 7 * 24 * 60];
+
+const UNITS: [minutes: number, singular: string, plural: string][] = [
+  [7 * 24 * 60, 'week', 'weeks'],
+  [24 * 60, 'day', 'days'],
+  [60, 'hour', 'hours'],
+  [1, 'minute', 'minutes'],
+];
+
+/** "At due time", "10 minutes before", "1 day before"... in the largest whole unit. */
+export function describeReminderOffset(offsetMinutes: number): string {
+  if (offsetMinutes === 0) return 'At due time';
+  const [size, singular, plural] = UNITS.find(([unit]) => offsetMinutes % unit === 0) ?? UNITS[UNITS.length - 1];
+  const count = offsetMinutes / size;
+  return `${count} ${count === 1 ? singular : plural} before`;
+}
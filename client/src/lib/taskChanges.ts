@@ -0,0 +1,85 @@
+import { formatDue } from './dueDates';
+import { describeRecurrence, type RecurrenceRule } from './recurrence';
+
+export type TaskChangeField =
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'dueDate'
+  | 'startDate'
+  | 'scheduledFor'
+  | 'completed'
+  | 'project'
+  | 'tags'
+  | 'recurrence'
+  | 'completeWithChecklist';
+
+export interface NamedRef {
+  id: number;
+  name: string;
+}
+
+type TaskChangeValue = string | boolean | NamedRef | NamedRef[] | RecurrenceRule | null;
+
+/** Mirrors the server's TaskFieldChangeDto. */
+export interface TaskFieldChange {
+  field: TaskChangeField;
+  from: TaskChangeValue;
+  to: TaskChangeValue;
+}
+
+export const CHANGE_FIELD_LABELS: Record<TaskChangeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  dueDate: 'Due',
+  startDate: 'Starts',
+  scheduledFor: 'Planned for',
+  completed: 'Status',
+  project: 'Project',
+  tags: 'Tags',
+  recurrence: 'Repeat',
+  completeWithChecklist: 'Auto-complete',
+};
+
+function formatDate(value: string, timeZone: string): string {
+  const thisYear = value.slice(0, 4) === String(new Date().getFullYear());
+  return formatDue(value, timeZone, thisYear ? 'MMM d' : 'MMM d, yyyy');
+}
+
+/** Readable form of a changed value; due dates are shown in `timeZone`. */
+export function formatChangeValue(field: TaskChangeField, value: TaskChangeValue, timeZone: string): string {
+  if (value === null || value === '') {
+    if (field === 'project') return 'No project';
+    if (field === 'recurrence') return 'Does not repeat';
+    if (field === 'dueDate') return 'No due date';
+    if (field === 'startDate') return 'No start date';
+    if (field === 'scheduledFor') return 'Not planned';
+    return 'Empty';
+  }
+  switch (field) {
+    case 'dueDate':
+    case 'startDate':
+    case 'scheduledFor':
+      return formatDate(value as string, timeZone);
+    case 'completed':
+      return value ? 'Done' : 'Not done';
+    case 'completeWithChecklist':
+      return value ? 'On' : 'Off';
+    case 'priority':
+      return `${(value as string).charAt(0).toUpperCase()}${(value as string).slice(1)}`;
+    case 'project':
+      return (value as NamedRef).name;
+    case 'recurrence':
+      return describeRecurrence(value as RecurrenceRule);
+    default:
+      return String(value);
+  }
+}
+
+/** One-line summary such as "Changed priority and due". */
+export function summarizeChanges(changes: TaskFieldChange[]): string {
+  const labels = changes.map((change) => CHANGE_FIELD_LABELS[change.field].toLowerCase());
+  if (labels.length <= 1) return `Changed ${labels.join('')}`;
+  return `Changed ${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
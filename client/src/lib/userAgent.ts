@@ -0,0 +1,20 @@
+/** Short "Browser on OS" label for a session, good enough to tell devices apart. */
+export function describeUserAgent(userAgent: string | null): { label: string; isMobile: boolean } {
+  if (!userAgent) return { label: 'Unknown device', isMobile: false };
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  const label = browser && os ? `${browser} on ${os}` : (browser ?? os ?? userAgent.slice(0, 40));
+  return { label, isMobile: /Mobi|Android|iPhone|iPad/.test(userAgent) };
+}
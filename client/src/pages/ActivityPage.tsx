@@ -1,59 +1,133 @@
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
-import { formatDistanceToNow, format } from 'date-fns';
-import { Plus, Pencil, CheckCircle2, Trash2, ChevronDown, Calendar, FileText } from 'lucide-react';
-import { api } from '../lib/api';
-
-type ActionType = 'created' | 'updated' | 'completed' | 'deleted';
-
-interface ActivityLog {
-  id: number;
-  userId: number;
-  action: ActionType;
-  taskId: number | null;
-  taskTitle: string | null;
-  taskDescription: string | null;
-  taskDueDate: string | null;
-  taskCompleted: boolean | null;
-  createdAt: string;
+import { toast } from 'sonner';
+import { formatDistanceToNow, format, isToday, isYesterday, isThisYear, parseISO } from 'date-fns';
+import { CheckCircle2, ChevronDown, Calendar, FileText, Undo2, Search, X, ExternalLink } from 'lucide-react';
+import { api, getErrorMessage } from '../lib/api';
+import { formatDue, useTimeZone } from '../lib/dueDates';
+import { TaskChangeList } from '../components/TaskChangeList';
+import { summarizeChanges } from '../lib/taskChanges';
+import { actionConfig, type ActionType, type ActivityLog } from '../lib/activity';
+
+interface ActivityDayGroup {
+  date: string;
+  items: ActivityLog[];
 }
 
-const actionConfig: Record<
-  ActionType,
-  { icon: typeof Plus; label: string; className: string }
-> = {
-  created: {
-    icon: Plus,
-    label: 'Created',
-    className: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-400',
-  },
-  updated: {
-    icon: Pencil,
-    label: 'Updated',
-    className: 'bg-sky-500/15 text-sky-700 dark:text-sky-400',
-  },
-  completed: {
-    icon: CheckCircle2,
-    label: 'Completed',
-    className: 'bg-violet-500/15 text-violet-700 dark:text-violet-400',
-  },
-  deleted: {
-    icon: Trash2,
-    label: 'Deleted',
-    className: 'bg-red-500/15 text-red-700 dark:text-red-400',
-  },
-};
+interface ActivityListPage {
+  items: ActivityLog[];
+  nextCursor: string | null;
+  groups?: ActivityDayGroup[];
+}
+
+const PAGE_SIZE = 30;
+
+/** Actions offered as filter chips. */
+const FILTER_ACTIONS: ActionType[] = ['created', 'updated', 'completed', 'deleted'];
+
+function formatDayHeader(date: string): string {
+  const day = parseISO(date);
+  if (isToday(day)) return 'Today';
+  if (isYesterday(day)) return 'Yesterday';
+  return format(day, isThisYear(day) ? 'EEEE, MMMM d' : 'EEEE, MMMM d, yyyy');
+}
 
 export const ActivityPage = () => {
+  const queryClient = useQueryClient();
   const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [actions, setActions] = useState<ActionType[]>([]);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Debounce typing so we don't refetch on every keystroke.
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  const { data: logs = [], isLoading, error } = useQuery({
-    queryKey: ['activity'],
-    queryFn: async () => {
-      const res = await api.get<ActivityLog[]>('/activity');
+  const timeZone = useTimeZone();
+
+  const listParams = useMemo(
+    () => ({
+      group: 'day',
+      tz: timeZone,
+      ...(actions.length > 0 ? { action: actions.join(',') } : {}),
+      ...(search ? { q: search } : {}),
+    }),
+    [actions, search, timeZone],
+  );
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['activity', 'list', listParams],
+    queryFn: async ({ pageParam }) => {
+      const res = await api.get<ActivityListPage>('/activity', {
+        params: { ...listParams, limit: PAGE_SIZE, ...(pageParam ? { cursor: pageParam } : {}) },
+      });
       return res.data;
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  // A day can span two pages, so join groups that continue across a page boundary.
+  const groups = useMemo(() => {
+    const merged: ActivityDayGroup[] = [];
+    for (const page of data?.pages ?? []) {
+      for (const group of page.groups ?? []) {
+        const last = merged[merged.length - 1];
+        if (last && last.date === group.date) {
+          merged[merged.length - 1] = { ...last, items: [...last.items, ...group.items] };
+        } else {
+          merged.push(group);
+        }
+      }
+    }
+    return merged;
+  }, [data]);
+
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) void fetchNextPage();
+      },
+      { rootMargin: '200px' },
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const toggleAction = (action: ActionType) => {
+    setActions((current) =>
+      current.includes(action) ? current.filter((a) => a !== action) : [...current, action],
+    );
+  };
+
+  const hasFilters = actions.length > 0 || search !== '';
+
+  const revertMutation = useMutation<void, unknown, ActivityLog>({
+    mutationFn: async (log) => {
+      await api.post(`/activity/${log.id}/revert`);
+    },
+    onSuccess: () => toast.success('Task restored to this version'),
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to restore this version')),
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      void queryClient.invalidateQueries({ queryKey: ['tags'] });
+      void queryClient.invalidateQueries({ queryKey: ['projects'] });
+      void queryClient.invalidateQueries({ queryKey: ['activity'] });
+    },
   });
 
   return (
@@ -67,6 +141,55 @@ export const ActivityPage = () => {
         </p>
       </div>
 
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex flex-wrap items-center gap-2">
+          {FILTER_ACTIONS.map((action) => {
+            const config = actionConfig[action];
+            const Icon = config.icon;
+            const selected = actions.includes(action);
+            return (
+              <button
+                key={action}
+                type="button"
+                onClick={() => toggleAction(action)}
+                aria-pressed={selected}
+                className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs font-medium transition ${
+                  selected
+                    ? `border-transparent ${config.className}`
+                    : 'border-slate-300 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'
+                }`}
+              >
+                <Icon className="h-3.5 w-3.5" />
+                {config.label}
+              </button>
+            );
+          })}
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => {
+                setActions([]);
+                setSearchInput('');
+              }}
+              className="inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-100"
+            >
+              <X className="h-3.5 w-3.5" />
+              Clear
+            </button>
+          )}
+        </div>
+        <div className="relative w-full sm:w-64">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search activity"
+            className="w-full rounded-xl border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 py-2 pl-9 pr-3 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500"
+          />
+        </div>
+      </div>
+
       {isLoading ? (
         <div className="space-y-3">
           {Array.from({ length: 6 }).map((_, i) => (
@@ -84,165 +207,231 @@ export const ActivityPage = () => {
         </div>
       ) : error ? (
         <p className="text-red-600 dark:text-red-400">Failed to load activity.</p>
-      ) : logs.length === 0 ? (
+      ) : groups.length === 0 ? (
         <div className="flex flex-1 flex-col items-center justify-center rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 px-6 py-16 text-center">
           <p className="text-lg font-semibold text-slate-800 dark:text-slate-100">
-            No activity yet
+            {hasFilters ? 'No matching activity' : 'No activity yet'}
           </p>
           <p className="mt-2 max-w-md text-sm text-slate-600 dark:text-slate-400">
-            When you create, update, complete, or delete tasks, they will appear here.
+            {hasFilters
+              ? 'Try other filters or a different search.'
+              : 'When you create, update, complete, or delete tasks, they will appear here.'}
           </p>
         </div>
       ) : (
-        <div className="relative">
-          <div
-            className="absolute left-5 top-2 bottom-2 w-px bg-slate-200 dark:bg-slate-700"
-            aria-hidden
-          />
-          <ul className="relative space-y-0">
-            {logs.map((log) => {
-              const config = actionConfig[log.action];
-              const Icon = config.icon;
-              const isExpanded = expandedId === log.id;
-              return (
-                <li
-                  key={log.id}
-                  className="relative flex items-start gap-4 py-3 first:pt-0"
-                >
-                  <div
-                    className={`relative z-10 flex h-10 w-10 shrink-0 items-center justify-center rounded-full ${config.className}`}
-                  >
-                    <Icon className="h-4 w-4" />
-                  </div>
-                  <div className="min-w-0 flex-1 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/60 shadow-sm overflow-hidden">
-                    <button
-                      type="button"
-                      onClick={() => setExpandedId((id) => (id === log.id ? null : log.id))}
-                      className="w-full text-left px-4 py-3 flex items-center justify-between gap-3 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 focus-visible:ring-offset-2 rounded-xl"
-                      aria-controls={`activity-details-${log.id}`}
-                      id={`activity-summary-${log.id}`}
-                    >
-                      <div className="min-w-0">
-                        <p className="text-sm font-medium text-slate-900 dark:text-slate-50">
-                          <span className="capitalize">{config.label}</span>
-                          {log.taskTitle && (
-                            <span className="text-slate-600 dark:text-slate-400">
-                              {' '}
-                              &ldquo;{log.taskTitle}&rdquo;
-                            </span>
-                          )}
-                        </p>
-                        <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
-                          {formatDistanceToNow(new Date(log.createdAt), {
-                            addSuffix: true,
-                          })}
-                        </p>
-                      </div>
-                      <motion.span
-                        animate={{ rotate: isExpanded ? 180 : 0 }}
-                        transition={{ duration: 0.2 }}
-                        className="shrink-0 text-slate-400 dark:text-slate-500"
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <div key={group.date}>
+              <h3 className="sticky top-0 z-20 mb-3 bg-slate-100/90 dark:bg-slate-950/90 py-1 text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 backdrop-blur">
+                {formatDayHeader(group.date)}
+              </h3>
+              <div className="relative">
+                <div
+                  className="absolute left-5 top-2 bottom-2 w-px bg-slate-200 dark:bg-slate-700"
+                  aria-hidden
+                />
+                <ul className="relative space-y-0">
+                  {group.items.map((log) => {
+                    const config = actionConfig[log.action];
+                    const Icon = config.icon;
+                    const isExpanded = expandedId === log.id;
+                    return (
+                      <li
+                        key={log.id}
+                        className="relative flex items-start gap-4 py-3 first:pt-0"
                       >
-                        <ChevronDown className="h-4 w-4" />
-                      </motion.span>
-                    </button>
-                    <AnimatePresence initial={false}>
-                      {isExpanded && (
-                        <motion.div
-                          id={`activity-details-${log.id}`}
-                          role="region"
-                          aria-labelledby={`activity-summary-${log.id}`}
-                          initial={{ height: 0, opacity: 0 }}
-                          animate={{ height: 'auto', opacity: 1 }}
-                          exit={{ height: 0, opacity: 0 }}
-                          transition={{ duration: 0.25, ease: [0.32, 0.72, 0, 1] }}
-                          className="overflow-hidden"
+                        <div
+                          className={`relative z-10 flex h-10 w-10 shrink-0 items-center justify-center rounded-full ${config.className}`}
                         >
-                          <div className="border-t border-slate-200 dark:border-slate-700 bg-slate-50/80 dark:bg-slate-800/40 px-4 py-3 space-y-3">
-                            <div className="grid gap-2 text-sm sm:grid-cols-2">
-                              <div>
-                                <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
-                                  Action
-                                </span>
-                                <p className="mt-0.5 font-medium text-slate-800 dark:text-slate-200 capitalize">
-                                  {config.label}
-                                </p>
-                              </div>
-                              <div>
-                                <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
-                                  Time
-                                </span>
-                                <p className="mt-0.5 text-slate-700 dark:text-slate-300">
-                                  {format(new Date(log.createdAt), 'PPp')}
-                                </p>
-                              </div>
-                            </div>
-                            {log.taskTitle && (
-                              <div>
-                                <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
-                                  Title
-                                </span>
-                                <p className="mt-0.5 text-slate-800 dark:text-slate-100 font-medium">
-                                  {log.taskTitle}
-                                </p>
-                              </div>
-                            )}
-                            {log.taskDescription != null && log.taskDescription !== '' && (
-                              <div>
-                                <span className="inline-flex items-center gap-1 text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
-                                  <FileText className="h-3 w-3" />
-                                  Description
-                                </span>
-                                <p className="mt-0.5 text-slate-700 dark:text-slate-300 text-sm whitespace-pre-wrap">
-                                  {log.taskDescription}
-                                </p>
-                              </div>
-                            )}
-                            {log.taskDueDate && (
-                              <div>
-                                <span className="inline-flex items-center gap-1 text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
-                                  <Calendar className="h-3 w-3" />
-                                  Due date
-                                </span>
-                                <p className="mt-0.5 text-slate-700 dark:text-slate-300">
-                                  {format(new Date(log.taskDueDate), 'PPP')}
-                                </p>
-                              </div>
-                            )}
-                            {log.taskCompleted != null && (
-                              <div>
-                                <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
-                                  Status
-                                </span>
-                                <p className="mt-0.5">
-                                  <span
-                                    className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
-                                      log.taskCompleted
-                                        ? 'bg-emerald-500/20 text-emerald-700 dark:text-emerald-400'
-                                        : 'bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-300'
-                                    }`}
-                                  >
-                                    {log.taskCompleted ? (
-                                      <>
-                                        <CheckCircle2 className="h-3 w-3" />
-                                        Completed
-                                      </>
-                                    ) : (
-                                      'Not completed'
-                                    )}
+                          <Icon className="h-4 w-4" />
+                        </div>
+                        <div className="min-w-0 flex-1 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/60 shadow-sm overflow-hidden">
+                          <button
+                            type="button"
+                            onClick={() => setExpandedId((id) => (id === log.id ? null : log.id))}
+                            className="w-full text-left px-4 py-3 flex items-center justify-between gap-3 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 focus-visible:ring-offset-2 rounded-xl"
+                            aria-controls={`activity-details-${log.id}`}
+                            id={`activity-summary-${log.id}`}
+                          >
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium text-slate-900 dark:text-slate-50">
+                                <span className="capitalize">{config.label}</span>
+                                {log.taskTitle && (
+                                  <span className="text-slate-600 dark:text-slate-400">
+                                    {' '}
+                                    &ldquo;{log.taskTitle}&rdquo;
                                   </span>
-                                </p>
-                              </div>
+                                )}
+                              </p>
+                              {log.detail ? (
+                                <p className="mt-0.5 truncate text-xs text-slate-600 dark:text-slate-300">{log.detail}</p>
+                              ) : (
+                                log.changes && (
+                                  <p className="mt-0.5 truncate text-xs text-slate-600 dark:text-slate-300">
+                                    {summarizeChanges(log.changes)}
+                                  </p>
+                                )
+                              )}
+                              <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
+                                {formatDistanceToNow(new Date(log.createdAt), {
+                                  addSuffix: true,
+                                })}
+                              </p>
+                            </div>
+                            <motion.span
+                              animate={{ rotate: isExpanded ? 180 : 0 }}
+                              transition={{ duration: 0.2 }}
+                              className="shrink-0 text-slate-400 dark:text-slate-500"
+                            >
+                              <ChevronDown className="h-4 w-4" />
+                            </motion.span>
+                          </button>
+                          <AnimatePresence initial={false}>
+                            {isExpanded && (
+                              <motion.div
+                                id={`activity-details-${log.id}`}
+                                role="region"
+                                aria-labelledby={`activity-summary-${log.id}`}
+                                initial={{ height: 0, opacity: 0 }}
+                                animate={{ height: 'auto', opacity: 1 }}
+                                exit={{ height: 0, opacity: 0 }}
+                                transition={{ duration: 0.25, ease: [0.32, 0.72, 0, 1] }}
+                                className="overflow-hidden"
+                              >
+                                <div className="border-t border-slate-200 dark:border-slate-700 bg-slate-50/80 dark:bg-slate-800/40 px-4 py-3 space-y-3">
+                                  <div className="grid gap-2 text-sm sm:grid-cols-2">
+                                    <div>
+                                      <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
+                                        Action
+                                      </span>
+                                      <p className="mt-0.5 font-medium text-slate-800 dark:text-slate-200 capitalize">
+                                        {config.label}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
+                                        Time
+                                      </span>
+                                      <p className="mt-0.5 text-slate-700 dark:text-slate-300">
+                                        {format(new Date(log.createdAt), 'PPp')}
+                                      </p>
+                                    </div>
+                                  </div>
+                                  {log.changes && (
+                                    <div>
+                                      <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
+                                        Changes
+                                      </span>
+                                      <div className="mt-1">
+                                        <TaskChangeList changes={log.changes} />
+                                      </div>
+                                    </div>
+                                  )}
+                                  {log.taskTitle && (
+                                    <div>
+                                      <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
+                                        Title
+                                      </span>
+                                      <p className="mt-0.5 text-slate-800 dark:text-slate-100 font-medium">
+                                        {log.taskTitle}
+                                      </p>
+                                    </div>
+                                  )}
+                                  {log.taskDescription != null && log.taskDescription !== '' && (
+                                    <div>
+                                      <span className="inline-flex items-center gap-1 text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
+                                        <FileText className="h-3 w-3" />
+                                        Description
+                                      </span>
+                                      <p className="mt-0.5 text-slate-700 dark:text-slate-300 text-sm whitespace-pre-wrap">
+                                        {log.taskDescription}
+                                      </p>
+                                    </div>
+                                  )}
+                                  {log.taskDueDate && (
+                                    <div>
+                                      <span className="inline-flex items-center gap-1 text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
+                                        <Calendar className="h-3 w-3" />
+                                        Due date
+                                      </span>
+                                      <p className="mt-0.5 text-slate-700 dark:text-slate-300">
+                                        {formatDue(log.taskDueDate, timeZone, 'PPP')}
+                                      </p>
+                                    </div>
+                                  )}
+                                  {log.taskCompleted != null && (
+                                    <div>
+                                      <span className="text-xs font-medium uppercase tracking-wider text-slate-400 dark:text-slate-500">
+                                        Status
+                                      </span>
+                                      <p className="mt-0.5">
+                                        <span
+                                          className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+                                            log.taskCompleted
+                                              ? 'bg-emerald-500/20 text-emerald-700 dark:text-emerald-400'
+                                              : 'bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-300'
+                                          }`}
+                                        >
+                                          {log.taskCompleted ? (
+                                            <>
+                                              <CheckCircle2 className="h-3 w-3" />
+                                              Completed
+                                            </>
+                                          ) : (
+                                            'Not completed'
+                                          )}
+                                        </span>
+                                      </p>
+                                    </div>
+                                  )}
+                                  {log.taskId !== null && log.taskTitle && (
+                                    <div className="flex items-center justify-end gap-2 pt-1">
+                                      <Link
+                                        to={`/tasks/${log.taskId}`}
+                                        className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-800 transition"
+                                      >
+                                        <ExternalLink className="h-3.5 w-3.5" />
+                                        View task
+                                      </Link>
+                                      <button
+                                        type="button"
+                                        onClick={() => revertMutation.mutate(log)}
+                                        disabled={revertMutation.isPending}
+                                        className="inline-flex items-center gap-1.5 rounded-lg border border-slate-300 dark:border-slate-600 px-3 py-1.5 text-xs font-medium text-slate-700 dark:text-slate-200 hover:bg-white dark:hover:bg-slate-800 transition disabled:opacity-60"
+                                      >
+                                        <Undo2 className="h-3.5 w-3.5" />
+                                        Restore this version
+                                      </button>
+                                    </div>
+                                  )}
+                                </div>
+                              </motion.div>
                             )}
-                          </div>
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
-                  </div>
-                </li>
-              );
-            })}
-          </ul>
+                          </AnimatePresence>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center py-4">
+          {isFetchingNextPage ? (
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-sky-500 border-t-transparent" />
+          ) : (
+            <button
+              type="button"
+              onClick={() => void fetchNextPage()}
+              className="rounded-lg px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800"
+            >
+              Load more
+            </button>
+          )}
         </div>
       )}
     </section>
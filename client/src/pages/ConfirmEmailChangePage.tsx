@@ -0,0 +1,76 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { MailCheck, MailX, ArrowRight } from 'lucide-react';
+import { api, getErrorMessage } from '../lib/api';
+import { PROFILE_QUERY_KEY } from '../lib/profile';
+import { useAuthStore } from '../store/authStore';
+
+export const ConfirmEmailChangePage = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const isLoggedIn = useAuthStore((s) => Boolean(s.token));
+  const queryClient = useQueryClient();
+
+  // A query rather than an effect so the single-use token is only sent once.
+  const { data, isLoading, isSuccess, error } = useQuery({
+    queryKey: ['auth', 'confirm-email-change', token],
+    queryFn: async () => {
+      const res = await api.post<{ message: string; email: string }>('/api/auth/confirm-email-change', { token });
+      // The profile refetch also updates the signed-in user's stored email.
+      void queryClient.invalidateQueries({ queryKey: PROFILE_QUERY_KEY });
+      return res.data;
+    },
+    enabled: Boolean(token),
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const failed = !token || Boolean(error);
+
+  return (
+    <div className="flex min-h-full flex-1 flex-col items-center justify-center bg-slate-50 dark:bg-slate-950 px-4 py-10">
+      <motion.div
+        initial={{ opacity: 0, y: 16 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.35 }}
+        className="w-full max-w-md rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/80 p-6 sm:p-8 text-center shadow-xl dark:shadow-2xl"
+      >
+        {isLoading ? (
+          <div className="flex flex-col items-center gap-4 py-6">
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-sky-500 border-t-transparent" />
+            <p className="text-sm text-slate-600 dark:text-slate-400">Confirming your new email…</p>
+          </div>
+        ) : (
+          <>
+            <div
+              className={`mx-auto flex h-14 w-14 items-center justify-center rounded-2xl text-white ${
+                failed ? 'bg-red-500' : 'bg-gradient-to-br from-emerald-500 to-sky-500'
+              }`}
+            >
+              {failed ? <MailX className="h-7 w-7" /> : <MailCheck className="h-7 w-7" />}
+            </div>
+            <h2 className="mt-4 text-xl font-bold text-slate-900 dark:text-white">
+              {isSuccess ? 'Email updated' : 'Confirmation failed'}
+            </h2>
+            <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+              {isSuccess
+                ? `From now on, sign in with ${data.email}.`
+                : token
+                  ? getErrorMessage(error, 'This confirmation link could not be used.')
+                  : 'This confirmation link is incomplete.'}
+              {failed && ' You can start the change again from your profile.'}
+            </p>
+            <Link
+              to={isLoggedIn ? '/profile' : '/login'}
+              className="mt-6 inline-flex items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-3 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:from-sky-600 hover:to-indigo-600"
+            >
+              {isLoggedIn ? 'Go to profile' : 'Sign in'}
+              <ArrowRight className="h-4 w-4" />
+            </Link>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { KeyRound, Mail, ArrowLeft, MailCheck } from 'lucide-react';
+import { api, getErrorMessage } from '../lib/api';
+
+export const ForgotPasswordPage = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!email.trim()) {
+      setError('Email is required.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const res = await api.post<{ message: string }>('/api/auth/forgot-password', { email: email.trim() });
+      setSentMessage(res.data.message);
+    } catch (err) {
+      const msg = getErrorMessage(err, 'Could not send the reset link');
+      setError(msg);
+      toast.error(msg);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-full flex-1 flex-col items-center justify-center bg-slate-50 dark:bg-slate-950 px-4 py-10">
+      <div className="w-full max-w-md">
+        <motion.div
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.35 }}
+          className="rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/80 p-6 sm:p-8 shadow-xl dark:shadow-2xl"
+        >
+          <div className="mb-6 flex items-center gap-3">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-gradient-to-br from-sky-500 to-indigo-600 text-white">
+              {sentMessage ? <MailCheck className="h-6 w-6" /> : <KeyRound className="h-6 w-6" />}
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900 dark:text-white">
+                {sentMessage ? 'Check your email' : 'Forgot password?'}
+              </h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {sentMessage ? 'Follow the link to choose a new password.' : "We'll email you a link to reset it."}
+              </p>
+            </div>
+          </div>
+
+          {sentMessage ? (
+            <div className="space-y-5">
+              <p className="rounded-xl bg-sky-50 dark:bg-sky-950/30 px-3 py-2.5 text-sm text-sky-800 dark:text-sky-300">
+                {sentMessage}. The link expires soon and works once.
+              </p>
+              <button
+                type="button"
+                onClick={() => setSentMessage(null)}
+                className="text-sm font-medium text-sky-600 dark:text-sky-400 hover:underline"
+              >
+                Use a different email
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300" htmlFor="email">
+                  Email
+                </label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    autoFocus
+                    className="w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 pl-10 pr-3 py-3 text-sm text-slate-900 dark:text-slate-100 placeholder:text-slate-400 focus:border-sky-500 focus:ring-2 focus:ring-sky-500/20 outline-none transition"
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <p className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30 rounded-xl px-3 py-2.5">
+                  {error}
+                </p>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="flex w-full items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-3.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:from-sky-600 hover:to-indigo-600 disabled:opacity-70 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Sending...' : 'Send reset link'}
+              </button>
+            </form>
+          )}
+
+          <Link
+            to="/login"
+            className="mt-6 inline-flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-400 hover:text-sky-600 dark:hover:text-sky-400"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to sign in
+          </Link>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
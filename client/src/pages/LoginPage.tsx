@@ -1,23 +1,57 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
-import { LogIn, Mail, Lock, ArrowRight, ListTodo, Zap, Shield, CheckCircle2, Eye, EyeOff } from 'lucide-react';
-import { api } from '../lib/api';
+import { LogIn, Mail, Lock, ArrowRight, ArrowLeft, ListTodo, Zap, Shield, ShieldCheck, CheckCircle2, Eye, EyeOff, Timer } from 'lucide-react';
+import { api, getErrorCode, getErrorMessage, getRetryAfterSeconds } from '../lib/api';
 import { useAuthStore } from '../store/authStore';
 
+interface LoginSuccess {
+  token: string;
+  refreshToken: string;
+  user?: { id: number; email: string; username: string };
+  /** Set when signing in cancelled a scheduled account deletion. */
+  accountRestored?: boolean;
+}
+
+type LoginResponse = LoginSuccess | { mfaRequired: true; mfaToken: string };
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
 export const LoginPage = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
   const login = useAuthStore((state) => state.login);
   const navigate = useNavigate();
 
+  // Tick once a second while the server has sign-in locked, then unlock the form.
+  useEffect(() => {
+    if (lockedUntil === null) return;
+    const id = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) setLockedUntil(null);
+    }, 1000);
+    return () => window.clearInterval(id);
+  }, [lockedUntil]);
+
+  const lockSecondsLeft = lockedUntil === null ? 0 : Math.max(0, Math.ceil((lockedUntil - now) / 1000));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    if (lockSecondsLeft > 0) return;
 
     if (!email || !password) {
       setError('Email and password are required.');
@@ -26,22 +60,63 @@ export const LoginPage = () => {
 
     try {
       setIsSubmitting(true);
-      const res = await api.post<{ token: string; user?: { id: number; email: string; username: string } }>('/api/auth/login', { email, password });
-      const u = res.data.user;
-      login({
-        token: res.data.token,
-        user: u ? { id: u.id, email: u.email, username: u.username } : { id: null, email, username: null },
-      });
-      toast.success('Welcome back');
-      navigate('/');
-    } catch {
-      setError('Invalid credentials');
+      const res = await api.post<LoginResponse>('/api/auth/login', { email, password });
+      if ('mfaRequired' in res.data) {
+        setMfaToken(res.data.mfaToken);
+        return;
+      }
+      finishLogin(res.data);
+    } catch (err) {
+      const retryAfter = getRetryAfterSeconds(err);
+      if (retryAfter !== null) {
+        setNeedsVerification(false);
+        setNow(Date.now());
+        setLockedUntil(Date.now() + retryAfter * 1000);
+        toast.error('Too many sign-in attempts');
+        return;
+      }
+      const unverified = getErrorCode(err) === 'EMAIL_NOT_VERIFIED';
+      setNeedsVerification(unverified);
+      setError(unverified ? getErrorMessage(err, 'Please verify your email address') : 'Invalid credentials');
       toast.error('Login failed');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const finishLogin = (data: LoginSuccess) => {
+    const u = data.user;
+    login({
+      token: data.token,
+      refreshToken: data.refreshToken,
+      user: u ? { id: u.id, email: u.email, username: u.username } : { id: null, email, username: null },
+    });
+    if (data.accountRestored) {
+      toast.success('Welcome back. Your account will not be deleted.');
+    } else {
+      toast.success('Welcome back');
+    }
+    navigate('/');
+  };
+
+  const handleMfaExpired = (message: string) => {
+    setMfaToken(null);
+    setPassword('');
+    setError(message);
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setIsResending(true);
+      const res = await api.post<{ message: string }>('/api/auth/resend-verification', { email });
+      toast.success(res.data.message);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Could not send the verification email'));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   const features = [
     { icon: ListTodo, text: 'Manage tasks with priorities and due dates' },
     { icon: Zap, text: 'Real-time sync across all your devices' },
@@ -116,6 +191,14 @@ export const LoginPage = () => {
               <p className="mt-1 text-slate-600 dark:text-slate-400">Use your email and password to continue.</p>
             </div>
 
+            {mfaToken ? (
+              <MfaCodeStep
+                mfaToken={mfaToken}
+                onSuccess={finishLogin}
+                onExpired={handleMfaExpired}
+                onCancel={() => setMfaToken(null)}
+              />
+            ) : (
             <motion.form onSubmit={handleSubmit} className="space-y-5" initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.1 }}>
               <div className="space-y-2">
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300" htmlFor="email">
@@ -135,9 +218,14 @@ export const LoginPage = () => {
               </div>
 
               <div className="space-y-2">
-                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300" htmlFor="password">
-                  Password
-                </label>
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300" htmlFor="password">
+                    Password
+                  </label>
+                  <Link to="/forgot-password" className="text-xs font-medium text-sky-600 dark:text-sky-400 hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
                 <div className="relative">
                   <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
                   <input
@@ -166,16 +254,46 @@ export const LoginPage = () => {
                   className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30 rounded-xl px-3 py-2.5"
                 >
                   <CheckCircle2 className="h-4 w-4 shrink-0" />
-                  {error}
+                  <span>
+                    {error}
+                    {needsVerification && (
+                      <>
+                        {' '}
+                        <button
+                          type="button"
+                          onClick={() => void handleResendVerification()}
+                          disabled={isResending}
+                          className="font-semibold underline underline-offset-2 disabled:opacity-60"
+                        >
+                          {isResending ? 'Sending...' : 'Resend verification email'}
+                        </button>
+                      </>
+                    )}
+                  </span>
+                </motion.p>
+              )}
+
+              {lockSecondsLeft > 0 && (
+                <motion.p
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  role="status"
+                  className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-300 bg-amber-50 dark:bg-amber-950/30 rounded-xl px-3 py-2.5"
+                >
+                  <Timer className="h-4 w-4 shrink-0" />
+                  <span>
+                    Too many failed sign-in attempts. You can try again in{' '}
+                    <span className="font-semibold tabular-nums">{formatCountdown(lockSecondsLeft)}</span>.
+                  </span>
                 </motion.p>
               )}
 
               <button
                 type="submit"
-                disabled={isSubmitting}
+                disabled={isSubmitting || lockSecondsLeft > 0}
                 className="flex w-full items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-3.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:from-sky-600 hover:to-indigo-600 disabled:opacity-70 disabled:cursor-not-allowed"
               >
-                {isSubmitting ? 'Signing in...' : 'Sign in'}
+                {isSubmitting ? 'Signing in...' : lockSecondsLeft > 0 ? `Try again in ${formatCountdown(lockSecondsLeft)}` : 'Sign in'}
                 <ArrowRight className="h-4 w-4" />
               </button>
 
@@ -186,9 +304,114 @@ export const LoginPage = () => {
                 </button>
               </p>
             </motion.form>
+            )}
           </motion.div>
         </div>
       </div>
     </div>
   );
 };
+
+interface MfaCodeStepProps {
+  mfaToken: string;
+  onSuccess: (data: LoginSuccess) => void;
+  onExpired: (message: string) => void;
+  onCancel: () => void;
+}
+
+/** Second sign-in step for accounts with two-factor auth: an authenticator or recovery code. */
+function MfaCodeStep({ mfaToken, onSuccess, onExpired, onCancel }: MfaCodeStepProps) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Enter one of your recovery codes.' : 'Enter the 6-digit code from your app.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const res = await api.post<LoginSuccess>('/api/auth/mfa/verify', { mfaToken, code: code.trim() });
+      onSuccess(res.data);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Invalid authentication code');
+      if (getErrorCode(err) === 'MFA_CHALLENGE_EXPIRED') {
+        onExpired(message);
+        return;
+      }
+      setError(message);
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.form onSubmit={handleSubmit} className="space-y-5" initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+      <div className="flex items-start gap-3 rounded-xl bg-sky-50 dark:bg-sky-950/30 px-3 py-2.5 text-sm text-sky-800 dark:text-sky-300">
+        <ShieldCheck className="mt-0.5 h-4 w-4 shrink-0" />
+        {useRecoveryCode
+          ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once.'
+          : 'Open your authenticator app and enter the 6-digit code for Vitasoft.'}
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300" htmlFor="mfa-code">
+          {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+        </label>
+        <input
+          id="mfa-code"
+          type="text"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          autoFocus
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          maxLength={useRecoveryCode ? 20 : 6}
+          className="w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-3 text-center font-mono text-lg tracking-widest text-slate-900 dark:text-slate-100 placeholder:text-slate-400 focus:border-sky-500 focus:ring-2 focus:ring-sky-500/20 outline-none transition"
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30 rounded-xl px-3 py-2.5">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="flex w-full items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-3.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:from-sky-600 hover:to-indigo-600 disabled:opacity-70 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? 'Verifying...' : 'Verify'}
+        <ArrowRight className="h-4 w-4" />
+      </button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center gap-1.5 text-slate-600 dark:text-slate-400 hover:text-sky-600 dark:hover:text-sky-400"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode((v) => !v);
+            setCode('');
+            setError(null);
+          }}
+          className="font-medium text-sky-600 dark:text-sky-400 hover:underline"
+        >
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+      </div>
+    </motion.form>
+  );
+}
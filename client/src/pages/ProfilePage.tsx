@@ -1,47 +1,78 @@
-import { useState, useEffect } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { User, Lock, Key, Eye, EyeOff, LogOut } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  User,
+  Lock,
+  Key,
+  Eye,
+  EyeOff,
+  LogOut,
+  MonitorSmartphone,
+  Monitor,
+  Smartphone,
+  BadgeCheck,
+  AlertCircle,
+  Mail,
+  Pencil,
+  Camera,
+  Trash2,
+} from 'lucide-react';
 import { toast } from 'sonner';
-import { api } from '../lib/api';
+import { api, getErrorMessage, signOut } from '../lib/api';
+import { PASSWORD_RULES_HINT, validatePassword } from '../lib/password';
+import { describeUserAgent } from '../lib/userAgent';
+import {
+  AVATAR_MAX_BYTES,
+  AVATAR_MIME_TYPES,
+  useCancelEmailChange,
+  useProfile,
+  useRemoveAvatar,
+  useRequestEmailChange,
+  useUpdateUsername,
+  useUploadAvatar,
+  type UserProfile,
+} from '../lib/profile';
 import { useAuthStore } from '../store/authStore';
+import { TwoFactorSettings } from '../components/TwoFactorSettings';
+import { SecurityActivity } from '../components/SecurityActivity';
+import { AccessTokens } from '../components/AccessTokens';
+import { UserAvatar } from '../components/UserAvatar';
+import { DangerZone } from '../components/DangerZone';
+import { PreferencesSettings } from '../components/PreferencesSettings';
 
-function validatePassword(password: string): string | null {
-  if (password.length < 8) return 'Password must be at least 8 characters';
-  if (!/[A-Z]/.test(password)) return 'Password must contain at least 1 uppercase letter';
-  if (!/[0-9]/.test(password)) return 'Password must contain at least 1 number';
-  if (!/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?`~]/.test(password))
-    return 'Password must contain at least 1 special character';
-  return null;
-}
-
-interface UserProfile {
+interface Session {
   id: number;
-  username: string;
-  email: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
 }
 
 export const ProfilePage = () => {
-  const { user: storeUser, logout } = useAuthStore();
+  const storeUser = useAuthStore((s) => s.user);
   const navigate = useNavigate();
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data: profile, isLoading: loading } = useProfile();
 
-  const handleLogout = () => {
-    logout();
+  const resendMutation = useMutation<{ message: string }, unknown, string>({
+    mutationFn: async (email) => {
+      const res = await api.post<{ message: string }>('/api/auth/resend-verification', { email });
+      return res.data;
+    },
+    onSuccess: () => toast.success('Verification email sent. Check your inbox.'),
+    onError: (err) => toast.error(getErrorMessage(err, 'Could not send the verification email')),
+  });
+
+  const handleLogout = async () => {
+    await signOut();
     toast.success('Signed out');
     navigate('/login');
   };
 
-  useEffect(() => {
-    api
-      .get<UserProfile>('/api/auth/me')
-      .then((res) => setProfile(res.data))
-      .catch(() => setProfile(null))
-      .finally(() => setLoading(false));
-  }, []);
-
   const displayUser = profile ?? (storeUser ? { username: storeUser.username ?? '', email: storeUser.email ?? '' } : null);
 
   if (loading) {
@@ -58,10 +89,6 @@ export const ProfilePage = () => {
     );
   }
 
-  const initials = (displayUser.username || displayUser.email || '?')
-    .slice(0, 2)
-    .toUpperCase();
-
   return (
     <section className="mx-auto w-full max-w-2xl flex flex-col gap-8 pb-8">
       {/* Profile header with avatar */}
@@ -72,9 +99,7 @@ export const ProfilePage = () => {
         className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-sky-500 via-indigo-500 to-slate-700 p-8 shadow-xl dark:shadow-slate-900/50"
       >
         <div className="relative z-10 flex flex-col items-center text-center sm:flex-row sm:items-center sm:text-left sm:gap-6">
-          <div className="flex h-20 w-20 shrink-0 items-center justify-center rounded-full bg-white/20 text-2xl font-bold text-white backdrop-blur-sm ring-2 ring-white/30">
-            {initials}
-          </div>
+          <AvatarEditor user={profile ?? displayUser} canEdit={Boolean(profile)} />
           <div className="mt-4 sm:mt-0">
             <h1 className="text-xl font-bold text-white sm:text-2xl">
               {displayUser.username || 'User'}
@@ -96,23 +121,70 @@ export const ProfilePage = () => {
           Account details
         </h2>
         <div className="divide-y divide-slate-100 dark:divide-slate-800">
-          <div className="flex items-center justify-between py-4 first:pt-0">
-            <span className="text-sm text-slate-500 dark:text-slate-400">Username</span>
-            <span className="font-medium text-slate-900 dark:text-slate-100">
-              {displayUser.username || '—'}
-            </span>
-          </div>
-          <div className="flex items-center justify-between py-4">
-            <span className="text-sm text-slate-500 dark:text-slate-400">Email</span>
-            <span className="font-medium text-slate-900 dark:text-slate-100 break-all">
-              {displayUser.email || '—'}
-            </span>
-          </div>
+          {profile ? (
+            <>
+              <UsernameRow profile={profile} />
+              <EmailRow profile={profile} />
+            </>
+          ) : (
+            <>
+              <div className="flex items-center justify-between py-4 first:pt-0">
+                <span className="text-sm text-slate-500 dark:text-slate-400">Username</span>
+                <span className="font-medium text-slate-900 dark:text-slate-100">
+                  {displayUser.username || '—'}
+                </span>
+              </div>
+              <div className="flex items-center justify-between py-4">
+                <span className="text-sm text-slate-500 dark:text-slate-400">Email</span>
+                <span className="font-medium text-slate-900 dark:text-slate-100 break-all">
+                  {displayUser.email || '—'}
+                </span>
+              </div>
+            </>
+          )}
+          {profile && (
+            <div className="flex items-center justify-between gap-3 py-4">
+              <span className="text-sm text-slate-500 dark:text-slate-400">Verification</span>
+              {profile.emailVerified ? (
+                <span className="inline-flex items-center gap-1.5 text-sm font-medium text-emerald-600 dark:text-emerald-400">
+                  <BadgeCheck className="h-4 w-4" />
+                  Verified
+                </span>
+              ) : (
+                <span className="flex items-center gap-3">
+                  <span className="inline-flex items-center gap-1.5 text-sm font-medium text-amber-600 dark:text-amber-400">
+                    <AlertCircle className="h-4 w-4" />
+                    Not verified
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => resendMutation.mutate(profile.email)}
+                    disabled={resendMutation.isPending}
+                    className="rounded-lg px-3 py-1.5 text-xs font-medium text-sky-700 dark:text-sky-400 hover:bg-sky-500/10 transition disabled:opacity-60"
+                  >
+                    {resendMutation.isPending ? 'Sending...' : 'Resend email'}
+                  </button>
+                </span>
+              )}
+            </div>
+          )}
         </div>
       </motion.div>
 
+      <PreferencesSettings />
+
       <UpdatePasswordSection />
 
+      <TwoFactorSettings />
+
+      <SessionsSection />
+
+      <AccessTokens />
+
+      <SecurityActivity />
+
+      <DangerZone />
+
       {/* Log out */}
       <motion.div
         initial={{ opacity: 0, y: 8 }}
@@ -121,7 +193,7 @@ export const ProfilePage = () => {
       >
         <button
           type="button"
-          onClick={handleLogout}
+          onClick={() => void handleLogout()}
           className="flex w-full items-center justify-center gap-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900/60 px-4 py-3.5 text-sm font-medium text-slate-600 dark:text-slate-400 hover:border-slate-300 hover:bg-slate-50 dark:hover:border-slate-600 dark:hover:bg-slate-800/80 transition"
         >
           <LogOut className="h-4 w-4" />
@@ -132,6 +204,298 @@ export const ProfilePage = () => {
   );
 };
 
+function AvatarEditor({
+  user,
+  canEdit,
+}: {
+  user: { username: string; email: string; avatarUrls?: Record<number, string> | null };
+  canEdit: boolean;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadMutation = useUploadAvatar();
+  const removeMutation = useRemoveAvatar();
+  const isBusy = uploadMutation.isPending || removeMutation.isPending;
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!AVATAR_MIME_TYPES.includes(file.type)) {
+      toast.error('Choose a JPEG, PNG, WebP or GIF image');
+      return;
+    }
+    if (file.size > AVATAR_MAX_BYTES) {
+      toast.error(`Images can be at most ${AVATAR_MAX_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+    uploadMutation.mutate(file, {
+      onSuccess: () => toast.success('Avatar updated'),
+      onError: (err) => toast.error(getErrorMessage(err, 'Failed to upload avatar')),
+    });
+  };
+
+  return (
+    <div className="flex shrink-0 flex-col items-center gap-2">
+      <div className="relative">
+        <UserAvatar
+          user={user}
+          size={80}
+          initialsLength={2}
+          className={`h-20 w-20 rounded-full bg-white/20 text-2xl font-bold text-white backdrop-blur-sm ring-2 ring-white/30 ${
+            isBusy ? 'opacity-60' : ''
+          }`}
+        />
+        {canEdit && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="absolute -bottom-1 -right-1 flex h-8 w-8 items-center justify-center rounded-full bg-white text-slate-700 shadow-md ring-2 ring-white/50 hover:bg-slate-100 transition disabled:opacity-60"
+            aria-label={user.avatarUrls ? 'Change avatar' : 'Upload avatar'}
+            title={user.avatarUrls ? 'Change avatar' : 'Upload avatar'}
+          >
+            <Camera className="h-4 w-4" />
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={AVATAR_MIME_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {canEdit && user.avatarUrls && (
+        <button
+          type="button"
+          onClick={() =>
+            removeMutation.mutate(undefined, {
+              onSuccess: () => toast.success('Avatar removed'),
+              onError: (err) => toast.error(getErrorMessage(err, 'Failed to remove avatar')),
+            })
+          }
+          disabled={isBusy}
+          className="inline-flex items-center gap-1 text-xs font-medium text-sky-100/90 hover:text-white transition disabled:opacity-60"
+        >
+          <Trash2 className="h-3 w-3" />
+          Remove
+        </button>
+      )}
+    </div>
+  );
+}
+
+const detailInputClass =
+  'w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2.5 text-sm focus:border-sky-500 focus:ring-2 focus:ring-sky-500/20 outline-none transition';
+
+const editButtonClass =
+  'inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-sky-700 dark:text-sky-400 hover:bg-sky-500/10 transition';
+
+function UsernameRow({ profile }: { profile: UserProfile }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [username, setUsername] = useState(profile.username);
+  const mutation = useUpdateUsername();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = username.trim();
+    if (trimmed.length < 2) {
+      toast.error('Username must be at least 2 characters');
+      return;
+    }
+    if (trimmed === profile.username) {
+      setIsEditing(false);
+      return;
+    }
+    mutation.mutate(trimmed, {
+      onSuccess: () => {
+        toast.success('Username updated');
+        setIsEditing(false);
+      },
+      onError: (err) => toast.error(getErrorMessage(err, 'Failed to update username')),
+    });
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="flex items-center justify-between gap-3 py-4 first:pt-0">
+        <span className="text-sm text-slate-500 dark:text-slate-400">Username</span>
+        <span className="flex items-center gap-2">
+          <span className="font-medium text-slate-900 dark:text-slate-100">{profile.username}</span>
+          <button
+            type="button"
+            onClick={() => {
+              setUsername(profile.username);
+              setIsEditing(true);
+            }}
+            className={editButtonClass}
+            aria-label="Edit username"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+            Edit
+          </button>
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 py-4 first:pt-0">
+      <label className="block text-xs font-medium text-slate-600 dark:text-slate-400" htmlFor="profile-username">
+        Username
+      </label>
+      <input
+        id="profile-username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        minLength={2}
+        required
+        autoFocus
+        className={detailInputClass}
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={mutation.isPending}
+          className="rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-500/25 hover:from-sky-600 hover:to-indigo-600 disabled:opacity-70 transition"
+        >
+          {mutation.isPending ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsEditing(false)}
+          className="rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function EmailRow({ profile }: { profile: UserProfile }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const requestMutation = useRequestEmailChange();
+  const cancelMutation = useCancelEmailChange();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail.trim() || !password) {
+      toast.error('New email and current password are required');
+      return;
+    }
+    requestMutation.mutate(
+      { newEmail: newEmail.trim(), password },
+      {
+        onSuccess: (data) => {
+          toast.success(data.message);
+          setIsEditing(false);
+          setNewEmail('');
+          setPassword('');
+        },
+        onError: (err) => toast.error(getErrorMessage(err, 'Could not start the email change')),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-3 py-4">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-slate-500 dark:text-slate-400">Email</span>
+        <span className="flex items-center gap-2">
+          <span className="font-medium text-slate-900 dark:text-slate-100 break-all">{profile.email}</span>
+          {!isEditing && (
+            <button type="button" onClick={() => setIsEditing(true)} className={editButtonClass} aria-label="Change email">
+              <Pencil className="h-3.5 w-3.5" />
+              Change
+            </button>
+          )}
+        </span>
+      </div>
+
+      {profile.pendingEmail && (
+        <div className="flex items-start gap-2 rounded-xl border border-sky-200 dark:border-sky-900/60 bg-sky-50 dark:bg-sky-950/30 p-3 text-sm text-sky-800 dark:text-sky-300">
+          <Mail className="mt-0.5 h-4 w-4 shrink-0" />
+          <p className="min-w-0 flex-1">
+            Waiting for confirmation from <span className="font-medium break-all">{profile.pendingEmail}</span>. Your
+            email stays the same until you open the link we sent there.
+          </p>
+          <button
+            type="button"
+            onClick={() =>
+              cancelMutation.mutate(undefined, {
+                onSuccess: () => toast.success('Email change cancelled'),
+                onError: (err) => toast.error(getErrorMessage(err, 'Could not cancel the email change')),
+              })
+            }
+            disabled={cancelMutation.isPending}
+            className="shrink-0 text-xs font-medium hover:underline disabled:opacity-60"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {isEditing && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label className="mb-1.5 block text-xs font-medium text-slate-600 dark:text-slate-400" htmlFor="profile-new-email">
+              New email
+            </label>
+            <input
+              id="profile-new-email"
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+              autoFocus
+              className={detailInputClass}
+            />
+          </div>
+          <div>
+            <label className="mb-1.5 block text-xs font-medium text-slate-600 dark:text-slate-400" htmlFor="profile-email-password">
+              Current password
+            </label>
+            <input
+              id="profile-email-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="••••••••"
+              required
+              autoComplete="current-password"
+              className={detailInputClass}
+            />
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            We'll send a confirmation link to the new address and let your current address know.
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={requestMutation.isPending}
+              className="rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2 text-sm font-semibold text-white shadow-lg shadow-sky-500/25 hover:from-sky-600 hover:to-indigo-600 disabled:opacity-70 transition"
+            >
+              {requestMutation.isPending ? 'Sending...' : 'Send confirmation link'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
 function UpdatePasswordSection() {
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -238,7 +602,7 @@ function UpdatePasswordSection() {
         </div>
         <div>
           <label className="mb-1.5 block text-xs font-medium text-slate-600 dark:text-slate-400">
-            New password (8+ chars, 1 uppercase, 1 number, 1 special char)
+            New password ({PASSWORD_RULES_HINT})
           </label>
           <div className="relative">
             <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
@@ -296,3 +660,117 @@ function UpdatePasswordSection() {
     </motion.div>
   );
 }
+
+function SessionsSection() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const logout = useAuthStore((s) => s.logout);
+
+  const { data: sessions = [], isLoading, error } = useQuery({
+    queryKey: ['auth', 'sessions'],
+    queryFn: async () => {
+      const res = await api.get<Session[]>('/api/auth/sessions');
+      return res.data;
+    },
+  });
+
+  const endLocalSession = (message: string) => {
+    logout();
+    queryClient.clear();
+    toast.success(message);
+    navigate('/login');
+  };
+
+  const revokeMutation = useMutation<void, unknown, Session>({
+    mutationFn: async (session) => {
+      await api.delete(`/api/auth/sessions/${session.id}`);
+    },
+    onSuccess: (_data, session) => {
+      if (session.current) {
+        endLocalSession('Signed out');
+        return;
+      }
+      toast.success('Session signed out');
+      void queryClient.invalidateQueries({ queryKey: ['auth', 'sessions'] });
+      void queryClient.invalidateQueries({ queryKey: ['auth', 'security-events'] });
+    },
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to sign out session')),
+  });
+
+  const logoutAllMutation = useMutation<void, unknown, void>({
+    mutationFn: async () => {
+      await api.post('/api/auth/logout-all');
+    },
+    onSuccess: () => endLocalSession('Signed out on all devices'),
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to sign out all devices')),
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.11, duration: 0.3 }}
+      className="rounded-2xl border border-slate-200 dark:border-slate-700/80 bg-white dark:bg-slate-900/60 p-6 shadow-sm backdrop-blur-sm"
+    >
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <MonitorSmartphone className="h-4 w-4" />
+          Active sessions
+        </h2>
+        <button
+          type="button"
+          onClick={() => logoutAllMutation.mutate()}
+          disabled={logoutAllMutation.isPending || sessions.length === 0}
+          className="rounded-lg px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-500/10 transition disabled:opacity-50"
+        >
+          Log out all devices
+        </button>
+      </div>
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 2 }).map((_, idx) => (
+            <div key={idx} className="h-12 animate-pulse rounded-xl bg-slate-100 dark:bg-slate-800/60" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load sessions.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+          {sessions.map((session) => {
+            const device = describeUserAgent(session.userAgent);
+            const DeviceIcon = device.isMobile ? Smartphone : Monitor;
+            return (
+              <li key={session.id} className="flex items-center gap-3 py-3 first:pt-0 last:pb-0">
+                <DeviceIcon className="h-5 w-5 shrink-0 text-slate-400" />
+                <div className="min-w-0 flex-1">
+                  <p className="flex items-center gap-2 text-sm font-medium text-slate-900 dark:text-slate-100">
+                    <span className="truncate" title={session.userAgent ?? undefined}>
+                      {device.label}
+                    </span>
+                    {session.current && (
+                      <span className="shrink-0 rounded-md bg-emerald-500/15 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-emerald-700 dark:text-emerald-400">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                    Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => revokeMutation.mutate(session)}
+                  disabled={revokeMutation.isPending}
+                  className="shrink-0 rounded-lg px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-400 transition disabled:opacity-60"
+                >
+                  {session.current ? 'Log out' : 'Revoke'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
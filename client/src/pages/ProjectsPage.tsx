@@ -0,0 +1,364 @@
+import { useState, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
+import { Plus, Pencil, Trash2, Archive, ArchiveRestore, FolderKanban } from 'lucide-react';
+import { api } from '../lib/api';
+import type { Project } from '../components/ProjectNavList';
+
+interface ProjectFormValues {
+  name: string;
+  color: string;
+  description: string;
+}
+
+const PROJECT_COLORS = ['#0ea5e9', '#6366f1', '#8b5cf6', '#ec4899', '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#64748b'];
+
+const EMPTY_FORM: ProjectFormValues = { name: '', color: PROJECT_COLORS[0] ?? '#0ea5e9', description: '' };
+
+export const ProjectsPage = () => {
+  const queryClient = useQueryClient();
+  const [showArchived, setShowArchived] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [deletingProject, setDeletingProject] = useState<Project | null>(null);
+  const [formValues, setFormValues] = useState<ProjectFormValues>(EMPTY_FORM);
+
+  const { data: projects = [], isLoading, error } = useQuery({
+    queryKey: ['projects', { archived: showArchived ? 'all' : 'false' }],
+    queryFn: async () => {
+      const res = await api.get<Project[]>('/projects', {
+        params: { archived: showArchived ? 'all' : 'false' },
+      });
+      return res.data;
+    },
+  });
+
+  const invalidateProjects = () => {
+    void queryClient.invalidateQueries({ queryKey: ['projects'] });
+    void queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const saveMutation = useMutation<Project, unknown, { id: number | null; values: ProjectFormValues }>({
+    mutationFn: async ({ id, values }) => {
+      const payload = {
+        name: values.name.trim(),
+        color: values.color,
+        description: values.description.trim() || null,
+      };
+      const res = id === null
+        ? await api.post<Project>('/projects', payload)
+        : await api.put<Project>(`/projects/${id}`, payload);
+      return res.data;
+    },
+    onSettled: invalidateProjects,
+  });
+
+  const archiveMutation = useMutation<Project, unknown, Project>({
+    mutationFn: async (project) => {
+      const res = await api.put<Project>(`/projects/${project.id}`, { archived: !project.archived });
+      return res.data;
+    },
+    onSuccess: (project) => toast.success(project.archived ? 'Project archived' : 'Project restored'),
+    onError: () => toast.error('Failed to update project'),
+    onSettled: invalidateProjects,
+  });
+
+  const deleteMutation = useMutation<void, unknown, Project>({
+    mutationFn: async (project) => {
+      await api.delete(`/projects/${project.id}`);
+    },
+    onSettled: invalidateProjects,
+  });
+
+  const openCreateForm = () => {
+    setEditingProject(null);
+    setFormValues({ ...EMPTY_FORM, color: PROJECT_COLORS[projects.length % PROJECT_COLORS.length] ?? EMPTY_FORM.color });
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (project: Project) => {
+    setEditingProject(project);
+    setFormValues({ name: project.name, color: project.color, description: project.description ?? '' });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!formValues.name.trim()) return;
+    saveMutation.mutate(
+      { id: editingProject?.id ?? null, values: formValues },
+      {
+        onSuccess: () => {
+          setIsFormOpen(false);
+          toast.success(editingProject ? 'Project updated' : 'Project created');
+        },
+        onError: () => toast.error(editingProject ? 'Failed to update project' : 'Failed to create project'),
+      },
+    );
+  };
+
+  const handleConfirmDelete = () => {
+    if (!deletingProject) return;
+    deleteMutation.mutate(deletingProject, {
+      onSuccess: () => {
+        setDeletingProject(null);
+        toast.success('Project deleted');
+      },
+      onError: () => toast.error('Failed to delete project'),
+    });
+  };
+
+  return (
+    <section className="flex w-full flex-col gap-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-50">Projects</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Group related tasks and track their progress.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="inline-flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="rounded border-slate-300 dark:border-slate-600"
+            />
+            Show archived
+          </label>
+          <button
+            type="button"
+            onClick={openCreateForm}
+            className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:from-sky-600 hover:to-indigo-600"
+          >
+            <Plus className="h-4 w-4" />
+            New project
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, idx) => (
+            <div
+              key={idx}
+              className="h-32 animate-pulse rounded-2xl border border-slate-200 dark:border-slate-800 bg-slate-100 dark:bg-slate-900/70"
+            />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-red-600 dark:text-red-400">Failed to load projects.</p>
+      ) : projects.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-col items-center justify-center rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 px-6 py-16 text-center"
+        >
+          <FolderKanban className="h-8 w-8 text-slate-400" />
+          <p className="mt-3 text-lg font-semibold text-slate-800 dark:text-slate-100">No projects yet</p>
+          <p className="mt-2 max-w-md text-sm text-slate-600 dark:text-slate-400">
+            Create a project to group tasks. Tasks without a project stay in your main task list.
+          </p>
+        </motion.div>
+      ) : (
+        <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {projects.map((project) => (
+            <motion.li
+              key={project.id}
+              layout
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={`flex flex-col rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/80 p-4 shadow-sm hover:shadow-md transition-shadow border-t-4 ${project.archived ? 'opacity-70' : ''}`}
+              style={{ borderTopColor: project.color }}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <Link
+                    to={`/projects/${project.id}`}
+                    className="block truncate text-sm font-semibold text-slate-900 dark:text-slate-50 hover:text-sky-600 dark:hover:text-sky-400"
+                  >
+                    {project.name}
+                  </Link>
+                  {project.description && (
+                    <p className="mt-0.5 text-xs text-slate-600 dark:text-slate-400 line-clamp-2">{project.description}</p>
+                  )}
+                </div>
+                {project.archived && (
+                  <span className="shrink-0 rounded-md bg-slate-200 dark:bg-slate-800 px-2 py-0.5 text-[10px] font-semibold text-slate-600 dark:text-slate-300">
+                    Archived
+                  </span>
+                )}
+              </div>
+              <div className="mt-4">
+                <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                  <span>
+                    {project.completedCount}/{project.taskCount} done
+                  </span>
+                  <span className="font-medium tabular-nums">{project.completionPercent}%</span>
+                </div>
+                <div className="mt-1.5 h-2 overflow-hidden rounded-full bg-slate-200 dark:bg-slate-800">
+                  <div
+                    className="h-full rounded-full transition-all"
+                    style={{ width: `${project.completionPercent}%`, backgroundColor: project.color }}
+                  />
+                </div>
+              </div>
+              <div className="mt-3 flex items-center justify-end gap-1">
+                <button
+                  type="button"
+                  onClick={() => openEditForm(project)}
+                  className="rounded-lg p-2 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-sky-600 dark:hover:text-sky-400 transition"
+                  title="Edit"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => archiveMutation.mutate(project)}
+                  className="rounded-lg p-2 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white transition"
+                  title={project.archived ? 'Unarchive' : 'Archive'}
+                >
+                  {project.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDeletingProject(project)}
+                  className="rounded-lg p-2 text-slate-500 dark:text-slate-400 hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-400 transition"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </motion.li>
+          ))}
+        </ul>
+      )}
+
+      {/* Create / edit modal */}
+      <AnimatePresence>
+        {isFormOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/60 dark:bg-slate-950/60 backdrop-blur-sm"
+          >
+            <motion.div
+              initial={{ opacity: 0, y: 16, scale: 0.97 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: 16, scale: 0.97 }}
+              transition={{ duration: 0.2 }}
+              className="w-full max-w-md rounded-2xl border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900/95 p-6 shadow-xl"
+            >
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-50">
+                {editingProject ? 'Edit project' : 'New project'}
+              </h3>
+              <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium text-slate-700 dark:text-slate-200" htmlFor="project-name">
+                    Name
+                  </label>
+                  <input
+                    id="project-name"
+                    maxLength={60}
+                    value={formValues.name}
+                    onChange={(e) => setFormValues((prev) => ({ ...prev, name: e.target.value }))}
+                    className="w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 py-2 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium text-slate-700 dark:text-slate-200" htmlFor="project-description">
+                    Description
+                  </label>
+                  <textarea
+                    id="project-description"
+                    rows={2}
+                    value={formValues.description}
+                    onChange={(e) => setFormValues((prev) => ({ ...prev, description: e.target.value }))}
+                    className="w-full resize-none rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 py-2 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <span className="block text-xs font-medium text-slate-700 dark:text-slate-200">Color</span>
+                  <div className="flex flex-wrap gap-2">
+                    {PROJECT_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => setFormValues((prev) => ({ ...prev, color }))}
+                        className={`h-7 w-7 rounded-full transition ${formValues.color === color ? 'ring-2 ring-offset-2 ring-slate-400 dark:ring-offset-slate-900' : ''}`}
+                        style={{ backgroundColor: color }}
+                        aria-label={`Use color ${color}`}
+                        aria-pressed={formValues.color === color}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center justify-end gap-2 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsFormOpen(false)}
+                    className="rounded-lg px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saveMutation.isPending}
+                    className="rounded-lg bg-sky-500 px-4 py-1.5 text-xs font-semibold text-white hover:bg-sky-400 disabled:opacity-60"
+                  >
+                    {editingProject ? 'Save changes' : 'Create project'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Delete confirmation dialog */}
+      <AnimatePresence>
+        {deletingProject && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/60 dark:bg-slate-950/60 backdrop-blur-sm"
+          >
+            <motion.div
+              initial={{ opacity: 0, y: 16, scale: 0.97 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: 16, scale: 0.97 }}
+              transition={{ duration: 0.2 }}
+              className="w-full max-w-sm rounded-2xl border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900/95 p-6 shadow-xl"
+            >
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-50">Delete project</h3>
+              <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+                Delete <span className="font-semibold">{deletingProject.name}</span>? Its{' '}
+                {deletingProject.taskCount} task{deletingProject.taskCount !== 1 ? 's' : ''} will be kept and moved
+                out of the project.
+              </p>
+              <div className="mt-4 flex items-center justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDeletingProject(null)}
+                  className="rounded-lg px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleConfirmDelete}
+                  className="rounded-lg bg-red-500 px-4 py-1.5 text-xs font-semibold text-white hover:bg-red-400"
+                >
+                  Delete
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </section>
+  );
+};
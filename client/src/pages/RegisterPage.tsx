@@ -16,17 +16,9 @@ import {
   EyeOff,
 } from 'lucide-react';
 import { api } from '../lib/api';
+import { validatePassword } from '../lib/password';
 import { useNavigate } from 'react-router-dom';
 
-function validatePassword(password: string): string | null {
-  if (password.length < 8) return 'Password must be at least 8 characters';
-  if (!/[A-Z]/.test(password)) return 'Password must contain at least 1 uppercase letter';
-  if (!/[0-9]/.test(password)) return 'Password must contain at least 1 number';
-  if (!/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?`~]/.test(password))
-    return 'Password must contain at least 1 special character (!@#$%^&* etc.)';
-  return null;
-}
-
 export const RegisterPage = () => {
   const [username, setUsername] = useState('');
   const [email, setEmail] = useState('');
@@ -70,7 +62,7 @@ export const RegisterPage = () => {
         email: String(email).trim().toLowerCase(),
         password,
       });
-      toast.success('Account created. Sign in to continue.');
+      toast.success('Account created. Check your inbox for a link to verify your email, then sign in.');
       navigate('/login');
     } catch (err: unknown) {
       let msg = '';
@@ -1,8 +1,16 @@
-import { useState, useMemo, type FormEvent } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, useMemo, useEffect, useRef, type FormEvent } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryKey,
+} from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
-import { formatDistanceToNow, formatDistanceStrict, isPast, differenceInHours, startOfDay, isBefore } from 'date-fns';
+import { formatDistanceToNow } from 'date-fns';
 import {
   Search,
   Plus,
@@ -20,13 +28,40 @@ import {
   Clock,
   Copy,
   ListTodo,
+  X,
+  FolderKanban,
+  Archive,
+  ListChecks,
+  Repeat,
+  CalendarCheck,
+  Hourglass,
 } from 'lucide-react';
-import { api } from '../lib/api';
+import { api, getErrorMessage } from '../lib/api';
 import { SummaryCard } from '../components/SummaryCard';
+import { TagChip } from '../components/TagChip';
+import { TagInput, type Tag } from '../components/TagInput';
+import type { Project } from '../components/ProjectNavList';
+import { TaskChecklist } from '../components/TaskChecklist';
+import { RecurrencePicker } from '../components/RecurrencePicker';
+import { TaskDetailDrawer } from '../components/TaskDetailDrawer';
+import { describeRecurrence, type RecurrenceRule } from '../lib/recurrence';
+import { TASK_SORT_OPTIONS, useUpdatePreferences } from '../lib/preferences';
+import {
+  dayIn,
+  formatDue,
+  formatDueDistance,
+  fromDueInputs,
+  getDueStatus,
+  toDueInputs,
+  useTimeZone,
+} from '../lib/dueDates';
+import { usePreferencesStore, type UserPreferences } from '../store/preferencesStore';
 
 type Priority = 'low' | 'medium' | 'high';
 type FilterStatus = 'all' | 'active' | 'completed';
-type SortBy = 'date' | 'priority' | 'title';
+type PriorityFilter = 'all' | Priority;
+type SortKey = 'createdAt' | 'dueDate' | 'priority' | 'title';
+type SortOrder = 'asc' | 'desc';
 type ViewMode = 'grid' | 'list';
 
 interface Task {
@@ -35,32 +70,149 @@ interface Task {
   description: string | null;
   completed: boolean;
   createdAt: string;
+  /** "YYYY-MM-DD" for an all-day task, otherwise an ISO timestamp. */
   dueDate?: string | null;
+  dueAllDay?: boolean;
+  /** YYYY-MM-DD */
+  startDate?: string | null;
+  /** YYYY-MM-DD */
+  scheduledFor?: string | null;
   priority?: Priority;
+  tagIds?: number[];
+  projectId?: number | null;
+  checklist?: { done: number; total: number };
+  completeWithChecklist?: boolean;
+  recurrence?: RecurrenceRule | null;
+}
+
+interface TaskPage {
+  items: Task[];
+  nextCursor: string | null;
+  total: number;
+}
+
+interface TaskSummary {
+  total: number;
+  completed: number;
+  pending: number;
+  overdue: number;
 }
 
+interface TaskFilters {
+  q: string;
+  status: FilterStatus;
+  priority: PriorityFilter;
+  dueFrom: string;
+  dueTo: string;
+  tags: string;
+  notStarted: 'hide' | 'show';
+  sort: SortKey;
+  order: SortOrder;
+}
+
+type TaskPages = InfiniteData<TaskPage, string | null>;
+type TaskListSnapshot = [QueryKey, TaskPages | undefined][];
+
 interface TaskFormValues {
   title: string;
   description: string;
   priority: Priority;
   dueDate: string;
+  /** HH:mm, or empty for an all-day task. */
+  dueTime: string;
+  startDate: string;
+  scheduledFor: string;
+  tagIds: number[];
+  projectId: number | null;
+  completeWithChecklist: boolean;
+  recurrence: RecurrenceRule | null;
 }
 
-const DUE_SOON_HOURS = 48;
+const UNDO_TOAST_MS = 6000;
+const PAGE_SIZE = 20;
+const TASK_LIST_KEY = ['tasks', 'list'] as const;
 
-function getDueDateStatus(dueDate: string | null | undefined, completed: boolean): { status: 'overdue' | 'due_soon' | 'ok'; label: string } | null {
+const DEFAULT_FILTERS: TaskFilters = {
+  q: '',
+  status: 'all',
+  priority: 'all',
+  dueFrom: '',
+  dueTo: '',
+  tags: '',
+  notStarted: 'hide',
+  sort: 'createdAt',
+  order: 'desc',
+};
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return value !== null && (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+/** DEFAULT_FILTERS with the user's preferred status filter and sort applied. */
+function preferredFilters(preferences: UserPreferences): TaskFilters {
+  return {
+    ...DEFAULT_FILTERS,
+    status: preferences.defaultStatusFilter,
+    sort: preferences.defaultSort,
+    order: preferences.defaultSortOrder,
+  };
+}
+
+/** Reads the filter/sort state kept in the URL, falling back to defaults. */
+function readFilters(params: URLSearchParams, defaults: TaskFilters): TaskFilters {
+  return {
+    q: params.get('q') ?? '',
+    status: oneOf(params.get('status'), ['all', 'active', 'completed'], defaults.status),
+    priority: oneOf(params.get('priority'), ['all', 'low', 'medium', 'high'], defaults.priority),
+    dueFrom: params.get('dueFrom') ?? '',
+    dueTo: params.get('dueTo') ?? '',
+    tags: params.get('tags') ?? '',
+    notStarted: oneOf(params.get('notStarted'), ['hide', 'show'], defaults.notStarted),
+    sort: oneOf(params.get('sort'), ['createdAt', 'dueDate', 'priority', 'title'], defaults.sort),
+    order: oneOf(params.get('order'), ['asc', 'desc'], defaults.order),
+  };
+}
+
+/** Writes filters back to URL params, leaving out anything at its default. */
+function writeFilters(filters: TaskFilters, defaults: TaskFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(defaults) as (keyof TaskFilters)[]).forEach((key) => {
+    const value = filters[key].trim();
+    if (value !== defaults[key]) params.set(key, value);
+  });
+  return params;
+}
+
+/** Maps filters to GET /tasks query parameters. */
+function toQueryParams(filters: TaskFilters): Record<string, string> {
+  const params: Record<string, string> = { sort: filters.sort, order: filters.order };
+  if (filters.q.trim()) params.q = filters.q.trim();
+  if (filters.status !== 'all') params.status = filters.status;
+  if (filters.priority !== 'all') params.priority = filters.priority;
+  if (filters.dueFrom) params.dueFrom = filters.dueFrom;
+  if (filters.dueTo) params.dueTo = filters.dueTo;
+  if (filters.tags) params.tags = filters.tags;
+  if (filters.notStarted === 'show') params.includeNotStarted = 'true';
+  return params;
+}
+
+function getDueDateStatus(
+  dueDate: string | null | undefined,
+  completed: boolean,
+  timeZone: string,
+  dueSoonHours: number,
+): { status: 'overdue' | 'due_soon' | 'ok'; label: string } | null {
   if (!dueDate || completed) return null;
-  const date = new Date(dueDate);
-  if (Number.isNaN(date.getTime())) return null;
-  const now = new Date();
-  if (isPast(date)) {
-    return { status: 'overdue', label: 'Overdue' };
-  }
-  const hoursLeft = differenceInHours(date, now);
-  if (hoursLeft <= DUE_SOON_HOURS) {
-    return { status: 'due_soon', label: 'Due soon' };
+  switch (getDueStatus(dueDate, timeZone, dueSoonHours)) {
+    case 'overdue':
+      return { status: 'overdue', label: 'Overdue' };
+    case 'dueToday':
+      return { status: 'due_soon', label: 'Due today' };
+    case 'dueSoon':
+      return { status: 'due_soon', label: 'Due soon' };
+    default:
+      return { status: 'ok', label: formatDueDistance(dueDate, timeZone) };
   }
-  return { status: 'ok', label: formatDistanceStrict(now, date, { addSuffix: true }) };
 }
 
 const priorityColors: Record<Priority, string> = {
@@ -75,8 +227,6 @@ const priorityBorder: Record<Priority, string> = {
   high: 'border-l-red-500',
 };
 
-const priorityOrder: Record<Priority, number> = { low: 0, medium: 1, high: 2 };
-
 const SIMILARITY_WORD_OVERLAP_THRESHOLD = 0.6;
 
 function normalizeTitle(s: string): string {
@@ -105,6 +255,11 @@ function findSimilarTasks(newTitle: string, tasks: Task[]): Task[] {
 
 export const TasksPage = () => {
   const queryClient = useQueryClient();
+  const params = useParams();
+  const projectId = params.projectId ? Number(params.projectId) : null;
+  const detailTaskId = params.taskId ? Number(params.taskId) : null;
+  const basePath = projectId !== null ? `/projects/${projectId}` : '/tasks';
+  const navigate = useNavigate();
 
   const [isAddOpen, setIsAddOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
@@ -118,33 +273,218 @@ export const TasksPage = () => {
     description: '',
     priority: 'medium',
     dueDate: '',
+    dueTime: '',
+    startDate: '',
+    scheduledFor: '',
+    tagIds: [],
+    projectId,
+    completeWithChecklist: false,
+    recurrence: null,
+  });
+  const [expandedChecklistId, setExpandedChecklistId] = useState<number | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const preferences = usePreferencesStore((s) => s.preferences);
+  const timeZone = useTimeZone();
+  const today = dayIn(timeZone);
+  const updatePreferences = useUpdatePreferences();
+  const defaultFilters = useMemo(() => preferredFilters(preferences), [preferences]);
+  const filters = useMemo(() => readFilters(searchParams, defaultFilters), [searchParams, defaultFilters]);
+
+  // The detail drawer lives at `<basePath>/tasks/:taskId`; closing it keeps the current filters.
+  const search = searchParams.toString();
+  const taskLink = (taskId: number) => ({
+    pathname: `${projectId !== null ? basePath : ''}/tasks/${taskId}`,
+    search,
+  });
+  const closeDetail = () => {
+    void navigate({ pathname: basePath, search });
+  };
+  const [searchInput, setSearchInput] = useState(filters.q);
+  // The view toggle doubles as the saved default, so the choice sticks across visits.
+  const viewMode: ViewMode = preferences.defaultViewMode;
+  const setViewMode = (mode: ViewMode) => {
+    if (mode !== viewMode) updatePreferences.mutate({ defaultViewMode: mode });
+  };
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const updateFilters = (patch: Partial<TaskFilters>) => {
+    setSearchParams((prev) => writeFilters({ ...readFilters(prev, defaultFilters), ...patch }, defaultFilters), {
+      replace: true,
+    });
+  };
+
+  // Debounce typing so we don't refetch on every keystroke.
+  useEffect(() => {
+    if (searchInput === filters.q) return;
+    const timeout = setTimeout(() => {
+      setSearchParams(
+        (prev) => writeFilters({ ...readFilters(prev, defaultFilters), q: searchInput }, defaultFilters),
+        { replace: true },
+      );
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, filters.q, setSearchParams, defaultFilters]);
+
+  const listParams = useMemo(
+    () => ({
+      ...toQueryParams(filters),
+      tz: timeZone,
+      ...(projectId !== null ? { projectId: String(projectId) } : {}),
+    }),
+    [filters, projectId, timeZone],
+  );
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [...TASK_LIST_KEY, listParams],
+    queryFn: async ({ pageParam }) => {
+      const res = await api.get<TaskPage>('/tasks', {
+        params: { ...listParams, limit: PAGE_SIZE, ...(pageParam ? { cursor: pageParam } : {}) },
+      });
+      return res.data;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filterStatus, setFilterStatus] = useState<FilterStatus>('all');
-  const [sortBy, setSortBy] = useState<SortBy>('date');
-  const [viewMode, setViewMode] = useState<ViewMode>('grid');
 
-  const { data, isLoading, error } = useQuery({
-    queryKey: ['tasks'],
+  const { data: summary } = useQuery({
+    queryKey: ['tasks', 'summary', projectId, timeZone],
     queryFn: async () => {
-      const res = await api.get<Task[]>('/tasks');
+      const res = await api.get<TaskSummary>('/tasks/summary', {
+        params: {
+          tz: timeZone,
+          ...(projectId !== null ? { projectId } : {}),
+        },
+      });
       return res.data;
     },
   });
 
-  const createMutation = useMutation<Task, unknown, TaskFormValues, { previousTasks: Task[] }>({
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects'],
+    queryFn: async () => {
+      const res = await api.get<Project[]>('/projects');
+      return res.data;
+    },
+  });
+
+  // Fetched separately so archived projects (absent from the sidebar list) still resolve.
+  const { data: currentProject, error: projectError } = useQuery({
+    queryKey: ['projects', projectId],
+    queryFn: async () => {
+      const res = await api.get<Project>(`/projects/${projectId}`);
+      return res.data;
+    },
+    enabled: projectId !== null,
+  });
+
+  const projectsById = useMemo(() => new Map(projects.map((project) => [project.id, project])), [projects]);
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['tags'],
+    queryFn: async () => {
+      const res = await api.get<Tag[]>('/tags');
+      return res.data;
+    },
+  });
+
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+  const selectedFilterTagIds = useMemo(
+    () => filters.tags.split(',').map(Number).filter((id) => Number.isInteger(id) && id > 0),
+    [filters.tags],
+  );
+
+  const createTagMutation = useMutation<Tag, unknown, string>({
+    mutationFn: async (name) => {
+      const res = await api.post<Tag>('/tags', { name });
+      return res.data;
+    },
+    onSuccess: (tag) => {
+      queryClient.setQueryData<Tag[]>(['tags'], (current = []) =>
+        [...current, tag].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+    },
+    onError: () => toast.error('Failed to create tag'),
+  });
+
+  const toggleFilterTag = (tagId: number) => {
+    const next = selectedFilterTagIds.includes(tagId)
+      ? selectedFilterTagIds.filter((id) => id !== tagId)
+      : [...selectedFilterTagIds, tagId];
+    updateFilters({ tags: next.join(',') });
+  };
+
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) void fetchNextPage();
+      },
+      { rootMargin: '200px' },
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  /** Snapshot every cached task list so an optimistic update can be rolled back. */
+  const snapshotTaskLists = async (): Promise<TaskListSnapshot> => {
+    await queryClient.cancelQueries({ queryKey: TASK_LIST_KEY });
+    return queryClient.getQueriesData<TaskPages>({ queryKey: TASK_LIST_KEY });
+  };
+
+  const restoreTaskLists = (snapshot: TaskListSnapshot | undefined) => {
+    snapshot?.forEach(([key, value]) => queryClient.setQueryData(key, value));
+  };
+
+  const updateTaskLists = (update: (items: Task[], pageIndex: number) => Task[]) => {
+    queryClient.setQueriesData<TaskPages>({ queryKey: TASK_LIST_KEY }, (current) =>
+      current
+        ? { ...current, pages: current.pages.map((page, i) => ({ ...page, items: update(page.items, i) })) }
+        : current,
+    );
+  };
+
+  /** Every task currently cached across list queries, used for duplicate detection. */
+  const getLoadedTasks = (): Task[] => {
+    const byId = new Map<number, Task>();
+    queryClient
+      .getQueriesData<TaskPages>({ queryKey: TASK_LIST_KEY })
+      .forEach(([, cached]) => cached?.pages.forEach((page) => page.items.forEach((task) => byId.set(task.id, task))));
+    return [...byId.values()];
+  };
+
+  const invalidateTasks = () => {
+    void queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    void queryClient.invalidateQueries({ queryKey: ['tags'] });
+    void queryClient.invalidateQueries({ queryKey: ['projects'] });
+    void queryClient.invalidateQueries({ queryKey: ['activity'] });
+  };
+
+  const createMutation = useMutation<Task, unknown, TaskFormValues, { previousLists: TaskListSnapshot }>({
     mutationFn: async (values) => {
       const res = await api.post<Task>('/tasks', {
         title: values.title,
         description: values.description || null,
         priority: values.priority,
-        dueDate: values.dueDate ? values.dueDate : null,
+        dueDate: fromDueInputs(values.dueDate, values.dueTime, timeZone),
+        startDate: values.startDate || null,
+        scheduledFor: values.scheduledFor || null,
+        tagIds: values.tagIds,
+        projectId: values.projectId,
+        completeWithChecklist: values.completeWithChecklist,
+        recurrence: values.dueDate ? values.recurrence : null,
       });
       return res.data;
     },
     onMutate: async (values) => {
-      await queryClient.cancelQueries({ queryKey: ['tasks'] });
-      const previousTasks = queryClient.getQueryData<Task[]>(['tasks']) ?? [];
+      const previousLists = await snapshotTaskLists();
 
       const optimisticTask: Task = {
         id: Date.now(),
@@ -152,30 +492,33 @@ export const TasksPage = () => {
         description: values.description || null,
         completed: false,
         createdAt: new Date().toISOString(),
-        dueDate: values.dueDate || null,
+        dueDate: fromDueInputs(values.dueDate, values.dueTime, timeZone),
+        dueAllDay: Boolean(values.dueDate) && !values.dueTime,
+        startDate: values.startDate || null,
+        scheduledFor: values.scheduledFor || null,
         priority: values.priority,
+        tagIds: values.tagIds,
+        projectId: values.projectId,
+        checklist: { done: 0, total: 0 },
+        completeWithChecklist: values.completeWithChecklist,
+        recurrence: values.recurrence,
       };
 
-      queryClient.setQueryData<Task[]>(['tasks'], [...previousTasks, optimisticTask]);
+      updateTaskLists((items, pageIndex) => (pageIndex === 0 ? [optimisticTask, ...items] : items));
 
-      return { previousTasks };
+      return { previousLists };
     },
     onError: (_err, _values, context) => {
-      if (context?.previousTasks) {
-        queryClient.setQueryData<Task[]>(['tasks'], context.previousTasks);
-      }
-    },
-    onSettled: () => {
-      void queryClient.invalidateQueries({ queryKey: ['tasks'] });
-      void queryClient.invalidateQueries({ queryKey: ['activity'] });
+      restoreTaskLists(context?.previousLists);
     },
+    onSettled: invalidateTasks,
   });
 
   const updateMutation = useMutation<
     void,
     unknown,
-    { id: number; values: Partial<TaskFormValues> & { completed?: boolean; dueDate?: string } },
-    { previousTasks: Task[] }
+    { id: number; values: Partial<TaskFormValues> & { completed?: boolean } },
+    { previousLists: TaskListSnapshot }
   >({
     mutationFn: async ({ id, values }) => {
       const payload: Record<string, unknown> = {};
@@ -183,110 +526,146 @@ export const TasksPage = () => {
       if (values.description !== undefined) payload.description = values.description;
       if (values.completed !== undefined) payload.completed = values.completed;
       if (values.priority !== undefined) payload.priority = values.priority;
-      if (values.dueDate !== undefined) payload.dueDate = values.dueDate || null;
+      if (values.dueDate !== undefined) payload.dueDate = fromDueInputs(values.dueDate, values.dueTime ?? '', timeZone);
+      if (values.startDate !== undefined) payload.startDate = values.startDate || null;
+      if (values.scheduledFor !== undefined) payload.scheduledFor = values.scheduledFor || null;
+      if (values.tagIds !== undefined) payload.tagIds = values.tagIds;
+      if (values.projectId !== undefined) payload.projectId = values.projectId;
+      if (values.completeWithChecklist !== undefined) payload.completeWithChecklist = values.completeWithChecklist;
+      if (values.recurrence !== undefined) payload.recurrence = values.recurrence;
       await api.put(`/tasks/${id}`, payload);
     },
     onMutate: async ({ id, values }) => {
-      await queryClient.cancelQueries({ queryKey: ['tasks'] });
-      const previousTasks = queryClient.getQueryData<Task[]>(['tasks']) ?? [];
-
-      const nextTasks = previousTasks.map((task) =>
-        task.id === id
-          ? {
-              ...task,
-              title: values.title ?? task.title,
-              description:
-                values.description !== undefined ? values.description : task.description,
-              completed:
-                values.completed !== undefined ? values.completed : task.completed,
-              priority: values.priority ?? task.priority,
-              dueDate: values.dueDate !== undefined ? (values.dueDate || null) : task.dueDate,
-            }
-          : task,
-      );
+      const previousLists = await snapshotTaskLists();
 
-      queryClient.setQueryData<Task[]>(['tasks'], nextTasks);
+      updateTaskLists((items) =>
+        items.map((task) =>
+          task.id === id
+            ? {
+                ...task,
+                title: values.title ?? task.title,
+                description:
+                  values.description !== undefined ? values.description : task.description,
+                completed:
+                  values.completed !== undefined ? values.completed : task.completed,
+                priority: values.priority ?? task.priority,
+                dueDate:
+                  values.dueDate !== undefined
+                    ? fromDueInputs(values.dueDate, values.dueTime ?? '', timeZone)
+                    : task.dueDate,
+                dueAllDay: values.dueDate !== undefined ? !values.dueTime : task.dueAllDay,
+                startDate: values.startDate !== undefined ? values.startDate || null : task.startDate,
+                scheduledFor: values.scheduledFor !== undefined ? values.scheduledFor || null : task.scheduledFor,
+                tagIds: values.tagIds ?? task.tagIds,
+                projectId: values.projectId !== undefined ? values.projectId : task.projectId,
+                completeWithChecklist: values.completeWithChecklist ?? task.completeWithChecklist,
+                recurrence: values.recurrence !== undefined ? values.recurrence : task.recurrence,
+              }
+            : task,
+        ),
+      );
 
-      return { previousTasks };
+      return { previousLists };
     },
     onError: (_err, _variables, context) => {
-      if (context?.previousTasks) {
-        queryClient.setQueryData<Task[]>(['tasks'], context.previousTasks);
-      }
-    },
-    onSettled: () => {
-      void queryClient.invalidateQueries({ queryKey: ['tasks'] });
-      void queryClient.invalidateQueries({ queryKey: ['activity'] });
+      restoreTaskLists(context?.previousLists);
     },
+    onSettled: invalidateTasks,
   });
 
-  const deleteMutation = useMutation<void, unknown, Task, { previousTasks: Task[] }>({
+  const deleteMutation = useMutation<void, unknown, Task, { previousLists: TaskListSnapshot }>({
     mutationFn: async (task) => {
       await api.delete(`/tasks/${task.id}`);
     },
     onMutate: async (task) => {
-      await queryClient.cancelQueries({ queryKey: ['tasks'] });
-      const previousTasks = queryClient.getQueryData<Task[]>(['tasks']) ?? [];
-      const nextTasks = previousTasks.filter((t) => t.id !== task.id);
-      queryClient.setQueryData<Task[]>(['tasks'], nextTasks);
-      return { previousTasks };
+      const previousLists = await snapshotTaskLists();
+      updateTaskLists((items) => items.filter((t) => t.id !== task.id));
+      return { previousLists };
     },
     onError: (_err, _task, context) => {
-      if (context?.previousTasks) {
-        queryClient.setQueryData<Task[]>(['tasks'], context.previousTasks);
-      }
-    },
-    onSettled: () => {
-      void queryClient.invalidateQueries({ queryKey: ['tasks'] });
-      void queryClient.invalidateQueries({ queryKey: ['activity'] });
+      restoreTaskLists(context?.previousLists);
     },
+    onSettled: invalidateTasks,
   });
 
-  const toggleMutation = useMutation<void, unknown, Task, { previousTasks: Task[] }>({
+  const toggleMutation = useMutation<void, unknown, Task, { previousLists: TaskListSnapshot }>({
     mutationFn: async (task: Task) => {
       const payload = { completed: !task.completed };
       await api.put(`/tasks/${task.id}`, payload);
     },
     onMutate: async (task) => {
-      await queryClient.cancelQueries({ queryKey: ['tasks'] });
-      const previousTasks = queryClient.getQueryData<Task[]>(['tasks']) ?? [];
-      const nextTasks = previousTasks.map((t) =>
-        t.id === task.id ? { ...t, completed: !t.completed } : t,
+      const previousLists = await snapshotTaskLists();
+      updateTaskLists((items) =>
+        items.map((t) => (t.id === task.id ? { ...t, completed: !t.completed } : t)),
       );
-      queryClient.setQueryData<Task[]>(['tasks'], nextTasks);
-      return { previousTasks };
+      return { previousLists };
     },
     onError: (_err, _task, context) => {
-      if (context?.previousTasks) {
-        queryClient.setQueryData<Task[]>(['tasks'], context.previousTasks);
-      }
+      restoreTaskLists(context?.previousLists);
     },
-    onSettled: () => {
-      void queryClient.invalidateQueries({ queryKey: ['tasks'] });
-      void queryClient.invalidateQueries({ queryKey: ['activity'] });
+    onSettled: invalidateTasks,
+  });
+
+  const undoMutation = useMutation<void, unknown, () => Promise<unknown>>({
+    mutationFn: async (undo) => {
+      await undo();
     },
+    onSuccess: () => toast.success('Undone'),
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to undo')),
+    onSettled: invalidateTasks,
   });
 
+  /** Success toast with a short-lived "Undo" action. */
+  const toastWithUndo = (message: string, undo: () => Promise<unknown>) => {
+    toast.success(message, {
+      duration: UNDO_TOAST_MS,
+      action: { label: 'Undo', onClick: () => undoMutation.mutate(undo) },
+    });
+  };
+
   const handleToggle = (task: Task) => {
-    toggleMutation.mutate(task);
+    toggleMutation.mutate(task, {
+      onSuccess: () => {
+        if (!task.completed) {
+          toastWithUndo('Task completed', () => api.put(`/tasks/${task.id}`, { completed: false }));
+        }
+      },
+    });
   };
 
   const openAddModal = () => {
-    setFormValues({ title: '', description: '', priority: 'medium', dueDate: '' });
+    setFormValues({
+      title: '',
+      description: '',
+      priority: 'medium',
+      dueDate: '',
+      dueTime: '',
+      startDate: '',
+      scheduledFor: '',
+      tagIds: [],
+      projectId,
+      completeWithChecklist: false,
+      recurrence: null,
+    });
     setActiveTask(null);
     setIsAddOpen(true);
   };
 
   const openEditModal = (task: Task) => {
     setActiveTask(task);
-    const dueDateValue = task.dueDate
-      ? new Date(task.dueDate).toISOString().slice(0, 10)
-      : '';
+    const due = toDueInputs(task.dueDate, timeZone);
     setFormValues({
       title: task.title,
       description: task.description ?? '',
       priority: task.priority ?? 'medium',
-      dueDate: dueDateValue,
+      dueDate: due.date,
+      dueTime: due.time,
+      startDate: task.startDate ?? '',
+      scheduledFor: task.scheduledFor ?? '',
+      tagIds: task.tagIds ?? [],
+      projectId: task.projectId ?? null,
+      completeWithChecklist: task.completeWithChecklist ?? false,
+      recurrence: task.recurrence ?? null,
     });
     setIsEditOpen(true);
   };
@@ -296,7 +675,10 @@ export const TasksPage = () => {
     setIsDeleteOpen(true);
   };
 
-  const handleFormChange = (field: keyof TaskFormValues, value: string) => {
+  const handleFormChange = (
+    field: Exclude<keyof TaskFormValues, 'tagIds' | 'projectId' | 'completeWithChecklist' | 'recurrence'>,
+    value: string,
+  ) => {
     setFormValues((prev) => ({
       ...prev,
       [field]: field === 'priority' ? (value as Priority) : value,
@@ -309,12 +691,15 @@ export const TasksPage = () => {
     return !Number.isNaN(date.getTime());
   };
 
+  // Mirrors the server rule: a task can't be planned for a day before it starts.
+  const isScheduleValid = (values: TaskFormValues): boolean =>
+    !values.startDate || !values.scheduledFor || values.scheduledFor >= values.startDate;
+
   const handleCreateSubmit = (e: FormEvent) => {
     e.preventDefault();
     if (!formValues.title.trim()) return;
-    if (!isDueDateValid(formValues.dueDate)) return;
-    const tasks = queryClient.getQueryData<Task[]>(['tasks']) ?? [];
-    const similar = findSimilarTasks(formValues.title, tasks);
+    if (!isDueDateValid(formValues.dueDate) || !isScheduleValid(formValues)) return;
+    const similar = findSimilarTasks(formValues.title, getLoadedTasks());
     if (similar.length > 0) {
       setPendingCreateValues({ ...formValues });
       setSimilarTasksForWarning(similar);
@@ -333,7 +718,7 @@ export const TasksPage = () => {
         setSimilarTasksForWarning([]);
         toast.success('Task created');
       },
-      onError: () => toast.error('Failed to create task'),
+      onError: (err) => toast.error(getErrorMessage(err, 'Failed to create task')),
     });
   };
 
@@ -351,8 +736,9 @@ export const TasksPage = () => {
   const handleEditSubmit = (e: FormEvent) => {
     e.preventDefault();
     if (!activeTask) return;
+    const previous = activeTask;
     if (!formValues.title.trim()) return;
-    if (!isDueDateValid(formValues.dueDate)) return;
+    if (!isDueDateValid(formValues.dueDate) || !isScheduleValid(formValues)) return;
     updateMutation.mutate(
       {
         id: activeTask.id,
@@ -361,63 +747,63 @@ export const TasksPage = () => {
           description: formValues.description,
           priority: formValues.priority,
           dueDate: formValues.dueDate,
+          dueTime: formValues.dueTime,
+          startDate: formValues.startDate,
+          scheduledFor: formValues.scheduledFor,
+          tagIds: formValues.tagIds,
+          projectId: formValues.projectId,
+          completeWithChecklist: formValues.completeWithChecklist,
+          recurrence: formValues.dueDate ? formValues.recurrence : null,
         },
       },
       {
         onSuccess: () => {
           setIsEditOpen(false);
-          toast.success('Task updated');
+          toastWithUndo('Task updated', () =>
+            api.put(`/tasks/${previous.id}`, {
+              title: previous.title,
+              description: previous.description ?? '',
+              priority: previous.priority ?? 'medium',
+              dueDate: previous.dueDate ?? null,
+              startDate: previous.startDate ?? null,
+              scheduledFor: previous.scheduledFor ?? null,
+              tagIds: previous.tagIds ?? [],
+              projectId: previous.projectId ?? null,
+              completeWithChecklist: previous.completeWithChecklist ?? false,
+              recurrence: previous.recurrence ?? null,
+            }),
+          );
         },
-        onError: () => toast.error('Failed to update task'),
+        onError: (err) => toast.error(getErrorMessage(err, 'Failed to update task')),
       },
     );
   };
 
   const handleConfirmDelete = () => {
     if (!activeTask) return;
-    deleteMutation.mutate(activeTask, {
+    const deleted = activeTask;
+    deleteMutation.mutate(deleted, {
       onSuccess: () => {
         setIsDeleteOpen(false);
-        toast.success('Task deleted');
+        toastWithUndo('Task moved to trash', () => api.post(`/tasks/${deleted.id}/restore`));
       },
       onError: () => toast.error('Failed to delete task'),
     });
   };
 
-  const rawTasks = useMemo(() => data ?? [], [data]);
-
-  const taskSummary = useMemo(() => {
-    const total = rawTasks.length;
-    const completed = rawTasks.filter((t) => t.completed).length;
-    const pending = rawTasks.filter((t) => !t.completed).length;
-    const todayStart = startOfDay(new Date());
-    const overdue = rawTasks.filter((t) => {
-      if (t.completed || !t.dueDate) return false;
-      const due = new Date(t.dueDate);
-      if (Number.isNaN(due.getTime())) return false;
-      return isBefore(due, todayStart);
-    }).length;
-    return { total, completed, pending, overdue };
-  }, [rawTasks]);
-
-  const filteredAndSortedTasks = useMemo(() => {
-    let list = rawTasks.filter((task) => {
-      const matchSearch =
-        !searchQuery.trim() ||
-        task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (task.description?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false);
-      const matchStatus =
-        filterStatus === 'all' ||
-        (filterStatus === 'active' && !task.completed) ||
-        (filterStatus === 'completed' && task.completed);
-      return matchSearch && matchStatus;
+  const tasks = useMemo(() => data?.pages.flatMap((page) => page.items) ?? [], [data]);
+  const matchingCount = data?.pages[0]?.total ?? 0;
+  const taskSummary = summary ?? { total: 0, completed: 0, pending: 0, overdue: 0 };
+  const hasActiveFilters = (Object.keys(defaultFilters) as (keyof TaskFilters)[]).some(
+    (key) => key !== 'sort' && key !== 'order' && filters[key] !== defaultFilters[key],
+  );
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearchParams(writeFilters({ ...defaultFilters, sort: filters.sort, order: filters.order }, defaultFilters), {
+      replace: true,
     });
-    const p = (t: Task) => priorityOrder[t.priority ?? 'medium'];
-    if (sortBy === 'date') list = [...list].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    if (sortBy === 'priority') list = [...list].sort((a, b) => p(b) - p(a));
-    if (sortBy === 'title') list = [...list].sort((a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }));
-    return list;
-  }, [rawTasks, searchQuery, filterStatus, sortBy]);
+  };
 
   return (
     <section className="flex w-full flex-col gap-6">
@@ -450,15 +836,45 @@ export const TasksPage = () => {
 
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <div>
-          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-50">Tasks</h2>
-          <p className="text-sm text-slate-600 dark:text-slate-400">
-            {filteredAndSortedTasks.length} of {rawTasks.length} task{rawTasks.length !== 1 ? 's' : ''}
-          </p>
+          {currentProject ? (
+            <>
+              <Link
+                to="/projects"
+                className="inline-flex items-center gap-1 text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-sky-600 dark:hover:text-sky-400"
+              >
+                <FolderKanban className="h-3.5 w-3.5" />
+                Projects
+              </Link>
+              <h2 className="flex items-center gap-2 text-xl font-bold text-slate-900 dark:text-slate-50">
+                <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: currentProject.color }} />
+                {currentProject.name}
+                {currentProject.archived && (
+                  <span className="inline-flex items-center gap-1 rounded-md bg-slate-200 dark:bg-slate-800 px-2 py-0.5 text-[10px] font-semibold text-slate-600 dark:text-slate-300">
+                    <Archive className="h-3 w-3" />
+                    Archived
+                  </span>
+                )}
+              </h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {currentProject.completionPercent}% complete · {matchingCount} of {taskSummary.total} task
+                {taskSummary.total !== 1 ? 's' : ''}
+              </p>
+            </>
+          ) : (
+            <>
+              <h2 className="text-xl font-bold text-slate-900 dark:text-slate-50">Tasks</h2>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {matchingCount} of {taskSummary.total} task{taskSummary.total !== 1 ? 's' : ''}
+              </p>
+            </>
+          )}
         </div>
         <button
           type="button"
           onClick={openAddModal}
-          className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:from-sky-600 hover:to-indigo-600"
+          disabled={currentProject?.archived}
+          title={currentProject?.archived ? 'Unarchive the project to add tasks' : undefined}
+          className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:from-sky-600 hover:to-indigo-600 disabled:opacity-50 disabled:pointer-events-none"
         >
           <Plus className="h-4 w-4" />
           Add task
@@ -472,16 +888,16 @@ export const TasksPage = () => {
           <input
             type="text"
             placeholder="Search tasks..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
             className="w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 pl-9 pr-3 py-2 text-sm text-slate-900 dark:text-slate-100 placeholder:text-slate-400 focus:border-sky-500 focus:ring-1 focus:ring-sky-500 outline-none"
           />
         </div>
         <div className="flex items-center gap-2">
           <Filter className="h-4 w-4 text-slate-500 dark:text-slate-400 shrink-0" />
           <select
-            value={filterStatus}
-            onChange={(e) => setFilterStatus(e.target.value as FilterStatus)}
+            value={filters.status}
+            onChange={(e) => updateFilters({ status: e.target.value as FilterStatus })}
             className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2 text-sm text-slate-700 dark:text-slate-200 focus:border-sky-500 outline-none"
             aria-label="Filter tasks by status"
           >
@@ -489,20 +905,73 @@ export const TasksPage = () => {
             <option value="active">Active</option>
             <option value="completed">Completed</option>
           </select>
+          <select
+            value={filters.priority}
+            onChange={(e) => updateFilters({ priority: e.target.value as PriorityFilter })}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2 text-sm text-slate-700 dark:text-slate-200 focus:border-sky-500 outline-none"
+            aria-label="Filter tasks by priority"
+          >
+            <option value="all">Any priority</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
         </div>
+        <div className="flex items-center gap-2">
+          <Calendar className="h-4 w-4 text-slate-500 dark:text-slate-400 shrink-0" />
+          <input
+            type="date"
+            value={filters.dueFrom}
+            onChange={(e) => updateFilters({ dueFrom: e.target.value })}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-2 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:border-sky-500 outline-none"
+            aria-label="Due from"
+          />
+          <span className="text-xs text-slate-500 dark:text-slate-400">to</span>
+          <input
+            type="date"
+            value={filters.dueTo}
+            onChange={(e) => updateFilters({ dueTo: e.target.value })}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-2 py-1.5 text-sm text-slate-700 dark:text-slate-200 focus:border-sky-500 outline-none"
+            aria-label="Due to"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={filters.notStarted === 'show'}
+            onChange={(e) => updateFilters({ notStarted: e.target.checked ? 'show' : 'hide' })}
+            className="rounded border-slate-300 dark:border-slate-600 text-sky-500 focus:ring-sky-500/30"
+          />
+          Not started yet
+        </label>
         <div className="flex items-center gap-2">
           <ArrowUpDown className="h-4 w-4 text-slate-500 dark:text-slate-400 shrink-0" />
           <select
-            value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as SortBy)}
+            value={`${filters.sort}:${filters.order}`}
+            onChange={(e) => {
+              const [sort, order] = e.target.value.split(':') as [SortKey, SortOrder];
+              updateFilters({ sort, order });
+            }}
             className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2 text-sm text-slate-700 dark:text-slate-200 focus:border-sky-500 outline-none"
             aria-label="Sort tasks"
           >
-            <option value="date">Newest first</option>
-            <option value="priority">Priority</option>
-            <option value="title">Title A–Z</option>
+            {TASK_SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
           </select>
         </div>
+        {hasActiveFilters && (
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="inline-flex items-center gap-1 rounded-lg px-2 py-2 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800"
+          >
+            <X className="h-3.5 w-3.5" />
+            Clear
+          </button>
+        )}
         <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 p-0.5 bg-slate-100 dark:bg-slate-800">
           <button
             type="button"
@@ -523,6 +992,21 @@ export const TasksPage = () => {
         </div>
       </div>
 
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Tags</span>
+          {tags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              name={tag.name}
+              color={tag.color}
+              selected={selectedFilterTagIds.includes(tag.id)}
+              onClick={() => toggleFilterTag(tag.id)}
+            />
+          ))}
+        </div>
+      )}
+
       {isLoading ? (
         <div className="grid gap-4 md:grid-cols-2">
           {Array.from({ length: 4 }).map((_, idx) => (
@@ -540,9 +1024,11 @@ export const TasksPage = () => {
             </div>
           ))}
         </div>
+      ) : projectError ? (
+        <p className="text-red-600 dark:text-red-400">Project not found.</p>
       ) : error ? (
         <p className="text-red-600 dark:text-red-400">Failed to load tasks.</p>
-      ) : rawTasks.length === 0 ? (
+      ) : taskSummary.total === 0 && !hasActiveFilters ? (
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -556,7 +1042,7 @@ export const TasksPage = () => {
             Add task
           </button>
         </motion.div>
-      ) : filteredAndSortedTasks.length === 0 ? (
+      ) : tasks.length === 0 ? (
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -572,7 +1058,7 @@ export const TasksPage = () => {
             initial={false}
             className={viewMode === 'grid' ? 'grid gap-4 sm:grid-cols-2 lg:grid-cols-3' : 'flex flex-col gap-3'}
           >
-            {filteredAndSortedTasks.map((task, index) => {
+            {tasks.map((task, index) => {
               const priority: Priority = task.priority ?? 'medium';
               const priorityLabel = priority.charAt(0).toUpperCase() + priority.slice(1);
 
@@ -592,9 +1078,12 @@ export const TasksPage = () => {
                       )}
                     </button>
                     <div className="min-w-0 flex-1">
-                      <p className={`text-sm font-semibold text-slate-900 dark:text-slate-50 ${task.completed ? 'line-through opacity-70' : ''}`}>
+                      <Link
+                        to={taskLink(task.id)}
+                        className={`block text-sm font-semibold text-slate-900 dark:text-slate-50 hover:text-sky-600 dark:hover:text-sky-400 ${task.completed ? 'line-through opacity-70' : ''}`}
+                      >
                         {task.title}
-                      </p>
+                      </Link>
                       {task.description && (
                         <p className="mt-0.5 text-xs text-slate-600 dark:text-slate-400 line-clamp-2">
                           {task.description}
@@ -605,14 +1094,63 @@ export const TasksPage = () => {
                           <Flag className="h-3 w-3" />
                           {priorityLabel}
                         </span>
+                        {task.checklist && task.checklist.total > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => setExpandedChecklistId((id) => (id === task.id ? null : task.id))}
+                            className={`inline-flex items-center gap-1 rounded-md px-2 py-0.5 text-[10px] font-semibold tabular-nums transition ${
+                              task.checklist.done === task.checklist.total
+                                ? 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-400'
+                                : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:text-sky-600 dark:hover:text-sky-400'
+                            }`}
+                            title="Show checklist"
+                          >
+                            <ListChecks className="h-3 w-3" />
+                            {task.checklist.done}/{task.checklist.total}
+                          </button>
+                        )}
+                        {projectId === null && task.projectId != null && (() => {
+                          const project = projectsById.get(task.projectId);
+                          if (!project) return null;
+                          return (
+                            <Link
+                              to={`/projects/${project.id}`}
+                              className="inline-flex max-w-[9rem] items-center gap-1 rounded-md bg-slate-100 dark:bg-slate-800 px-2 py-0.5 text-[10px] font-medium text-slate-600 dark:text-slate-300 hover:text-sky-600 dark:hover:text-sky-400"
+                            >
+                              <span className="h-1.5 w-1.5 shrink-0 rounded-full" style={{ backgroundColor: project.color }} />
+                              <span className="truncate">{project.name}</span>
+                            </Link>
+                          );
+                        })()}
                         {task.dueDate && (
                           <span className="inline-flex items-center gap-1 text-[11px] text-slate-500 dark:text-slate-400">
                             <Calendar className="h-3 w-3" />
-                            {new Date(task.dueDate).toLocaleDateString(undefined, { dateStyle: 'short' })}
+                            {formatDue(task.dueDate, timeZone, 'P')}
+                          </span>
+                        )}
+                        {task.startDate && task.startDate > today && (
+                          <span className="inline-flex items-center gap-1 rounded-md bg-slate-100 dark:bg-slate-800 px-2 py-0.5 text-[10px] font-medium text-slate-600 dark:text-slate-300">
+                            <Hourglass className="h-3 w-3" />
+                            Starts {formatDue(task.startDate, timeZone, 'MMM d')}
+                          </span>
+                        )}
+                        {task.scheduledFor && !task.completed && (
+                          <span className="inline-flex items-center gap-1 text-[11px] text-indigo-600 dark:text-indigo-400">
+                            <CalendarCheck className="h-3 w-3" />
+                            {task.scheduledFor === today ? 'Planned today' : `Planned ${formatDue(task.scheduledFor, timeZone, 'MMM d')}`}
+                          </span>
+                        )}
+                        {task.recurrence && (
+                          <span
+                            className="inline-flex items-center gap-1 text-[11px] text-sky-700 dark:text-sky-400"
+                            title={describeRecurrence(task.recurrence)}
+                          >
+                            <Repeat className="h-3 w-3" />
+                            {describeRecurrence(task.recurrence)}
                           </span>
                         )}
                         {(() => {
-                          const dueStatus = getDueDateStatus(task.dueDate, task.completed);
+                          const dueStatus = getDueDateStatus(task.dueDate, task.completed, timeZone, preferences.dueSoonHours);
                           if (!dueStatus) return null;
                           if (dueStatus.status === 'overdue') {
                             return (
@@ -640,9 +1178,28 @@ export const TasksPage = () => {
                           {formatDistanceToNow(new Date(task.createdAt), { addSuffix: true })}
                         </span>
                       </div>
+                      {task.tagIds && task.tagIds.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-1.5">
+                          {task.tagIds.map((tagId) => {
+                            const tag = tagsById.get(tagId);
+                            return tag ? <TagChip key={tag.id} name={tag.name} color={tag.color} /> : null;
+                          })}
+                        </div>
+                      )}
+                      {expandedChecklistId === task.id && <TaskChecklist taskId={task.id} />}
                     </div>
                   </div>
                   <div className={`flex items-center gap-1 shrink-0 ${viewMode === 'grid' ? 'mt-3 self-end' : ''}`}>
+                    <button
+                      type="button"
+                      onClick={() => setExpandedChecklistId((id) => (id === task.id ? null : task.id))}
+                      className={`rounded-lg p-2 transition hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-sky-600 dark:hover:text-sky-400 ${
+                        expandedChecklistId === task.id ? 'text-sky-600 dark:text-sky-400' : 'text-slate-500 dark:text-slate-400'
+                      }`}
+                      title="Checklist"
+                    >
+                      <ListChecks className="h-4 w-4" />
+                    </button>
                     <button
                       type="button"
                       onClick={() => openEditModal(task)}
@@ -670,7 +1227,7 @@ export const TasksPage = () => {
                   initial={{ opacity: 0, y: 8 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, scale: 0.98 }}
-                  transition={{ duration: 0.2, delay: index * 0.02 }}
+                  transition={{ duration: 0.2, delay: (index % PAGE_SIZE) * 0.02 }}
                   className={`flex rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/80 shadow-sm hover:shadow-md transition-shadow border-l-4 ${priorityBorder[priority]} ${viewMode === 'list' ? 'flex-row items-center justify-between gap-4 px-4 py-3' : 'flex-col p-4'}`}
                 >
                   {cardContent}
@@ -681,6 +1238,22 @@ export const TasksPage = () => {
         </AnimatePresence>
       )}
 
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center py-4">
+          {isFetchingNextPage ? (
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-sky-500 border-t-transparent" />
+          ) : (
+            <button
+              type="button"
+              onClick={() => void fetchNextPage()}
+              className="rounded-lg px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Add / Edit modals */}
       <AnimatePresence>
         {(isAddOpen || isEditOpen) && (
@@ -755,17 +1328,121 @@ export const TasksPage = () => {
                   <label className="block text-xs font-medium text-slate-700 dark:text-slate-200" htmlFor="dueDate">
                     Due date
                   </label>
-                  <input
-                    id="dueDate"
-                    type="date"
-                    value={formValues.dueDate}
-                    onChange={(e) => handleFormChange('dueDate', e.target.value)}
-                    className="w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 py-2 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500"
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      id="dueDate"
+                      type="date"
+                      value={formValues.dueDate}
+                      onChange={(e) => handleFormChange('dueDate', e.target.value)}
+                      className="min-w-0 flex-1 rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 py-2 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500"
+                    />
+                    <input
+                      id="dueTime"
+                      type="time"
+                      aria-label="Due time (leave empty for all day)"
+                      title="Leave empty for an all-day task"
+                      value={formValues.dueTime}
+                      onChange={(e) => handleFormChange('dueTime', e.target.value)}
+                      disabled={!formValues.dueDate}
+                      className="w-32 rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 py-2 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500 disabled:opacity-50"
+                    />
+                  </div>
                   {formValues.dueDate && !isDueDateValid(formValues.dueDate) && (
                     <p className="text-xs text-red-600 dark:text-red-400">Please enter a valid date.</p>
                   )}
+                  {formValues.dueTime && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">Time in {timeZone.replace(/_/g, ' ')}</p>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <label className="block text-xs font-medium text-slate-700 dark:text-slate-200" htmlFor="startDate">
+                      Starts
+                    </label>
+                    <input
+                      id="startDate"
+                      type="date"
+                      value={formValues.startDate}
+                      onChange={(e) => handleFormChange('startDate', e.target.value)}
+                      className="w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 py-2 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="block text-xs font-medium text-slate-700 dark:text-slate-200" htmlFor="scheduledFor">
+                      Planned for
+                    </label>
+                    <input
+                      id="scheduledFor"
+                      type="date"
+                      value={formValues.scheduledFor}
+                      min={formValues.startDate || undefined}
+                      onChange={(e) => handleFormChange('scheduledFor', e.target.value)}
+                      className="w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 py-2 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500"
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-slate-500 dark:text-slate-400">
+                    {isScheduleValid(formValues) ? (
+                      'Tasks stay out of your lists until they start. Planned tasks show up on that day in Today.'
+                    ) : (
+                      <span className="text-red-600 dark:text-red-400">Plan the task for its start date or later.</span>
+                    )}
+                  </p>
                 </div>
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium text-slate-700 dark:text-slate-200" htmlFor="recurrence">
+                    Repeat
+                  </label>
+                  <RecurrencePicker
+                    value={formValues.recurrence}
+                    onChange={(recurrence) => setFormValues((prev) => ({ ...prev, recurrence }))}
+                    dueDate={formValues.dueDate}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium text-slate-700 dark:text-slate-200" htmlFor="project">
+                    Project
+                  </label>
+                  <select
+                    id="project"
+                    value={formValues.projectId ?? ''}
+                    onChange={(e) =>
+                      setFormValues((prev) => ({ ...prev, projectId: e.target.value ? Number(e.target.value) : null }))
+                    }
+                    className="w-full rounded-lg border border-slate-300 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 py-2 text-sm text-slate-900 dark:text-slate-50 outline-none focus:border-sky-400 focus:ring-1 focus:ring-sky-500"
+                  >
+                    <option value="">No project</option>
+                    {currentProject?.archived && (
+                      <option value={currentProject.id} disabled>
+                        {currentProject.name} (archived)
+                      </option>
+                    )}
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium text-slate-700 dark:text-slate-200" htmlFor="tags">
+                    Tags
+                  </label>
+                  <TagInput
+                    tags={tags}
+                    value={formValues.tagIds}
+                    onChange={(tagIds) => setFormValues((prev) => ({ ...prev, tagIds }))}
+                    onCreate={(name) => createTagMutation.mutateAsync(name)}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={formValues.completeWithChecklist}
+                    onChange={(e) => setFormValues((prev) => ({ ...prev, completeWithChecklist: e.target.checked }))}
+                    className="rounded border-slate-300 dark:border-slate-600"
+                  />
+                  Complete this task when every checklist item is done
+                </label>
 
                 <div className="flex items-center justify-end gap-2 pt-2">
                   <button
@@ -809,9 +1486,8 @@ export const TasksPage = () => {
             >
               <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-50">Delete task</h3>
               <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
-                Are you sure you want to delete{' '}
-                <span className="font-semibold">{activeTask.title}</span>? This action cannot be
-                undone.
+                Move <span className="font-semibold">{activeTask.title}</span> to the trash? You can
+                restore it from the Trash page.
               </p>
               <div className="mt-4 flex items-center justify-end gap-2">
                 <button
@@ -897,7 +1573,13 @@ export const TasksPage = () => {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Task detail drawer */}
+      <AnimatePresence>
+        {detailTaskId !== null && !Number.isNaN(detailTaskId) && (
+          <TaskDetailDrawer key={detailTaskId} taskId={detailTaskId} onClose={closeDetail} />
+        )}
+      </AnimatePresence>
     </section>
   );
 };
-
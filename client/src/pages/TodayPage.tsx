@@ -0,0 +1,350 @@
+import { useState, type DragEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { AlertCircle, Calendar, CalendarCheck, CalendarDays, Circle, GripVertical, Sun } from 'lucide-react';
+import { api, getErrorMessage } from '../lib/api';
+import { formatDue, getDueStatus, useTimeZone } from '../lib/dueDates';
+import { usePreferencesStore } from '../store/preferencesStore';
+
+type Priority = 'low' | 'medium' | 'high';
+
+interface PlannerTask {
+  id: number;
+  title: string;
+  completed: boolean;
+  priority: Priority;
+  dueDate: string | null;
+  startDate: string | null;
+  scheduledFor: string | null;
+}
+
+interface PlannerDay {
+  date: string;
+  tasks: PlannerTask[];
+}
+
+/** Mirrors the server's PlannerResponseDto. */
+interface Planner {
+  today: string;
+  earlier: PlannerTask[];
+  days: PlannerDay[];
+}
+
+const PLANNER_DAYS = 7;
+
+const priorityDot: Record<Priority, string> = {
+  low: 'bg-emerald-500',
+  medium: 'bg-amber-400',
+  high: 'bg-red-500',
+};
+
+/** The planner with a task moved onto `date`, as it will look once the server agrees. */
+function moveTask(planner: Planner, taskId: number, date: string): Planner {
+  const task = [...planner.earlier, ...planner.days.flatMap((day) => day.tasks)].find((t) => t.id === taskId);
+  if (!task) return planner;
+  const moved = { ...task, scheduledFor: date };
+  return {
+    ...planner,
+    earlier: planner.earlier.filter((t) => t.id !== taskId),
+    days: planner.days.map((day) => {
+      const rest = day.tasks.filter((t) => t.id !== taskId);
+      return { ...day, tasks: day.date === date ? [...rest, moved] : rest };
+    }),
+  };
+}
+
+function removeTask(planner: Planner, taskId: number): Planner {
+  return {
+    ...planner,
+    earlier: planner.earlier.filter((t) => t.id !== taskId),
+    days: planner.days.map((day) => ({ ...day, tasks: day.tasks.filter((t) => t.id !== taskId) })),
+  };
+}
+
+interface TaskRowProps {
+  task: PlannerTask;
+  today: string;
+  days: PlannerDay[];
+  timeZone: string;
+  dayLabel: (date: string) => string;
+  onComplete: (task: PlannerTask) => void;
+  onMove: (task: PlannerTask, date: string) => void;
+  onDragStart: (task: PlannerTask) => void;
+  onDragEnd: () => void;
+}
+
+function TaskRow({ task, today, days, timeZone, dayLabel, onComplete, onMove, onDragStart, onDragEnd }: TaskRowProps) {
+  const dueSoonHours = usePreferencesStore((s) => s.preferences.dueSoonHours);
+  const isOverdue = task.dueDate !== null && getDueStatus(task.dueDate, timeZone, dueSoonHours) === 'overdue';
+  const isCarriedOver = task.scheduledFor !== null && task.scheduledFor < today;
+
+  return (
+    <li
+      draggable
+      onDragStart={(e: DragEvent) => {
+        e.dataTransfer.setData('text/plain', String(task.id));
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart(task);
+      }}
+      onDragEnd={onDragEnd}
+      className="group flex items-start gap-2 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/80 px-3 py-2.5 shadow-sm cursor-grab active:cursor-grabbing"
+    >
+      <GripVertical className="mt-0.5 h-4 w-4 shrink-0 text-slate-300 dark:text-slate-600" aria-hidden />
+      <button
+        type="button"
+        onClick={() => onComplete(task)}
+        className="mt-0.5 shrink-0 text-slate-400 hover:text-emerald-500 transition"
+        title="Mark as done"
+      >
+        <Circle className="h-4 w-4" />
+      </button>
+      <div className="min-w-0 flex-1">
+        <Link
+          to={`/tasks/${task.id}`}
+          className="flex items-center gap-2 text-sm font-medium text-slate-900 dark:text-slate-50 hover:text-sky-600 dark:hover:text-sky-400"
+        >
+          <span className={`h-1.5 w-1.5 shrink-0 rounded-full ${priorityDot[task.priority]}`} />
+          <span className="truncate">{task.title}</span>
+        </Link>
+        <p className="mt-0.5 flex flex-wrap items-center gap-x-3 gap-y-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+          {task.dueDate && (
+            <span className={`inline-flex items-center gap-1 ${isOverdue ? 'font-medium text-red-600 dark:text-red-400' : ''}`}>
+              {isOverdue ? <AlertCircle className="h-3 w-3" /> : <Calendar className="h-3 w-3" />}
+              {isOverdue ? 'Overdue · ' : 'Due '}
+              {formatDue(task.dueDate, timeZone, 'MMM d')}
+            </span>
+          )}
+          {isCarriedOver && (
+            <span className="inline-flex items-center gap-1 text-amber-600 dark:text-amber-400">
+              <CalendarCheck className="h-3 w-3" />
+              Planned {formatDue(task.scheduledFor as string, timeZone, 'EEE, MMM d')}
+            </span>
+          )}
+        </p>
+      </div>
+      <select
+        value=""
+        onChange={(e) => e.target.value && onMove(task, e.target.value)}
+        className="shrink-0 rounded-lg border border-transparent bg-transparent px-1 py-0.5 text-[11px] text-slate-500 dark:text-slate-400 hover:border-slate-200 dark:hover:border-slate-700 focus:border-sky-500 outline-none"
+        aria-label={`Move ${task.title} to another day`}
+      >
+        <option value="">Move to…</option>
+        {days
+          .filter((day) => day.date !== task.scheduledFor)
+          .map((day) => (
+            <option key={day.date} value={day.date} disabled={task.startDate !== null && day.date < task.startDate}>
+              {dayLabel(day.date)}
+            </option>
+          ))}
+      </select>
+    </li>
+  );
+}
+
+/**
+ * "Today" planner: what is planned or due today, what was left over from earlier
+ * days, and the coming week. Dragging a task onto a day plans it for that day.
+ */
+export const TodayPage = () => {
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+  const [draggedTask, setDraggedTask] = useState<PlannerTask | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const queryKey = ['tasks', 'planner', { timeZone }];
+
+  const { data: planner, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const res = await api.get<Planner>('/tasks/planner', { params: { days: PLANNER_DAYS, tz: timeZone } });
+      return res.data;
+    },
+  });
+
+  const optimistic = async (update: (planner: Planner) => Planner) => {
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData<Planner>(queryKey);
+    if (previous) queryClient.setQueryData<Planner>(queryKey, update(previous));
+    return { previous };
+  };
+
+  const rescheduleMutation = useMutation<void, unknown, { task: PlannerTask; date: string }, { previous?: Planner }>({
+    mutationFn: async ({ task, date }) => {
+      await api.patch(`/tasks/${task.id}`, { scheduledFor: date });
+    },
+    onMutate: ({ task, date }) => optimistic((current) => moveTask(current, task.id, date)),
+    onError: (err, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+      toast.error(getErrorMessage(err, 'Failed to reschedule task'));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['tasks'] }),
+  });
+
+  const completeMutation = useMutation<void, unknown, PlannerTask, { previous?: Planner }>({
+    mutationFn: async (task) => {
+      await api.patch(`/tasks/${task.id}`, { completed: true });
+    },
+    onMutate: (task) => optimistic((current) => removeTask(current, task.id)),
+    onSuccess: () => toast.success('Task completed'),
+    onError: (err, _task, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+      toast.error(getErrorMessage(err, 'Failed to complete task'));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['tasks'] }),
+  });
+
+  const today = planner?.today ?? '';
+  const days = planner?.days ?? [];
+
+  const dayLabel = (date: string) => {
+    const index = days.findIndex((day) => day.date === date);
+    if (index === 0) return 'Today';
+    if (index === 1) return 'Tomorrow';
+    return formatDue(date, timeZone, 'EEEE, MMM d');
+  };
+
+  const move = (task: PlannerTask, date: string) => {
+    if (task.scheduledFor === date) return;
+    if (task.startDate && date < task.startDate) {
+      toast.error(`This task starts ${formatDue(task.startDate, timeZone, 'EEE, MMM d')}; plan it for then or later`);
+      return;
+    }
+    rescheduleMutation.mutate({ task, date });
+  };
+
+  const dropZone = (date: string) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!draggedTask) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(date);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === date ? null : current)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      if (draggedTask) move(draggedTask, date);
+      setDraggedTask(null);
+    },
+  });
+
+  const rowProps = {
+    today,
+    days,
+    timeZone,
+    dayLabel,
+    onComplete: (task: PlannerTask) => completeMutation.mutate(task),
+    onMove: move,
+    onDragStart: setDraggedTask,
+    onDragEnd: () => {
+      setDraggedTask(null);
+      setDropTarget(null);
+    },
+  };
+
+  const dropClass = (date: string) =>
+    dropTarget === date
+      ? 'border-sky-400 bg-sky-500/5 dark:bg-sky-500/10'
+      : 'border-transparent';
+
+  const [todayColumn, ...upcoming] = days;
+
+  return (
+    <section className="flex w-full flex-col gap-6">
+      <div>
+        <h2 className="text-xl font-bold text-slate-900 dark:text-slate-50">Today</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {today && `${formatDue(today, timeZone, 'EEEE, MMMM d')} · `}Drag tasks onto a day to plan them.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, idx) => (
+            <div
+              key={idx}
+              className="h-14 animate-pulse rounded-xl border border-slate-200 dark:border-slate-800 bg-slate-100 dark:bg-slate-900/70"
+            />
+          ))}
+        </div>
+      ) : error || !planner || !todayColumn ? (
+        <p className="text-red-600 dark:text-red-400">Failed to load your plan.</p>
+      ) : (
+        <>
+          {planner.earlier.length > 0 && (
+            <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}>
+              <h3 className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-red-600 dark:text-red-400">
+                <AlertCircle className="h-4 w-4" />
+                Overdue & carried over
+                <span className="font-normal text-slate-500 dark:text-slate-400">({planner.earlier.length})</span>
+              </h3>
+              <ul className="space-y-2">
+                {planner.earlier.map((task) => (
+                  <TaskRow key={task.id} task={task} {...rowProps} />
+                ))}
+              </ul>
+            </motion.div>
+          )}
+
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            {...dropZone(todayColumn.date)}
+            className={`rounded-2xl border-2 border-dashed p-1 transition ${dropClass(todayColumn.date)}`}
+          >
+            <h3 className="mb-2 flex items-center gap-2 px-1 text-xs font-semibold uppercase tracking-wide text-sky-600 dark:text-sky-400">
+              <Sun className="h-4 w-4" />
+              Today
+              <span className="font-normal text-slate-500 dark:text-slate-400">({todayColumn.tasks.length})</span>
+            </h3>
+            {todayColumn.tasks.length === 0 ? (
+              <p className="rounded-xl border border-dashed border-slate-200 dark:border-slate-700 px-4 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                Nothing planned or due today. Drag a task here to plan it.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {todayColumn.tasks.map((task) => (
+                  <TaskRow key={task.id} task={task} {...rowProps} />
+                ))}
+              </ul>
+            )}
+          </motion.div>
+
+          <div>
+            <h3 className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              <CalendarDays className="h-4 w-4" />
+              Coming up
+            </h3>
+            <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+              {upcoming.map((day) => (
+                <div
+                  key={day.date}
+                  {...dropZone(day.date)}
+                  className={`min-h-24 rounded-2xl border-2 border-dashed bg-slate-50 dark:bg-slate-900/40 p-2 transition ${dropClass(day.date)}`}
+                >
+                  <p className="mb-2 px-1 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                    {dayLabel(day.date)}
+                    <span className="ml-1 text-xs font-normal text-slate-500 dark:text-slate-400">
+                      {day.tasks.length > 0 ? `(${day.tasks.length})` : ''}
+                    </span>
+                  </p>
+                  {day.tasks.length === 0 ? (
+                    <p className="px-1 pb-2 text-xs text-slate-400 dark:text-slate-500">Free</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {day.tasks.map((task) => (
+                        <TaskRow key={task.id} task={task} {...rowProps} />
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
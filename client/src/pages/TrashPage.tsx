@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
+import { RotateCcw, Trash2, Clock } from 'lucide-react';
+import { api, getErrorMessage } from '../lib/api';
+
+interface TrashedTask {
+  id: number;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  priority: 'low' | 'medium' | 'high';
+  dueDate: string | null;
+  deletedAt: string | null;
+}
+
+interface TrashResponse {
+  items: TrashedTask[];
+  retentionDays: number;
+}
+
+type PendingConfirm = { kind: 'task'; task: TrashedTask } | { kind: 'empty' } | null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whole days left before the purge job removes a task; null when the trash is kept forever. */
+function daysUntilPurge(deletedAt: string | null, retentionDays: number): number | null {
+  if (!deletedAt || retentionDays <= 0) return null;
+  const purgeAt = new Date(deletedAt).getTime() + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+}
+
+export const TrashPage = () => {
+  const queryClient = useQueryClient();
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['tasks', 'trash'],
+    queryFn: async () => {
+      const res = await api.get<TrashResponse>('/tasks/trash');
+      return res.data;
+    },
+  });
+
+  const tasks = data?.items ?? [];
+  const retentionDays = data?.retentionDays ?? 0;
+
+  const invalidate = () => {
+    void queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    void queryClient.invalidateQueries({ queryKey: ['tags'] });
+    void queryClient.invalidateQueries({ queryKey: ['projects'] });
+    void queryClient.invalidateQueries({ queryKey: ['activity'] });
+  };
+
+  const restoreMutation = useMutation<void, unknown, TrashedTask>({
+    mutationFn: async (task) => {
+      await api.post(`/tasks/${task.id}/restore`);
+    },
+    onSuccess: () => toast.success('Task restored'),
+    onError: (err) => toast.error(getErrorMessage(err, 'Failed to restore task')),
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation<void, unknown, TrashedTask>({
+    mutationFn: async (task) => {
+      await api.delete(`/tasks/${task.id}/permanent`);
+    },
+    onSettled: invalidate,
+  });
+
+  const emptyMutation = useMutation<void, unknown, void>({
+    mutationFn: async () => {
+      await api.delete('/tasks/trash');
+    },
+    onSettled: invalidate,
+  });
+
+  const handleConfirm = () => {
+    if (!pendingConfirm) return;
+    if (pendingConfirm.kind === 'empty') {
+      emptyMutation.mutate(undefined, {
+        onSuccess: () => {
+          setPendingConfirm(null);
+          toast.success('Trash emptied');
+        },
+        onError: (err) => toast.error(getErrorMessage(err, 'Failed to empty trash')),
+      });
+      return;
+    }
+    deleteMutation.mutate(pendingConfirm.task, {
+      onSuccess: () => {
+        setPendingConfirm(null);
+        toast.success('Task deleted permanently');
+      },
+      onError: (err) => toast.error(getErrorMessage(err, 'Failed to delete task')),
+    });
+  };
+
+  return (
+    <section className="flex w-full flex-col gap-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-slate-900 dark:text-slate-50">Trash</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {retentionDays > 0
+              ? `Deleted tasks are removed for good after ${retentionDays} days.`
+              : 'Deleted tasks stay here until you empty the trash.'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setPendingConfirm({ kind: 'empty' })}
+          disabled={tasks.length === 0}
+          className="inline-flex items-center gap-2 rounded-xl bg-red-500 px-4 py-2.5 text-sm font-semibold text-white shadow-lg shadow-red-500/20 transition hover:bg-red-400 disabled:opacity-50 disabled:shadow-none"
+        >
+          <Trash2 className="h-4 w-4" />
+          Empty trash
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, idx) => (
+            <div
+              key={idx}
+              className="h-16 animate-pulse rounded-xl border border-slate-200 dark:border-slate-800 bg-slate-100 dark:bg-slate-900/70"
+            />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-red-600 dark:text-red-400">Failed to load trash.</p>
+      ) : tasks.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-col items-center justify-center rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 px-6 py-16 text-center"
+        >
+          <Trash2 className="h-8 w-8 text-slate-400" />
+          <p className="mt-3 text-lg font-semibold text-slate-800 dark:text-slate-100">Trash is empty</p>
+          <p className="mt-2 max-w-md text-sm text-slate-600 dark:text-slate-400">
+            Tasks you delete land here, so you can restore them if you change your mind.
+          </p>
+        </motion.div>
+      ) : (
+        <ul className="space-y-3">
+          {tasks.map((task) => {
+            const daysLeft = daysUntilPurge(task.deletedAt, retentionDays);
+            return (
+              <motion.li
+                key={task.id}
+                layout
+                initial={{ opacity: 0, y: 8 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="flex items-center gap-3 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/80 p-4 shadow-sm"
+              >
+                <div className="min-w-0 flex-1">
+                  <p
+                    className={`truncate text-sm font-semibold ${task.completed ? 'line-through text-slate-400 dark:text-slate-500' : 'text-slate-900 dark:text-slate-50'}`}
+                  >
+                    {task.title}
+                  </p>
+                  <p className="mt-0.5 flex flex-wrap items-center gap-x-3 text-xs text-slate-500 dark:text-slate-400">
+                    {task.deletedAt && <span>Deleted {new Date(task.deletedAt).toLocaleString()}</span>}
+                    {daysLeft !== null && (
+                      <span className="inline-flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                        <Clock className="h-3 w-3" />
+                        {daysLeft === 0
+                          ? 'Removed soon'
+                          : `Removed in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => restoreMutation.mutate(task)}
+                  disabled={restoreMutation.isPending}
+                  className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-sky-700 dark:text-sky-400 hover:bg-sky-500/10 transition disabled:opacity-60"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPendingConfirm({ kind: 'task', task })}
+                  className="rounded-lg p-2 text-slate-500 dark:text-slate-400 hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-400 transition"
+                  title="Delete forever"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </motion.li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Permanent delete confirmation dialog */}
+      <AnimatePresence>
+        {pendingConfirm && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/60 dark:bg-slate-950/60 backdrop-blur-sm"
+          >
+            <motion.div
+              initial={{ opacity: 0, y: 16, scale: 0.97 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: 16, scale: 0.97 }}
+              transition={{ duration: 0.2 }}
+              className="w-full max-w-sm rounded-2xl border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900/95 p-6 shadow-xl"
+            >
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-50">
+                {pendingConfirm.kind === 'empty' ? 'Empty trash' : 'Delete forever'}
+              </h3>
+              <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+                {pendingConfirm.kind === 'empty' ? (
+                  <>
+                    Permanently delete all {tasks.length} task{tasks.length === 1 ? '' : 's'} in the trash?
+                  </>
+                ) : (
+                  <>
+                    Permanently delete <span className="font-semibold">{pendingConfirm.task.title}</span>?
+                  </>
+                )}{' '}
+                This action cannot be undone.
+              </p>
+              <div className="mt-4 flex items-center justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setPendingConfirm(null)}
+                  className="rounded-lg px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleConfirm}
+                  disabled={deleteMutation.isPending || emptyMutation.isPending}
+                  className="rounded-lg bg-red-500 px-4 py-1.5 text-xs font-semibold text-white hover:bg-red-400 disabled:opacity-60"
+                >
+                  Delete forever
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </section>
+  );
+};
@@ -0,0 +1,72 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { MailCheck, MailX, ArrowRight } from 'lucide-react';
+import { api, getErrorMessage } from '../lib/api';
+import { useAuthStore } from '../store/authStore';
+
+export const VerifyEmailPage = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const isLoggedIn = useAuthStore((s) => Boolean(s.token));
+
+  // A query rather than an effect so the single-use token is only sent once.
+  const { isLoading, isSuccess, error } = useQuery({
+    queryKey: ['auth', 'verify-email', token],
+    queryFn: async () => {
+      const res = await api.post<{ message: string }>('/api/auth/verify-email', { token });
+      return res.data;
+    },
+    enabled: Boolean(token),
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const failed = !token || Boolean(error);
+
+  return (
+    <div className="flex min-h-full flex-1 flex-col items-center justify-center bg-slate-50 dark:bg-slate-950 px-4 py-10">
+      <motion.div
+        initial={{ opacity: 0, y: 16 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.35 }}
+        className="w-full max-w-md rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900/80 p-6 sm:p-8 text-center shadow-xl dark:shadow-2xl"
+      >
+        {isLoading ? (
+          <div className="flex flex-col items-center gap-4 py-6">
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-sky-500 border-t-transparent" />
+            <p className="text-sm text-slate-600 dark:text-slate-400">Verifying your email…</p>
+          </div>
+        ) : (
+          <>
+            <div
+              className={`mx-auto flex h-14 w-14 items-center justify-center rounded-2xl text-white ${
+                failed ? 'bg-red-500' : 'bg-gradient-to-br from-emerald-500 to-sky-500'
+              }`}
+            >
+              {failed ? <MailX className="h-7 w-7" /> : <MailCheck className="h-7 w-7" />}
+            </div>
+            <h2 className="mt-4 text-xl font-bold text-slate-900 dark:text-white">
+              {isSuccess ? 'Email verified' : 'Verification failed'}
+            </h2>
+            <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+              {isSuccess
+                ? 'Thanks for confirming your email address.'
+                : token
+                  ? getErrorMessage(error, 'This verification link could not be used.')
+                  : 'This verification link is incomplete.'}
+              {failed && ' You can request a new link from your profile or the sign-in page.'}
+            </p>
+            <Link
+              to={isLoggedIn ? '/profile' : '/login'}
+              className="mt-6 inline-flex items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 px-4 py-3 text-sm font-semibold text-white shadow-lg shadow-sky-500/30 transition hover:from-sky-600 hover:to-indigo-600"
+            >
+              {isLoggedIn ? 'Go to profile' : 'Sign in'}
+              <ArrowRight className="h-4 w-4" />
+            </Link>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+};
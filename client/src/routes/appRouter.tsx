@@ -3,9 +3,16 @@ import { RootLayout } from './router';
 import { HomePage } from '../pages/HomePage';
 import { LoginPage } from '../pages/LoginPage';
 import { RegisterPage } from '../pages/RegisterPage';
+import { ForgotPasswordPage } from '../pages/ForgotPasswordPage';
+import { ResetPasswordPage } from '../pages/ResetPasswordPage';
+import { VerifyEmailPage } from '../pages/VerifyEmailPage';
+import { ConfirmEmailChangePage } from '../pages/ConfirmEmailChangePage';
 import { TasksPage } from '../pages/TasksPage';
+import { TodayPage } from '../pages/TodayPage';
 import { ActivityPage } from '../pages/ActivityPage';
+import { ProjectsPage } from '../pages/ProjectsPage';
 import { ProfilePage } from '../pages/ProfilePage';
+import { TrashPage } from '../pages/TrashPage';
 import { RedirectIfAuth, RequireAuth } from './guards';
 
 export const router = createBrowserRouter([
@@ -30,6 +37,34 @@ export const router = createBrowserRouter([
           </RedirectIfAuth>
         ),
       },
+      {
+        path: 'forgot-password',
+        element: (
+          <RedirectIfAuth>
+            <ForgotPasswordPage />
+          </RedirectIfAuth>
+        ),
+      },
+      {
+        path: 'reset-password',
+        element: <ResetPasswordPage />,
+      },
+      {
+        path: 'verify-email',
+        element: <VerifyEmailPage />,
+      },
+      {
+        path: 'confirm-email',
+        element: <ConfirmEmailChangePage />,
+      },
+      {
+        path: 'today',
+        element: (
+          <RequireAuth>
+            <TodayPage />
+          </RequireAuth>
+        ),
+      },
       {
         path: 'tasks',
         element: (
@@ -38,6 +73,38 @@ export const router = createBrowserRouter([
           </RequireAuth>
         ),
       },
+      {
+        path: 'tasks/:taskId',
+        element: (
+          <RequireAuth>
+            <TasksPage />
+          </RequireAuth>
+        ),
+      },
+      {
+        path: 'projects',
+        element: (
+          <RequireAuth>
+            <ProjectsPage />
+          </RequireAuth>
+        ),
+      },
+      {
+        path: 'projects/:projectId',
+        element: (
+          <RequireAuth>
+            <TasksPage />
+          </RequireAuth>
+        ),
+      },
+      {
+        path: 'projects/:projectId/tasks/:taskId',
+        element: (
+          <RequireAuth>
+            <TasksPage />
+          </RequireAuth>
+        ),
+      },
       {
         path: 'activity',
         element: (
@@ -46,6 +113,14 @@ export const router = createBrowserRouter([
           </RequireAuth>
         ),
       },
+      {
+        path: 'trash',
+        element: (
+          <RequireAuth>
+            <TrashPage />
+          </RequireAuth>
+        ),
+      },
       {
         path: 'profile',
         element: (
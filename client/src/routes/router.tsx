@@ -12,10 +12,18 @@ import {
   Moon,
   ChevronRight,
   History,
+  FolderKanban,
+  Trash2,
+  CalendarCheck,
 } from 'lucide-react';
+import { signOut } from '../lib/api';
+import { usePreferences, useUpdatePreferences } from '../lib/preferences';
+import { useProfile } from '../lib/profile';
 import { useAuthStore } from '../store/authStore';
 import { useThemeStore } from '../store/themeStore';
-import { DueTaskNotification } from '../components/DueTaskNotification';
+import { NotificationBell } from '../components/NotificationBell';
+import { ProjectNavList } from '../components/ProjectNavList';
+import { UserAvatar } from '../components/UserAvatar';
 
 const navLinkClass = ({ isActive }: { isActive: boolean }) =>
   `flex items-center gap-3 rounded-xl px-3 py-2.5 text-sm font-medium transition-all ${
@@ -27,12 +35,26 @@ const navLinkClass = ({ isActive }: { isActive: boolean }) =>
 export const RootLayout = () => {
   const token = useAuthStore((state) => state.token);
   const user = useAuthStore((state) => state.user);
-  const logout = useAuthStore((state) => state.logout);
   const theme = useThemeStore((s) => s.theme);
-  const toggleTheme = useThemeStore((s) => s.toggleTheme);
+  const toggleThemeLocally = useThemeStore((s) => s.toggleTheme);
+  const updatePreferences = useUpdatePreferences();
   const [isMobileNavOpen, setIsMobileNavOpen] = useState(false);
   const location = useLocation();
 
+  // Refreshes the stored user, including the signed avatar URLs shown in the header.
+  useProfile({ enabled: Boolean(token) });
+  // Applies the user's saved theme and task list defaults on sign-in and reload.
+  usePreferences({ enabled: Boolean(token) });
+
+  // Signed in, the theme is a saved preference; otherwise it only lives in this browser.
+  const toggleTheme = () => {
+    if (token) {
+      updatePreferences.mutate({ theme: theme === 'dark' ? 'light' : 'dark' });
+    } else {
+      toggleThemeLocally();
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-100 text-slate-900 dark:bg-slate-950 dark:text-slate-50 flex flex-col sm:flex-row transition-colors">
       {/* Sidebar */}
@@ -52,6 +74,11 @@ export const RootLayout = () => {
             Overview
             <ChevronRight className="ml-auto h-4 w-4 opacity-50" />
           </NavLink>
+          <NavLink to="/today" className={navLinkClass}>
+            <CalendarCheck className="h-4 w-4 shrink-0" />
+            Today
+            <ChevronRight className="ml-auto h-4 w-4 opacity-50" />
+          </NavLink>
           <NavLink to="/tasks" className={navLinkClass}>
             <ListTodo className="h-4 w-4 shrink-0" />
             Tasks
@@ -62,12 +89,23 @@ export const RootLayout = () => {
             Activity
             <ChevronRight className="ml-auto h-4 w-4 opacity-50" />
           </NavLink>
+          <NavLink to="/projects" className={navLinkClass} end>
+            <FolderKanban className="h-4 w-4 shrink-0" />
+            Projects
+            <ChevronRight className="ml-auto h-4 w-4 opacity-50" />
+          </NavLink>
+          {token && <ProjectNavList />}
+          <NavLink to="/trash" className={navLinkClass}>
+            <Trash2 className="h-4 w-4 shrink-0" />
+            Trash
+            <ChevronRight className="ml-auto h-4 w-4 opacity-50" />
+          </NavLink>
         </nav>
         <div className="mt-auto pt-6 border-t border-slate-200 dark:border-slate-800 space-y-1">
           {token ? (
             <button
               type="button"
-              onClick={logout}
+              onClick={() => void signOut()}
               className="flex w-full items-center gap-3 rounded-xl px-3 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-red-500/10 hover:text-red-600 dark:hover:text-red-400 transition-all"
             >
               <LogOut className="h-4 w-4" />
@@ -110,12 +148,12 @@ export const RootLayout = () => {
               <span className="hidden sm:inline">Dashboard</span>
               <ChevronRight className="h-4 w-4 hidden sm:inline" />
               <span className="font-medium text-slate-700 dark:text-slate-200 capitalize">
-                {location.pathname === '/' ? 'Overview' : location.pathname.slice(1) || 'Home'}
+                {location.pathname === '/' ? 'Overview' : location.pathname.split('/')[1] || 'Home'}
               </span>
             </div>
           </div>
           <div className="flex items-center gap-2 sm:gap-4">
-            <DueTaskNotification />
+            <NotificationBell />
             <button
               type="button"
               onClick={toggleTheme}
@@ -132,10 +170,10 @@ export const RootLayout = () => {
             {token ? (
               <Link
                 to="/profile"
-                className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-sky-500 to-indigo-500 text-sm font-bold text-white shadow-md hover:opacity-90 transition"
+                className="flex h-10 w-10 items-center justify-center overflow-hidden rounded-xl bg-gradient-to-br from-sky-500 to-indigo-500 text-sm font-bold text-white shadow-md hover:opacity-90 transition"
                 aria-label="Profile"
               >
-                {(user?.username ?? user?.email ?? 'G').charAt(0).toUpperCase()}
+                <UserAvatar user={user} size={40} className="h-full w-full" />
               </Link>
             ) : (
               <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-sky-500 to-indigo-500 text-sm font-bold text-white shadow-md">
@@ -181,6 +219,10 @@ export const RootLayout = () => {
                 <LayoutDashboard className="h-4 w-4 shrink-0" />
                 Overview
               </NavLink>
+              <NavLink to="/today" className={navLinkClass} onClick={() => setIsMobileNavOpen(false)}>
+                <CalendarCheck className="h-4 w-4 shrink-0" />
+                Today
+              </NavLink>
               <NavLink to="/tasks" className={navLinkClass} onClick={() => setIsMobileNavOpen(false)}>
                 <ListTodo className="h-4 w-4 shrink-0" />
                 Tasks
@@ -189,6 +231,15 @@ export const RootLayout = () => {
                 <History className="h-4 w-4 shrink-0" />
                 Activity
               </NavLink>
+              <NavLink to="/projects" className={navLinkClass} end onClick={() => setIsMobileNavOpen(false)}>
+                <FolderKanban className="h-4 w-4 shrink-0" />
+                Projects
+              </NavLink>
+              {token && <ProjectNavList onNavigate={() => setIsMobileNavOpen(false)} />}
+              <NavLink to="/trash" className={navLinkClass} onClick={() => setIsMobileNavOpen(false)}>
+                <Trash2 className="h-4 w-4 shrink-0" />
+                Trash
+              </NavLink>
             </nav>
             <div className="mt-auto pt-6 border-t border-slate-200 dark:border-slate-800 flex flex-col gap-2">
               <button type="button" onClick={toggleTheme} className="flex items-center gap-3 rounded-xl px-3 py-2.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800">
@@ -196,7 +247,7 @@ export const RootLayout = () => {
                 {theme === 'dark' ? 'Light mode' : 'Dark mode'}
               </button>
               {token ? (
-                <button type="button" onClick={() => { logout(); setIsMobileNavOpen(false); }} className="flex items-center gap-3 rounded-xl px-3 py-2.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-500/10">
+                <button type="button" onClick={() => { void signOut(); setIsMobileNavOpen(false); }} className="flex items-center gap-3 rounded-xl px-3 py-2.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-500/10">
                   <LogOut className="h-4 w-4" />
                   Logout
                 </button>
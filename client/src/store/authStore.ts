@@ -4,71 +4,122 @@ export interface AuthUser {
   id: number | null;
   email: string | null;
   username: string | null;
+  /** Signed avatar image URLs keyed by size in pixels, as returned by /api/auth/me. */
+  avatarUrls?: Record<number, string> | null;
 }
 
 interface AuthState {
   user: AuthUser | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  login: (params: { token: string; user?: AuthUser | null }) => void;
+  login: (params: { token: string; refreshToken?: string | null; user?: AuthUser | null }) => void;
+  /** Stores a renewed token pair without touching the user. */
+  setTokens: (params: { token: string; refreshToken: string }) => void;
+  /** Merges profile changes (e.g. a new username) into the signed-in user. */
+  updateUser: (changes: Partial<AuthUser>) => void;
+  /** Clears the local session only; use `signOut` from lib/api to also end it on the server. */
   logout: () => void;
+  /** Re-reads the session from storage, where another tab may have renewed or cleared it. */
+  syncFromStorage: () => void;
 }
 
 const TOKEN_KEY = 'vitasoft_token';
+const REFRESH_TOKEN_KEY = 'vitasoft_refresh_token';
 const USER_KEY = 'vitasoft_user';
 
-export const useAuthStore = create<AuthState>((set) => {
+function readUser(): AuthUser | null {
+  const storedUser = window.localStorage.getItem(USER_KEY);
+  if (!storedUser) return null;
+  try {
+    return JSON.parse(storedUser) as AuthUser;
+  } catch {
+    return null;
+  }
+}
+
+function setItem(key: string, value: string | null) {
+  if (value) {
+    window.localStorage.setItem(key, value);
+  } else {
+    window.localStorage.removeItem(key);
+  }
+}
+
+export const useAuthStore = create<AuthState>((set, get) => {
   let initialToken: string | null = null;
+  let initialRefreshToken: string | null = null;
   let initialUser: AuthUser | null = null;
 
   if (typeof window !== 'undefined') {
     initialToken = window.localStorage.getItem(TOKEN_KEY);
-    const storedUser = window.localStorage.getItem(USER_KEY);
-    if (storedUser) {
-      try {
-        initialUser = JSON.parse(storedUser) as AuthUser;
-      } catch {
-        initialUser = null;
-      }
-    }
+    initialRefreshToken = window.localStorage.getItem(REFRESH_TOKEN_KEY);
+    initialUser = readUser();
+
+    // Refresh tokens rotate, so pick up pairs renewed (or cleared) by other tabs.
+    window.addEventListener('storage', (event) => {
+      if (event.key !== TOKEN_KEY && event.key !== REFRESH_TOKEN_KEY && event.key !== USER_KEY) return;
+      get().syncFromStorage();
+    });
   }
 
-  const persist = (token: string | null, user: AuthUser | null) => {
+  const persist = (token: string | null, refreshToken: string | null, user: AuthUser | null) => {
     if (typeof window === 'undefined') return;
 
-    if (token) {
-      window.localStorage.setItem(TOKEN_KEY, token);
-    } else {
-      window.localStorage.removeItem(TOKEN_KEY);
-    }
-
-    if (user) {
-      window.localStorage.setItem(USER_KEY, JSON.stringify(user));
-    } else {
-      window.localStorage.removeItem(USER_KEY);
-    }
+    setItem(TOKEN_KEY, token);
+    setItem(REFRESH_TOKEN_KEY, refreshToken);
+    setItem(USER_KEY, user ? JSON.stringify(user) : null);
   };
 
   return {
     user: initialUser,
     token: initialToken,
+    refreshToken: initialRefreshToken,
     isAuthenticated: Boolean(initialToken),
-    login: ({ token, user = null }) => {
-      persist(token, user);
+    login: ({ token, refreshToken = null, user = null }) => {
+      persist(token, refreshToken, user);
       set({
         token,
+        refreshToken,
         user,
         isAuthenticated: true,
       });
     },
+    setTokens: ({ token, refreshToken }) => {
+      if (typeof window !== 'undefined') {
+        setItem(TOKEN_KEY, token);
+        setItem(REFRESH_TOKEN_KEY, refreshToken);
+      }
+      set({ token, refreshToken, isAuthenticated: true });
+    },
+    updateUser: (changes) => {
+      const current = get().user;
+      if (!current) return;
+      const user = { ...current, ...changes };
+      if (typeof window !== 'undefined') {
+        setItem(USER_KEY, JSON.stringify(user));
+      }
+      set({ user });
+    },
     logout: () => {
-      persist(null, null);
+      persist(null, null, null);
       set({
         token: null,
+        refreshToken: null,
         user: null,
         isAuthenticated: false,
       });
     },
+    syncFromStorage: () => {
+      if (typeof window === 'undefined') return;
+      const token = window.localStorage.getItem(TOKEN_KEY);
+      set({
+        token,
+        refreshToken: window.localStorage.getItem(REFRESH_TOKEN_KEY),
+        user: readUser(),
+        isAuthenticated: Boolean(token),
+      });
+    },
   };
 });
 
@@ -0,0 +1,76 @@
+import { create } from 'zustand';
+
+export type TaskViewMode = 'grid' | 'list';
+export type TaskSortKey = 'createdAt' | 'dueDate' | 'priority' | 'title';
+export type TaskStatusFilter = 'all' | 'active' | 'completed';
+
+export interface NotificationPreferences {
+  dueSoon: boolean;
+  overdue: boolean;
+  email: boolean;
+  /** Notifications are also POSTed here as JSON; null turns the webhook off. */
+  webhookUrl: string | null;
+  /** Key the server signs webhook requests with; set once a webhook URL is saved. Read-only. */
+  webhookSecret: string | null;
+}
+
+/** Per-user settings kept on the server (GET/PUT /api/auth/me/preferences). */
+export interface UserPreferences {
+  theme: 'light' | 'dark';
+  defaultViewMode: TaskViewMode;
+  defaultSort: TaskSortKey;
+  defaultSortOrder: 'asc' | 'desc';
+  defaultStatusFilter: TaskStatusFilter;
+  /** 0 (Sunday) to 6 (Saturday), as date-fns expects. */
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  /** IANA time zone name; null follows the browser. */
+  timezone: string | null;
+  dueSoonHours: number;
+  notifications: NotificationPreferences;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'dark',
+  defaultViewMode: 'grid',
+  defaultSort: 'createdAt',
+  defaultSortOrder: 'desc',
+  defaultStatusFilter: 'all',
+  weekStartsOn: 1,
+  timezone: null,
+  dueSoonHours: 48,
+  notifications: { dueSoon: true, overdue: true, email: false, webhookUrl: null, webhookSecret: null },
+};
+
+interface PreferencesState {
+  preferences: UserPreferences;
+  setPreferences: (preferences: UserPreferences) => void;
+}
+
+const PREFERENCES_KEY = 'vitasoft_preferences';
+
+// The last preferences seen, so the app starts with them before the server answers.
+function readPreferences(): UserPreferences {
+  if (typeof window === 'undefined') return DEFAULT_PREFERENCES;
+  const stored = window.localStorage.getItem(PREFERENCES_KEY);
+  if (!stored) return DEFAULT_PREFERENCES;
+  try {
+    const parsed = JSON.parse(stored) as Partial<UserPreferences>;
+    return {
+      ...DEFAULT_PREFERENCES,
+      ...parsed,
+      notifications: { ...DEFAULT_PREFERENCES.notifications, ...parsed.notifications },
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export const usePreferencesStore = create<PreferencesState>((set) => ({
+  preferences: readPreferences(),
+  setPreferences: (preferences) => {
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+    }
+    set({ preferences });
+  },
+}));
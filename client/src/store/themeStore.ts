@@ -1,10 +1,11 @@
 import { create } from 'zustand';
 
-type Theme = 'light' | 'dark';
+export type Theme = 'light' | 'dark';
 
 interface ThemeState {
   theme: Theme;
   toggleTheme: () => void;
+  setTheme: (theme: Theme) => void;
 }
 
 const THEME_KEY = 'vitasoft_theme';
@@ -17,16 +18,23 @@ const getInitialTheme = (): Theme => {
   return theme;
 };
 
+const applyTheme = (theme: Theme) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(THEME_KEY, theme);
+  document.documentElement.classList.toggle('dark', theme === 'dark');
+};
+
 export const useThemeStore = create<ThemeState>((set) => ({
   theme: getInitialTheme(),
   toggleTheme: () =>
     set((state) => {
       const next: Theme = state.theme === 'dark' ? 'light' : 'dark';
-      if (typeof window !== 'undefined') {
-        window.localStorage.setItem(THEME_KEY, next);
-        document.documentElement.classList.toggle('dark', next === 'dark');
-      }
+      applyTheme(next);
       return { theme: next };
     }),
+  setTheme: (theme) => {
+    applyTheme(theme);
+    set({ theme });
+  },
 }));
 
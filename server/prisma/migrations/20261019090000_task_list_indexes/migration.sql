@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Task_userId_createdAt_idx" ON "Task"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Task_userId_dueDate_idx" ON "Task"("userId", "dueDate");
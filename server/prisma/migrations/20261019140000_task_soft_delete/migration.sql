@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "deletedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_deletedAt_idx" ON "Task"("userId", "deletedAt");
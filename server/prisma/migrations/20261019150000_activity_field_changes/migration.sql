@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ActivityLog" ADD COLUMN "changes" TEXT;
@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "ActivityLog_userId_createdAt_idx" ON "ActivityLog"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ActivityLog_userId_taskId_idx" ON "ActivityLog"("userId", "taskId");
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "LoginAttempt" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "failures" INTEGER NOT NULL,
+    "lastFailureAt" DATETIME NOT NULL,
+    "blockedUntil" DATETIME,
+    "expiresAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "LoginAttempt_expiresAt_idx" ON "LoginAttempt"("expiresAt");
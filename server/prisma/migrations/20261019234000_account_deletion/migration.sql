@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "deletionScheduledAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "User_deletionScheduledAt_idx" ON "User"("deletionScheduledAt");
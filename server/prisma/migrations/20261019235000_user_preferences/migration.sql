@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "UserPreferences" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "theme" TEXT NOT NULL DEFAULT 'dark',
+    "defaultViewMode" TEXT NOT NULL DEFAULT 'grid',
+    "defaultSort" TEXT NOT NULL DEFAULT 'createdAt',
+    "defaultSortOrder" TEXT NOT NULL DEFAULT 'desc',
+    "defaultStatusFilter" TEXT NOT NULL DEFAULT 'all',
+    "weekStartsOn" INTEGER NOT NULL DEFAULT 1,
+    "timezone" TEXT,
+    "dueSoonHours" INTEGER NOT NULL DEFAULT 48,
+    "notifyDueSoon" BOOLEAN NOT NULL DEFAULT true,
+    "notifyOverdue" BOOLEAN NOT NULL DEFAULT true,
+    "notifyByEmail" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "UserPreferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserPreferences_userId_key" ON "UserPreferences"("userId");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "dueAllDay" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "ActivityLog" ADD COLUMN "taskDueAllDay" BOOLEAN;
+
+-- The app has only ever set dates (stored as UTC midnight), so those become all-day.
+UPDATE "Task" SET "dueAllDay" = true WHERE "dueDate" IS NOT NULL AND "dueDate" % 86400000 = 0;
+UPDATE "ActivityLog" SET "taskDueAllDay" = ("taskDueDate" % 86400000 = 0) WHERE "taskDueDate" IS NOT NULL;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "startDate" DATETIME;
+ALTER TABLE "Task" ADD COLUMN "scheduledFor" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_scheduledFor_idx" ON "Task"("userId", "scheduledFor");
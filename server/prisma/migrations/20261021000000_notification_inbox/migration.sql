@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN "dismissedAt" DATETIME;
+ALTER TABLE "Notification" ADD COLUMN "dedupeKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Notification_dedupeKey_key" ON "Notification"("dedupeKey");
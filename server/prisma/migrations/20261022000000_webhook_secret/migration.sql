@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UserPreferences" ADD COLUMN "webhookSecret" TEXT;
+
+-- Existing webhooks get a secret too; without one they would stop being delivered.
+UPDATE "UserPreferences" SET "webhookSecret" = lower(hex(randomblob(32))) WHERE "webhookUrl" IS NOT NULL;
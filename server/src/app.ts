@@ -6,7 +6,11 @@ import swaggerUi from 'swagger-ui-express';
 import env from './config/env';
 import authRoutes from './routes/auth.routes';
 import taskRoutes from './routes/task.routes';
+import tagRoutes from './routes/tag.routes';
+import projectRoutes from './routes/project.routes';
 import activityRoutes from './routes/activity.routes';
+import avatarRoutes from './routes/avatar.routes';
+import notificationRoutes from './routes/notification.routes';
 import { authenticate } from './middleware/auth.middleware';
 import swaggerDocument from './config/swagger';
 
@@ -14,12 +18,15 @@ import swaggerDocument from './config/swagger';
  * Creates and configures the Express application:
  * - Security, CORS, logging, and body parsing middleware
  * - Swagger UI for API docs
- * - Route registration for auth and tasks
+ * - Route registration for auth, avatars, tasks, tags, projects, activity, and notifications
  * - Global error handler
  */
 export const createApp = (): Application => {
   const app = express();
 
+  // Per-IP sign-in throttling needs the client's address, not the proxy's.
+  app.set('trust proxy', env.trustProxy);
+
   app.use(helmet());
   app.use(
     cors({
@@ -37,8 +44,12 @@ export const createApp = (): Application => {
   app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerDocument));
 
   app.use('/api/auth', authRoutes);
+  app.use('/api/avatars', avatarRoutes);
   app.use('/tasks', taskRoutes);
+  app.use('/tags', tagRoutes);
+  app.use('/projects', projectRoutes);
   app.use('/activity', activityRoutes);
+  app.use('/notifications', notificationRoutes);
 
   app.get('/health', (_req, res) => {
     res.json({ status: 'ok' });
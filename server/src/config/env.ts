@@ -7,18 +7,141 @@ dotenv.config({
   path: path.resolve(process.cwd(), envFile),
 });
 
+export type MailTransportKind = 'smtp' | 'file' | 'console';
+export type LoginThrottleStoreKind = 'memory' | 'database';
+export type FileStorageKind = 'local' | 's3';
+export type NotificationChannelKind = 'in_app' | 'email' | 'webhook';
+
 export interface EnvConfig {
   nodeEnv: string;
   port: number;
+  /** Express `trust proxy` hops, so `req.ip` is the client's address behind a load balancer. */
+  trustProxy: number;
   jwtSecret: string;
+  /** Lifetime of an access token; clients renew it with their refresh token. */
   jwtExpiresIn: string;
+  /** Days a session's refresh token stays valid without being used. */
+  refreshTokenTtlDays: number;
+  /** Key for encrypting TOTP secrets at rest; changing it disables existing authenticator apps. */
+  mfaEncryptionKey: string;
+  /** When true, `login` refuses accounts whose email hasn't been verified yet. */
+  requireEmailVerification: boolean;
+  /** Hours an email verification link stays valid. */
+  emailVerificationTtlHours: number;
+  /** Minutes a password reset link stays valid. */
+  passwordResetTtlMinutes: number;
+  loginThrottle: {
+    /** Where failed attempts are counted; use `database` when running several instances. */
+    store: LoginThrottleStoreKind;
+    /** Failed sign-ins on one account before it is locked; an IP address gets five times as many. */
+    maxAttempts: number;
+    lockoutMinutes: number;
+  };
+  /** Days between a user deleting their account and the account being erased. */
+  accountDeletionGraceDays: number;
+  /** Days security events are kept; 0 keeps them forever. */
+  securityEventRetentionDays: number;
+  /** Public URL of the web client, used for links in emails. */
+  appUrl: string;
+  mail: {
+    transport: MailTransportKind;
+    from: string;
+    /** Where the file transport writes .eml files. */
+    outputDir: string;
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user: string | null;
+      pass: string | null;
+    };
+  };
+  storage: {
+    /** Where uploads such as avatars are kept; use `s3` when running several instances. */
+    driver: FileStorageKind;
+    /** Directory the local driver writes to. */
+    localDir: string;
+    s3: {
+      bucket: string;
+      region: string;
+      /** Custom endpoint for S3-compatible services (MinIO, R2, ...); null for AWS. */
+      endpoint: string | null;
+      forcePathStyle: boolean;
+      accessKeyId: string | null;
+      secretAccessKey: string | null;
+    };
+  };
+  /** Largest avatar upload accepted, in bytes. */
+  avatarMaxBytes: number;
+  /** Days a deleted task stays in the trash before it is purged; 0 keeps it forever. */
+  trashRetentionDays: number;
+  trashPurgeIntervalMinutes: number;
+  notifications: {
+    /** Channels notifications may go out on; a user's preferences pick from these. */
+    channels: NotificationChannelKind[];
+    /** How often the scheduler fires due reminders and sends pending notifications. */
+    schedulerIntervalSeconds: number;
+    /** Attempts per channel before a delivery is given up on. */
+    maxDeliveryAttempts: number;
+    webhookTimeoutMs: number;
+  };
 }
 
 export const env: EnvConfig = {
   nodeEnv: process.env.NODE_ENV ?? 'development',
   port: Number(process.env.PORT) || 4000,
+  trustProxy: Number(process.env.TRUST_PROXY) || 0,
   jwtSecret: process.env.JWT_SECRET ?? 'change-me-in-production',
-  jwtExpiresIn: process.env.JWT_EXPIRES_IN ?? '1h',
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN ?? '15m',
+  refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30,
+  mfaEncryptionKey: process.env.MFA_ENCRYPTION_KEY ?? process.env.JWT_SECRET ?? 'change-me-in-production',
+  requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+  emailVerificationTtlHours: Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24,
+  passwordResetTtlMinutes: Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60,
+  loginThrottle: {
+    store: (process.env.LOGIN_THROTTLE_STORE as LoginThrottleStoreKind | undefined) ?? 'memory',
+    maxAttempts: Number(process.env.LOGIN_MAX_ATTEMPTS) || 10,
+    lockoutMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+  },
+  accountDeletionGraceDays: Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 14,
+  securityEventRetentionDays: Number(process.env.SECURITY_EVENT_RETENTION_DAYS ?? 90),
+  appUrl: (process.env.APP_URL ?? 'http://localhost:5173').replace(/\/+$/, ''),
+  mail: {
+    transport: (process.env.MAIL_TRANSPORT as MailTransportKind | undefined) ?? 'console',
+    from: process.env.MAIL_FROM ?? 'Vitasoft <no-reply@localhost>',
+    outputDir: process.env.MAIL_OUTPUT_DIR ?? 'tmp/mail',
+    smtp: {
+      host: process.env.SMTP_HOST ?? 'localhost',
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || null,
+      pass: process.env.SMTP_PASS || null,
+    },
+  },
+  storage: {
+    driver: (process.env.STORAGE_DRIVER as FileStorageKind | undefined) ?? 'local',
+    localDir: process.env.STORAGE_LOCAL_DIR ?? 'uploads',
+    s3: {
+      bucket: process.env.S3_BUCKET ?? '',
+      region: process.env.S3_REGION ?? 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || null,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || null,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || null,
+    },
+  },
+  avatarMaxBytes: Number(process.env.AVATAR_MAX_BYTES) || 5 * 1024 * 1024,
+  trashRetentionDays: Number(process.env.TRASH_RETENTION_DAYS ?? 30),
+  trashPurgeIntervalMinutes: Number(process.env.TRASH_PURGE_INTERVAL_MINUTES) || 60,
+  notifications: {
+    channels: (process.env.NOTIFICATION_CHANNELS ?? 'in_app,email,webhook')
+      .split(',')
+      .map((channel) => channel.trim())
+      .filter(Boolean) as NotificationChannelKind[],
+    schedulerIntervalSeconds: Number(process.env.REMINDER_INTERVAL_SECONDS) || 60,
+    maxDeliveryAttempts: Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 5,
+    webhookTimeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 5000,
+  },
 };
 
 export default env;
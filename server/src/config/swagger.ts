@@ -19,6 +19,10 @@ const swaggerDocument: OpenAPIV3_1.Document = {
         type: 'http',
         scheme: 'bearer',
         bearerFormat: 'JWT',
+        description:
+          'A session access token (JWT) or a personal access token (`vst_...`). Personal access tokens only work on ' +
+          'task, tag, project and activity endpoints, and need the scope each endpoint lists: tasks:read, ' +
+          'tasks:write or activity:read.',
       },
     },
     schemas: {
@@ -46,15 +50,21 @@ const swaggerDocument: OpenAPIV3_1.Document = {
       AuthLoginResponse: {
         type: 'object',
         properties: {
-          token: { type: 'string' },
+          token: { type: 'string', description: 'Short-lived access token' },
+          refreshToken: { type: 'string', description: 'Rotating refresh token for POST /api/auth/refresh' },
           user: {
             type: 'object',
             properties: {
               id: { type: 'integer' },
               email: { type: 'string' },
               username: { type: 'string' },
+              emailVerified: { type: 'boolean' },
             },
           },
+          accountRestored: {
+            type: 'boolean',
+            description: 'True when this sign-in cancelled a scheduled account deletion',
+          },
         },
       },
       AuthMeResponse: {
@@ -63,6 +73,253 @@ const swaggerDocument: OpenAPIV3_1.Document = {
           id: { type: 'integer' },
           username: { type: 'string' },
           email: { type: 'string' },
+          emailVerified: { type: 'boolean' },
+          mfaEnabled: { type: 'boolean' },
+          pendingEmail: {
+            type: ['string', 'null'],
+            description: 'New address waiting to be confirmed from its inbox',
+          },
+          avatarUrls: {
+            type: ['object', 'null'],
+            description: 'Signed image URLs keyed by square size (64, 128, 256), valid for about a week',
+            additionalProperties: { type: 'string' },
+          },
+        },
+      },
+      UpdateProfileRequest: {
+        type: 'object',
+        required: ['username'],
+        properties: {
+          username: { type: 'string', minLength: 2, description: 'Trimmed; must be unique' },
+        },
+      },
+      DeleteAccountRequest: {
+        type: 'object',
+        required: ['password'],
+        properties: {
+          password: { type: 'string', description: 'Current password' },
+        },
+      },
+      AccountDeletionResponse: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+          deletionScheduledAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      NotificationPreferences: {
+        type: 'object',
+        properties: {
+          dueSoon: { type: 'boolean', description: 'Remind about tasks that are due soon' },
+          overdue: { type: 'boolean', description: 'Remind about overdue tasks' },
+          email: { type: 'boolean', description: 'Also send reminders by email' },
+          webhookUrl: {
+            type: ['string', 'null'],
+            format: 'uri',
+            description:
+              'Notifications are also POSTed here as JSON; null turns the webhook off. ' +
+              'The host must resolve to public addresses only.',
+          },
+          webhookSecret: {
+            type: ['string', 'null'],
+            readOnly: true,
+            description:
+              'Key for checking webhook requests. Each carries `X-Vitasoft-Signature: t=<unix seconds>,v1=<hex>`, ' +
+              'the HMAC-SHA256 of `<t>.<raw body>` with this key. Set once a webhook URL is saved.',
+          },
+        },
+      },
+      UserPreferences: {
+        type: 'object',
+        properties: {
+          theme: { type: 'string', enum: ['light', 'dark'] },
+          defaultViewMode: { type: 'string', enum: ['grid', 'list'] },
+          defaultSort: { type: 'string', enum: ['createdAt', 'dueDate', 'priority', 'title'] },
+          defaultSortOrder: { type: 'string', enum: ['asc', 'desc'] },
+          defaultStatusFilter: { type: 'string', enum: ['all', 'active', 'completed'] },
+          weekStartsOn: { type: 'integer', minimum: 0, maximum: 6, description: '0 = Sunday ... 6 = Saturday' },
+          timezone: {
+            type: ['string', 'null'],
+            description: 'IANA time zone name, e.g. Europe/Berlin; null follows the browser',
+          },
+          dueSoonHours: { type: 'integer', minimum: 1, maximum: 720, description: 'How close a due date counts as due soon' },
+          notifications: { $ref: '#/components/schemas/NotificationPreferences' },
+        },
+      },
+      EmailChangeRequest: {
+        type: 'object',
+        required: ['newEmail', 'password'],
+        properties: {
+          newEmail: { type: 'string', format: 'email' },
+          password: { type: 'string', description: 'Current password' },
+        },
+      },
+      MfaChallengeResponse: {
+        type: 'object',
+        description: 'Returned by login instead of tokens when two-factor auth is enabled',
+        properties: {
+          mfaRequired: { type: 'boolean', enum: [true] },
+          mfaToken: { type: 'string', description: 'Challenge for POST /api/auth/mfa/verify; valid for 5 minutes' },
+        },
+      },
+      MfaVerifyRequest: {
+        type: 'object',
+        required: ['mfaToken', 'code'],
+        properties: {
+          mfaToken: { type: 'string' },
+          code: { type: 'string', description: '6-digit authenticator code or a recovery code' },
+        },
+      },
+      MfaStatus: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean' },
+          recoveryCodesRemaining: { type: 'integer' },
+        },
+      },
+      MfaSetupResponse: {
+        type: 'object',
+        properties: {
+          secret: { type: 'string', description: 'Base32 secret for manual entry' },
+          otpauthUri: { type: 'string' },
+          qrCodeDataUrl: { type: 'string', description: 'PNG data URL of a QR code for otpauthUri' },
+        },
+      },
+      MfaEnableRequest: {
+        type: 'object',
+        required: ['code'],
+        properties: {
+          code: { type: 'string', description: '6-digit code from the authenticator app' },
+        },
+      },
+      MfaConfirmRequest: {
+        type: 'object',
+        required: ['password'],
+        properties: {
+          password: { type: 'string' },
+          code: { type: 'string', description: 'Authenticator or recovery code; required to disable' },
+        },
+      },
+      RecoveryCodesResponse: {
+        type: 'object',
+        properties: {
+          recoveryCodes: { type: 'array', items: { type: 'string' }, description: 'Shown only once' },
+        },
+      },
+      RefreshTokenRequest: {
+        type: 'object',
+        required: ['refreshToken'],
+        properties: {
+          refreshToken: { type: 'string' },
+        },
+      },
+      AuthTokensResponse: {
+        type: 'object',
+        properties: {
+          token: { type: 'string', description: 'New access token' },
+          refreshToken: { type: 'string', description: 'Replaces the refresh token that was sent in' },
+        },
+      },
+      Session: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          userAgent: { type: ['string', 'null'] },
+          ipAddress: { type: ['string', 'null'] },
+          createdAt: { type: 'string', format: 'date-time' },
+          lastUsedAt: { type: 'string', format: 'date-time' },
+          expiresAt: { type: 'string', format: 'date-time' },
+          current: { type: 'boolean', description: 'True for the session making the request' },
+        },
+      },
+      SecurityEvent: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          type: {
+            type: 'string',
+            enum: [
+              'register',
+              'login',
+              'mfa_challenge',
+              'logout',
+              'logout_all',
+              'session_revoked',
+              'token_refresh',
+              'token_reuse',
+              'access_denied',
+              'password_change',
+              'password_reset_requested',
+              'password_reset',
+              'email_verified',
+              'username_changed',
+              'email_change_requested',
+              'email_changed',
+              'data_exported',
+              'account_deletion_scheduled',
+              'account_deletion_cancelled',
+              'mfa_enabled',
+              'mfa_disabled',
+              'recovery_codes_regenerated',
+              'access_token_created',
+              'access_token_revoked',
+            ],
+          },
+          outcome: { type: 'string', enum: ['success', 'failure', 'blocked'] },
+          ipAddress: { type: ['string', 'null'] },
+          userAgent: { type: ['string', 'null'] },
+          detail: { type: ['string', 'null'] },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      AccessToken: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+          tokenPrefix: { type: 'string', description: 'First characters of the token', example: 'vst_AbC123' },
+          scopes: {
+            type: 'array',
+            items: { type: 'string', enum: ['tasks:read', 'tasks:write', 'activity:read'] },
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+          expiresAt: { type: ['string', 'null'], format: 'date-time' },
+          lastUsedAt: { type: ['string', 'null'], format: 'date-time' },
+        },
+      },
+      CreatedAccessToken: {
+        allOf: [
+          { $ref: '#/components/schemas/AccessToken' },
+          {
+            type: 'object',
+            properties: {
+              token: { type: 'string', description: 'The token itself. Shown only in this response.' },
+            },
+          },
+        ],
+      },
+      CreateAccessTokenRequest: {
+        type: 'object',
+        required: ['name', 'scopes'],
+        properties: {
+          name: { type: 'string', maxLength: 100, example: 'CI pipeline' },
+          scopes: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string', enum: ['tasks:read', 'tasks:write', 'activity:read'] },
+          },
+          expiresAt: {
+            type: ['string', 'null'],
+            format: 'date-time',
+            description: 'Omit or null for a token that does not expire',
+          },
+        },
+      },
+      SecurityEventListResponse: {
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/components/schemas/SecurityEvent' } },
+          nextCursor: { type: ['string', 'null'], description: 'Pass as `cursor` for the next page' },
         },
       },
       ChangePasswordRequest: {
@@ -79,6 +336,41 @@ const swaggerDocument: OpenAPIV3_1.Document = {
           message: { type: 'string' },
         },
       },
+      ForgotPasswordRequest: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+      VerifyEmailRequest: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', description: 'Token from the verification link' },
+        },
+      },
+      ResendVerificationRequest: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email' },
+        },
+      },
+      ResetPasswordRequest: {
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+          token: { type: 'string', description: 'Token from the reset link' },
+          password: { type: 'string', minLength: 8 },
+        },
+      },
+      MessageResponse: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+        },
+      },
       Task: {
         type: 'object',
         properties: {
@@ -87,9 +379,206 @@ const swaggerDocument: OpenAPIV3_1.Document = {
           description: { type: ['string', 'null'] },
           completed: { type: 'boolean' },
           priority: { type: 'string', enum: ['low', 'medium', 'high'] },
-          dueDate: { type: ['string', 'null'], format: 'date-time' },
+          dueDate: {
+            type: ['string', 'null'],
+            description: 'YYYY-MM-DD for an all-day task, otherwise an ISO timestamp',
+            example: '2026-03-10',
+          },
+          dueAllDay: { type: 'boolean', description: 'Due on a calendar date rather than at a time' },
+          startDate: {
+            type: ['string', 'null'],
+            format: 'date',
+            description: 'The task is left out of the default task lists until this date',
+          },
+          scheduledFor: {
+            type: ['string', 'null'],
+            format: 'date',
+            description: 'Day the task is planned for on the Today page; not before startDate',
+          },
           createdAt: { type: 'string', format: 'date-time' },
           userId: { type: 'integer' },
+          projectId: { type: ['integer', 'null'] },
+          tagIds: { type: 'array', items: { type: 'integer' } },
+          checklist: {
+            type: 'object',
+            description: 'Checklist progress, e.g. 3 of 5 items done',
+            properties: {
+              done: { type: 'integer' },
+              total: { type: 'integer' },
+            },
+          },
+          completeWithChecklist: { type: 'boolean' },
+          recurrence: {
+            oneOf: [{ $ref: '#/components/schemas/RecurrenceRule' }, { type: 'null' }],
+          },
+          deletedAt: {
+            type: ['string', 'null'],
+            format: 'date-time',
+            description: 'When the task was moved to the trash; null for live tasks',
+          },
+        },
+      },
+      RecurrenceRule: {
+        type: 'object',
+        required: ['frequency'],
+        description:
+          'How a task repeats (modelled on iCalendar RRULE). Completing a recurring task creates the next occurrence.',
+        properties: {
+          frequency: { type: 'string', enum: ['daily', 'weekly', 'monthly', 'yearly'] },
+          interval: { type: 'integer', minimum: 1, maximum: 365, default: 1 },
+          weekdays: {
+            type: 'array',
+            items: { type: 'string', enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] },
+            description: 'Weekly only',
+          },
+          monthDay: { type: 'integer', minimum: 1, maximum: 31, description: 'Monthly only; short months use their last day' },
+          nthWeekday: {
+            type: 'object',
+            description: 'Monthly only, e.g. { n: 2, weekday: "TU" } for the second Tuesday; n = -1 is the last',
+            properties: {
+              n: { type: 'integer', enum: [1, 2, 3, 4, -1] },
+              weekday: { type: 'string', enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] },
+            },
+          },
+          count: { type: 'integer', minimum: 1, description: 'Occurrences left, this one included' },
+          until: { type: 'string', format: 'date', description: 'Last date an occurrence may fall on' },
+        },
+      },
+      TaskListResponse: {
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/Task' },
+          },
+          nextCursor: {
+            type: ['string', 'null'],
+            description: 'Opaque cursor for the next page; null when there are no more tasks.',
+          },
+          total: { type: 'integer', description: 'Number of tasks matching the filters' },
+        },
+      },
+      TrashListResponse: {
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/Task' },
+          },
+          retentionDays: {
+            type: 'integer',
+            description: 'Days a task stays in the trash before it is purged; 0 means it is kept until emptied',
+          },
+        },
+      },
+      ActivityLog: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          userId: { type: 'integer' },
+          action: {
+            type: 'string',
+            enum: ['created', 'updated', 'completed', 'deleted', 'restored', 'reverted', 'checklist'],
+          },
+          taskId: { type: ['integer', 'null'] },
+          taskTitle: { type: ['string', 'null'], description: 'Snapshot of the task at the time of the action' },
+          taskDescription: { type: ['string', 'null'] },
+          taskDueDate: {
+            type: ['string', 'null'],
+            description: 'YYYY-MM-DD for an all-day task, otherwise an ISO timestamp',
+          },
+          taskCompleted: { type: ['boolean', 'null'] },
+          detail: { type: ['string', 'null'] },
+          changes: {
+            type: ['array', 'null'],
+            description: 'Fields an update changed, with their old and new values',
+            items: { $ref: '#/components/schemas/TaskFieldChange' },
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      TaskFieldChange: {
+        type: 'object',
+        properties: {
+          field: {
+            type: 'string',
+            enum: [
+              'title',
+              'description',
+              'priority',
+              'dueDate',
+              'startDate',
+              'scheduledFor',
+              'completed',
+              'project',
+              'tags',
+              'recurrence',
+              'completeWithChecklist',
+            ],
+          },
+          from: { description: 'Value before the update; projects and tags are { id, name }' },
+          to: { description: 'Value after the update' },
+        },
+      },
+      ActivityListResponse: {
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/ActivityLog' },
+          },
+          nextCursor: {
+            type: ['string', 'null'],
+            description: 'Opaque cursor for the next page; null when there are no more entries.',
+          },
+          groups: {
+            type: 'array',
+            description: 'Only with group=day: the same entries split by calendar day',
+            items: {
+              type: 'object',
+              properties: {
+                date: { type: 'string', format: 'date' },
+                items: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ActivityLog' },
+                },
+              },
+            },
+          },
+        },
+      },
+      TaskSummary: {
+        type: 'object',
+        properties: {
+          total: { type: 'integer' },
+          completed: { type: 'integer' },
+          pending: { type: 'integer' },
+          overdue: { type: 'integer' },
+        },
+      },
+      PlannerDay: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date' },
+          tasks: { type: 'array', items: { $ref: '#/components/schemas/Task' } },
+        },
+      },
+      Planner: {
+        type: 'object',
+        description:
+          'Unfinished tasks by day. A task belongs to its scheduled day, or else to the day it is due.',
+        properties: {
+          today: { type: 'string', format: 'date' },
+          earlier: {
+            type: 'array',
+            description: 'Tasks whose day has passed: overdue, or planned for an earlier day',
+            items: { $ref: '#/components/schemas/Task' },
+          },
+          days: {
+            type: 'array',
+            description: 'Today first, then the following days',
+            items: { $ref: '#/components/schemas/PlannerDay' },
+          },
         },
       },
       TaskCreateRequest: {
@@ -99,6 +588,35 @@ const swaggerDocument: OpenAPIV3_1.Document = {
           title: { type: 'string' },
           description: { type: ['string', 'null'] },
           priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          dueDate: {
+            type: ['string', 'null'],
+            description:
+              'YYYY-MM-DD makes an all-day task. A date and time without an offset (2026-03-10T14:30) is read in the user\'s time zone preference.',
+            example: '2026-03-10',
+          },
+          startDate: {
+            type: ['string', 'null'],
+            format: 'date',
+            description: 'The task is left out of the default task lists until this date',
+          },
+          scheduledFor: {
+            type: ['string', 'null'],
+            format: 'date',
+            description: 'Day the task is planned for on the Today page; not before startDate',
+          },
+          tagIds: { type: 'array', items: { type: 'integer' } },
+          projectId: {
+            type: ['integer', 'null'],
+            description: 'Project to add the task to; omit or null for the inbox',
+          },
+          completeWithChecklist: {
+            type: 'boolean',
+            description: 'Complete the task automatically once every checklist item is done',
+          },
+          recurrence: {
+            oneOf: [{ $ref: '#/components/schemas/RecurrenceRule' }, { type: 'null' }],
+            description: 'Requires a due date',
+          },
         },
       },
       TaskUpdateRequest: {
@@ -108,83 +626,2429 @@ const swaggerDocument: OpenAPIV3_1.Document = {
           description: { type: ['string', 'null'] },
           completed: { type: 'boolean' },
           priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          dueDate: {
+            type: ['string', 'null'],
+            description:
+              'YYYY-MM-DD makes an all-day task. A date and time without an offset (2026-03-10T14:30) is read in the user\'s time zone preference.',
+            example: '2026-03-10',
+          },
+          startDate: {
+            type: ['string', 'null'],
+            format: 'date',
+            description: 'The task is left out of the default task lists until this date',
+          },
+          scheduledFor: {
+            type: ['string', 'null'],
+            format: 'date',
+            description: 'Day the task is planned for on the Today page; not before startDate',
+          },
+          tagIds: {
+            type: 'array',
+            items: { type: 'integer' },
+            description: 'Replaces the task\'s tags when provided',
+          },
+          projectId: {
+            type: ['integer', 'null'],
+            description: 'Moves the task to another project; null moves it to the inbox',
+          },
+          completeWithChecklist: { type: 'boolean' },
+          recurrence: {
+            oneOf: [{ $ref: '#/components/schemas/RecurrenceRule' }, { type: 'null' }],
+            description: 'null stops the task repeating',
+          },
         },
       },
-      ErrorResponse: {
+      ChecklistItem: {
         type: 'object',
         properties: {
-          message: { type: 'string' },
+          id: { type: 'integer' },
+          title: { type: 'string' },
+          done: { type: 'boolean' },
+          position: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
         },
       },
-    },
-  },
-  paths: {
-    '/api/auth/register': {
-      post: {
-        tags: ['Auth'],
-        summary: 'Register a new user',
-        requestBody: {
-          required: true,
-          content: {
-            'application/json': {
-              schema: { $ref: '#/components/schemas/AuthRegisterRequest' },
+      Reminder: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          offsetMinutes: { type: ['integer', 'null'], description: 'Minutes before the due date; null for an absolute reminder' },
+          remindAt: { type: ['string', 'null'], format: 'date-time', description: 'null for a relative reminder' },
+          fireAt: {
+            type: ['string', 'null'],
+            format: 'date-time',
+            description: 'When it fires; null while a relative reminder has no due date to follow',
+          },
+          firedAt: { type: ['string', 'null'], format: 'date-time' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      Notification: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          kind: { type: 'string', enum: ['due_soon', 'overdue', 'reminder', 'system'] },
+          title: { type: 'string' },
+          body: { type: ['string', 'null'] },
+          taskId: { type: ['integer', 'null'], description: 'The task it is about, if any' },
+          readAt: { type: ['string', 'null'], format: 'date-time' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      NotificationList: {
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/components/schemas/Notification' } },
+          nextCursor: { type: ['string', 'null'] },
+          unreadCount: { type: 'integer' },
+        },
+      },
+      UnreadCount: {
+        type: 'object',
+        properties: {
+          unreadCount: { type: 'integer' },
+        },
+      },
+      Tag: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+          color: { type: 'string', example: '#0ea5e9' },
+          taskCount: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      TagRequest: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', maxLength: 32 },
+          color: { type: 'string', pattern: '^#[0-9a-fA-F]{6}$', description: 'Picked automatically when omitted' },
+        },
+      },
+      Project: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+          color: { type: 'string', example: '#0ea5e9' },
+          description: { type: ['string', 'null'] },
+          archived: { type: 'boolean' },
+          taskCount: { type: 'integer' },
+          completedCount: { type: 'integer' },
+          completionPercent: { type: 'integer', minimum: 0, maximum: 100 },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      ProjectRequest: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', maxLength: 60 },
+          color: { type: 'string', pattern: '^#[0-9a-fA-F]{6}$', description: 'Picked automatically when omitted' },
+          description: { type: ['string', 'null'] },
+          archived: { type: 'boolean', description: 'Only accepted on update' },
+        },
+      },
+      ErrorResponse: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+        },
+      },
+    },
+  },
+  paths: {
+    '/api/auth/register': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Register a new user',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/AuthRegisterRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'User registered successfully',
+          },
+          '400': {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'User already exists',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '429': {
+            description: 'Too many sign-ups from this IP address (code TOO_MANY_ATTEMPTS)',
+            headers: {
+              'Retry-After': { schema: { type: 'integer' }, description: 'Seconds to wait' },
+            },
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/login': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Login a user',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/AuthLoginRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Authenticated successfully, or an MFA challenge when two-factor auth is enabled',
+            content: {
+              'application/json': {
+                schema: {
+                  oneOf: [
+                    { $ref: '#/components/schemas/AuthLoginResponse' },
+                    { $ref: '#/components/schemas/MfaChallengeResponse' },
+                  ],
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Invalid credentials',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '403': {
+            description: 'Email not verified (code EMAIL_NOT_VERIFIED); only when REQUIRE_EMAIL_VERIFICATION is on',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '429': {
+            description: 'Too many failed attempts for this account or IP address (code TOO_MANY_ATTEMPTS)',
+            headers: {
+              'Retry-After': { schema: { type: 'integer' }, description: 'Seconds to wait' },
+            },
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/mfa/verify': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Complete a two-factor login',
+        description: 'Exchanges the challenge from login plus an authenticator or recovery code for tokens.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/MfaVerifyRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Authenticated successfully',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AuthLoginResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing fields or wrong code; code MFA_CHALLENGE_EXPIRED after five wrong codes',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Challenge invalid or expired',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '429': {
+            description: 'Too many failed attempts for this account or IP address (code TOO_MANY_ATTEMPTS)',
+            headers: {
+              'Retry-After': { schema: { type: 'integer' }, description: 'Seconds to wait' },
+            },
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/mfa': {
+      get: {
+        tags: ['Auth'],
+        summary: 'Get two-factor auth status',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Status',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MfaStatus' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/mfa/setup': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Start authenticator enrollment',
+        description: 'Two-factor auth is not on until the first code is confirmed with /mfa/enable.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'New secret, otpauth URI and QR code',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MfaSetupResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'Already enabled',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/mfa/enable': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Confirm enrollment and turn on two-factor auth',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/MfaEnableRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Enabled; recovery codes returned once',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RecoveryCodesResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid code or setup not started',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'Already enabled',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/mfa/disable': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Turn off two-factor auth',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/MfaConfirmRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Disabled',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MessageResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Wrong password or code, or not enabled',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/mfa/recovery-codes': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Replace recovery codes',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/MfaConfirmRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'New recovery codes, returned once',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/RecoveryCodesResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Wrong password, or two-factor auth not enabled',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/verify-email': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Verify an email address with a link token',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/VerifyEmailRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Email verified',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MessageResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Token missing, invalid or expired',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/resend-verification': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Email a new verification link',
+        description: 'Answers the same way for unknown or already verified emails. Limited to one email a minute and five an hour per account.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ResendVerificationRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Link sent if the account needs verifying',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MessageResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Email is required',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '429': {
+            description: 'Too many emails; see the Retry-After header',
+            headers: {
+              'Retry-After': { schema: { type: 'integer' }, description: 'Seconds to wait' },
+            },
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/confirm-email-change': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Confirm a new email address with a link token',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/VerifyEmailRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Email address updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MessageResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Token missing, invalid or expired',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'The new address has been registered in the meantime',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/forgot-password': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Email a password reset link',
+        description: 'Answers the same way whether or not the email is registered.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ForgotPasswordRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Reset link sent if the account exists',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MessageResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Email is required',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/reset-password': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Set a new password with a reset link token',
+        description: 'The token can be used once. Signs out every session of the user.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ResetPasswordRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Password has been reset',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MessageResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid password, or the token is invalid, used or expired',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/me': {
+      get: {
+        tags: ['Auth'],
+        summary: 'Get authenticated user details',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'User details',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AuthMeResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        tags: ['Auth'],
+        summary: 'Change the username',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/UpdateProfileRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Updated user details',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AuthMeResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Username missing or too short',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'Username already taken',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Auth'],
+        summary: 'Delete the account',
+        description: 'Needs the current password. Signs out every session and revokes access tokens right away. The account and all its data are erased after ACCOUNT_DELETION_GRACE_DAYS (default 14); signing in before then cancels the deletion.',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/DeleteAccountRequest' },
+            },
+          },
+        },
+        responses: {
+          '202': {
+            description: 'Deletion scheduled',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AccountDeletionResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Password missing or incorrect',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/me/export': {
+      get: {
+        tags: ['Auth'],
+        summary: 'Download all personal data',
+        description: 'A JSON file (sent as an attachment) with the profile, preferences, projects, tags, tasks including trashed ones with their reminders, notifications, the full activity log, sessions, access tokens and security events. Secrets and hashes are left out.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'The export',
+            content: { 'application/json': { schema: { type: 'object' } } },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/me/preferences': {
+      get: {
+        tags: ['Auth'],
+        summary: 'Get preferences',
+        description: 'Theme, task list defaults, week start, time zone and notification settings. Defaults are returned for anything never saved.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Preferences',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/UserPreferences' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        tags: ['Auth'],
+        summary: 'Update preferences',
+        description: 'Send only the fields to change; the rest keep their value.',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/UserPreferences' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Updated preferences',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/UserPreferences' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid value',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/me/avatar': {
+      put: {
+        tags: ['Auth'],
+        summary: 'Upload an avatar',
+        description: 'Stored as 64, 128 and 256 pixel squares (center-cropped WebP). Replaces the previous avatar.',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['avatar'],
+                properties: {
+                  avatar: { type: 'string', format: 'binary', description: 'JPEG, PNG, WebP or GIF; 5 MB by default' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Updated user details',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AuthMeResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing file or not a supported image',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '413': {
+            description: 'File larger than AVATAR_MAX_BYTES',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Auth'],
+        summary: 'Remove the avatar',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Updated user details',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AuthMeResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/avatars/{userId}/{size}': {
+      parameters: [
+        {
+          name: 'userId',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'size',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer', enum: [64, 128, 256] },
+        },
+        { name: 'expires', in: 'query', required: true, schema: { type: 'integer' } },
+        { name: 'sig', in: 'query', required: true, schema: { type: 'string' } },
+      ],
+      get: {
+        tags: ['Auth'],
+        summary: 'Avatar image',
+        description: 'Use the signed URLs from `avatarUrls`; no Authorization header is needed, so they work as an image source.',
+        responses: {
+          '200': {
+            description: 'The image',
+            content: { 'image/webp': { schema: { type: 'string', format: 'binary' } } },
+          },
+          '403': {
+            description: 'Signature invalid or expired',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'No such avatar',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/me/email': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Start changing the email address',
+        description: 'Needs the current password. Mails a confirmation link to the new address and a notice to the old one; the address changes once the link is used. Replaces any pending change. One request a minute.',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/EmailChangeRequest' },
+            },
+          },
+        },
+        responses: {
+          '202': {
+            description: 'Confirmation link sent',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MessageResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid email, unchanged email or wrong password',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'Email already registered',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '429': {
+            description: 'Asked too recently; see the Retry-After header',
+            headers: {
+              'Retry-After': { schema: { type: 'integer' }, description: 'Seconds to wait' },
+            },
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Auth'],
+        summary: 'Cancel a pending email change',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': { description: 'Pending change dropped' },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/change-password': {
+      put: {
+        tags: ['Auth'],
+        summary: 'Change user password',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ChangePasswordRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Password updated successfully',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ChangePasswordResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error or new password must differ',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Incorrect current password or unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/refresh': {
+      post: {
+        tags: ['Auth'],
+        summary: 'Exchange a refresh token for a new access token',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RefreshTokenRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'New token pair; the old refresh token is no longer valid',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/AuthTokensResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Refresh token is required',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Refresh token invalid, expired or revoked',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/logout': {
+      post: {
+        tags: ['Auth'],
+        summary: 'End the session a refresh token belongs to',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/RefreshTokenRequest' },
+            },
+          },
+        },
+        responses: {
+          '204': { description: 'Signed out' },
+          '400': {
+            description: 'Refresh token is required',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/logout-all': {
+      post: {
+        tags: ['Auth'],
+        summary: 'End every session of the authenticated user',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': { description: 'All sessions signed out' },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/sessions': {
+      get: {
+        tags: ['Auth'],
+        summary: 'List active sessions of the authenticated user',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Active sessions, most recently used first',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/Session' } },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/sessions/{id}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      delete: {
+        tags: ['Auth'],
+        summary: 'Sign out one session',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': { description: 'Session signed out' },
+          '400': {
+            description: 'Invalid session id',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Session not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/security-events': {
+      get: {
+        tags: ['Auth'],
+        summary: 'List security events',
+        description: 'Sign-ins, failed attempts, session and credential changes on your account, newest first.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'type',
+            in: 'query',
+            description: 'Only these event types (repeat or comma separate)',
+            schema: { type: 'string', example: 'login,password_change' },
+          },
+          {
+            name: 'outcome',
+            in: 'query',
+            description: 'Only these outcomes: success, failure, blocked',
+            schema: { type: 'string', example: 'failure,blocked' },
+          },
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'A page of events',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/SecurityEventListResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid filter, limit or cursor',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/tokens': {
+      get: {
+        tags: ['Auth'],
+        summary: 'List personal access tokens',
+        description: 'Tokens that have not been revoked, newest first. Needs a signed-in session.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Tokens',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/AccessToken' } },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ['Auth'],
+        summary: 'Create a personal access token',
+        description: 'Returns the token once; only a hash is stored. Needs a signed-in session.',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/CreateAccessTokenRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Token created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/CreatedAccessToken' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid name, scopes or expiry, or too many tokens',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/api/auth/tokens/{id}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      delete: {
+        tags: ['Auth'],
+        summary: 'Revoke a personal access token',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': { description: 'Token revoked' },
+          '400': {
+            description: 'Invalid token id',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Token not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks': {
+      get: {
+        tags: ['Tasks'],
+        summary: 'List tasks for the authenticated user',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'projectId',
+            in: 'query',
+            description: 'Project id, or `none` for tasks without a project',
+            schema: { type: 'string', example: '4' },
+          },
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'string', enum: ['all', 'active', 'completed'], default: 'all' },
+          },
+          {
+            name: 'priority',
+            in: 'query',
+            description: 'One or more priorities, comma separated',
+            schema: { type: 'string', example: 'medium,high' },
+          },
+          {
+            name: 'dueFrom',
+            in: 'query',
+            description: 'Only tasks due on or after this date (a date starts at midnight in `tz`)',
+            schema: { type: 'string', format: 'date' },
+          },
+          {
+            name: 'dueTo',
+            in: 'query',
+            description: 'Only tasks due on or before this date (date-only values include the whole day in `tz`)',
+            schema: { type: 'string', format: 'date' },
+          },
+          {
+            name: 'tz',
+            in: 'query',
+            description: "IANA time zone for calendar dates; defaults to the user's time zone preference, else UTC",
+            schema: { type: 'string', example: 'Europe/Berlin' },
+          },
+          {
+            name: 'tags',
+            in: 'query',
+            description: 'Comma separated tag ids; tasks must have every listed tag',
+            schema: { type: 'string', example: '3,7' },
+          },
+          {
+            name: 'q',
+            in: 'query',
+            description: 'Search text matched against title and description',
+            schema: { type: 'string' },
+          },
+          {
+            name: 'includeNotStarted',
+            in: 'query',
+            description: 'Also list tasks whose start date is after today in `tz`',
+            schema: { type: 'boolean', default: false },
+          },
+          {
+            name: 'sort',
+            in: 'query',
+            schema: { type: 'string', enum: ['createdAt', 'dueDate', 'priority', 'title'], default: 'createdAt' },
+          },
+          {
+            name: 'order',
+            in: 'query',
+            description: 'Defaults to asc for title and dueDate, desc otherwise',
+            schema: { type: 'string', enum: ['asc', 'desc'] },
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+          {
+            name: 'cursor',
+            in: 'query',
+            description: 'nextCursor from the previous page',
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'A page of tasks',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/TaskListResponse' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid query parameter',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ['Tasks'],
+        summary: 'Create a new task',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/TaskCreateRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Task created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Task' },
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/summary': {
+      get: {
+        tags: ['Tasks'],
+        summary: 'Get task counts for the summary cards',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'projectId',
+            in: 'query',
+            description: 'Project id, or `none` for tasks without a project',
+            schema: { type: 'string', example: '4' },
+          },
+          {
+            name: 'tz',
+            in: 'query',
+            description: "Overdue means past the due time, or for all-day tasks before today in this IANA time zone; defaults to the user's time zone preference, else UTC",
+            schema: { type: 'string', example: 'Europe/Berlin' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Task counts',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/TaskSummary' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/planner': {
+      get: {
+        tags: ['Tasks'],
+        summary: 'Get the Today page: tasks planned or due today and in the coming days',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'days',
+            in: 'query',
+            description: 'Number of days, today included',
+            schema: { type: 'integer', minimum: 1, maximum: 14, default: 7 },
+          },
+          {
+            name: 'tz',
+            in: 'query',
+            description: "IANA time zone that decides what today is; defaults to the user's time zone preference, else UTC",
+            schema: { type: 'string', example: 'Europe/Berlin' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Tasks by day',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Planner' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid days or tz',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/trash': {
+      get: {
+        tags: ['Tasks'],
+        summary: 'List tasks in the trash',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Deleted tasks, most recently deleted first',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/TrashListResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Tasks'],
+        summary: 'Empty the trash, permanently deleting every task in it',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Trash emptied',
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      get: {
+        tags: ['Tasks'],
+        summary: 'Get a single task',
+        description: 'Tasks in the trash are returned too, with `deletedAt` set.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Task found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Task' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        tags: ['Tasks'],
+        summary: 'Update a task',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/TaskUpdateRequest' },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Task updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Task' },
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Tasks'],
+        summary: 'Move a task to the trash',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Task moved to the trash',
+          },
+          '400': {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}/history': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      get: {
+        tags: ['Tasks'],
+        summary: 'List the activity of one task, newest first',
+        description: 'Also works for deleted tasks, using the snapshots stored with each entry.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Activity entries for the task',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ActivityLog' },
+                },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}/restore': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      post: {
+        tags: ['Tasks'],
+        summary: 'Restore a task from the trash',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Task restored',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Task' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found in trash',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}/permanent': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      delete: {
+        tags: ['Tasks'],
+        summary: 'Permanently delete a task that is in the trash',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Task permanently deleted',
+          },
+          '400': {
+            description: 'Task is not in the trash',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}/checklist': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      get: {
+        tags: ['Checklist'],
+        summary: 'List the checklist items of a task in order',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Checklist items',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ChecklistItem' },
+                },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ['Checklist'],
+        summary: 'Add an item to the end of a task checklist',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['title'],
+                properties: {
+                  title: { type: 'string', maxLength: 200 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Checklist item created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ChecklistItem' },
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}/checklist/order': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      put: {
+        tags: ['Checklist'],
+        summary: 'Reorder a task checklist',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['itemIds'],
+                properties: {
+                  itemIds: {
+                    type: 'array',
+                    items: { type: 'integer' },
+                    description: 'Every item id of the task, first to last',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Reordered checklist',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ChecklistItem' },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'itemIds must list every checklist item of the task once',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}/checklist/{itemId}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'itemId',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      patch: {
+        tags: ['Checklist'],
+        summary: 'Rename or check/uncheck a checklist item',
+        description: 'Checking the last open item completes the task when completeWithChecklist is set.',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  title: { type: 'string', maxLength: 200 },
+                  done: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Checklist item updated',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ChecklistItem' },
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task or checklist item not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Checklist'],
+        summary: 'Remove a checklist item',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Checklist item deleted',
+          },
+          '404': {
+            description: 'Task or checklist item not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}/reminders': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      get: {
+        tags: ['Reminders'],
+        summary: 'List the reminders of a task, soonest first',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Reminders',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/Reminder' },
+                },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ['Reminders'],
+        summary: 'Add a reminder to a task',
+        description:
+          'Set exactly one of offsetMinutes (fires that long before the due date and follows it when it changes; all-day tasks count as due at 09:00 in the user time zone) or remindAt (fires at that moment; without an offset it is read in the user time zone). A task can have up to 10 reminders. When a reminder fires, a notification is stored and sent on the channels the user picked in their preferences.',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  offsetMinutes: { type: 'integer', minimum: 0, maximum: 43200, description: 'Minutes before the due date' },
+                  remindAt: { type: 'string', format: 'date-time', description: 'Must be in the future' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Reminder created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Reminder' },
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error, e.g. a relative reminder on a task without a due date',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '404': {
+            description: 'Task not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'The task already has that reminder',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/tasks/{id}/reminders/{reminderId}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'reminderId',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      delete: {
+        tags: ['Reminders'],
+        summary: 'Remove a reminder',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Reminder deleted',
+          },
+          '404': {
+            description: 'Task or reminder not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/notifications': {
+      get: {
+        tags: ['Notifications'],
+        summary: 'List the notification inbox, newest first',
+        description: 'Dismissed notifications are left out. unreadCount covers the whole inbox, not just this page.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          { name: 'unread', in: 'query', schema: { type: 'boolean' }, description: 'Only unread notifications' },
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+          { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'nextCursor from the previous page' },
+        ],
+        responses: {
+          '200': {
+            description: 'A page of notifications',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/NotificationList' },
+              },
             },
           },
-        },
-        responses: {
-          '201': {
-            description: 'User registered successfully',
-          },
           '400': {
-            description: 'Validation error',
+            description: 'Invalid unread, limit or cursor',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
-          '409': {
-            description: 'User already exists',
+        },
+      },
+      delete: {
+        tags: ['Notifications'],
+        summary: 'Dismiss every notification in the inbox',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Inbox cleared',
+          },
+        },
+      },
+    },
+    '/notifications/unread-count': {
+      get: {
+        tags: ['Notifications'],
+        summary: 'Count unread notifications',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Unread count',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/ErrorResponse' },
+                schema: { $ref: '#/components/schemas/UnreadCount' },
               },
             },
           },
         },
       },
     },
-    '/api/auth/login': {
+    '/notifications/read-all': {
       post: {
-        tags: ['Auth'],
-        summary: 'Login a user',
-        requestBody: {
-          required: true,
-          content: {
-            'application/json': {
-              schema: { $ref: '#/components/schemas/AuthLoginRequest' },
+        tags: ['Notifications'],
+        summary: 'Mark every notification as read',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'All read',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/UnreadCount' },
+              },
             },
           },
         },
+      },
+    },
+    '/notifications/{id}/read': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      post: {
+        tags: ['Notifications'],
+        summary: 'Mark a notification as read',
+        security: [{ bearerAuth: [] }],
         responses: {
           '200': {
-            description: 'Authenticated successfully',
+            description: 'Notification marked as read',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/AuthLoginResponse' },
+                schema: { $ref: '#/components/schemas/Notification' },
               },
             },
           },
-          '400': {
-            description: 'Validation error',
+          '404': {
+            description: 'Notification not found',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
-          '401': {
-            description: 'Invalid credentials',
+        },
+      },
+    },
+    '/notifications/{id}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      delete: {
+        tags: ['Notifications'],
+        summary: 'Dismiss a notification',
+        description: 'Removes it from the inbox for good; it is marked as read too.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Notification dismissed',
+          },
+          '404': {
+            description: 'Notification not found',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
@@ -194,17 +3058,20 @@ const swaggerDocument: OpenAPIV3_1.Document = {
         },
       },
     },
-    '/api/auth/me': {
+    '/tags': {
       get: {
-        tags: ['Auth'],
-        summary: 'Get authenticated user details',
+        tags: ['Tags'],
+        summary: 'List tags for the authenticated user',
         security: [{ bearerAuth: [] }],
         responses: {
           '200': {
-            description: 'User details',
+            description: 'List of tags',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/AuthMeResponse' },
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/Tag' },
+                },
               },
             },
           },
@@ -218,39 +3085,104 @@ const swaggerDocument: OpenAPIV3_1.Document = {
           },
         },
       },
+      post: {
+        tags: ['Tags'],
+        summary: 'Create a tag',
+        security: [{ bearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/TagRequest' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Tag created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Tag' },
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '409': {
+            description: 'A tag with this name already exists',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
     },
-    '/api/auth/change-password': {
+    '/tags/{id}': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
       put: {
-        tags: ['Auth'],
-        summary: 'Change user password',
+        tags: ['Tags'],
+        summary: 'Rename or recolor a tag',
         security: [{ bearerAuth: [] }],
         requestBody: {
           required: true,
           content: {
             'application/json': {
-              schema: { $ref: '#/components/schemas/ChangePasswordRequest' },
+              schema: { $ref: '#/components/schemas/TagRequest' },
             },
           },
         },
         responses: {
           '200': {
-            description: 'Password updated successfully',
+            description: 'Tag updated',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/ChangePasswordResponse' },
+                schema: { $ref: '#/components/schemas/Tag' },
               },
             },
           },
-          '400': {
-            description: 'Validation error or new password must differ',
+          '404': {
+            description: 'Tag not found',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
-          '401': {
-            description: 'Incorrect current password or unauthorized',
+          '409': {
+            description: 'A tag with this name already exists',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        tags: ['Tags'],
+        summary: 'Delete a tag (tasks are kept)',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Tag deleted',
+          },
+          '404': {
+            description: 'Tag not found',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
@@ -260,23 +3192,38 @@ const swaggerDocument: OpenAPIV3_1.Document = {
         },
       },
     },
-    '/tasks': {
+    '/projects': {
       get: {
-        tags: ['Tasks'],
-        summary: 'Get all tasks for the authenticated user',
+        tags: ['Projects'],
+        summary: 'List projects with completion progress',
         security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'archived',
+            in: 'query',
+            schema: { type: 'string', enum: ['false', 'true', 'all'], default: 'false' },
+          },
+        ],
         responses: {
           '200': {
-            description: 'List of tasks',
+            description: 'List of projects',
             content: {
               'application/json': {
                 schema: {
                   type: 'array',
-                  items: { $ref: '#/components/schemas/Task' },
+                  items: { $ref: '#/components/schemas/Project' },
                 },
               },
             },
           },
+          '400': {
+            description: 'Invalid query parameter',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
           '401': {
             description: 'Unauthorized',
             content: {
@@ -288,23 +3235,23 @@ const swaggerDocument: OpenAPIV3_1.Document = {
         },
       },
       post: {
-        tags: ['Tasks'],
-        summary: 'Create a new task',
+        tags: ['Projects'],
+        summary: 'Create a project',
         security: [{ bearerAuth: [] }],
         requestBody: {
           required: true,
           content: {
             'application/json': {
-              schema: { $ref: '#/components/schemas/TaskCreateRequest' },
+              schema: { $ref: '#/components/schemas/ProjectRequest' },
             },
           },
         },
         responses: {
           '201': {
-            description: 'Task created',
+            description: 'Project created',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/Task' },
+                schema: { $ref: '#/components/schemas/Project' },
               },
             },
           },
@@ -316,18 +3263,10 @@ const swaggerDocument: OpenAPIV3_1.Document = {
               },
             },
           },
-          '401': {
-            description: 'Unauthorized',
-            content: {
-              'application/json': {
-                schema: { $ref: '#/components/schemas/ErrorResponse' },
-              },
-            },
-          },
         },
       },
     },
-    '/tasks/{id}': {
+    '/projects/{id}': {
       parameters: [
         {
           name: 'id',
@@ -337,28 +3276,20 @@ const swaggerDocument: OpenAPIV3_1.Document = {
         },
       ],
       get: {
-        tags: ['Tasks'],
-        summary: 'Get a single task',
+        tags: ['Projects'],
+        summary: 'Get a project with its completion progress',
         security: [{ bearerAuth: [] }],
         responses: {
           '200': {
-            description: 'Task found',
+            description: 'Project',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/Task' },
-              },
-            },
-          },
-          '401': {
-            description: 'Unauthorized',
-            content: {
-              'application/json': {
-                schema: { $ref: '#/components/schemas/ErrorResponse' },
+                schema: { $ref: '#/components/schemas/Project' },
               },
             },
           },
           '404': {
-            description: 'Task not found',
+            description: 'Project not found',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
@@ -368,23 +3299,23 @@ const swaggerDocument: OpenAPIV3_1.Document = {
         },
       },
       put: {
-        tags: ['Tasks'],
-        summary: 'Update a task',
+        tags: ['Projects'],
+        summary: 'Update, archive or unarchive a project',
         security: [{ bearerAuth: [] }],
         requestBody: {
           required: true,
           content: {
             'application/json': {
-              schema: { $ref: '#/components/schemas/TaskUpdateRequest' },
+              schema: { $ref: '#/components/schemas/ProjectRequest' },
             },
           },
         },
         responses: {
           '200': {
-            description: 'Task updated',
+            description: 'Project updated',
             content: {
               'application/json': {
-                schema: { $ref: '#/components/schemas/Task' },
+                schema: { $ref: '#/components/schemas/Project' },
               },
             },
           },
@@ -396,16 +3327,26 @@ const swaggerDocument: OpenAPIV3_1.Document = {
               },
             },
           },
-          '401': {
-            description: 'Unauthorized',
+          '404': {
+            description: 'Project not found',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
               },
             },
           },
+        },
+      },
+      delete: {
+        tags: ['Projects'],
+        summary: 'Delete a project (its tasks move to the inbox)',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '204': {
+            description: 'Project deleted',
+          },
           '404': {
-            description: 'Task not found',
+            description: 'Project not found',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
@@ -414,16 +3355,108 @@ const swaggerDocument: OpenAPIV3_1.Document = {
           },
         },
       },
-      delete: {
-        tags: ['Tasks'],
-        summary: 'Delete a task',
+    },
+    '/activity': {
+      get: {
+        tags: ['Activity'],
+        summary: 'List activity, newest first',
         security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'action',
+            in: 'query',
+            description: 'Only these actions (repeat or comma separate)',
+            schema: { type: 'string', example: 'created,completed' },
+          },
+          { name: 'taskId', in: 'query', schema: { type: 'integer' } },
+          {
+            name: 'from',
+            in: 'query',
+            description: 'Entries at or after this date/time; a plain date starts at midnight in `tz`',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            name: 'to',
+            in: 'query',
+            description: 'Entries at or before this date/time; a plain date includes the whole day in `tz`',
+            schema: { type: 'string', format: 'date-time' },
+          },
+          {
+            name: 'q',
+            in: 'query',
+            description: 'Search the task title, description and detail',
+            schema: { type: 'string' },
+          },
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+          { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          {
+            name: 'group',
+            in: 'query',
+            description: 'Set to `day` to also get the page split into days',
+            schema: { type: 'string', enum: ['day'] },
+          },
+          {
+            name: 'tz',
+            in: 'query',
+            description: 'IANA time zone used to split days and to read plain from/to dates (default UTC)',
+            schema: { type: 'string', example: 'Europe/Berlin' },
+          },
+        ],
         responses: {
-          '204': {
-            description: 'Task deleted',
+          '200': {
+            description: 'A page of activity',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ActivityListResponse' },
+              },
+            },
           },
           '400': {
-            description: 'Validation error',
+            description: 'Invalid filter, cursor or time zone',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+          '401': {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ErrorResponse' },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/activity/{id}/revert': {
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          description: 'Activity entry id',
+          schema: { type: 'integer' },
+        },
+      ],
+      post: {
+        tags: ['Activity'],
+        summary: 'Revert a task to the version captured by an activity entry',
+        description:
+          'Reverting to a deleted entry brings the task back, from the trash or rebuilt as a new task. Logged as a `reverted` activity.',
+        security: [{ bearerAuth: [] }],
+        responses: {
+          '200': {
+            description: 'Task reverted',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Task' },
+              },
+            },
+          },
+          '400': {
+            description: 'The entry has no task version to restore',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
@@ -439,7 +3472,7 @@ const swaggerDocument: OpenAPIV3_1.Document = {
             },
           },
           '404': {
-            description: 'Task not found',
+            description: 'Activity entry not found',
             content: {
               'application/json': {
                 schema: { $ref: '#/components/schemas/ErrorResponse' },
@@ -0,0 +1,149 @@
+import type { Response } from 'express';
+import prisma from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type {
+  AccessTokenResponseDto,
+  AccessTokenScope,
+  CreateAccessTokenRequestDto,
+  CreatedAccessTokenResponseDto,
+} from '../types/auth';
+import { ACCESS_TOKEN_SCOPES, generateAccessToken, parseScopes, serializeScopes } from '../utils/accessTokens';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { hashToken } from '../utils/tokens';
+
+const NAME_MAX_LENGTH = 100;
+const MAX_TOKENS_PER_USER = 50;
+
+interface AccessTokenRecord {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+}
+
+function toDto(record: AccessTokenRecord): AccessTokenResponseDto {
+  return {
+    id: record.id,
+    name: record.name,
+    tokenPrefix: record.tokenPrefix,
+    scopes: parseScopes(record.scopes),
+    createdAt: record.createdAt.toISOString(),
+    expiresAt: record.expiresAt ? record.expiresAt.toISOString() : null,
+    lastUsedAt: record.lastUsedAt ? record.lastUsedAt.toISOString() : null,
+  };
+}
+
+/**
+ * GET /api/auth/tokens - The user's personal access tokens that haven't been
+ * revoked, newest first. Expired tokens stay listed until revoked.
+ */
+export const getAccessTokens = async (req: AuthenticatedRequest, res: Response<AccessTokenResponseDto[]>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const tokens: AccessTokenRecord[] = await prisma.personalAccessToken.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return res.json(tokens.map(toDto));
+};
+
+/**
+ * POST /api/auth/tokens - Create a named token with scopes and an optional expiry.
+ * The plain token is in this response only; just its hash is stored.
+ */
+export const createAccessToken = async (
+  req: AuthenticatedRequest,
+  res: Response<CreatedAccessTokenResponseDto>,
+) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const { name, scopes, expiresAt } = (req.body ?? {}) as Partial<CreateAccessTokenRequestDto>;
+
+  const trimmedName = typeof name === 'string' ? name.trim() : '';
+  if (!trimmedName || trimmedName.length > NAME_MAX_LENGTH) {
+    return res.status(400).json({ message: `Name is required (at most ${NAME_MAX_LENGTH} characters)` } as never);
+  }
+
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((scope) => ACCESS_TOKEN_SCOPES.includes(scope as AccessTokenScope))
+  ) {
+    return res
+      .status(400)
+      .json({ message: `Scopes must be a non-empty list of ${ACCESS_TOKEN_SCOPES.join(', ')}` } as never);
+  }
+
+  let expiry: Date | null = null;
+  if (expiresAt !== undefined && expiresAt !== null) {
+    expiry = new Date(expiresAt);
+    if (typeof expiresAt !== 'string' || Number.isNaN(expiry.getTime()) || expiry <= new Date()) {
+      return res.status(400).json({ message: 'expiresAt must be a date in the future' } as never);
+    }
+  }
+
+  const activeCount: number = await prisma.personalAccessToken.count({ where: { userId, revokedAt: null } });
+  if (activeCount >= MAX_TOKENS_PER_USER) {
+    return res
+      .status(400)
+      .json({ message: `You can have at most ${MAX_TOKENS_PER_USER} tokens; revoke one first` } as never);
+  }
+
+  const { token, tokenPrefix } = generateAccessToken();
+  const record: AccessTokenRecord = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name: trimmedName,
+      tokenHash: hashToken(token),
+      tokenPrefix,
+      scopes: serializeScopes(scopes),
+      expiresAt: expiry,
+    },
+  });
+  await recordSecurityEvent(req, {
+    type: 'access_token_created',
+    outcome: 'success',
+    userId,
+    detail: `${trimmedName} (${scopes.join(', ')})`,
+  });
+
+  return res.status(201).json({ ...toDto(record), token });
+};
+
+/**
+ * DELETE /api/auth/tokens/:id - Revoke a token. Requests using it fail from now on.
+ */
+export const revokeAccessToken = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const tokenId = Number(req.params.id);
+  if (Number.isNaN(tokenId)) {
+    return res.status(400).json({ message: 'Invalid token id' });
+  }
+
+  const record: { name: string } | null = await prisma.personalAccessToken.findFirst({
+    where: { id: tokenId, userId, revokedAt: null },
+    select: { name: true },
+  });
+  if (!record) {
+    return res.status(404).json({ message: 'Token not found' });
+  }
+
+  await prisma.personalAccessToken.update({ where: { id: tokenId }, data: { revokedAt: new Date() } });
+  await recordSecurityEvent(req, { type: 'access_token_revoked', outcome: 'success', userId, detail: record.name });
+
+  return res.status(204).send();
+};
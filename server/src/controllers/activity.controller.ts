@@ -1,7 +1,36 @@
 import type { Response, NextFunction } from 'express';
 import prisma from '../prisma';
 import type { AuthenticatedRequest } from '../middleware/auth.middleware';
-import type { ActivityLogResponseDto, ActivityAction } from '../types/activity';
+import type {
+  ActivityLogResponseDto,
+  ActivityListResponseDto,
+  ActivityDayGroupDto,
+  ActivityAction,
+} from '../types/activity';
+import { parseChanges } from '../utils/taskChanges';
+import {
+  queryString,
+  queryList,
+  parseLimit,
+  encodeCursor,
+  decodeCursor,
+} from '../utils/pagination';
+import { isTimeZone } from '../utils/validation';
+import { formatDueDate, parseDueBound } from '../utils/dueDates';
+
+const VALID_ACTIONS: ActivityAction[] = [
+  'created',
+  'updated',
+  'completed',
+  'deleted',
+  'restored',
+  'reverted',
+  'checklist',
+];
+
+interface ActivityCursor {
+  id: number;
+}
 
 function toDto(log: {
   id: number;
@@ -11,7 +40,10 @@ function toDto(log: {
   taskTitle: string | null;
   taskDescription: string | null;
   taskDueDate: Date | null;
+  taskDueAllDay: boolean | null;
   taskCompleted: boolean | null;
+  detail: string | null;
+  changes: string | null;
   createdAt: Date;
 }): ActivityLogResponseDto {
   return {
@@ -21,34 +53,189 @@ function toDto(log: {
     taskId: log.taskId,
     taskTitle: log.taskTitle,
     taskDescription: log.taskDescription,
-    taskDueDate: log.taskDueDate ? log.taskDueDate.toISOString() : null,
+    taskDueDate: formatDueDate(log.taskDueDate, log.taskDueAllDay),
     taskCompleted: log.taskCompleted,
+    detail: log.detail,
+    changes: parseChanges(log.changes),
     createdAt: log.createdAt.toISOString(),
   };
 }
 
 /**
- * GET /activity - List activity logs for the authenticated user.
+ * Splits entries (already newest first) into consecutive per-day groups.
  */
-export const getActivityLogs = async (
+function groupByDay(items: ActivityLogResponseDto[], timeZone: string): ActivityDayGroupDto[] {
+  const dayFormat = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+  const groups: ActivityDayGroupDto[] = [];
+  for (const item of items) {
+    const date = dayFormat.format(new Date(item.createdAt));
+    const current = groups[groups.length - 1];
+    if (current && current.date === date) {
+      current.items.push(item);
+    } else {
+      groups.push({ date, items: [item] });
+    }
+  }
+  return groups;
+}
+
+/**
+ * Builds the Prisma where clause for GET /activity from its query parameters.
+ * Date-only `from`/`to` cover whole days in `timeZone`, the zone days are grouped in.
+ * Returns an error message instead when a parameter is invalid.
+ */
+function buildActivityFilter(
+  userId: number,
+  query: Record<string, unknown>,
+  timeZone: string,
+): { where: Record<string, unknown> } | { error: string } {
+  const where: Record<string, unknown> = { userId };
+
+  const actions = queryList(query.action);
+  if (!actions.every((action) => VALID_ACTIONS.includes(action as ActivityAction))) {
+    return { error: `Action must be one of ${VALID_ACTIONS.join(', ')}` };
+  }
+  if (actions.length > 0) where.action = { in: actions };
+
+  const taskIdRaw = queryString(query.taskId);
+  if (taskIdRaw !== undefined) {
+    const taskId = Number(taskIdRaw);
+    if (!Number.isInteger(taskId)) {
+      return { error: 'taskId must be a task id' };
+    }
+    where.taskId = taskId;
+  }
+
+  const fromRaw = queryString(query.from);
+  const toRaw = queryString(query.to);
+  if (fromRaw !== undefined || toRaw !== undefined) {
+    const from = fromRaw !== undefined ? parseDueBound(fromRaw, 'from', timeZone) : undefined;
+    const to = toRaw !== undefined ? parseDueBound(toRaw, 'to', timeZone) : undefined;
+    if (from === null || to === null) {
+      return { error: 'from and to must be valid dates' };
+    }
+    where.createdAt = {
+      ...(from ? { gte: from.timed } : {}),
+      ...(to ? { lte: to.timed } : {}),
+    };
+  }
+
+  const search = queryString(query.q);
+  if (search !== undefined) {
+    where.OR = [
+      { taskTitle: { contains: search } },
+      { taskDescription: { contains: search } },
+      { detail: { contains: search } },
+    ];
+  }
+
+  return { where };
+}
+
+/**
+ * GET /tasks/:id/history - List every activity entry for one task, newest first.
+ * Works for deleted tasks too, as long as their history is still there.
+ */
+export const getTaskHistory = async (
   req: AuthenticatedRequest,
   res: Response<ActivityLogResponseDto[]>,
   next: NextFunction,
 ) => {
   try {
     const userId = req.userId;
+    const taskId = Number(req.params.id);
 
     if (!userId) {
       return res.status(401).json({ message: 'Unauthorized' } as never);
     }
 
+    if (Number.isNaN(taskId)) {
+      return res.status(400).json({ message: 'Invalid task id' } as never);
+    }
+
     const logs = await prisma.activityLog.findMany({
-      where: { userId },
-      orderBy: { createdAt: 'desc' },
+      where: { userId, taskId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
     });
 
+    if (logs.length === 0) {
+      const task = await prisma.task.findFirst({ where: { id: taskId, userId }, select: { id: true } });
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' } as never);
+      }
+    }
+
     return res.json(logs.map(toDto));
   } catch (error) {
     return next(error);
   }
 };
+
+/**
+ * GET /activity - List activity logs for the authenticated user, newest first.
+ * Query parameters: action, taskId, from, to, q, limit, cursor, group (`day`) and
+ * tz (IANA time zone used to split days and to read date-only from/to, default UTC).
+ */
+export const getActivityLogs = async (
+  req: AuthenticatedRequest,
+  res: Response<ActivityListResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const timeZone = queryString(req.query.tz) ?? 'UTC';
+    if (!isTimeZone(timeZone)) {
+      return res.status(400).json({ message: 'tz must be a valid IANA time zone' } as never);
+    }
+
+    const filter = buildActivityFilter(userId, req.query, timeZone);
+    if ('error' in filter) {
+      return res.status(400).json({ message: filter.error } as never);
+    }
+
+    const group = queryString(req.query.group);
+    if (group !== undefined && group !== 'day') {
+      return res.status(400).json({ message: 'Group must be day' } as never);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    if (limit === null) {
+      return res.status(400).json({ message: 'Limit must be a positive integer' } as never);
+    }
+
+    const cursorRaw = queryString(req.query.cursor);
+    const cursor = cursorRaw !== undefined ? decodeCursor<ActivityCursor>(cursorRaw) : null;
+    if (cursorRaw !== undefined && (!cursor || typeof cursor.id !== 'number')) {
+      return res.status(400).json({ message: 'Invalid cursor' } as never);
+    }
+
+    const logs = await prisma.activityLog.findMany({
+      where: filter.where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor.id }, skip: 1 } : {}),
+    });
+
+    const items: ActivityLogResponseDto[] = logs.slice(0, limit).map(toDto);
+    const last = items[items.length - 1];
+    const nextCursor = logs.length > limit && last ? encodeCursor({ id: last.id }) : null;
+
+    return res.json({
+      items,
+      nextCursor,
+      ...(group === 'day' ? { groups: groupByDay(items, timeZone) } : {}),
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
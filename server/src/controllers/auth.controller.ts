@@ -1,29 +1,39 @@
 import type { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import jwt, { type JwtPayload, type Secret, type SignOptions } from 'jsonwebtoken';
 import prisma from '../prisma';
 import { env } from '../config/env';
 import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type { AuthTokensResponseDto, RefreshTokenRequestDto, SessionResponseDto } from '../types/auth';
+import { completeLogin, revokeSessions, rotateSession, signAccessToken, type SessionRecord } from '../utils/sessions';
+import { signMfaChallenge } from '../utils/mfa';
+import { generateToken, hashToken } from '../utils/tokens';
+import { sendVerificationEmail, verificationRetryAfter } from '../utils/emailVerification';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { cancelScheduledDeletion } from '../utils/accountDeletion';
+import { normalizeEmail, validatePassword, validateUsername } from '../utils/validation';
+import { passwordResetEmail, sendMail } from '../mail';
+import {
+  accountTarget,
+  clearFailures,
+  ipTarget,
+  refundAttempt,
+  registerTarget,
+  rejectThrottled,
+  takeAttempt,
+} from '../throttle';
 
 const SALT_ROUNDS = 10;
+const MINUTE_MS = 60 * 1000;
 
-const PASSWORD_REGEX = {
-  length: /^.{8,}$/,
-  uppercase: /[A-Z]/,
-  number: /[0-9]/,
-  special: /[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?`~]/,
-};
-
-function validatePassword(password: string): string | null {
-  if (!PASSWORD_REGEX.length.test(password)) return 'Password must be at least 8 characters';
-  if (!PASSWORD_REGEX.uppercase.test(password)) return 'Password must contain at least 1 uppercase letter';
-  if (!PASSWORD_REGEX.number.test(password)) return 'Password must contain at least 1 number';
-  if (!PASSWORD_REGEX.special.test(password)) return 'Password must contain at least 1 special character';
-  return null;
-}
+// Same answer whether or not the email is registered, so the endpoint can't be used to probe for accounts.
+const FORGOT_PASSWORD_MESSAGE = 'If an account exists for that email, a reset link is on its way';
+const INVALID_RESET_TOKEN_MESSAGE = 'This reset link is invalid or has expired';
+const RESEND_VERIFICATION_MESSAGE = 'If that account still needs verifying, a new link is on its way';
+const INVALID_VERIFICATION_TOKEN_MESSAGE = 'This verification link is invalid or has expired';
 
 /**
- * Registers a new user with username, email, and hashed password.
+ * Registers a new user with username, email, and hashed password, and mails a
+ * link to verify the email address. Sign-ups are throttled per IP address.
  */
 export const register = async (req: Request, res: Response) => {
   try {
@@ -33,16 +43,22 @@ export const register = async (req: Request, res: Response) => {
       password?: string;
     };
 
+    const retryAfter = await takeAttempt([registerTarget(req)]);
+    if (retryAfter !== null) {
+      return rejectThrottled(res, retryAfter);
+    }
+
     if (!username || !email || !password) {
       return res.status(400).json({ message: 'Username, email and password are required' });
     }
 
     const trimmedUsername = username.trim();
-    if (trimmedUsername.length < 2) {
-      return res.status(400).json({ message: 'Username must be at least 2 characters' });
+    const usernameError = validateUsername(trimmedUsername);
+    if (usernameError) {
+      return res.status(400).json({ message: usernameError });
     }
 
-    const normalizedEmail = String(email).trim().toLowerCase();
+    const normalizedEmail = normalizeEmail(email);
     if (!normalizedEmail) {
       return res.status(400).json({ message: 'A valid email is required' });
     }
@@ -72,10 +88,18 @@ export const register = async (req: Request, res: Response) => {
       },
     });
 
+    await recordSecurityEvent(req, { type: 'register', outcome: 'success', userId: user.id });
+
+    sendVerificationEmail(user).catch((mailErr: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error('Verification email failed:', mailErr);
+    });
+
     return res.status(201).json({
       id: user.id,
       username: user.username,
       email: user.email,
+      emailVerified: user.emailVerified,
     });
   } catch (err) {
     if (env.nodeEnv !== 'production') {
@@ -91,45 +115,78 @@ export const register = async (req: Request, res: Response) => {
 };
 
 /**
- * Authenticates a user and returns a signed JWT access token and user info.
+ * Authenticates a user, starts a session and returns a short-lived JWT access
+ * token, the session's refresh token and user info. Unverified accounts get a
+ * 403 when REQUIRE_EMAIL_VERIFICATION is on. With two-factor auth enabled, the
+ * response is an MFA challenge to exchange at POST /mfa/verify instead.
+ * Wrong credentials slow down, then lock, the account and the caller's IP
+ * address; blocked attempts get a 429 with Retry-After. Signing in to an
+ * account that is scheduled for deletion cancels the deletion (`accountRestored`).
  */
 export const login = async (req: Request, res: Response) => {
-  const { email, password } = req.body as { email?: string; password?: string };
+  const { email, password } = (req.body ?? {}) as { email?: unknown; password?: unknown };
 
-  if (!email || !password) {
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
     return res.status(400).json({ message: 'Email and password are required' });
   }
 
+  // Counted as a failure until the password turns out to be right.
+  const throttle = [accountTarget(email), ipTarget(req)];
+  const retryAfter = await takeAttempt(throttle);
+  if (retryAfter !== null) {
+    const target: { id: number } | null = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    await recordSecurityEvent(req, {
+      type: 'login',
+      outcome: 'blocked',
+      userId: target?.id ?? null,
+      detail: 'Too many failed attempts',
+    });
+    return rejectThrottled(res, retryAfter);
+  }
+
   const user = await prisma.user.findUnique({ where: { email } });
   if (!user) {
+    await recordSecurityEvent(req, { type: 'login', outcome: 'failure', userId: null, detail: 'Unknown account' });
     return res.status(401).json({ message: 'Invalid credentials' });
   }
 
   const isMatch = await bcrypt.compare(password, user.password);
   if (!isMatch) {
+    await recordSecurityEvent(req, { type: 'login', outcome: 'failure', userId: user.id, detail: 'Wrong password' });
     return res.status(401).json({ message: 'Invalid credentials' });
   }
 
-  const payload: JwtPayload = { sub: user.id, email: user.email };
-  const secret: Secret = env.jwtSecret;
-  const options: SignOptions = { expiresIn: env.jwtExpiresIn as unknown as number };
+  if (env.requireEmailVerification && !user.emailVerified) {
+    await refundAttempt(throttle);
+    await recordSecurityEvent(req, {
+      type: 'login',
+      outcome: 'failure',
+      userId: user.id,
+      detail: 'Email not verified',
+    });
+    return res.status(403).json({
+      message: 'Please verify your email address before signing in',
+      code: 'EMAIL_NOT_VERIFIED',
+    });
+  }
 
-  const token = jwt.sign(payload, secret, options);
+  // With MFA on, the account's earlier failures are kept until the code step succeeds too.
+  if (user.mfaEnabled) {
+    await refundAttempt(throttle);
+    return res.json({ mfaRequired: true, mfaToken: signMfaChallenge(user.id) });
+  }
 
-  return res.json({
-    token,
-    user: {
-      id: user.id,
-      email: user.email,
-      username: user.username,
-    },
-  });
+  await clearFailures([accountTarget(email)]);
+  await refundAttempt([ipTarget(req)]);
+  await recordSecurityEvent(req, { type: 'login', outcome: 'success', userId: user.id });
+  const accountRestored = await cancelScheduledDeletion(user, req);
+  return res.json({ ...(await completeLogin(user, req)), accountRestored });
 };
 
 /**
  * Updates the authenticated user's password.
  * Only updates when current password is verified with bcrypt.
- * Never returns password in response.
+ * Signs out every other session. Never returns password in response.
  */
 export const changePassword = async (req: AuthenticatedRequest, res: Response) => {
   const userId = req.userId;
@@ -169,6 +226,12 @@ export const changePassword = async (req: AuthenticatedRequest, res: Response) =
 
   const isMatch = await bcrypt.compare(cur, user.password);
   if (!isMatch) {
+    await recordSecurityEvent(req, {
+      type: 'password_change',
+      outcome: 'failure',
+      userId,
+      detail: 'Wrong current password',
+    });
     return res.status(401).json({ message: 'Current password is incorrect' });
   }
 
@@ -182,32 +245,298 @@ export const changePassword = async (req: AuthenticatedRequest, res: Response) =
     data: { password: hashedPassword },
   });
 
+  // Whoever knew the old password may still be signed in elsewhere.
+  await revokeSessions(userId, req.sessionId);
+  await recordSecurityEvent(req, { type: 'password_change', outcome: 'success', userId });
+
   return res.json({ message: 'Password updated successfully' });
 };
 
 /**
- * Returns the current authenticated user's profile.
+ * Emails a single-use password reset link. Only the newest link of a user is
+ * valid. Always answers 200 so callers can't tell which emails are registered.
  */
-export const getMe = async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.userId;
+export const forgotPassword = async (req: Request, res: Response) => {
+  const { email } = (req.body ?? {}) as { email?: string };
 
-  if (!userId) {
-    return res.status(401).json({ message: 'Unauthorized' });
+  if (typeof email !== 'string' || !email.trim()) {
+    return res.status(400).json({ message: 'Email is required' });
   }
 
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
+  const user: { id: number; email: string; username: string } | null = await prisma.user.findUnique({
+    where: { email: email.trim().toLowerCase() },
     select: { id: true, email: true, username: true },
   });
 
+  if (user) {
+    const token = generateToken();
+    await prisma.passwordResetToken.deleteMany({ where: { userId: user.id } });
+    await prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + env.passwordResetTtlMinutes * MINUTE_MS),
+      },
+    });
+
+    await recordSecurityEvent(req, { type: 'password_reset_requested', outcome: 'success', userId: user.id });
+
+    // Not awaited: a slow mail server would otherwise reveal that the account exists.
+    sendMail(passwordResetEmail(user, token)).catch((err: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error('Password reset email failed:', err);
+    });
+  }
+
+  return res.json({ message: FORGOT_PASSWORD_MESSAGE });
+};
+
+/**
+ * Sets a new password using a reset link token. The token is consumed, and every
+ * session of the user is signed out.
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  const { token, password } = (req.body ?? {}) as { token?: string; password?: string };
+
+  if (typeof token !== 'string' || !token || typeof password !== 'string' || !password) {
+    return res.status(400).json({ message: 'Token and new password are required' });
+  }
+
+  const pwdError = validatePassword(password);
+  if (pwdError) {
+    return res.status(400).json({ message: pwdError });
+  }
+
+  const now = new Date();
+  const record: { id: number; userId: number; expiresAt: Date; usedAt: Date | null } | null =
+    await prisma.passwordResetToken.findUnique({ where: { tokenHash: hashToken(token) } });
+
+  if (!record || record.usedAt || record.expiresAt <= now) {
+    await recordSecurityEvent(req, {
+      type: 'password_reset',
+      outcome: 'failure',
+      userId: record?.userId ?? null,
+      detail: 'Invalid or expired link',
+    });
+    return res.status(400).json({ message: INVALID_RESET_TOKEN_MESSAGE });
+  }
+
+  // Claim the token before changing anything so two concurrent requests can't both use it.
+  const claimed: { count: number } = await prisma.passwordResetToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: now },
+  });
+  if (claimed.count === 0) {
+    return res.status(400).json({ message: INVALID_RESET_TOKEN_MESSAGE });
+  }
+
+  const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
+  await prisma.user.update({
+    where: { id: record.userId },
+    data: { password: hashedPassword },
+  });
+  await revokeSessions(record.userId);
+  await recordSecurityEvent(req, { type: 'password_reset', outcome: 'success', userId: record.userId });
+
+  return res.json({ message: 'Password has been reset. You can now sign in.' });
+};
+
+/**
+ * Marks the email address as verified using a link token. All outstanding
+ * verification links of the user are consumed.
+ */
+export const verifyEmail = async (req: Request, res: Response) => {
+  const { token } = (req.body ?? {}) as { token?: string };
+
+  if (typeof token !== 'string' || !token) {
+    return res.status(400).json({ message: 'Token is required' });
+  }
+
+  const record: { userId: number; expiresAt: Date } | null = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!record || record.expiresAt <= new Date()) {
+    return res.status(400).json({ message: INVALID_VERIFICATION_TOKEN_MESSAGE });
+  }
+
+  await prisma.user.update({ where: { id: record.userId }, data: { emailVerified: true } });
+  await prisma.emailVerificationToken.deleteMany({ where: { userId: record.userId } });
+  await recordSecurityEvent(req, { type: 'email_verified', outcome: 'success', userId: record.userId });
+
+  return res.json({ message: 'Email verified' });
+};
+
+/**
+ * Mails a fresh verification link. Public, so accounts that can't sign in yet
+ * can use it; rate limited per account and answers 429 with Retry-After.
+ */
+export const resendVerification = async (req: Request, res: Response) => {
+  const { email } = (req.body ?? {}) as { email?: string };
+
+  if (typeof email !== 'string' || !email.trim()) {
+    return res.status(400).json({ message: 'Email is required' });
+  }
+
+  const user: { id: number; email: string; username: string; emailVerified: boolean } | null =
+    await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+      select: { id: true, email: true, username: true, emailVerified: true },
+    });
+
+  if (user && !user.emailVerified) {
+    const retryAfter = await verificationRetryAfter(user.id);
+    if (retryAfter !== null) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        message: `Please wait ${retryAfter} seconds before requesting another email`,
+        retryAfter,
+      });
+    }
+
+    sendVerificationEmail(user).catch((err: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error('Verification email failed:', err);
+    });
+  }
+
+  return res.json({ message: RESEND_VERIFICATION_MESSAGE });
+};
+
+function toSessionDto(session: SessionRecord, currentSessionId: number | undefined): SessionResponseDto {
+  return {
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt.toISOString(),
+    lastUsedAt: session.lastUsedAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+    current: session.id === currentSessionId,
+  };
+}
+
+/**
+ * Exchanges a refresh token for a new access token. The refresh token is
+ * rotated, so the one sent in is no longer valid afterwards.
+ */
+export const refresh = async (req: Request, res: Response<AuthTokensResponseDto>) => {
+  const { refreshToken } = (req.body ?? {}) as Partial<RefreshTokenRequestDto>;
+
+  if (typeof refreshToken !== 'string' || !refreshToken) {
+    return res.status(400).json({ message: 'Refresh token is required' } as never);
+  }
+
+  const rotated = await rotateSession(refreshToken, req);
+  if ('error' in rotated) {
+    if (rotated.userId !== undefined) {
+      await recordSecurityEvent(req, {
+        type: rotated.reused ? 'token_reuse' : 'token_refresh',
+        outcome: rotated.reused ? 'blocked' : 'failure',
+        userId: rotated.userId,
+        detail: rotated.reused ? 'Old refresh token reused; session revoked' : rotated.error,
+      });
+    }
+    return res.status(401).json({ message: rotated.error } as never);
+  }
+
+  const user: { id: number; email: string } | null = await prisma.user.findUnique({
+    where: { id: rotated.session.userId },
+    select: { id: true, email: true },
+  });
   if (!user) {
-    return res.status(404).json({ message: 'User not found' });
+    return res.status(401).json({ message: 'Invalid refresh token' } as never);
   }
 
+  await recordSecurityEvent(req, { type: 'token_refresh', outcome: 'success', userId: user.id });
+
   return res.json({
-    id: user.id,
-    email: user.email,
-    username: user.username,
+    token: signAccessToken(user, rotated.session.id),
+    refreshToken: rotated.refreshToken,
   });
 };
 
+/**
+ * Ends the session a refresh token belongs to. Works with an expired access
+ * token and succeeds even when the session is already gone.
+ */
+export const logout = async (req: Request, res: Response) => {
+  const { refreshToken } = (req.body ?? {}) as Partial<RefreshTokenRequestDto>;
+
+  if (typeof refreshToken !== 'string' || !refreshToken) {
+    return res.status(400).json({ message: 'Refresh token is required' });
+  }
+
+  const session: { id: number; userId: number } | null = await prisma.session.findFirst({
+    where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+    select: { id: true, userId: true },
+  });
+  if (session) {
+    await prisma.session.update({ where: { id: session.id }, data: { revokedAt: new Date() } });
+    await recordSecurityEvent(req, { type: 'logout', outcome: 'success', userId: session.userId });
+  }
+
+  return res.status(204).send();
+};
+
+/**
+ * Ends every session of the authenticated user, including the current one.
+ */
+export const logoutAll = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  await revokeSessions(userId);
+  await recordSecurityEvent(req, { type: 'logout_all', outcome: 'success', userId });
+
+  return res.status(204).send();
+};
+
+/**
+ * Lists the authenticated user's active sessions, most recently used first.
+ */
+export const getSessions = async (req: AuthenticatedRequest, res: Response<SessionResponseDto[]>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const sessions: SessionRecord[] = await prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+
+  return res.json(sessions.map((session) => toSessionDto(session, req.sessionId)));
+};
+
+/**
+ * Signs out one of the authenticated user's sessions.
+ */
+export const revokeSession = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const sessionId = Number(req.params.id);
+  if (Number.isNaN(sessionId)) {
+    return res.status(400).json({ message: 'Invalid session id' });
+  }
+
+  const result: { count: number } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (result.count === 0) {
+    return res.status(404).json({ message: 'Session not found' });
+  }
+  await recordSecurityEvent(req, {
+    type: 'session_revoked',
+    outcome: 'success',
+    userId,
+    ...(sessionId === req.sessionId ? { detail: 'This device' } : {}),
+  });
+
+  return res.status(204).send();
+};
@@ -0,0 +1,43 @@
+import type { Request, Response } from 'express';
+import prisma from '../prisma';
+import { isAvatarSize, readAvatar, verifyAvatarSignature } from '../utils/avatars';
+import { queryString } from '../utils/pagination';
+
+/**
+ * GET /api/avatars/:userId/:size - Serve an avatar image. Needs the signed
+ * `expires` and `sig` parameters from the URLs in the profile, instead of a
+ * bearer token, so it can be used as an <img> src.
+ */
+export const getAvatar = async (req: Request, res: Response) => {
+  const userId = Number(req.params.userId);
+  const size = Number(req.params.size);
+  const expires = Number(queryString(req.query.expires));
+  const signature = queryString(req.query.sig);
+
+  if (!Number.isInteger(userId) || !isAvatarSize(size) || !signature) {
+    return res.status(404).json({ message: 'Avatar not found' });
+  }
+
+  const user: { avatarPath: string | null } | null = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { avatarPath: true },
+  });
+  if (!user?.avatarPath) {
+    return res.status(404).json({ message: 'Avatar not found' });
+  }
+
+  if (!verifyAvatarSignature(userId, user.avatarPath, size, expires, signature)) {
+    return res.status(403).json({ message: 'This avatar link is invalid or has expired' });
+  }
+
+  const file = await readAvatar(user.avatarPath, size);
+  if (!file) {
+    return res.status(404).json({ message: 'Avatar not found' });
+  }
+
+  // The web client runs on another origin; helmet would block it from embedding the image.
+  res.set('Cross-Origin-Resource-Policy', 'cross-origin');
+  res.set('Cache-Control', 'private, max-age=86400');
+  res.type(file.contentType);
+  return res.send(file.body);
+};
@@ -0,0 +1,357 @@
+import type { NextFunction, Response } from 'express';
+import prisma from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type {
+  ChecklistItemCreateDto,
+  ChecklistItemUpdateDto,
+  ChecklistReorderDto,
+  ChecklistItemResponseDto,
+} from '../types/checklist';
+import { spawnNextOccurrence, type CompletedTask } from '../utils/recurringTasks';
+
+const CHECKLIST_TITLE_MAX_LENGTH = 200;
+
+interface ChecklistItemRecord {
+  id: number;
+  title: string;
+  done: boolean;
+  position: number;
+  createdAt: Date;
+}
+
+interface TaskSnapshot {
+  id: number;
+  title: string;
+  description: string | null;
+  dueDate: Date | null;
+  dueAllDay: boolean;
+  completed: boolean;
+  completeWithChecklist: boolean;
+}
+
+function toDto(item: ChecklistItemRecord): ChecklistItemResponseDto {
+  return {
+    id: item.id,
+    title: item.title,
+    done: item.done,
+    position: item.position,
+    createdAt: item.createdAt.toISOString(),
+  };
+}
+
+function validateTitle(title: unknown): string | null {
+  if (typeof title !== 'string' || title.trim().length === 0) return 'Checklist item title is required';
+  if (title.trim().length > CHECKLIST_TITLE_MAX_LENGTH) {
+    return `Checklist item title must be at most ${CHECKLIST_TITLE_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Parses the task id from the route and loads the task if the user owns it.
+ */
+async function loadTask(
+  userId: number,
+  taskIdParam: unknown,
+): Promise<{ task: TaskSnapshot } | { status: number; message: string }> {
+  const taskId = Number(taskIdParam);
+  if (Number.isNaN(taskId)) {
+    return { status: 400, message: 'Invalid task id' };
+  }
+  const task: TaskSnapshot | null = await prisma.task.findFirst({ where: { id: taskId, userId, deletedAt: null } });
+  if (!task) {
+    return { status: 404, message: 'Task not found' };
+  }
+  return { task };
+}
+
+/**
+ * Records a checklist change in the activity log, with a snapshot of the parent task.
+ */
+async function logChecklistChange(userId: number, task: TaskSnapshot, detail: string) {
+  await prisma.activityLog.create({
+    data: {
+      userId,
+      action: 'checklist',
+      taskId: task.id,
+      taskTitle: task.title,
+      taskDescription: task.description,
+      taskDueDate: task.dueDate,
+      taskDueAllDay: task.dueAllDay,
+      taskCompleted: task.completed,
+      detail,
+    },
+  });
+}
+
+/**
+ * GET /tasks/:id/checklist - List a task's checklist items in order.
+ */
+export const getChecklist = async (
+  req: AuthenticatedRequest,
+  res: Response<ChecklistItemResponseDto[]>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const loaded = await loadTask(userId, req.params.id);
+    if ('status' in loaded) {
+      return res.status(loaded.status).json({ message: loaded.message } as never);
+    }
+
+    const items: ChecklistItemRecord[] = await prisma.checklistItem.findMany({
+      where: { taskId: loaded.task.id },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+    });
+
+    return res.json(items.map(toDto));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /tasks/:id/checklist - Append an item to the end of a task's checklist.
+ */
+export const addChecklistItem = async (
+  req: AuthenticatedRequest,
+  res: Response<ChecklistItemResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const { title } = (req.body ?? {}) as ChecklistItemCreateDto;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const titleError = validateTitle(title);
+    if (titleError) {
+      return res.status(400).json({ message: titleError } as never);
+    }
+
+    const loaded = await loadTask(userId, req.params.id);
+    if ('status' in loaded) {
+      return res.status(loaded.status).json({ message: loaded.message } as never);
+    }
+    const { task } = loaded;
+
+    const last: ChecklistItemRecord | null = await prisma.checklistItem.findFirst({
+      where: { taskId: task.id },
+      orderBy: { position: 'desc' },
+    });
+
+    const item: ChecklistItemRecord = await prisma.checklistItem.create({
+      data: {
+        title: title.trim(),
+        position: last ? last.position + 1 : 0,
+        taskId: task.id,
+      },
+    });
+
+    await logChecklistChange(userId, task, `Added "${item.title}"`);
+
+    return res.status(201).json(toDto(item));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * PATCH /tasks/:id/checklist/:itemId - Rename or check/uncheck an item.
+ * Checking the last open item completes the task when it has `completeWithChecklist` set,
+ * and a recurring task then gets its next occurrence just as when completed directly.
+ */
+export const updateChecklistItem = async (
+  req: AuthenticatedRequest,
+  res: Response<ChecklistItemResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const itemId = Number(req.params.itemId);
+    const { title, done } = (req.body ?? {}) as ChecklistItemUpdateDto;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(itemId)) {
+      return res.status(400).json({ message: 'Invalid checklist item id' } as never);
+    }
+
+    if (title !== undefined) {
+      const titleError = validateTitle(title);
+      if (titleError) {
+        return res.status(400).json({ message: titleError } as never);
+      }
+    }
+
+    if (done !== undefined && typeof done !== 'boolean') {
+      return res.status(400).json({ message: 'Done, if provided, must be a boolean' } as never);
+    }
+
+    const loaded = await loadTask(userId, req.params.id);
+    if ('status' in loaded) {
+      return res.status(loaded.status).json({ message: loaded.message } as never);
+    }
+    const { task } = loaded;
+
+    const existing: ChecklistItemRecord | null = await prisma.checklistItem.findFirst({
+      where: { id: itemId, taskId: task.id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Checklist item not found' } as never);
+    }
+
+    const item: ChecklistItemRecord = await prisma.checklistItem.update({
+      where: { id: itemId },
+      data: {
+        title: title !== undefined ? title.trim() : existing.title,
+        done: done ?? existing.done,
+      },
+    });
+
+    if (item.title !== existing.title) {
+      await logChecklistChange(userId, task, `Renamed "${existing.title}" to "${item.title}"`);
+    }
+    if (item.done !== existing.done) {
+      await logChecklistChange(userId, task, `${item.done ? 'Checked' : 'Unchecked'} "${item.title}"`);
+    }
+
+    if (item.done && !existing.done && task.completeWithChecklist && !task.completed) {
+      const openCount: number = await prisma.checklistItem.count({ where: { taskId: task.id, done: false } });
+      if (openCount === 0) {
+        const completedTask: CompletedTask & TaskSnapshot = await prisma.task.update({
+          where: { id: task.id },
+          data: { completed: true },
+          include: { tags: { select: { id: true } } },
+        });
+        await prisma.activityLog.create({
+          data: {
+            userId,
+            action: 'completed',
+            taskId: completedTask.id,
+            taskTitle: completedTask.title,
+            taskDescription: completedTask.description,
+            taskDueDate: completedTask.dueDate,
+            taskDueAllDay: completedTask.dueAllDay,
+            taskCompleted: completedTask.completed,
+            detail: 'All checklist items done',
+          },
+        });
+        await spawnNextOccurrence(userId, completedTask);
+      }
+    }
+
+    return res.json(toDto(item));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * PUT /tasks/:id/checklist/order - Reorder a task's checklist.
+ * The body must list every item id of the task exactly once.
+ */
+export const reorderChecklist = async (
+  req: AuthenticatedRequest,
+  res: Response<ChecklistItemResponseDto[]>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const { itemIds } = (req.body ?? {}) as ChecklistReorderDto;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (!Array.isArray(itemIds) || !itemIds.every((id) => Number.isInteger(id))) {
+      return res.status(400).json({ message: 'itemIds must be an array of checklist item ids' } as never);
+    }
+
+    const loaded = await loadTask(userId, req.params.id);
+    if ('status' in loaded) {
+      return res.status(loaded.status).json({ message: loaded.message } as never);
+    }
+    const { task } = loaded;
+
+    const existing: { id: number }[] = await prisma.checklistItem.findMany({
+      where: { taskId: task.id },
+      select: { id: true },
+    });
+    const existingIds = new Set(existing.map((item) => item.id));
+
+    const isPermutation =
+      new Set(itemIds).size === itemIds.length &&
+      itemIds.length === existingIds.size &&
+      itemIds.every((id) => existingIds.has(id));
+    if (!isPermutation) {
+      return res.status(400).json({ message: 'itemIds must list every checklist item of the task once' } as never);
+    }
+
+    const items: ChecklistItemRecord[] = await prisma.$transaction(
+      itemIds.map((id, index) =>
+        prisma.checklistItem.update({ where: { id }, data: { position: index } }),
+      ),
+    );
+
+    await logChecklistChange(userId, task, 'Reordered checklist');
+
+    return res.json(items.map(toDto));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /tasks/:id/checklist/:itemId - Remove an item from a task's checklist.
+ */
+export const deleteChecklistItem = async (
+  req: AuthenticatedRequest,
+  res: Response<void>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const itemId = Number(req.params.itemId);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(itemId)) {
+      return res.status(400).json({ message: 'Invalid checklist item id' } as never);
+    }
+
+    const loaded = await loadTask(userId, req.params.id);
+    if ('status' in loaded) {
+      return res.status(loaded.status).json({ message: loaded.message } as never);
+    }
+    const { task } = loaded;
+
+    const existing: ChecklistItemRecord | null = await prisma.checklistItem.findFirst({
+      where: { id: itemId, taskId: task.id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Checklist item not found' } as never);
+    }
+
+    await prisma.checklistItem.delete({ where: { id: itemId } });
+
+    await logChecklistChange(userId, task, `Removed "${existing.title}"`);
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+};
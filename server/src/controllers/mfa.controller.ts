@@ -0,0 +1,284 @@
+import type { Request, Response } from 'express';
+import bcrypt from 'bcrypt';
+import QRCode from 'qrcode';
+import prisma from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type { MfaSetupResponseDto, MfaStatusResponseDto, RecoveryCodesResponseDto } from '../types/auth';
+import { encryptSecret } from '../utils/encryption';
+import {
+  MFA_ISSUER,
+  isChallengeExhausted,
+  recordChallengeFailure,
+  replaceRecoveryCodes,
+  verifyMfaChallenge,
+  verifyMfaCode,
+} from '../utils/mfa';
+import { accountTarget, clearFailures, ipTarget, refundAttempt, rejectThrottled, takeAttempt } from '../throttle';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { completeLogin } from '../utils/sessions';
+import { cancelScheduledDeletion } from '../utils/accountDeletion';
+import { generateTotpSecret, totpUri } from '../utils/totp';
+
+const EXPIRED_CHALLENGE_MESSAGE = 'Your sign-in attempt expired. Please sign in again.';
+
+interface MfaUserRecord {
+  id: number;
+  email: string;
+  username: string;
+  emailVerified: boolean;
+  password: string;
+  mfaEnabled: boolean;
+  mfaSecret: string | null;
+  mfaLastUsedStep: number | null;
+  deletionScheduledAt: Date | null;
+}
+
+/**
+ * GET /api/auth/mfa - Whether two-factor auth is on and how many recovery codes are left.
+ */
+export const getMfaStatus = async (req: AuthenticatedRequest, res: Response<MfaStatusResponseDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const user: { mfaEnabled: boolean } | null = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { mfaEnabled: true },
+  });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' } as never);
+  }
+
+  const recoveryCodesRemaining: number = user.mfaEnabled
+    ? await prisma.mfaRecoveryCode.count({ where: { userId, usedAt: null } })
+    : 0;
+
+  return res.json({ enabled: user.mfaEnabled, recoveryCodesRemaining });
+};
+
+/**
+ * POST /api/auth/mfa/setup - Start enrollment: generate a secret and return it
+ * with its otpauth URI and a QR code. Nothing changes for login until the first
+ * code is confirmed with POST /mfa/enable.
+ */
+export const setupMfa = async (req: AuthenticatedRequest, res: Response<MfaSetupResponseDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const user: { email: string; mfaEnabled: boolean } | null = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, mfaEnabled: true },
+  });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' } as never);
+  }
+  if (user.mfaEnabled) {
+    return res.status(409).json({ message: 'Two-factor authentication is already enabled' } as never);
+  }
+
+  const secret = generateTotpSecret();
+  const otpauthUri = totpUri(secret, user.email, MFA_ISSUER);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { mfaSecret: encryptSecret(secret), mfaLastUsedStep: null },
+  });
+
+  return res.json({
+    secret,
+    otpauthUri,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUri, { margin: 1, width: 200 }),
+  });
+};
+
+/**
+ * POST /api/auth/mfa/enable - Finish enrollment with a code from the authenticator
+ * app. Returns the recovery codes, which are shown only this once.
+ */
+export const enableMfa = async (req: AuthenticatedRequest, res: Response<RecoveryCodesResponseDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const { code } = (req.body ?? {}) as { code?: string };
+  if (typeof code !== 'string' || !/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+    return res.status(400).json({ message: 'Enter the 6-digit code from your authenticator app' } as never);
+  }
+
+  const user: MfaUserRecord | null = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' } as never);
+  }
+  if (user.mfaEnabled) {
+    return res.status(409).json({ message: 'Two-factor authentication is already enabled' } as never);
+  }
+  if (!user.mfaSecret) {
+    return res.status(400).json({ message: 'Start two-factor setup first' } as never);
+  }
+
+  if (!(await verifyMfaCode(user, code))) {
+    return res.status(400).json({ message: 'Invalid authentication code' } as never);
+  }
+
+  await prisma.user.update({ where: { id: userId }, data: { mfaEnabled: true } });
+  const recoveryCodes = await replaceRecoveryCodes(userId);
+  await recordSecurityEvent(req, { type: 'mfa_enabled', outcome: 'success', userId });
+
+  return res.json({ recoveryCodes });
+};
+
+/**
+ * Checks the password and current code that guard changes to an enabled second
+ * factor. Wrong credentials are a 400, not a 401, so the client stays signed in.
+ */
+async function confirmMfaChange(
+  userId: number,
+  body: unknown,
+  requireCode: boolean,
+): Promise<{ user: MfaUserRecord } | { status: number; message: string }> {
+  const { password, code } = (body ?? {}) as { password?: string; code?: string };
+  if (typeof password !== 'string' || !password) {
+    return { status: 400, message: 'Password is required' };
+  }
+  if (requireCode && (typeof code !== 'string' || !code.trim())) {
+    return { status: 400, message: 'An authentication or recovery code is required' };
+  }
+
+  const user: MfaUserRecord | null = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    return { status: 404, message: 'User not found' };
+  }
+  if (!user.mfaEnabled) {
+    return { status: 400, message: 'Two-factor authentication is not enabled' };
+  }
+  if (!(await bcrypt.compare(password, user.password))) {
+    return { status: 400, message: 'Password is incorrect' };
+  }
+  if (requireCode && !(await verifyMfaCode(user, code as string))) {
+    return { status: 400, message: 'Invalid authentication code' };
+  }
+  return { user };
+}
+
+/**
+ * POST /api/auth/mfa/disable - Turn two-factor auth off. Needs the password and
+ * a current or recovery code.
+ */
+export const disableMfa = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const confirmed = await confirmMfaChange(userId, req.body, true);
+  if ('status' in confirmed) {
+    if (confirmed.status === 400) {
+      await recordSecurityEvent(req, { type: 'mfa_disabled', outcome: 'failure', userId, detail: confirmed.message });
+    }
+    return res.status(confirmed.status).json({ message: confirmed.message });
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: false, mfaSecret: null, mfaLastUsedStep: null },
+    }),
+    prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+  await recordSecurityEvent(req, { type: 'mfa_disabled', outcome: 'success', userId });
+
+  return res.json({ message: 'Two-factor authentication disabled' });
+};
+
+/**
+ * POST /api/auth/mfa/recovery-codes - Replace all recovery codes with a new set.
+ * Needs the password; returns the new codes once.
+ */
+export const regenerateRecoveryCodes = async (
+  req: AuthenticatedRequest,
+  res: Response<RecoveryCodesResponseDto>,
+) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const confirmed = await confirmMfaChange(userId, req.body, false);
+  if ('status' in confirmed) {
+    if (confirmed.status === 400) {
+      await recordSecurityEvent(req, {
+        type: 'recovery_codes_regenerated',
+        outcome: 'failure',
+        userId,
+        detail: confirmed.message,
+      });
+    }
+    return res.status(confirmed.status).json({ message: confirmed.message } as never);
+  }
+
+  const recoveryCodes = await replaceRecoveryCodes(userId);
+  await recordSecurityEvent(req, { type: 'recovery_codes_regenerated', outcome: 'success', userId });
+
+  return res.json({ recoveryCodes });
+};
+
+/**
+ * POST /api/auth/mfa/verify - Second login step: exchange the challenge from
+ * `login` plus a TOTP or recovery code for a session. Each challenge allows five
+ * wrong codes, and wrong codes count towards the account's sign-in throttle.
+ */
+export const verifyMfaLogin = async (req: Request, res: Response) => {
+  const { mfaToken, code } = (req.body ?? {}) as { mfaToken?: string; code?: string };
+
+  if (typeof mfaToken !== 'string' || !mfaToken || typeof code !== 'string' || !code.trim()) {
+    return res.status(400).json({ message: 'Challenge token and code are required' });
+  }
+
+  const challenge = verifyMfaChallenge(mfaToken);
+  if (!challenge || isChallengeExhausted(challenge.challengeId)) {
+    return res.status(401).json({ message: EXPIRED_CHALLENGE_MESSAGE, code: 'MFA_CHALLENGE_EXPIRED' });
+  }
+
+  const user: MfaUserRecord | null = await prisma.user.findUnique({ where: { id: challenge.userId } });
+  if (!user || !user.mfaEnabled) {
+    return res.status(401).json({ message: EXPIRED_CHALLENGE_MESSAGE, code: 'MFA_CHALLENGE_EXPIRED' });
+  }
+
+  // Counted as a failure until the code turns out to be right.
+  const throttle = [accountTarget(user.email), ipTarget(req)];
+  const retryAfter = await takeAttempt(throttle);
+  if (retryAfter !== null) {
+    await recordSecurityEvent(req, {
+      type: 'mfa_challenge',
+      outcome: 'blocked',
+      userId: user.id,
+      detail: 'Too many failed attempts',
+    });
+    return rejectThrottled(res, retryAfter);
+  }
+
+  const method = await verifyMfaCode(user, code);
+  if (!method) {
+    await recordSecurityEvent(req, { type: 'mfa_challenge', outcome: 'failure', userId: user.id, detail: 'Wrong code' });
+    const exhausted = recordChallengeFailure(challenge.challengeId);
+    return res.status(400).json(
+      exhausted
+        ? { message: 'Too many wrong codes. Please sign in again.', code: 'MFA_CHALLENGE_EXPIRED' }
+        : { message: 'Invalid authentication code' },
+    );
+  }
+
+  await clearFailures([accountTarget(user.email)]);
+  await refundAttempt([ipTarget(req)]);
+  await recordSecurityEvent(req, {
+    type: 'login',
+    outcome: 'success',
+    userId: user.id,
+    detail: method === 'totp' ? 'Authenticator code' : 'Recovery code',
+  });
+  const accountRestored = await cancelScheduledDeletion(user, req);
+  return res.json({ ...(await completeLogin(user, req)), accountRestored });
+};
@@ -0,0 +1,250 @@
+import type { NextFunction, Response } from 'express';
+import prisma from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type {
+  NotificationKind,
+  NotificationListResponseDto,
+  NotificationResponseDto,
+  UnreadCountDto,
+} from '../types/notification';
+import { queryString, parseLimit, encodeCursor, decodeCursor } from '../utils/pagination';
+
+interface NotificationRecord {
+  id: number;
+  kind: string;
+  title: string;
+  body: string | null;
+  taskId: number | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+interface NotificationCursor {
+  id: number;
+}
+
+function toDto(notification: NotificationRecord): NotificationResponseDto {
+  return {
+    id: notification.id,
+    kind: notification.kind as NotificationKind,
+    title: notification.title,
+    body: notification.body,
+    taskId: notification.taskId,
+    readAt: notification.readAt ? notification.readAt.toISOString() : null,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+/** Notifications still in the user's inbox. */
+function inboxWhere(userId: number) {
+  return { userId, dismissedAt: null };
+}
+
+async function countUnread(userId: number): Promise<number> {
+  return prisma.notification.count({ where: { ...inboxWhere(userId), readAt: null } });
+}
+
+/**
+ * GET /notifications - The inbox, newest first, with the unread count.
+ * Query parameters: unread (`true` for unread only), limit, cursor.
+ */
+export const getNotifications = async (
+  req: AuthenticatedRequest,
+  res: Response<NotificationListResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const unread = queryString(req.query.unread);
+    if (unread !== undefined && unread !== 'true' && unread !== 'false') {
+      return res.status(400).json({ message: 'unread must be true or false' } as never);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    if (limit === null) {
+      return res.status(400).json({ message: 'Limit must be a positive integer' } as never);
+    }
+
+    const cursorRaw = queryString(req.query.cursor);
+    const cursor = cursorRaw !== undefined ? decodeCursor<NotificationCursor>(cursorRaw) : null;
+    if (cursorRaw !== undefined && (!cursor || typeof cursor.id !== 'number')) {
+      return res.status(400).json({ message: 'Invalid cursor' } as never);
+    }
+
+    const [notifications, unreadCount]: [NotificationRecord[], number] = await Promise.all([
+      prisma.notification.findMany({
+        where: { ...inboxWhere(userId), ...(unread === 'true' ? { readAt: null } : {}) },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor.id }, skip: 1 } : {}),
+      }),
+      countUnread(userId),
+    ]);
+
+    const items = notifications.slice(0, limit).map(toDto);
+    const last = items[items.length - 1];
+    const nextCursor = notifications.length > limit && last ? encodeCursor({ id: last.id }) : null;
+
+    return res.json({ items, nextCursor, unreadCount });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * GET /notifications/unread-count - Just the badge number, for polling.
+ */
+export const getUnreadCount = async (
+  req: AuthenticatedRequest,
+  res: Response<UnreadCountDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    return res.json({ unreadCount: await countUnread(userId) });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /notifications/:id/read - Mark one notification as read.
+ */
+export const markNotificationRead = async (
+  req: AuthenticatedRequest,
+  res: Response<NotificationResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const notificationId = Number(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(notificationId)) {
+      return res.status(400).json({ message: 'Invalid notification id' } as never);
+    }
+
+    const notification: NotificationRecord | null = await prisma.notification.findFirst({
+      where: { id: notificationId, ...inboxWhere(userId) },
+    });
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' } as never);
+    }
+
+    if (notification.readAt) {
+      return res.json(toDto(notification));
+    }
+    const updated: NotificationRecord = await prisma.notification.update({
+      where: { id: notification.id },
+      data: { readAt: new Date() },
+    });
+    return res.json(toDto(updated));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /notifications/read-all - Mark every notification in the inbox as read.
+ */
+export const markAllNotificationsRead = async (
+  req: AuthenticatedRequest,
+  res: Response<UnreadCountDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    await prisma.notification.updateMany({
+      where: { ...inboxWhere(userId), readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return res.json({ unreadCount: 0 });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /notifications/:id - Dismiss a notification: it leaves the inbox for good.
+ */
+export const dismissNotification = async (
+  req: AuthenticatedRequest,
+  res: Response<void>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const notificationId = Number(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(notificationId)) {
+      return res.status(400).json({ message: 'Invalid notification id' } as never);
+    }
+
+    const notification: NotificationRecord | null = await prisma.notification.findFirst({
+      where: { id: notificationId, ...inboxWhere(userId) },
+    });
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' } as never);
+    }
+
+    const now = new Date();
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: { dismissedAt: now, readAt: notification.readAt ?? now },
+    });
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /notifications - Dismiss every notification in the inbox ("Clear").
+ */
+export const dismissAllNotifications = async (
+  req: AuthenticatedRequest,
+  res: Response<void>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const now = new Date();
+    await prisma.$transaction([
+      prisma.notification.updateMany({ where: { ...inboxWhere(userId), readAt: null }, data: { readAt: now } }),
+      prisma.notification.updateMany({ where: inboxWhere(userId), data: { dismissedAt: now } }),
+    ]);
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+};
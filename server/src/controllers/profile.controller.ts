@@ -0,0 +1,519 @@
+import type { Request, Response } from 'express';
+import bcrypt from 'bcrypt';
+import prisma from '../prisma';
+import { env } from '../config/env';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type {
+  DeleteAccountRequestDto,
+  EmailChangeRequestDto,
+  ProfileResponseDto,
+  UpdateProfileRequestDto,
+  UserPreferencesDto,
+} from '../types/auth';
+import { accountDeletionEmail, emailChangeEmail, emailChangeNoticeEmail, sendMail } from '../mail';
+import { checkWebhookTarget } from '../notifications/webhookTarget';
+import { avatarUrls, deleteAvatar, saveAvatar } from '../utils/avatars';
+import { buildUserExport } from '../utils/dataExport';
+import { getUserPreferences, toPreferencesDto, validatePreferencesUpdate } from '../utils/preferences';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { revokeSessions } from '../utils/sessions';
+import { generateToken, hashToken } from '../utils/tokens';
+import { normalizeEmail, validateUsername } from '../utils/validation';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const EMAIL_CHANGE_COOLDOWN_MS = 60 * 1000;
+
+const INVALID_EMAIL_CHANGE_TOKEN_MESSAGE = 'This confirmation link is invalid or has expired';
+
+interface ProfileRecord {
+  id: number;
+  email: string;
+  username: string;
+  emailVerified: boolean;
+  mfaEnabled: boolean;
+  avatarPath: string | null;
+}
+
+const PROFILE_SELECT = {
+  id: true,
+  email: true,
+  username: true,
+  emailVerified: true,
+  mfaEnabled: true,
+  avatarPath: true,
+};
+
+async function toProfileDto(user: ProfileRecord): Promise<ProfileResponseDto> {
+  const pending: { newEmail: string } | null = await prisma.emailChangeToken.findFirst({
+    where: { userId: user.id, expiresAt: { gt: new Date() } },
+    select: { newEmail: true },
+  });
+
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    emailVerified: user.emailVerified,
+    mfaEnabled: user.mfaEnabled,
+    pendingEmail: pending?.newEmail ?? null,
+    avatarUrls: user.avatarPath ? avatarUrls(user.id, user.avatarPath) : null,
+  };
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return Boolean(err && typeof err === 'object' && 'code' in err && (err as { code: string }).code === 'P2002');
+}
+
+/**
+ * GET /api/auth/me - The current authenticated user's profile.
+ */
+export const getMe = async (req: AuthenticatedRequest, res: Response<ProfileResponseDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const user: ProfileRecord | null = await prisma.user.findUnique({ where: { id: userId }, select: PROFILE_SELECT });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' } as never);
+  }
+
+  return res.json(await toProfileDto(user));
+};
+
+/**
+ * PUT /api/auth/me - Rename the user. Usernames follow the registration rules:
+ * trimmed, at least two characters and unique.
+ */
+export const updateMe = async (req: AuthenticatedRequest, res: Response<ProfileResponseDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const { username } = (req.body ?? {}) as Partial<UpdateProfileRequestDto>;
+  if (typeof username !== 'string') {
+    return res.status(400).json({ message: 'Username is required' } as never);
+  }
+
+  const trimmedUsername = username.trim();
+  const usernameError = validateUsername(trimmedUsername);
+  if (usernameError) {
+    return res.status(400).json({ message: usernameError } as never);
+  }
+
+  const user: ProfileRecord | null = await prisma.user.findUnique({ where: { id: userId }, select: PROFILE_SELECT });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' } as never);
+  }
+  if (user.username === trimmedUsername) {
+    return res.json(await toProfileDto(user));
+  }
+
+  const existing: { id: number } | null = await prisma.user.findUnique({
+    where: { username: trimmedUsername },
+    select: { id: true },
+  });
+  if (existing) {
+    return res.status(409).json({ message: 'Username already taken' } as never);
+  }
+
+  let updated: ProfileRecord;
+  try {
+    updated = await prisma.user.update({
+      where: { id: userId },
+      data: { username: trimmedUsername },
+      select: PROFILE_SELECT,
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      return res.status(409).json({ message: 'Username already taken' } as never);
+    }
+    throw err;
+  }
+
+  await recordSecurityEvent(req, {
+    type: 'username_changed',
+    outcome: 'success',
+    userId,
+    detail: `${user.username} → ${trimmedUsername}`,
+  });
+
+  return res.json(await toProfileDto(updated));
+};
+
+/**
+ * GET /api/auth/me/preferences - Theme, task list defaults, calendar and
+ * notification settings. Defaults are returned for anything never saved.
+ */
+export const getPreferences = async (req: AuthenticatedRequest, res: Response<UserPreferencesDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  return res.json(await getUserPreferences(userId));
+};
+
+/**
+ * PUT /api/auth/me/preferences - Change some or all preferences; fields left out
+ * keep their value. Responds with the full, updated set. A webhook URL must resolve
+ * to public addresses only; the first one saved also creates the signing secret.
+ */
+export const updatePreferences = async (req: AuthenticatedRequest, res: Response<UserPreferencesDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const validated = validatePreferencesUpdate(req.body ?? {});
+  if ('error' in validated) {
+    return res.status(400).json({ message: validated.error } as never);
+  }
+
+  const { data } = validated;
+  if (data.webhookUrl) {
+    const targetError = await checkWebhookTarget(data.webhookUrl);
+    if (targetError) {
+      return res.status(400).json({ message: targetError } as never);
+    }
+    const current: { webhookSecret: string | null } | null = await prisma.userPreferences.findUnique({
+      where: { userId },
+      select: { webhookSecret: true },
+    });
+    if (!current?.webhookSecret) data.webhookSecret = generateToken();
+  }
+
+  const record = await prisma.userPreferences.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+
+  return res.json(toPreferencesDto(record));
+};
+
+/**
+ * PUT /api/auth/me/avatar - Replace the avatar with an uploaded image (multipart
+ * field `avatar`, checked by `receiveAvatar`). It is stored resized to every
+ * avatar size; the previous picture is deleted.
+ */
+export const uploadAvatar = async (req: AuthenticatedRequest, res: Response<ProfileResponseDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  if (!req.file) {
+    return res.status(400).json({ message: 'Upload a JPEG, PNG, WebP or GIF image as "avatar"' } as never);
+  }
+
+  const user: ProfileRecord | null = await prisma.user.findUnique({ where: { id: userId }, select: PROFILE_SELECT });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' } as never);
+  }
+
+  const avatarPath = await saveAvatar(userId, req.file.buffer);
+  if (!avatarPath) {
+    return res.status(400).json({ message: 'The file is not a JPEG, PNG, WebP or GIF image' } as never);
+  }
+
+  const updated: ProfileRecord = await prisma.user.update({
+    where: { id: userId },
+    data: { avatarPath },
+    select: PROFILE_SELECT,
+  });
+  if (user.avatarPath) {
+    await deleteAvatar(user.avatarPath);
+  }
+
+  return res.json(await toProfileDto(updated));
+};
+
+/**
+ * DELETE /api/auth/me/avatar - Remove the avatar; initials are shown instead.
+ */
+export const removeAvatar = async (req: AuthenticatedRequest, res: Response<ProfileResponseDto>) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const user: ProfileRecord | null = await prisma.user.findUnique({ where: { id: userId }, select: PROFILE_SELECT });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' } as never);
+  }
+  if (!user.avatarPath) {
+    return res.json(await toProfileDto(user));
+  }
+
+  const updated: ProfileRecord = await prisma.user.update({
+    where: { id: userId },
+    data: { avatarPath: null },
+    select: PROFILE_SELECT,
+  });
+  await deleteAvatar(user.avatarPath);
+
+  return res.json(await toProfileDto(updated));
+};
+
+/**
+ * POST /api/auth/me/email - Start changing the email address. Needs the current
+ * password; the address changes only once the link mailed to it is used. The old
+ * address gets a notice. Asking again replaces the pending change.
+ */
+export const requestEmailChange = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const { newEmail, password } = (req.body ?? {}) as Partial<EmailChangeRequestDto>;
+  if (typeof password !== 'string' || !password) {
+    return res.status(400).json({ message: 'Current password is required' });
+  }
+
+  const normalizedEmail = normalizeEmail(newEmail);
+  if (!normalizedEmail) {
+    return res.status(400).json({ message: 'A valid email is required' });
+  }
+
+  const user: { id: number; email: string; username: string; password: string } | null =
+    await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, username: true, password: true },
+    });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' });
+  }
+
+  // 400 rather than 401: the session is fine, and 401 would sign the client out.
+  if (!(await bcrypt.compare(password, user.password))) {
+    await recordSecurityEvent(req, {
+      type: 'email_change_requested',
+      outcome: 'failure',
+      userId,
+      detail: 'Wrong current password',
+    });
+    return res.status(400).json({ message: 'Current password is incorrect' });
+  }
+
+  if (normalizedEmail === user.email) {
+    return res.status(400).json({ message: 'That is already your email address' });
+  }
+
+  const existing: { id: number } | null = await prisma.user.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true },
+  });
+  if (existing) {
+    return res.status(409).json({ message: 'Email already registered' });
+  }
+
+  const previous: { createdAt: Date } | null = await prisma.emailChangeToken.findFirst({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+  const wait = previous ? previous.createdAt.getTime() + EMAIL_CHANGE_COOLDOWN_MS - Date.now() : 0;
+  if (wait > 0) {
+    const retryAfter = Math.ceil(wait / 1000);
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({
+      message: `Please wait ${retryAfter} seconds before requesting another email`,
+      retryAfter,
+    });
+  }
+
+  const token = generateToken();
+  await prisma.emailChangeToken.deleteMany({ where: { userId } });
+  await prisma.emailChangeToken.create({
+    data: {
+      userId,
+      newEmail: normalizedEmail,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + env.emailVerificationTtlHours * HOUR_MS),
+    },
+  });
+  await recordSecurityEvent(req, {
+    type: 'email_change_requested',
+    outcome: 'success',
+    userId,
+    detail: normalizedEmail,
+  });
+
+  Promise.all([
+    sendMail(emailChangeEmail(user, normalizedEmail, token)),
+    sendMail(emailChangeNoticeEmail(user, normalizedEmail)),
+  ]).catch((err: unknown) => {
+    // eslint-disable-next-line no-console
+    console.error('Email change mail failed:', err);
+  });
+
+  return res.status(202).json({
+    message: `Check ${normalizedEmail} for a link to confirm the change`,
+    pendingEmail: normalizedEmail,
+  });
+};
+
+/**
+ * DELETE /api/auth/me/email - Drop a pending email change; its link stops working.
+ */
+export const cancelEmailChange = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  await prisma.emailChangeToken.deleteMany({ where: { userId } });
+  return res.status(204).send();
+};
+
+/**
+ * POST /api/auth/confirm-email-change - Switch to the new address using the
+ * link token. Public, so the link works in a browser that isn't signed in.
+ * The new address counts as verified since the link reached it.
+ */
+export const confirmEmailChange = async (req: Request, res: Response) => {
+  const { token } = (req.body ?? {}) as { token?: string };
+
+  if (typeof token !== 'string' || !token) {
+    return res.status(400).json({ message: 'Token is required' });
+  }
+
+  const record: { userId: number; newEmail: string; expiresAt: Date } | null =
+    await prisma.emailChangeToken.findUnique({ where: { tokenHash: hashToken(token) } });
+
+  if (!record || record.expiresAt <= new Date()) {
+    return res.status(400).json({ message: INVALID_EMAIL_CHANGE_TOKEN_MESSAGE });
+  }
+
+  const user: { email: string } | null = await prisma.user.findUnique({
+    where: { id: record.userId },
+    select: { email: true },
+  });
+  if (!user) {
+    return res.status(400).json({ message: INVALID_EMAIL_CHANGE_TOKEN_MESSAGE });
+  }
+
+  // Someone may have registered the address since the change was requested.
+  const taken: { id: number } | null = await prisma.user.findUnique({
+    where: { email: record.newEmail },
+    select: { id: true },
+  });
+  if (taken && taken.id !== record.userId) {
+    await prisma.emailChangeToken.deleteMany({ where: { userId: record.userId } });
+    return res.status(409).json({ message: 'Email already registered' });
+  }
+
+  try {
+    await prisma.user.update({
+      where: { id: record.userId },
+      data: { email: record.newEmail, emailVerified: true },
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      return res.status(409).json({ message: 'Email already registered' });
+    }
+    throw err;
+  }
+
+  await prisma.emailChangeToken.deleteMany({ where: { userId: record.userId } });
+  await prisma.emailVerificationToken.deleteMany({ where: { userId: record.userId } });
+  await recordSecurityEvent(req, {
+    type: 'email_changed',
+    outcome: 'success',
+    userId: record.userId,
+    detail: `${user.email} → ${record.newEmail}`,
+  });
+
+  return res.json({ message: 'Email address updated', email: record.newEmail });
+};
+
+/**
+ * GET /api/auth/me/export - Download everything stored about the user as one
+ * JSON file: profile, preferences, projects, tags, tasks, the full activity
+ * log, sessions, access tokens and security events.
+ */
+export const exportMyData = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const data = await buildUserExport(userId);
+  if (!data.profile) {
+    return res.status(404).json({ message: 'User not found' });
+  }
+
+  await recordSecurityEvent(req, { type: 'data_exported', outcome: 'success', userId });
+
+  const fileName = `vitasoft-export-${data.exportedAt.slice(0, 10)}.json`;
+  res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.set('Cache-Control', 'no-store');
+  return res.json(data);
+};
+
+/**
+ * DELETE /api/auth/me - Delete the account after confirming the password. The
+ * account is erased once ACCOUNT_DELETION_GRACE_DAYS have passed (see
+ * jobs/accountDeletion.ts); until then signing in again cancels the deletion.
+ * Every session and access token is revoked right away.
+ */
+export const deleteMe = async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+
+  const { password } = (req.body ?? {}) as Partial<DeleteAccountRequestDto>;
+  if (typeof password !== 'string' || !password) {
+    return res.status(400).json({ message: 'Password is required' });
+  }
+
+  const user: { id: number; email: string; username: string; password: string } | null =
+    await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, username: true, password: true },
+    });
+  if (!user) {
+    return res.status(404).json({ message: 'User not found' });
+  }
+
+  // 400 rather than 401: the session is fine, and 401 would sign the client out.
+  if (!(await bcrypt.compare(password, user.password))) {
+    await recordSecurityEvent(req, {
+      type: 'account_deletion_scheduled',
+      outcome: 'failure',
+      userId,
+      detail: 'Wrong password',
+    });
+    return res.status(400).json({ message: 'Password is incorrect' });
+  }
+
+  const deleteAt = new Date(Date.now() + env.accountDeletionGraceDays * DAY_MS);
+  await prisma.user.update({ where: { id: userId }, data: { deletionScheduledAt: deleteAt } });
+  await prisma.emailChangeToken.deleteMany({ where: { userId } });
+  await prisma.personalAccessToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await revokeSessions(userId);
+  await recordSecurityEvent(req, {
+    type: 'account_deletion_scheduled',
+    outcome: 'success',
+    userId,
+    detail: `Erased after ${deleteAt.toISOString()}`,
+  });
+
+  sendMail(accountDeletionEmail(user, deleteAt)).catch((err: unknown) => {
+    // eslint-disable-next-line no-console
+    console.error('Account deletion email failed:', err);
+  });
+
+  return res.status(202).json({
+    message: `Your account will be deleted on ${deleteAt.toUTCString()}. Sign in before then to keep it.`,
+    deletionScheduledAt: deleteAt.toISOString(),
+  });
+};
@@ -0,0 +1,271 @@
+import type { NextFunction, Response } from 'express';
+import prisma from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type { ProjectCreateDto, ProjectUpdateDto, ProjectResponseDto } from '../types/project';
+import { isHexColor, paletteColor } from '../utils/colors';
+import { queryString } from '../utils/pagination';
+
+const PROJECT_NAME_MAX_LENGTH = 60;
+
+interface ProjectRecord {
+  id: number;
+  name: string;
+  color: string;
+  description: string | null;
+  archived: boolean;
+  createdAt: Date;
+}
+
+interface ProjectProgress {
+  taskCount: number;
+  completedCount: number;
+}
+
+function toDto(project: ProjectRecord, progress: ProjectProgress | undefined): ProjectResponseDto {
+  const taskCount = progress?.taskCount ?? 0;
+  const completedCount = progress?.completedCount ?? 0;
+  return {
+    id: project.id,
+    name: project.name,
+    color: project.color,
+    description: project.description,
+    archived: project.archived,
+    taskCount,
+    completedCount,
+    completionPercent: taskCount === 0 ? 0 : Math.round((completedCount / taskCount) * 100),
+    createdAt: project.createdAt.toISOString(),
+  };
+}
+
+function validateName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0) return 'Project name is required';
+  if (name.trim().length > PROJECT_NAME_MAX_LENGTH) {
+    return `Project name must be at most ${PROJECT_NAME_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Counts total and completed tasks for each of the given projects in one query.
+ */
+async function loadProgress(userId: number, projectIds: number[]): Promise<Map<number, ProjectProgress>> {
+  const progress = new Map<number, ProjectProgress>();
+  if (projectIds.length === 0) return progress;
+
+  const groups: { projectId: number; completed: boolean; _count: { _all: number } }[] =
+    await prisma.task.groupBy({
+      by: ['projectId', 'completed'],
+      where: { userId, projectId: { in: projectIds }, deletedAt: null },
+      _count: { _all: true },
+    });
+
+  for (const group of groups) {
+    const entry = progress.get(group.projectId) ?? { taskCount: 0, completedCount: 0 };
+    entry.taskCount += group._count._all;
+    if (group.completed) entry.completedCount += group._count._all;
+    progress.set(group.projectId, entry);
+  }
+
+  return progress;
+}
+
+/**
+ * GET /projects - List projects with their completion progress.
+ * `?archived=true` lists archived projects only, `?archived=all` lists everything.
+ */
+export const getProjects = async (
+  req: AuthenticatedRequest,
+  res: Response<ProjectResponseDto[]>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const archivedParam = queryString(req.query.archived) ?? 'false';
+    if (!['true', 'false', 'all'].includes(archivedParam)) {
+      return res.status(400).json({ message: 'Archived must be true, false, or all' } as never);
+    }
+
+    const projects: ProjectRecord[] = await prisma.project.findMany({
+      where: {
+        userId,
+        ...(archivedParam === 'all' ? {} : { archived: archivedParam === 'true' }),
+      },
+      orderBy: [{ archived: 'asc' }, { name: 'asc' }],
+    });
+
+    const progress = await loadProgress(userId, projects.map((p) => p.id));
+
+    return res.json(projects.map((project) => toDto(project, progress.get(project.id))));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+export const getProjectById = async (
+  req: AuthenticatedRequest,
+  res: Response<ProjectResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const projectId = Number(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(projectId)) {
+      return res.status(400).json({ message: 'Invalid project id' } as never);
+    }
+
+    const project = await prisma.project.findFirst({ where: { id: projectId, userId } });
+
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' } as never);
+    }
+
+    const progress = await loadProgress(userId, [project.id]);
+
+    return res.json(toDto(project, progress.get(project.id)));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+export const createProject = async (
+  req: AuthenticatedRequest,
+  res: Response<ProjectResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const { name, color, description } = (req.body ?? {}) as ProjectCreateDto;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const nameError = validateName(name);
+    if (nameError) {
+      return res.status(400).json({ message: nameError } as never);
+    }
+
+    if (color !== undefined && !isHexColor(color)) {
+      return res.status(400).json({ message: 'Color must be a hex value like #0ea5e9' } as never);
+    }
+
+    const existingCount: number = await prisma.project.count({ where: { userId } });
+
+    const project = await prisma.project.create({
+      data: {
+        name: name.trim(),
+        color: color ?? paletteColor(existingCount),
+        description: description?.trim() || null,
+        userId,
+      },
+    });
+
+    return res.status(201).json(toDto(project, undefined));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * PUT/PATCH /projects/:id - Update a project, including archiving and unarchiving it.
+ */
+export const updateProject = async (
+  req: AuthenticatedRequest,
+  res: Response<ProjectResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const projectId = Number(req.params.id);
+    const { name, color, description, archived } = (req.body ?? {}) as ProjectUpdateDto;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(projectId)) {
+      return res.status(400).json({ message: 'Invalid project id' } as never);
+    }
+
+    if (name !== undefined) {
+      const nameError = validateName(name);
+      if (nameError) {
+        return res.status(400).json({ message: nameError } as never);
+      }
+    }
+
+    if (color !== undefined && !isHexColor(color)) {
+      return res.status(400).json({ message: 'Color must be a hex value like #0ea5e9' } as never);
+    }
+
+    if (archived !== undefined && typeof archived !== 'boolean') {
+      return res.status(400).json({ message: 'Archived, if provided, must be a boolean' } as never);
+    }
+
+    const existing = await prisma.project.findFirst({ where: { id: projectId, userId } });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Project not found' } as never);
+    }
+
+    const project = await prisma.project.update({
+      where: { id: projectId },
+      data: {
+        name: name !== undefined ? name.trim() : existing.name,
+        color: color ?? existing.color,
+        description: description !== undefined ? (description?.trim() || null) : existing.description,
+        archived: archived ?? existing.archived,
+      },
+    });
+
+    const progress = await loadProgress(userId, [project.id]);
+
+    return res.json(toDto(project, progress.get(project.id)));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /projects/:id - Delete a project. Its tasks are kept and move back to the inbox.
+ */
+export const deleteProject = async (
+  req: AuthenticatedRequest,
+  res: Response<void>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const projectId = Number(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(projectId)) {
+      return res.status(400).json({ message: 'Invalid project id' } as never);
+    }
+
+    const existing = await prisma.project.findFirst({ where: { id: projectId, userId } });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Project not found' } as never);
+    }
+
+    await prisma.project.delete({ where: { id: projectId } });
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+};
@@ -0,0 +1,204 @@
+import type { NextFunction, Response } from 'express';
+import prisma from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type { ReminderCreateDto, ReminderResponseDto } from '../types/reminder';
+import { parseDueDate, userTimeZone } from '../utils/dueDates';
+import { computeFireAt, MAX_REMINDER_OFFSET_MINUTES, MAX_REMINDERS_PER_TASK } from '../utils/reminders';
+
+interface ReminderRecord {
+  id: number;
+  offsetMinutes: number | null;
+  remindAt: Date | null;
+  fireAt: Date | null;
+  firedAt: Date | null;
+  createdAt: Date;
+}
+
+interface TaskSnapshot {
+  id: number;
+  userId: number;
+  dueDate: Date | null;
+  dueAllDay: boolean;
+}
+
+function toDto(reminder: ReminderRecord): ReminderResponseDto {
+  return {
+    id: reminder.id,
+    offsetMinutes: reminder.offsetMinutes,
+    remindAt: reminder.remindAt ? reminder.remindAt.toISOString() : null,
+    fireAt: reminder.fireAt ? reminder.fireAt.toISOString() : null,
+    firedAt: reminder.firedAt ? reminder.firedAt.toISOString() : null,
+    createdAt: reminder.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Parses the task id from the route and loads the task if the user owns it.
+ */
+async function loadTask(
+  userId: number,
+  taskIdParam: unknown,
+): Promise<{ task: TaskSnapshot } | { status: number; message: string }> {
+  const taskId = Number(taskIdParam);
+  if (Number.isNaN(taskId)) {
+    return { status: 400, message: 'Invalid task id' };
+  }
+  const task: TaskSnapshot | null = await prisma.task.findFirst({ where: { id: taskId, userId, deletedAt: null } });
+  if (!task) {
+    return { status: 404, message: 'Task not found' };
+  }
+  return { task };
+}
+
+/**
+ * GET /tasks/:id/reminders - List a task's reminders, soonest first.
+ */
+export const getReminders = async (
+  req: AuthenticatedRequest,
+  res: Response<ReminderResponseDto[]>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const loaded = await loadTask(userId, req.params.id);
+    if ('status' in loaded) {
+      return res.status(loaded.status).json({ message: loaded.message } as never);
+    }
+
+    const reminders: ReminderRecord[] = await prisma.reminder.findMany({
+      where: { taskId: loaded.task.id },
+      orderBy: [{ fireAt: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+    });
+
+    return res.json(reminders.map(toDto));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /tasks/:id/reminders - Add a reminder, either `offsetMinutes` before the
+ * due date (it follows the due date when that changes) or at an absolute `remindAt`.
+ */
+export const addReminder = async (
+  req: AuthenticatedRequest,
+  res: Response<ReminderResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const { offsetMinutes, remindAt: remindAtRaw } = (req.body ?? {}) as ReminderCreateDto;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if ((offsetMinutes === undefined) === (remindAtRaw === undefined)) {
+      return res.status(400).json({ message: 'Set either offsetMinutes or remindAt' } as never);
+    }
+
+    if (
+      offsetMinutes !== undefined &&
+      !(Number.isInteger(offsetMinutes) && offsetMinutes >= 0 && offsetMinutes <= MAX_REMINDER_OFFSET_MINUTES)
+    ) {
+      return res
+        .status(400)
+        .json({ message: `offsetMinutes must be a whole number between 0 and ${MAX_REMINDER_OFFSET_MINUTES}` } as never);
+    }
+
+    const loaded = await loadTask(userId, req.params.id);
+    if ('status' in loaded) {
+      return res.status(loaded.status).json({ message: loaded.message } as never);
+    }
+    const { task } = loaded;
+    const timeZone = await userTimeZone(userId);
+
+    let remindAt: Date | null = null;
+    if (remindAtRaw !== undefined) {
+      const parsed = parseDueDate(remindAtRaw, timeZone);
+      if (!parsed || parsed.dueAllDay) {
+        return res.status(400).json({ message: 'remindAt must be a date and time' } as never);
+      }
+      if (parsed.dueDate <= new Date()) {
+        return res.status(400).json({ message: 'remindAt must be in the future' } as never);
+      }
+      remindAt = parsed.dueDate;
+    } else if (!task.dueDate) {
+      return res
+        .status(400)
+        .json({ message: 'Give the task a due date before adding a reminder relative to it' } as never);
+    }
+
+    const existing: ReminderRecord[] = await prisma.reminder.findMany({ where: { taskId: task.id } });
+    if (existing.length >= MAX_REMINDERS_PER_TASK) {
+      return res
+        .status(400)
+        .json({ message: `A task can have at most ${MAX_REMINDERS_PER_TASK} reminders` } as never);
+    }
+    const duplicate = existing.some((reminder) =>
+      offsetMinutes !== undefined
+        ? reminder.offsetMinutes === offsetMinutes
+        : reminder.remindAt?.getTime() === remindAt?.getTime(),
+    );
+    if (duplicate) {
+      return res.status(409).json({ message: 'This task already has that reminder' } as never);
+    }
+
+    const timing = { offsetMinutes: offsetMinutes ?? null, remindAt };
+    const reminder: ReminderRecord = await prisma.reminder.create({
+      data: {
+        ...timing,
+        fireAt: computeFireAt(timing, task, timeZone),
+        taskId: task.id,
+        userId,
+      },
+    });
+
+    return res.status(201).json(toDto(reminder));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /tasks/:id/reminders/:reminderId - Remove a reminder.
+ */
+export const deleteReminder = async (
+  req: AuthenticatedRequest,
+  res: Response<void>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const reminderId = Number(req.params.reminderId);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(reminderId)) {
+      return res.status(400).json({ message: 'Invalid reminder id' } as never);
+    }
+
+    const loaded = await loadTask(userId, req.params.id);
+    if ('status' in loaded) {
+      return res.status(loaded.status).json({ message: loaded.message } as never);
+    }
+
+    const { count }: { count: number } = await prisma.reminder.deleteMany({
+      where: { id: reminderId, taskId: loaded.task.id },
+    });
+    if (count === 0) {
+      return res.status(404).json({ message: 'Reminder not found' } as never);
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+};
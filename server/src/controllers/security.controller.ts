@@ -0,0 +1,118 @@
+import type { Response } from 'express';
+import prisma from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type {
+  SecurityEventListResponseDto,
+  SecurityEventOutcome,
+  SecurityEventResponseDto,
+  SecurityEventType,
+} from '../types/auth';
+import { decodeCursor, encodeCursor, parseLimit, queryList, queryString } from '../utils/pagination';
+
+const VALID_TYPES: SecurityEventType[] = [
+  'register',
+  'login',
+  'mfa_challenge',
+  'logout',
+  'logout_all',
+  'session_revoked',
+  'token_refresh',
+  'token_reuse',
+  'access_denied',
+  'password_change',
+  'password_reset_requested',
+  'password_reset',
+  'email_verified',
+  'username_changed',
+  'email_change_requested',
+  'email_changed',
+  'data_exported',
+  'account_deletion_scheduled',
+  'account_deletion_cancelled',
+  'mfa_enabled',
+  'mfa_disabled',
+  'recovery_codes_regenerated',
+  'access_token_created',
+  'access_token_revoked',
+];
+
+const VALID_OUTCOMES: SecurityEventOutcome[] = ['success', 'failure', 'blocked'];
+
+interface SecurityEventCursor {
+  id: number;
+}
+
+interface SecurityEventRecord {
+  id: number;
+  type: string;
+  outcome: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  detail: string | null;
+  createdAt: Date;
+}
+
+function toDto(event: SecurityEventRecord): SecurityEventResponseDto {
+  return {
+    id: event.id,
+    type: event.type as SecurityEventType,
+    outcome: event.outcome as SecurityEventOutcome,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    detail: event.detail,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * GET /api/auth/security-events - The authenticated user's sign-ins, session and
+ * credential changes, newest first. Query parameters: type, outcome (both
+ * repeatable or comma separated), limit and cursor.
+ */
+export const getSecurityEvents = async (
+  req: AuthenticatedRequest,
+  res: Response<SecurityEventListResponseDto>,
+) => {
+  const userId = req.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized' } as never);
+  }
+
+  const where: Record<string, unknown> = { userId };
+
+  const types = queryList(req.query.type);
+  if (!types.every((type) => VALID_TYPES.includes(type as SecurityEventType))) {
+    return res.status(400).json({ message: `Type must be one of ${VALID_TYPES.join(', ')}` } as never);
+  }
+  if (types.length > 0) where.type = { in: types };
+
+  const outcomes = queryList(req.query.outcome);
+  if (!outcomes.every((outcome) => VALID_OUTCOMES.includes(outcome as SecurityEventOutcome))) {
+    return res.status(400).json({ message: `Outcome must be one of ${VALID_OUTCOMES.join(', ')}` } as never);
+  }
+  if (outcomes.length > 0) where.outcome = { in: outcomes };
+
+  const limit = parseLimit(req.query.limit);
+  if (limit === null) {
+    return res.status(400).json({ message: 'Limit must be a positive integer' } as never);
+  }
+
+  const cursorRaw = queryString(req.query.cursor);
+  const cursor = cursorRaw !== undefined ? decodeCursor<SecurityEventCursor>(cursorRaw) : null;
+  if (cursorRaw !== undefined && (!cursor || typeof cursor.id !== 'number')) {
+    return res.status(400).json({ message: 'Invalid cursor' } as never);
+  }
+
+  const events: SecurityEventRecord[] = await prisma.securityEvent.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor.id }, skip: 1 } : {}),
+  });
+
+  const items = events.slice(0, limit).map(toDto);
+  const last = items[items.length - 1];
+  const nextCursor = events.length > limit && last ? encodeCursor({ id: last.id }) : null;
+
+  return res.json({ items, nextCursor });
+};
@@ -0,0 +1,199 @@
+import type { NextFunction, Response } from 'express';
+import prisma from '../prisma';
+import type { AuthenticatedRequest } from '../middleware/auth.middleware';
+import type { TagCreateDto, TagUpdateDto, TagResponseDto } from '../types/tag';
+import { isHexColor, paletteColor } from '../utils/colors';
+
+const TAG_NAME_MAX_LENGTH = 32;
+
+/** Counts only tasks that are not in the trash. */
+const TAG_COUNT_INCLUDE = { _count: { select: { tasks: { where: { deletedAt: null } } } } };
+
+function toDto(tag: {
+  id: number;
+  name: string;
+  color: string;
+  createdAt: Date;
+  _count?: { tasks: number };
+}): TagResponseDto {
+  return {
+    id: tag.id,
+    name: tag.name,
+    color: tag.color,
+    taskCount: tag._count?.tasks ?? 0,
+    createdAt: tag.createdAt.toISOString(),
+  };
+}
+
+function validateName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0) return 'Tag name is required';
+  if (name.trim().length > TAG_NAME_MAX_LENGTH) {
+    return `Tag name must be at most ${TAG_NAME_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+function isUniqueConstraintError(err: unknown): boolean {
+  return Boolean(err && typeof err === 'object' && 'code' in err && (err as { code: string }).code === 'P2002');
+}
+
+/**
+ * GET /tags - List the authenticated user's tags with how many tasks use each.
+ */
+export const getTags = async (
+  req: AuthenticatedRequest,
+  res: Response<TagResponseDto[]>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      include: TAG_COUNT_INCLUDE,
+    });
+
+    return res.json(tags.map(toDto));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /tags - Create a tag. Names are unique per user.
+ */
+export const createTag = async (
+  req: AuthenticatedRequest,
+  res: Response<TagResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const { name, color } = (req.body ?? {}) as TagCreateDto;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const nameError = validateName(name);
+    if (nameError) {
+      return res.status(400).json({ message: nameError } as never);
+    }
+
+    if (color !== undefined && !isHexColor(color)) {
+      return res.status(400).json({ message: 'Color must be a hex value like #0ea5e9' } as never);
+    }
+
+    const existingCount: number = await prisma.tag.count({ where: { userId } });
+
+    const tag = await prisma.tag.create({
+      data: {
+        name: name.trim(),
+        color: color ?? paletteColor(existingCount),
+        userId,
+      },
+    });
+
+    return res.status(201).json(toDto(tag));
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return res.status(409).json({ message: 'A tag with this name already exists' } as never);
+    }
+    return next(error);
+  }
+};
+
+/**
+ * PUT/PATCH /tags/:id - Rename or recolor a tag.
+ */
+export const updateTag = async (
+  req: AuthenticatedRequest,
+  res: Response<TagResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const tagId = Number(req.params.id);
+    const { name, color } = (req.body ?? {}) as TagUpdateDto;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(tagId)) {
+      return res.status(400).json({ message: 'Invalid tag id' } as never);
+    }
+
+    if (name !== undefined) {
+      const nameError = validateName(name);
+      if (nameError) {
+        return res.status(400).json({ message: nameError } as never);
+      }
+    }
+
+    if (color !== undefined && !isHexColor(color)) {
+      return res.status(400).json({ message: 'Color must be a hex value like #0ea5e9' } as never);
+    }
+
+    const existing = await prisma.tag.findFirst({ where: { id: tagId, userId } });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Tag not found' } as never);
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id: tagId },
+      data: {
+        name: name !== undefined ? name.trim() : existing.name,
+        color: color ?? existing.color,
+      },
+      include: TAG_COUNT_INCLUDE,
+    });
+
+    return res.json(toDto(tag));
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return res.status(409).json({ message: 'A tag with this name already exists' } as never);
+    }
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /tags/:id - Delete a tag. Tasks keep existing; only the link is removed.
+ */
+export const deleteTag = async (
+  req: AuthenticatedRequest,
+  res: Response<void>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const tagId = Number(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(tagId)) {
+      return res.status(400).json({ message: 'Invalid tag id' } as never);
+    }
+
+    const existing = await prisma.tag.findFirst({ where: { id: tagId, userId } });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Tag not found' } as never);
+    }
+
+    await prisma.tag.delete({ where: { id: tagId } });
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+};
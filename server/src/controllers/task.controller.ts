@@ -1,24 +1,348 @@
 import type { NextFunction, Response } from 'express';
 import prisma from '../prisma';
 import type { AuthenticatedRequest } from '../middleware/auth.middleware';
-import type { TaskCreateDto, TaskUpdateDto, TaskResponseDto, Priority } from '../types/task';
+import type {
+  TaskCreateDto,
+  TaskUpdateDto,
+  TaskResponseDto,
+  TaskListResponseDto,
+  TaskSummaryDto,
+  PlannerDayDto,
+  PlannerResponseDto,
+  TrashListResponseDto,
+  TaskStatusFilter,
+  TaskSortKey,
+  SortDirection,
+  Priority,
+  RecurrenceRuleDto,
+} from '../types/task';
+import {
+  queryString,
+  queryList,
+  parseLimit,
+  encodeCursor,
+  decodeCursor,
+} from '../utils/pagination';
+import { validateRecurrence, formatRecurrence, parseRecurrence } from '../utils/recurrence';
+import {
+  TASK_CHANGE_INCLUDE,
+  diffTask,
+  formatChanges,
+  versionAt,
+  versionFields,
+  type ActivitySnapshot,
+  type TrackedTask,
+} from '../utils/taskChanges';
+import {
+  addCalendarDays,
+  calendarDayInZone,
+  calendarDaysBetween,
+  dueDay,
+  dueRangeWhere,
+  formatCalendarDate,
+  formatDueDate,
+  overdueWhere,
+  parseCalendarDate,
+  parseDueBound,
+  parseDueDate,
+  resolveTimeZone,
+  startedWhere,
+  userTimeZone,
+  type ParsedDueDate,
+} from '../utils/dueDates';
+import { rescheduleReminders } from '../utils/reminders';
+import { spawnNextOccurrence } from '../utils/recurringTasks';
+import { env } from '../config/env';
 
 const VALID_PRIORITIES: Priority[] = ['low', 'medium', 'high'];
+const VALID_STATUSES: TaskStatusFilter[] = ['all', 'active', 'completed'];
+const VALID_SORT_KEYS: TaskSortKey[] = ['createdAt', 'dueDate', 'priority', 'title'];
+
+const DUE_DATE_FORMAT_MESSAGE = 'Due date must be a date (YYYY-MM-DD) or a date and time';
+const SCHEDULED_BEFORE_START_MESSAGE = "A task can't be scheduled before its start date";
+
+const PLANNER_DEFAULT_DAYS = 7;
+const PLANNER_MAX_DAYS = 14;
+
+/** Relations loaded with every task so the DTO can list its tag ids and checklist progress. */
+const TASK_INCLUDE = {
+  tags: { select: { id: true } },
+  checklistItems: { select: { done: true } },
+};
+
+interface TaskRecord {
+  id: number;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  priority: string;
+  dueDate: Date | null;
+  dueAllDay: boolean;
+  startDate: Date | null;
+  scheduledFor: Date | null;
+  createdAt: Date;
+  userId: number;
+  projectId: number | null;
+  completeWithChecklist: boolean;
+  recurrence: string | null;
+  deletedAt: Date | null;
+  tags?: { id: number }[];
+  checklistItems?: { done: boolean }[];
+}
+
+/**
+ * Position after the last task of a page: its sort value (an ISO string for dates,
+ * null for a task without a due date) and id. Sorting by priority also records the
+ * bucket, and `value` is then the task's createdAt.
+ */
+interface TaskCursor {
+  id: number;
+  value: string | null;
+  priority?: Priority;
+}
 
 function isPriority(value: unknown): value is Priority {
   return typeof value === 'string' && VALID_PRIORITIES.includes(value as Priority);
 }
 
-function parseDueDate(value: unknown): Date | null {
-  if (value === undefined || value === null || value === '') return null;
-  if (typeof value !== 'string') return null;
-  const date = new Date(value);
-  return Number.isNaN(date.getTime()) ? null : date;
+function toDto(task: TaskRecord): TaskResponseDto {
+  const checklistItems = task.checklistItems ?? [];
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    completed: task.completed,
+    priority: (task.priority ?? 'medium') as Priority,
+    dueDate: formatDueDate(task.dueDate, task.dueAllDay),
+    dueAllDay: task.dueDate ? task.dueAllDay : false,
+    startDate: formatCalendarDate(task.startDate),
+    scheduledFor: formatCalendarDate(task.scheduledFor),
+    createdAt: task.createdAt.toISOString(),
+    userId: task.userId,
+    projectId: task.projectId ?? null,
+    tagIds: (task.tags ?? []).map((tag) => tag.id),
+    checklist: {
+      done: checklistItems.filter((item) => item.done).length,
+      total: checklistItems.length,
+    },
+    completeWithChecklist: task.completeWithChecklist,
+    recurrence: parseRecurrence(task.recurrence),
+    deletedAt: task.deletedAt ? task.deletedAt.toISOString() : null,
+  };
+}
+
+/**
+ * Parses a start or scheduled date from a request body: undefined when absent,
+ * null to clear it, or the calendar date.
+ */
+function parseOptionalCalendarDate(
+  value: unknown,
+  name: string,
+): { date: Date | null | undefined } | { error: string } {
+  if (value === undefined) return { date: undefined };
+  if (value === null || value === '') return { date: null };
+  const date = parseCalendarDate(value);
+  return date ? { date } : { error: `${name} must be a date (YYYY-MM-DD)` };
+}
+
+/**
+ * Validates a tagIds payload and checks every tag belongs to the user.
+ * Returns the de-duplicated ids, or an error message.
+ */
+async function resolveTagIds(userId: number, value: unknown): Promise<{ ids: number[] } | { error: string }> {
+  if (!Array.isArray(value) || !value.every((id) => Number.isInteger(id))) {
+    return { error: 'tagIds must be an array of tag ids' };
+  }
+  const ids = [...new Set(value as number[])];
+  if (ids.length === 0) return { ids };
+  const owned: number = await prisma.tag.count({ where: { userId, id: { in: ids } } });
+  if (owned !== ids.length) {
+    return { error: 'One or more tags were not found' };
+  }
+  return { ids };
+}
+
+/**
+ * Validates a projectId payload. Tasks can only be moved into the user's own,
+ * non-archived projects; null moves the task back to the inbox.
+ */
+async function resolveProjectId(
+  userId: number,
+  value: unknown,
+): Promise<{ projectId: number | null } | { error: string }> {
+  if (value === null) return { projectId: null };
+  if (!Number.isInteger(value)) {
+    return { error: 'projectId must be a project id or null' };
+  }
+  const project = await prisma.project.findFirst({ where: { id: value, userId } });
+  if (!project) {
+    return { error: 'Project not found' };
+  }
+  if (project.archived) {
+    return { error: 'Cannot add tasks to an archived project' };
+  }
+  return { projectId: project.id };
+}
+
+/**
+ * Parses the `projectId` query parameter shared by GET /tasks and /tasks/summary.
+ * A project id scopes to that project; `none` scopes to tasks without a project.
+ */
+function parseProjectScope(value: unknown): { scope: { projectId?: number | null } } | { error: string } {
+  const raw = queryString(value);
+  if (raw === undefined) return { scope: {} };
+  if (raw === 'none') return { scope: { projectId: null } };
+  const projectId = Number(raw);
+  if (!Number.isInteger(projectId)) {
+    return { error: 'projectId must be a project id or none' };
+  }
+  return { scope: { projectId } };
+}
+
+/**
+ * Decodes a GET /tasks cursor and checks it fits the sort it is used with.
+ */
+function parseTaskCursor(raw: string, sort: TaskSortKey): TaskCursor | null {
+  const cursor = decodeCursor<TaskCursor>(raw);
+  if (!cursor || typeof cursor.id !== 'number') return null;
+  if (sort === 'priority' && !isPriority(cursor.priority)) return null;
+  if (cursor.value === null) return sort === 'dueDate' ? cursor : null;
+  if (typeof cursor.value !== 'string') return null;
+  if (sort !== 'title' && Number.isNaN(new Date(cursor.value).getTime())) return null;
+  return cursor;
+}
+
+/**
+ * Where clause for the tasks that come after `cursor` when sorting by `field` and
+ * then id, both in `order`. Tasks without a due date sort last either way. Seeking
+ * by value rather than by row position means ties and tasks edited between page
+ * loads are neither skipped nor repeated.
+ */
+function afterCursorWhere(
+  field: 'createdAt' | 'dueDate' | 'title',
+  order: SortDirection,
+  cursor: TaskCursor,
+): Record<string, unknown> {
+  const op = order === 'asc' ? 'gt' : 'lt';
+  if (cursor.value === null) {
+    return { [field]: null, id: { [op]: cursor.id } };
+  }
+  const value = field === 'title' ? cursor.value : new Date(cursor.value);
+  const after: Record<string, unknown>[] = [
+    { [field]: { [op]: value } },
+    { [field]: value, id: { [op]: cursor.id } },
+  ];
+  if (field === 'dueDate') after.push({ dueDate: null });
+  return { OR: after };
+}
+
+function cursorFor(task: TaskRecord, sort: TaskSortKey): TaskCursor {
+  switch (sort) {
+    case 'priority':
+      return { id: task.id, value: task.createdAt.toISOString(), priority: task.priority as Priority };
+    case 'dueDate':
+      return { id: task.id, value: task.dueDate ? task.dueDate.toISOString() : null };
+    case 'title':
+      return { id: task.id, value: task.title };
+    default:
+      return { id: task.id, value: task.createdAt.toISOString() };
+  }
+}
+
+/**
+ * Builds the Prisma where clause for GET /tasks from its query parameters.
+ * Returns an error message instead when a parameter is invalid.
+ */
+function buildTaskFilter(
+  userId: number,
+  query: Record<string, unknown>,
+  timeZone: string,
+): { where: Record<string, unknown> } | { error: string } {
+  const project = parseProjectScope(query.projectId);
+  if ('error' in project) return project;
+  const where: Record<string, unknown> = { userId, deletedAt: null, ...project.scope };
+  const conditions: Record<string, unknown>[] = [];
+
+  const status = queryString(query.status) ?? 'all';
+  if (!VALID_STATUSES.includes(status as TaskStatusFilter)) {
+    return { error: 'Status must be all, active, or completed' };
+  }
+  if (status === 'active') where.completed = false;
+  if (status === 'completed') where.completed = true;
+
+  const priorities = queryList(query.priority);
+  if (!priorities.every(isPriority)) {
+    return { error: 'Priority must be low, medium, or high' };
+  }
+  if (priorities.length > 0) where.priority = { in: priorities };
+
+  const dueFromRaw = queryString(query.dueFrom);
+  const dueToRaw = queryString(query.dueTo);
+  if (dueFromRaw !== undefined || dueToRaw !== undefined) {
+    const dueFrom = dueFromRaw !== undefined ? parseDueBound(dueFromRaw, 'from', timeZone) : undefined;
+    const dueTo = dueToRaw !== undefined ? parseDueBound(dueToRaw, 'to', timeZone) : undefined;
+    if (dueFrom === null || dueTo === null) {
+      return { error: 'dueFrom and dueTo must be valid dates' };
+    }
+    conditions.push(dueRangeWhere(dueFrom, dueTo));
+  }
+
+  const tagIds = queryList(query.tags).map(Number);
+  if (!tagIds.every((id) => Number.isInteger(id))) {
+    return { error: 'Tags must be a comma separated list of tag ids' };
+  }
+  conditions.push(...tagIds.map((id) => ({ tags: { some: { id } } })));
+  const includeNotStarted = queryString(query.includeNotStarted) ?? 'false';
+  if (includeNotStarted !== 'true' && includeNotStarted !== 'false') {
+    return { error: 'includeNotStarted must be true or false' };
+  }
+  if (includeNotStarted === 'false') conditions.push(startedWhere(new Date(), timeZone));
+
+  if (conditions.length > 0) where.AND = conditions;
+
+  const search = queryString(query.q);
+  if (search !== undefined) {
+    where.OR = [{ title: { contains: search } }, { description: { contains: search } }];
+  }
+
+  return { where };
 }
 
 /**
- * Handlers for CRUD operations on tasks owned by the authenticated user.
+ * Priority is stored as text, so ordering by the column would sort it
+ * alphabetically. Instead we walk the priority buckets in rank order and
+ * page through each one, newest first.
  */
+async function findTasksByPriority(
+  where: Record<string, unknown>,
+  order: SortDirection,
+  take: number,
+  cursor: TaskCursor | null,
+): Promise<TaskRecord[]> {
+  const ranks: Priority[] = order === 'desc' ? ['high', 'medium', 'low'] : ['low', 'medium', 'high'];
+  const startIndex = cursor?.priority ? Math.max(ranks.indexOf(cursor.priority), 0) : 0;
+  const results: TaskRecord[] = [];
+
+  for (let i = startIndex; i < ranks.length && results.length < take; i += 1) {
+    const continueFromCursor = cursor !== null && i === startIndex;
+    const batch: TaskRecord[] = await prisma.task.findMany({
+      where: {
+        AND: [
+          where,
+          { priority: ranks[i] },
+          ...(continueFromCursor ? [afterCursorWhere('createdAt', 'desc', cursor)] : []),
+        ],
+      },
+      include: TASK_INCLUDE,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: take - results.length,
+    });
+    results.push(...batch);
+  }
+
+  return results;
+}
+
 export const createTask = async (
   req: AuthenticatedRequest,
   res: Response<TaskResponseDto>,
@@ -26,7 +350,18 @@ export const createTask = async (
 ) => {
   try {
     const userId = req.userId;
-    const { title, description, priority, dueDate: dueDateRaw } = req.body as TaskCreateDto;
+    const {
+      title,
+      description,
+      priority,
+      dueDate: dueDateRaw,
+      startDate: startDateRaw,
+      scheduledFor: scheduledForRaw,
+      tagIds,
+      projectId,
+      completeWithChecklist,
+      recurrence,
+    } = req.body as TaskCreateDto;
 
     if (!userId) {
       return res.status(401).json({ message: 'Unauthorized' } as never);
@@ -40,23 +375,79 @@ export const createTask = async (
       return res.status(400).json({ message: 'Priority must be low, medium, or high' } as never);
     }
 
+    if (completeWithChecklist !== undefined && typeof completeWithChecklist !== 'boolean') {
+      return res
+        .status(400)
+        .json({ message: 'completeWithChecklist, if provided, must be a boolean' } as never);
+    }
+
+    let due: ParsedDueDate | null = null;
     if (dueDateRaw !== undefined && dueDateRaw !== null && dueDateRaw !== '') {
-      const parsed = parseDueDate(dueDateRaw);
-      if (parsed === null) {
-        return res.status(400).json({ message: 'Due date must be a valid date' } as never);
+      due = parseDueDate(dueDateRaw, await userTimeZone(userId));
+      if (due === null) {
+        return res.status(400).json({ message: DUE_DATE_FORMAT_MESSAGE } as never);
+      }
+    }
+
+    const startDate = parseOptionalCalendarDate(startDateRaw, 'startDate');
+    if ('error' in startDate) {
+      return res.status(400).json({ message: startDate.error } as never);
+    }
+    const scheduledFor = parseOptionalCalendarDate(scheduledForRaw, 'scheduledFor');
+    if ('error' in scheduledFor) {
+      return res.status(400).json({ message: scheduledFor.error } as never);
+    }
+    if (startDate.date && scheduledFor.date && scheduledFor.date < startDate.date) {
+      return res.status(400).json({ message: SCHEDULED_BEFORE_START_MESSAGE } as never);
+    }
+
+    let tagIdsValue: number[] = [];
+    if (tagIds !== undefined) {
+      const resolved = await resolveTagIds(userId, tagIds);
+      if ('error' in resolved) {
+        return res.status(400).json({ message: resolved.error } as never);
       }
+      tagIdsValue = resolved.ids;
     }
 
-    const dueDate = parseDueDate(dueDateRaw) ?? undefined;
+    let projectIdValue: number | null = null;
+    if (projectId !== undefined) {
+      const resolved = await resolveProjectId(userId, projectId);
+      if ('error' in resolved) {
+        return res.status(400).json({ message: resolved.error } as never);
+      }
+      projectIdValue = resolved.projectId;
+    }
+
+    let recurrenceValue: RecurrenceRuleDto | null = null;
+    if (recurrence !== undefined) {
+      const validated = validateRecurrence(recurrence);
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error } as never);
+      }
+      recurrenceValue = validated.rule;
+    }
+
+    if (recurrenceValue && !due) {
+      return res.status(400).json({ message: 'Recurring tasks need a due date' } as never);
+    }
 
     const task = await prisma.task.create({
       data: {
         title: title.trim(),
         description: description ?? null,
         priority: priority ?? 'medium',
-        dueDate: dueDate ?? null,
+        dueDate: due?.dueDate ?? null,
+        dueAllDay: due?.dueAllDay ?? false,
+        startDate: startDate.date ?? null,
+        scheduledFor: scheduledFor.date ?? null,
         userId,
+        projectId: projectIdValue,
+        completeWithChecklist: completeWithChecklist === true,
+        recurrence: recurrenceValue ? formatRecurrence(recurrenceValue) : null,
+        tags: { connect: tagIdsValue.map((id) => ({ id })) },
       },
+      include: TASK_INCLUDE,
     });
 
     await prisma.activityLog.create({
@@ -67,28 +458,27 @@ export const createTask = async (
         taskTitle: task.title,
         taskDescription: task.description,
         taskDueDate: task.dueDate,
+        taskDueAllDay: task.dueAllDay,
         taskCompleted: task.completed,
       },
     });
 
-    return res.status(201).json({
-      id: task.id,
-      title: task.title,
-      description: task.description,
-      completed: task.completed,
-      priority: task.priority as Priority,
-      dueDate: task.dueDate ? task.dueDate.toISOString() : null,
-      createdAt: task.createdAt.toISOString(),
-      userId: task.userId,
-    });
+    return res.status(201).json(toDto(task));
   } catch (error) {
     return next(error);
   }
 };
 
+/**
+ * GET /tasks - Lists tasks with optional filters, sorting and cursor pagination.
+ *
+ * Query parameters: projectId, status, priority, dueFrom, dueTo, tags, q, includeNotStarted, sort, order,
+ * limit, cursor, tz. Date-only `dueFrom`/`dueTo` cover whole days in `tz`, which defaults to the user's
+ * time zone preference. Tasks whose start date is still ahead are left out unless `includeNotStarted=true`.
+ */
 export const getTasks = async (
   req: AuthenticatedRequest,
-  res: Response<TaskResponseDto[]>,
+  res: Response<TaskListResponseDto>,
   next: NextFunction,
 ) => {
   try {
@@ -98,32 +488,179 @@ export const getTasks = async (
       return res.status(401).json({ message: 'Unauthorized' } as never);
     }
 
-    const tasks = await prisma.task.findMany({
-      where: { userId },
-      orderBy: { createdAt: 'desc' },
+    const timeZone = await resolveTimeZone(userId, queryString(req.query.tz));
+    if (!timeZone) {
+      return res.status(400).json({ message: 'tz must be an IANA time zone name' } as never);
+    }
+
+    const filter = buildTaskFilter(userId, req.query, timeZone);
+    if ('error' in filter) {
+      return res.status(400).json({ message: filter.error } as never);
+    }
+
+    const sort = queryString(req.query.sort) ?? 'createdAt';
+    if (!VALID_SORT_KEYS.includes(sort as TaskSortKey)) {
+      return res
+        .status(400)
+        .json({ message: 'Sort must be createdAt, dueDate, priority, or title' } as never);
+    }
+
+    const order = queryString(req.query.order) ?? (sort === 'title' || sort === 'dueDate' ? 'asc' : 'desc');
+    if (order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ message: 'Order must be asc or desc' } as never);
+    }
+
+    const limit = parseLimit(req.query.limit);
+    if (limit === null) {
+      return res.status(400).json({ message: 'Limit must be a positive integer' } as never);
+    }
+
+    const cursorRaw = queryString(req.query.cursor);
+    const cursor = cursorRaw !== undefined ? parseTaskCursor(cursorRaw, sort as TaskSortKey) : null;
+    if (cursorRaw !== undefined && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' } as never);
+    }
+
+    const { where } = filter;
+    let tasks: TaskRecord[];
+
+    if (sort === 'priority') {
+      tasks = await findTasksByPriority(where, order, limit + 1, cursor);
+    } else {
+      const primaryOrder = sort === 'dueDate'
+        ? { dueDate: { sort: order, nulls: 'last' } }
+        : { [sort]: order };
+      tasks = await prisma.task.findMany({
+        where: cursor
+          ? { AND: [where, afterCursorWhere(sort as 'createdAt' | 'dueDate' | 'title', order, cursor)] }
+          : where,
+        include: TASK_INCLUDE,
+        orderBy: [primaryOrder, { id: order }],
+        take: limit + 1,
+      });
+    }
+
+    const total: number = await prisma.task.count({ where });
+    const page = tasks.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = tasks.length > limit && last ? encodeCursor(cursorFor(last, sort as TaskSortKey)) : null;
+
+    return res.json({
+      items: page.map(toDto),
+      nextCursor,
+      total,
     });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * GET /tasks/summary - Counts for the summary cards.
+ * Overdue means past its due time, or for all-day tasks before today in `tz`
+ * (default: the user's time zone preference).
+ * `projectId` scopes the counts the same way as GET /tasks.
+ */
+export const getTaskSummary = async (
+  req: AuthenticatedRequest,
+  res: Response<TaskSummaryDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
 
-    const taskDtos: TaskResponseDto[] = tasks.map((task: {
-      id: number;
-      title: string;
-      description: string | null;
-      completed: boolean;
-      priority: string;
-      dueDate: Date | null;
-      createdAt: Date;
-      userId: number;
-    }) => ({
-      id: task.id,
-      title: task.title,
-      description: task.description,
-      completed: task.completed,
-      priority: (task.priority ?? 'medium') as Priority,
-      dueDate: task.dueDate ? task.dueDate.toISOString() : null,
-      createdAt: task.createdAt.toISOString(),
-      userId: task.userId,
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const project = parseProjectScope(req.query.projectId);
+    if ('error' in project) {
+      return res.status(400).json({ message: project.error } as never);
+    }
+    const where = { userId, deletedAt: null, ...project.scope };
+
+    const timeZone = await resolveTimeZone(userId, queryString(req.query.tz));
+    if (!timeZone) {
+      return res.status(400).json({ message: 'tz must be an IANA time zone name' } as never);
+    }
+
+    const [total, completed, overdue]: [number, number, number] = await Promise.all([
+      prisma.task.count({ where }),
+      prisma.task.count({ where: { ...where, completed: true } }),
+      prisma.task.count({ where: { ...where, completed: false, ...overdueWhere(new Date(), timeZone) } }),
+    ]);
+
+    return res.json({
+      total,
+      completed,
+      pending: total - completed,
+      overdue,
+    });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * GET /tasks/planner - The Today page: unfinished tasks for today and the next `days - 1`
+ * days (default 7, at most 14), plus the ones left over from earlier days.
+ * A task belongs to its scheduled day, or else to the day it is due in `tz`.
+ */
+export const getPlanner = async (
+  req: AuthenticatedRequest,
+  res: Response<PlannerResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const timeZone = await resolveTimeZone(userId, queryString(req.query.tz));
+    if (!timeZone) {
+      return res.status(400).json({ message: 'tz must be an IANA time zone name' } as never);
+    }
+
+    const daysRaw = queryString(req.query.days);
+    const dayCount = daysRaw === undefined ? PLANNER_DEFAULT_DAYS : Number(daysRaw);
+    if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > PLANNER_MAX_DAYS) {
+      return res.status(400).json({ message: `days must be between 1 and ${PLANNER_MAX_DAYS}` } as never);
+    }
+
+    const today = calendarDayInZone(new Date(), timeZone);
+    const lastDay = addCalendarDays(today, dayCount - 1);
+    const dueBy = parseDueBound(formatCalendarDate(lastDay), 'to', timeZone) ?? undefined;
+
+    const tasks: TaskRecord[] = await prisma.task.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        completed: false,
+        OR: [{ scheduledFor: { lte: lastDay } }, { scheduledFor: null, ...dueRangeWhere(undefined, dueBy) }],
+      },
+      include: TASK_INCLUDE,
+      orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+    });
+
+    const earlier: TaskResponseDto[] = [];
+    const days: PlannerDayDto[] = Array.from({ length: dayCount }, (_, index) => ({
+      date: formatCalendarDate(addCalendarDays(today, index)),
+      tasks: [],
     }));
 
-    return res.json(taskDtos);
+    for (const task of tasks) {
+      const day = task.scheduledFor ?? (task.dueDate ? dueDay(task.dueDate, task.dueAllDay, timeZone) : null);
+      if (!day) continue;
+      const index = calendarDaysBetween(today, day);
+      // Tasks stay out of sight until they have started.
+      if (task.startDate && task.startDate > (index < 0 ? today : day)) continue;
+      if (index < 0) earlier.push(toDto(task));
+      else days[index]?.tasks.push(toDto(task));
+    }
+
+    return res.json({ today: formatCalendarDate(today), earlier, days });
   } catch (error) {
     return next(error);
   }
@@ -146,24 +683,17 @@ export const getTaskById = async (
       return res.status(400).json({ message: 'Invalid task id' } as never);
     }
 
+    // Tasks in the trash are still returned (with deletedAt set) so they can be viewed.
     const task = await prisma.task.findFirst({
       where: { id: taskId, userId },
+      include: TASK_INCLUDE,
     });
 
     if (!task) {
       return res.status(404).json({ message: 'Task not found' } as never);
     }
 
-    return res.json({
-      id: task.id,
-      title: task.title,
-      description: task.description,
-      completed: task.completed,
-      priority: (task.priority ?? 'medium') as Priority,
-      dueDate: task.dueDate ? task.dueDate.toISOString() : null,
-      createdAt: task.createdAt.toISOString(),
-      userId: task.userId,
-    });
+    return res.json(toDto(task));
   } catch (error) {
     return next(error);
   }
@@ -177,7 +707,19 @@ export const updateTask = async (
   try {
     const userId = req.userId;
     const taskId = Number(req.params.id);
-    const { title, description, completed, priority, dueDate: dueDateRaw } = req.body as TaskUpdateDto;
+    const {
+      title,
+      description,
+      completed,
+      priority,
+      dueDate: dueDateRaw,
+      startDate: startDateRaw,
+      scheduledFor: scheduledForRaw,
+      tagIds,
+      projectId,
+      completeWithChecklist,
+      recurrence,
+    } = req.body as TaskUpdateDto;
 
     if (!userId) {
       return res.status(401).json({ message: 'Unauthorized' } as never);
@@ -197,26 +739,87 @@ export const updateTask = async (
         .json({ message: 'Completed, if provided, must be a boolean' } as never);
     }
 
+    if (completeWithChecklist !== undefined && typeof completeWithChecklist !== 'boolean') {
+      return res
+        .status(400)
+        .json({ message: 'completeWithChecklist, if provided, must be a boolean' } as never);
+    }
+
     if (priority !== undefined && !isPriority(priority)) {
       return res.status(400).json({ message: 'Priority must be low, medium, or high' } as never);
     }
 
-    if (dueDateRaw !== undefined && dueDateRaw !== null && dueDateRaw !== '') {
-      const parsed = parseDueDate(dueDateRaw);
-      if (parsed === null) {
-        return res.status(400).json({ message: 'Due date must be a valid date' } as never);
+    let dueDateValue: ParsedDueDate | null | undefined;
+    if (dueDateRaw === null || dueDateRaw === '') {
+      dueDateValue = null;
+    } else if (dueDateRaw !== undefined) {
+      dueDateValue = parseDueDate(dueDateRaw, await userTimeZone(userId));
+      if (dueDateValue === null) {
+        return res.status(400).json({ message: DUE_DATE_FORMAT_MESSAGE } as never);
       }
     }
 
-    const existing = await prisma.task.findFirst({ where: { id: taskId, userId } });
+    const startDate = parseOptionalCalendarDate(startDateRaw, 'startDate');
+    if ('error' in startDate) {
+      return res.status(400).json({ message: startDate.error } as never);
+    }
+    const scheduledFor = parseOptionalCalendarDate(scheduledForRaw, 'scheduledFor');
+    if ('error' in scheduledFor) {
+      return res.status(400).json({ message: scheduledFor.error } as never);
+    }
+
+    const existing = await prisma.task.findFirst({
+      where: { id: taskId, userId, deletedAt: null },
+      include: TASK_CHANGE_INCLUDE,
+    });
 
     if (!existing) {
       return res.status(404).json({ message: 'Task not found' } as never);
     }
 
-    const dueDateValue = dueDateRaw === undefined ? undefined : parseDueDate(dueDateRaw);
+    let tagIdsValue: number[] | undefined;
+    if (tagIds !== undefined) {
+      const resolved = await resolveTagIds(userId, tagIds);
+      if ('error' in resolved) {
+        return res.status(400).json({ message: resolved.error } as never);
+      }
+      tagIdsValue = resolved.ids;
+    }
+
+    let projectIdValue: number | null | undefined;
+    if (projectId !== undefined && projectId !== existing.projectId) {
+      const resolved = await resolveProjectId(userId, projectId);
+      if ('error' in resolved) {
+        return res.status(400).json({ message: resolved.error } as never);
+      }
+      projectIdValue = resolved.projectId;
+    }
+
     const newCompleted = typeof completed === 'boolean' ? completed : existing.completed;
 
+    let recurrenceValue: RecurrenceRuleDto | null | undefined;
+    if (recurrence !== undefined) {
+      const validated = validateRecurrence(recurrence);
+      if ('error' in validated) {
+        return res.status(400).json({ message: validated.error } as never);
+      }
+      recurrenceValue = validated.rule;
+    }
+
+    const finalRule = recurrenceValue !== undefined ? recurrenceValue : parseRecurrence(existing.recurrence);
+    const finalDueDate = dueDateValue === undefined ? existing.dueDate : dueDateValue?.dueDate;
+    if (finalRule && !finalDueDate) {
+      return res.status(400).json({ message: 'Recurring tasks need a due date' } as never);
+    }
+
+    if (startDate.date !== undefined || scheduledFor.date !== undefined) {
+      const finalStart: Date | null = startDate.date !== undefined ? startDate.date : existing.startDate;
+      const finalScheduled: Date | null = scheduledFor.date !== undefined ? scheduledFor.date : existing.scheduledFor;
+      if (finalStart && finalScheduled && finalScheduled < finalStart) {
+        return res.status(400).json({ message: SCHEDULED_BEFORE_START_MESSAGE } as never);
+      }
+    }
+
     const task = await prisma.task.update({
       where: { id: taskId },
       data: {
@@ -224,8 +827,19 @@ export const updateTask = async (
         description: description ?? existing.description,
         completed: newCompleted,
         priority: priority ?? existing.priority,
-        dueDate: dueDateRaw === undefined ? undefined : (dueDateValue ?? null),
+        ...(dueDateValue !== undefined
+          ? { dueDate: dueDateValue?.dueDate ?? null, dueAllDay: dueDateValue?.dueAllDay ?? false }
+          : {}),
+        ...(startDate.date !== undefined ? { startDate: startDate.date } : {}),
+        ...(scheduledFor.date !== undefined ? { scheduledFor: scheduledFor.date } : {}),
+        completeWithChecklist: completeWithChecklist ?? existing.completeWithChecklist,
+        ...(recurrenceValue !== undefined
+          ? { recurrence: recurrenceValue ? formatRecurrence(recurrenceValue) : null }
+          : {}),
+        ...(projectIdValue !== undefined ? { projectId: projectIdValue } : {}),
+        ...(tagIdsValue !== undefined ? { tags: { set: tagIdsValue.map((id) => ({ id })) } } : {}),
       },
+      include: { ...TASK_INCLUDE, ...TASK_CHANGE_INCLUDE },
     });
 
     const activityAction = typeof completed === 'boolean' && completed && !existing.completed
@@ -239,20 +853,24 @@ export const updateTask = async (
         taskTitle: task.title,
         taskDescription: task.description,
         taskDueDate: task.dueDate,
+        taskDueAllDay: task.dueAllDay,
         taskCompleted: task.completed,
+        changes: formatChanges(diffTask(existing, task)),
       },
     });
 
-    return res.json({
-      id: task.id,
-      title: task.title,
-      description: task.description,
-      completed: task.completed,
-      priority: (task.priority ?? 'medium') as Priority,
-      dueDate: task.dueDate ? task.dueDate.toISOString() : null,
-      createdAt: task.createdAt.toISOString(),
-      userId: task.userId,
-    });
+    if (dueDateValue !== undefined) {
+      await rescheduleReminders(task);
+    }
+
+    if (activityAction === 'completed') {
+      const spawned = await spawnNextOccurrence(userId, task);
+      if (spawned) {
+        return res.json(toDto({ ...task, recurrence: null }));
+      }
+    }
+
+    return res.json(toDto(task));
   } catch (error) {
     return next(error);
   }
@@ -275,7 +893,7 @@ export const deleteTask = async (
       return res.status(400).json({ message: 'Invalid task id' } as never);
     }
 
-    const existing = await prisma.task.findFirst({ where: { id: taskId, userId } });
+    const existing = await prisma.task.findFirst({ where: { id: taskId, userId, deletedAt: null } });
 
     if (!existing) {
       return res.status(404).json({ message: 'Task not found' } as never);
@@ -289,10 +907,127 @@ export const deleteTask = async (
         taskTitle: existing.title,
         taskDescription: existing.description,
         taskDueDate: existing.dueDate,
+        taskDueAllDay: existing.dueAllDay,
         taskCompleted: existing.completed,
       },
     });
 
+    await prisma.task.update({ where: { id: taskId }, data: { deletedAt: new Date() } });
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * GET /tasks/trash - List the authenticated user's deleted tasks, most recently deleted first.
+ */
+export const getTrash = async (
+  req: AuthenticatedRequest,
+  res: Response<TrashListResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    const tasks: TaskRecord[] = await prisma.task.findMany({
+      where: { userId, deletedAt: { not: null } },
+      orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+      include: TASK_INCLUDE,
+    });
+
+    return res.json({ items: tasks.map(toDto), retentionDays: env.trashRetentionDays });
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /tasks/:id/restore - Move a task out of the trash.
+ */
+export const restoreTask = async (
+  req: AuthenticatedRequest,
+  res: Response<TaskResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const taskId = Number(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(taskId)) {
+      return res.status(400).json({ message: 'Invalid task id' } as never);
+    }
+
+    const existing = await prisma.task.findFirst({ where: { id: taskId, userId, deletedAt: { not: null } } });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Task not found in trash' } as never);
+    }
+
+    const task: TaskRecord = await prisma.task.update({
+      where: { id: taskId },
+      data: { deletedAt: null },
+      include: TASK_INCLUDE,
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        userId,
+        action: 'restored',
+        taskId: task.id,
+        taskTitle: task.title,
+        taskDescription: task.description,
+        taskDueDate: task.dueDate,
+        taskDueAllDay: task.dueAllDay,
+        taskCompleted: task.completed,
+      },
+    });
+
+    return res.json(toDto(task));
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * DELETE /tasks/:id/permanent - Permanently delete a task that is already in the trash.
+ */
+export const deleteTaskPermanently = async (
+  req: AuthenticatedRequest,
+  res: Response<void>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const taskId = Number(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(taskId)) {
+      return res.status(400).json({ message: 'Invalid task id' } as never);
+    }
+
+    const existing = await prisma.task.findFirst({ where: { id: taskId, userId } });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Task not found' } as never);
+    }
+
+    if (!existing.deletedAt) {
+      return res.status(400).json({ message: 'Move the task to the trash before deleting it permanently' } as never);
+    }
+
     await prisma.task.delete({ where: { id: taskId } });
 
     return res.status(204).send();
@@ -301,4 +1036,136 @@ export const deleteTask = async (
   }
 };
 
+/**
+ * DELETE /tasks/trash - Permanently delete every task in the trash.
+ */
+export const emptyTrash = async (
+  req: AuthenticatedRequest,
+  res: Response<void>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
 
+    await prisma.task.deleteMany({ where: { userId, deletedAt: { not: null } } });
+
+    return res.status(204).send();
+  } catch (error) {
+    return next(error);
+  }
+};
+
+/**
+ * POST /activity/:id/revert - Put a task back into the state captured by an activity entry.
+ * Reverting to a "deleted" entry brings the task back: out of the trash if it is still
+ * there, otherwise as a new task rebuilt from the history. Projects and tags that no
+ * longer exist are dropped.
+ */
+export const revertToActivity = async (
+  req: AuthenticatedRequest,
+  res: Response<TaskResponseDto>,
+  next: NextFunction,
+) => {
+  try {
+    const userId = req.userId;
+    const logId = Number(req.params.id);
+
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' } as never);
+    }
+
+    if (Number.isNaN(logId)) {
+      return res.status(400).json({ message: 'Invalid activity id' } as never);
+    }
+
+    const entry: (ActivitySnapshot & { id: number; taskId: number | null }) | null =
+      await prisma.activityLog.findFirst({ where: { id: logId, userId } });
+
+    if (!entry) {
+      return res.status(404).json({ message: 'Activity entry not found' } as never);
+    }
+
+    if (entry.taskId === null || entry.taskTitle === null) {
+      return res.status(400).json({ message: 'This activity entry has no task version to restore' } as never);
+    }
+
+    const history: (ActivitySnapshot & { id: number })[] = await prisma.activityLog.findMany({
+      where: { userId, taskId: entry.taskId },
+      orderBy: { id: 'asc' },
+    });
+    const current: (TaskRecord & TrackedTask) | null = await prisma.task.findFirst({
+      where: { id: entry.taskId, userId },
+      include: TASK_CHANGE_INCLUDE,
+    });
+
+    const version = versionFields(
+      versionAt(
+        entry,
+        history.filter((log) => log.id > entry.id),
+        history.filter((log) => log.id <= entry.id).reverse(),
+        current,
+      ),
+    );
+
+    const project = version.projectId
+      ? await prisma.project.findFirst({ where: { id: version.projectId, userId, archived: false } })
+      : null;
+    const tags: { id: number }[] = version.tagIds.length
+      ? await prisma.tag.findMany({ where: { userId, id: { in: version.tagIds } }, select: { id: true } })
+      : [];
+    const recurrence = version.recurrence && version.dueDate ? formatRecurrence(version.recurrence) : null;
+
+    const data = {
+      title: version.title,
+      description: version.description,
+      priority: isPriority(version.priority) ? version.priority : 'medium',
+      dueDate: version.dueDate,
+      dueAllDay: version.dueAllDay,
+      startDate: version.startDate,
+      scheduledFor: version.scheduledFor,
+      completed: version.completed,
+      completeWithChecklist: version.completeWithChecklist,
+      recurrence,
+      projectId: project ? project.id : null,
+      deletedAt: null,
+    };
+
+    const task: TaskRecord & TrackedTask = current
+      ? await prisma.task.update({
+          where: { id: current.id },
+          data: { ...data, tags: { set: tags } },
+          include: { ...TASK_INCLUDE, ...TASK_CHANGE_INCLUDE },
+        })
+      : await prisma.task.create({
+          data: { ...data, userId, tags: { connect: tags } },
+          include: { ...TASK_INCLUDE, ...TASK_CHANGE_INCLUDE },
+        });
+
+    await prisma.activityLog.create({
+      data: {
+        userId,
+        action: 'reverted',
+        taskId: task.id,
+        taskTitle: task.title,
+        taskDescription: task.description,
+        taskDueDate: task.dueDate,
+        taskDueAllDay: task.dueAllDay,
+        taskCompleted: task.completed,
+        detail: current ? 'Reverted to an earlier version' : 'Brought back from a deleted version',
+        changes: current ? formatChanges(diffTask(current, task)) : null,
+      },
+    });
+
+    if (current) {
+      await rescheduleReminders(task);
+    }
+
+    return res.json(toDto(task));
+  } catch (error) {
+    return next(error);
+  }
+};
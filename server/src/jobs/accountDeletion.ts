@@ -0,0 +1,36 @@
+import prisma from '../prisma';
+import { eraseAccount } from '../utils/accountDeletion';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Erases accounts whose deletion grace period is over.
+ * Returns the number of accounts removed.
+ */
+export async function purgeDeletedAccounts(now: Date = new Date()): Promise<number> {
+  const users: { id: number; avatarPath: string | null }[] = await prisma.user.findMany({
+    where: { deletionScheduledAt: { lte: now } },
+    select: { id: true, avatarPath: true },
+  });
+  for (const user of users) {
+    await eraseAccount(user);
+  }
+  return users.length;
+}
+
+/**
+ * Runs the purge at startup and then hourly. Returns a function that stops the job.
+ */
+export function startAccountDeletionJob(): () => void {
+  const run = () => {
+    purgeDeletedAccounts().catch((error: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error('Account deletion failed', error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,227 @@
+import { env } from '../config/env';
+import prisma from '../prisma';
+import { channelsFor, createNotification, deliverPendingNotifications } from '../notifications';
+import type { UserPreferencesDto } from '../types/auth';
+import { atTimeOfDay, dayInZone, formatCalendarDate } from '../utils/dueDates';
+import { DEFAULT_PREFERENCES, toPreferencesDto, type PreferencesRecord } from '../utils/preferences';
+
+const FIRE_BATCH_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+/** Tasks that went overdue longer ago than this don't get an overdue notification. */
+const OVERDUE_LOOKBACK_DAYS = 7;
+
+interface DueReminder {
+  id: number;
+  userId: number;
+  offsetMinutes: number | null;
+  task: {
+    id: number;
+    title: string;
+    dueDate: Date | null;
+    dueAllDay: boolean;
+    completed: boolean;
+    deletedAt: Date | null;
+  };
+  user: { preferences: PreferencesRecord | null };
+}
+
+interface DueTask {
+  id: number;
+  userId: number;
+  title: string;
+  dueDate: Date;
+  dueAllDay: boolean;
+}
+
+interface DueTaskWithPreferences extends DueTask {
+  user: { preferences: PreferencesRecord | null };
+}
+
+/** "Mar 10, 2026, 2:30 PM" in the user's zone, or "Mar 10, 2026" for all-day tasks. */
+function formatDue(dueDate: Date, dueAllDay: boolean, timeZone: string): string {
+  return dueAllDay
+    ? new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', dateStyle: 'medium' }).format(dueDate)
+    : new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'medium', timeStyle: 'short' }).format(dueDate);
+}
+
+function isUniqueConstraintError(err: unknown): boolean {
+  return Boolean(err && typeof err === 'object' && 'code' in err && (err as { code: string }).code === 'P2002');
+}
+
+/**
+ * Fires reminders whose time has come. Each reminder is claimed in the same
+ * transaction that stores its notification, so it fires exactly once even when
+ * the server restarts or several instances run the job. Reminders on completed
+ * or trashed tasks are claimed without a notification. Returns how many fired.
+ */
+export async function fireDueReminders(now: Date = new Date()): Promise<number> {
+  const due: DueReminder[] = await prisma.reminder.findMany({
+    where: { firedAt: null, fireAt: { lte: now } },
+    orderBy: { fireAt: 'asc' },
+    take: FIRE_BATCH_SIZE,
+    select: {
+      id: true,
+      userId: true,
+      offsetMinutes: true,
+      task: {
+        select: { id: true, title: true, dueDate: true, dueAllDay: true, completed: true, deletedAt: true },
+      },
+      user: { select: { preferences: true } },
+    },
+  });
+
+  let fired = 0;
+  for (const reminder of due) {
+    const { task } = reminder;
+    const preferences = task.completed || task.deletedAt ? null : toPreferencesDto(reminder.user.preferences);
+
+    const notified = await prisma.$transaction(async (tx: typeof prisma) => {
+      const claimed: { count: number } = await tx.reminder.updateMany({
+        where: { id: reminder.id, firedAt: null },
+        data: { firedAt: now },
+      });
+      if (claimed.count === 0 || !preferences) return false;
+
+      await createNotification(
+        {
+          userId: reminder.userId,
+          kind: 'reminder',
+          title: `Reminder: ${task.title}`,
+          body: task.dueDate ? `Due ${formatDue(task.dueDate, task.dueAllDay, preferences.timezone ?? 'UTC')}` : null,
+          taskId: task.id,
+          reminderId: reminder.id,
+        },
+        channelsFor(preferences.notifications),
+        tx,
+      );
+      return true;
+    });
+    if (notified) fired += 1;
+  }
+  return fired;
+}
+
+/**
+ * Which due notification a task calls for at `now`, matching the client's due
+ * badges: overdue once its moment (or, all-day, its whole day) has passed, due
+ * soon once it is within the user's due-soon window. Null for neither.
+ */
+function dueKind(task: DueTask, preferences: UserPreferencesDto, now: Date): 'overdue' | 'due_soon' | null {
+  const timeZone = preferences.timezone ?? 'UTC';
+  const overdue = task.dueAllDay
+    ? formatCalendarDate(task.dueDate) < dayInZone(now, timeZone)
+    : task.dueDate < now;
+  if (overdue) return preferences.notifications.overdue ? 'overdue' : null;
+
+  const dueAt = task.dueAllDay ? atTimeOfDay(task.dueDate, 0, timeZone) : task.dueDate;
+  const soon = dueAt.getTime() <= now.getTime() + preferences.dueSoonHours * HOUR_MS;
+  return soon && preferences.notifications.dueSoon ? 'due_soon' : null;
+}
+
+/** The widest due-soon window any user has, in hours; users who never saved one have the default. */
+async function largestDueSoonHours(): Promise<number> {
+  const result: { _max: { dueSoonHours: number | null } } = await prisma.userPreferences.aggregate({
+    _max: { dueSoonHours: true },
+  });
+  return Math.max(result._max.dueSoonHours ?? 0, DEFAULT_PREFERENCES.dueSoonHours);
+}
+
+/**
+ * Adds "due soon" and "overdue" notifications for active tasks, once per task,
+ * kind and due date: moving the due date makes the task eligible again. Tasks
+ * that went overdue more than a week ago are left alone. Only tasks within the
+ * widest due-soon window are loaded, together with their owner's preferences.
+ * Returns how many were added.
+ */
+export async function notifyDueTasks(now: Date = new Date()): Promise<number> {
+  const dueSoonHours = await largestDueSoonHours();
+  const tasks: DueTaskWithPreferences[] = await prisma.task.findMany({
+    where: {
+      completed: false,
+      deletedAt: null,
+      dueDate: {
+        gte: new Date(now.getTime() - (OVERDUE_LOOKBACK_DAYS + 1) * 24 * HOUR_MS),
+        // All-day tasks are stored at UTC midnight, up to a day off from the start of the user's day.
+        lte: new Date(now.getTime() + (dueSoonHours + 24) * HOUR_MS),
+      },
+    },
+    select: {
+      id: true,
+      userId: true,
+      title: true,
+      dueDate: true,
+      dueAllDay: true,
+      user: { select: { preferences: true } },
+    },
+  });
+
+  const candidates: { task: DueTask; kind: 'overdue' | 'due_soon'; key: string; preferences: UserPreferencesDto }[] = [];
+  for (const task of tasks) {
+    const preferences = toPreferencesDto(task.user.preferences);
+    const kind = dueKind(task, preferences, now);
+    if (!kind) continue;
+    const dueAt = task.dueAllDay ? atTimeOfDay(task.dueDate, 24 * 60, preferences.timezone ?? 'UTC') : task.dueDate;
+    if (kind === 'overdue' && dueAt.getTime() < now.getTime() - OVERDUE_LOOKBACK_DAYS * 24 * HOUR_MS) continue;
+    candidates.push({ task, kind, key: `${kind}:${task.id}:${task.dueDate.toISOString()}`, preferences });
+  }
+  if (candidates.length === 0) return 0;
+
+  const existing: { dedupeKey: string }[] = await prisma.notification.findMany({
+    where: { dedupeKey: { in: candidates.map((candidate) => candidate.key) } },
+    select: { dedupeKey: true },
+  });
+  const seen = new Set(existing.map((notification) => notification.dedupeKey));
+
+  let added = 0;
+  for (const { task, kind, key, preferences } of candidates) {
+    if (seen.has(key)) continue;
+    const due = formatDue(task.dueDate, task.dueAllDay, preferences.timezone ?? 'UTC');
+    try {
+      await createNotification(
+        {
+          userId: task.userId,
+          kind,
+          title: kind === 'overdue' ? `Overdue: ${task.title}` : `Due soon: ${task.title}`,
+          body: kind === 'overdue' ? `Was due ${due}` : `Due ${due}`,
+          taskId: task.id,
+          dedupeKey: key,
+        },
+        channelsFor(preferences.notifications),
+      );
+      added += 1;
+    } catch (error) {
+      // Another instance got there first.
+      if (!isUniqueConstraintError(error)) throw error;
+    }
+  }
+  return added;
+}
+
+/**
+ * Fires due reminders, adds due-soon and overdue notifications and sends pending
+ * notifications at startup and then every
+ * REMINDER_INTERVAL_SECONDS. A run is skipped while the previous one is still
+ * going. Returns a function that stops the job.
+ */
+export function startReminderJob(): () => void {
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    fireDueReminders()
+      .then(() => notifyDueTasks())
+      .then(() => deliverPendingNotifications())
+      .catch((error: unknown) => {
+        // eslint-disable-next-line no-console
+        console.error('Reminder scheduler failed', error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  run();
+  const timer = setInterval(run, env.notifications.schedulerIntervalSeconds * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
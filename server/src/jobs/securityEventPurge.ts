@@ -0,0 +1,37 @@
+import prisma from '../prisma';
+import { env } from '../config/env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Deletes security events older than SECURITY_EVENT_RETENTION_DAYS.
+ * Returns the number of events removed.
+ */
+export async function purgeExpiredSecurityEvents(now: Date = new Date()): Promise<number> {
+  if (env.securityEventRetentionDays <= 0) return 0;
+  const cutoff = new Date(now.getTime() - env.securityEventRetentionDays * DAY_MS);
+  const result: { count: number } = await prisma.securityEvent.deleteMany({
+    where: { createdAt: { lt: cutoff } },
+  });
+  return result.count;
+}
+
+/**
+ * Runs the purge at startup and then hourly. Returns a function that stops the job.
+ */
+export function startSecurityEventPurgeJob(): () => void {
+  if (env.securityEventRetentionDays <= 0) return () => undefined;
+
+  const run = () => {
+    purgeExpiredSecurityEvents().catch((error: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error('Security event purge failed', error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,38 @@
+import prisma from '../prisma';
+import { env } from '../config/env';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently deletes tasks that have been in the trash longer than the retention period.
+ * Returns the number of tasks removed.
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  if (env.trashRetentionDays <= 0) return 0;
+  const cutoff = new Date(now.getTime() - env.trashRetentionDays * DAY_MS);
+  const result: { count: number } = await prisma.task.deleteMany({
+    where: { deletedAt: { lt: cutoff } },
+  });
+  return result.count;
+}
+
+/**
+ * Runs the trash purge at startup and then every TRASH_PURGE_INTERVAL_MINUTES.
+ * Returns a function that stops the job.
+ */
+export function startTrashPurgeJob(): () => void {
+  if (env.trashRetentionDays <= 0) return () => undefined;
+
+  const run = () => {
+    purgeExpiredTrash().catch((error: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error('Trash purge failed', error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, env.trashPurgeIntervalMinutes * 60 * 1000);
+  // Do not keep the process alive just for the purge.
+  timer.unref();
+  return () => clearInterval(timer);
+}
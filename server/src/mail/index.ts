@@ -0,0 +1,37 @@
+import { env } from '../config/env';
+import {
+  createConsoleTransport,
+  createFileTransport,
+  createSmtpTransport,
+  type MailMessage,
+  type MailTransport,
+} from './transports';
+
+export type { MailMessage, MailTransport } from './transports';
+export * from './templates';
+
+let transport: MailTransport | null = null;
+
+function createTransport(): MailTransport {
+  switch (env.mail.transport) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport();
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${String(env.mail.transport)}"`);
+  }
+}
+
+/** Replaces the configured transport, e.g. with an in-memory one in tests. */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+/** Sends a message from MAIL_FROM through the configured transport. */
+export async function sendMail(message: MailMessage): Promise<void> {
+  transport ??= createTransport();
+  await transport.send({ ...message, from: env.mail.from });
+}
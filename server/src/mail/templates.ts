@@ -0,0 +1,116 @@
+import { env } from '../config/env';
+import type { MailMessage } from './transports';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Link into the web client, e.g. appLink('/reset-password', { token }). */
+export function appLink(pathname: string, params: Record<string, string>): string {
+  return `${env.appUrl}${pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/** Plain layout shared by every transactional email: a greeting, a paragraph and one button. */
+function actionEmail(params: {
+  to: string;
+  subject: string;
+  username: string;
+  intro: string;
+  actionLabel: string;
+  actionUrl: string;
+  outro: string;
+}): MailMessage {
+  const { to, subject, username, intro, actionLabel, actionUrl, outro } = params;
+  return {
+    to,
+    subject,
+    text: `Hi ${username},\n\n${intro}\n\n${actionLabel}: ${actionUrl}\n\n${outro}\n`,
+    html: [
+      `<p>Hi ${escapeHtml(username)},</p>`,
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(actionUrl)}">${escapeHtml(actionLabel)}</a></p>`,
+      `<p>${escapeHtml(outro)}</p>`,
+    ].join('\n'),
+  };
+}
+
+export function passwordResetEmail(user: { email: string; username: string }, token: string): MailMessage {
+  return actionEmail({
+    to: user.email,
+    subject: 'Reset your Vitasoft password',
+    username: user.username,
+    intro: `We received a request to reset your password. The link below is valid for ${env.passwordResetTtlMinutes} minutes and can be used once.`,
+    actionLabel: 'Reset password',
+    actionUrl: appLink('/reset-password', { token }),
+    outro: "If you didn't ask for this, you can ignore this email; your password stays the same.",
+  });
+}
+
+export function verificationEmail(user: { email: string; username: string }, token: string): MailMessage {
+  return actionEmail({
+    to: user.email,
+    subject: 'Confirm your Vitasoft email address',
+    username: user.username,
+    intro: `Please confirm that this is your email address. The link below is valid for ${env.emailVerificationTtlHours} hours.`,
+    actionLabel: 'Verify email',
+    actionUrl: appLink('/verify-email', { token }),
+    outro: "If you didn't create a Vitasoft account, you can ignore this email.",
+  });
+}
+
+export function emailChangeEmail(user: { username: string }, newEmail: string, token: string): MailMessage {
+  return actionEmail({
+    to: newEmail,
+    subject: 'Confirm your new Vitasoft email address',
+    username: user.username,
+    intro: `Please confirm that you want to use this address for your Vitasoft account. The link below is valid for ${env.emailVerificationTtlHours} hours.`,
+    actionLabel: 'Confirm new email',
+    actionUrl: appLink('/confirm-email', { token }),
+    outro: "If you didn't ask for this, you can ignore this email; nothing changes until the link is used.",
+  });
+}
+
+/** Heads-up to the old address, so a hijacked session can't move the account away unnoticed. */
+export function emailChangeNoticeEmail(user: { email: string; username: string }, newEmail: string): MailMessage {
+  return actionEmail({
+    to: user.email,
+    subject: 'Your Vitasoft email address is being changed',
+    username: user.username,
+    intro: `Someone signed in to your account asked to change its email address to ${newEmail}. It changes once the link sent there is used.`,
+    actionLabel: 'Review your account',
+    actionUrl: `${env.appUrl}/profile`,
+    outro: "If this wasn't you, change your password and sign out your other sessions right away.",
+  });
+}
+
+export function accountDeletionEmail(user: { email: string; username: string }, deleteAt: Date): MailMessage {
+  return actionEmail({
+    to: user.email,
+    subject: 'Your Vitasoft account will be deleted',
+    username: user.username,
+    intro: `Your account and all of its tasks are scheduled for deletion on ${deleteAt.toUTCString()}. You have been signed out everywhere.`,
+    actionLabel: 'Sign in to keep your account',
+    actionUrl: `${env.appUrl}/login`,
+    outro: 'Signing in before that date cancels the deletion. After it, your data cannot be recovered.',
+  });
+}
+
+/** A notification sent by email, e.g. a task reminder; links to the task when there is one. */
+export function notificationEmail(
+  user: { email: string; username: string },
+  notification: { title: string; body: string | null; taskId: number | null },
+): MailMessage {
+  return actionEmail({
+    to: user.email,
+    subject: notification.title,
+    username: user.username,
+    intro: notification.body ?? notification.title,
+    actionLabel: notification.taskId !== null ? 'Open task' : 'Open Vitasoft',
+    actionUrl: notification.taskId !== null ? `${env.appUrl}/tasks/${notification.taskId}` : env.appUrl,
+    outro: 'You can change which notifications you get by email on your profile page.',
+  });
+}
@@ -0,0 +1,61 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { env } from '../config/env';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers a fully addressed message. Implementations are picked by MAIL_TRANSPORT.
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/** Sends through an SMTP server configured with the SMTP_* variables. */
+export function createSmtpTransport(): MailTransport {
+  const { host, port, secure, user, pass } = env.mail.smtp;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    ...(user && pass ? { auth: { user, pass } } : {}),
+  });
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+/**
+ * Writes each message as an .eml file to MAIL_OUTPUT_DIR, for local development
+ * and tests that need to read the links out of sent mail.
+ */
+export function createFileTransport(outputDir: string = env.mail.outputDir): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  return {
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      await fs.mkdir(outputDir, { recursive: true });
+      const safeTo = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeTo}.eml`;
+      await fs.writeFile(path.join(outputDir, fileName), info.message as Buffer);
+    },
+  };
+}
+
+/** Prints each message to stdout instead of sending it. */
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      // eslint-disable-next-line no-console
+      console.log(`\n--- Mail to ${message.to} ---\nSubject: ${message.subject}\n\n${message.text}\n---\n`);
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import type { NextFunction, Request, Response } from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AccessTokenScope } from '../types/auth';
+import { parseScopes, serializeScopes } from '../utils/accessTokens';
+import { hashToken } from '../utils/tokens';
+import { authenticate, rejectAccessTokens, requireScope, type AuthenticatedRequest } from './auth.middleware';
+
+const { findUnique } = vi.hoisted(() => ({ findUnique: vi.fn() }));
+
+vi.mock('../prisma', () => ({
+  default: {
+    personalAccessToken: { findUnique, update: vi.fn() },
+  },
+}));
+
+const TOKEN = 'vst_0123456789abcdef';
+
+function mockResponse() {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+/** Runs `authenticate` and then `requireScope(...scopes)`, as a route does. */
+async function callWithToken(storedScopes: string, ...scopes: AccessTokenScope[]) {
+  findUnique.mockResolvedValue({
+    id: 7,
+    userId: 42,
+    scopes: storedScopes,
+    expiresAt: null,
+    lastUsedAt: new Date(),
+    revokedAt: null,
+  });
+  const req = { headers: { authorization: `Bearer ${TOKEN}` } } as AuthenticatedRequest;
+  const res = mockResponse();
+  const next = vi.fn();
+
+  await authenticate(req, res as unknown as Response, next as NextFunction);
+  expect(next).toHaveBeenCalledTimes(1);
+  next.mockClear();
+  requireScope(...scopes)(req, res as unknown as Response, next as NextFunction);
+  return { req, res, next };
+}
+
+beforeEach(() => {
+  findUnique.mockReset();
+});
+
+describe('requireScope', () => {
+  it('lets a token with the scope through', async () => {
+    const { req, next } = await callWithToken('tasks:read,tasks:write', 'tasks:write');
+
+    expect(findUnique).toHaveBeenCalledWith({ where: { tokenHash: hashToken(TOKEN) } });
+    expect(req).toMatchObject({ userId: 42, accessTokenId: 7, accessTokenScopes: ['tasks:read', 'tasks:write'] });
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a token without the scope', async () => {
+    const { res, next } = await callWithToken('tasks:read', 'tasks:write');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'INSUFFICIENT_SCOPE' }));
+  });
+
+  it('needs every scope it is given', async () => {
+    const { res, next } = await callWithToken('activity:read', 'activity:read', 'tasks:write');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('ignores stored scopes it does not know', async () => {
+    const { res } = await callWithToken('tasks:read,admin', 'tasks:read');
+
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('does not limit requests made with a session', () => {
+    const req = { userId: 42, sessionId: 3 } as AuthenticatedRequest;
+    const res = mockResponse();
+    const next = vi.fn();
+
+    requireScope('tasks:write')(req, res as unknown as Response, next as NextFunction);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
+
+describe('authenticate with an access token', () => {
+  it.each([
+    ['revoked', { revokedAt: new Date() }],
+    ['expired', { expiresAt: new Date(Date.now() - 1000) }],
+  ])('refuses a %s token', async (_label, change) => {
+    findUnique.mockResolvedValue({
+      id: 7,
+      userId: 42,
+      scopes: 'tasks:read',
+      expiresAt: null,
+      lastUsedAt: new Date(),
+      revokedAt: null,
+      ...change,
+    });
+    const req = { headers: { authorization: `Bearer ${TOKEN}` } } as AuthenticatedRequest;
+    const res = mockResponse();
+    const next = vi.fn();
+
+    await authenticate(req, res as unknown as Response, next as NextFunction);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+describe('rejectAccessTokens', () => {
+  it('refuses access tokens on account endpoints', () => {
+    const req = { headers: { authorization: `Bearer ${TOKEN}` } } as Request;
+    const res = mockResponse();
+    const next = vi.fn();
+
+    rejectAccessTokens(req, res as unknown as Response, next as NextFunction);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+describe('scope storage', () => {
+  it('stores scopes in a fixed order and reads back only known ones', () => {
+    expect(serializeScopes(['activity:read', 'tasks:read'])).toBe('tasks:read,activity:read');
+    expect(parseScopes('tasks:write,,unknown,activity:read')).toEqual(['tasks:write', 'activity:read']);
+  });
+});
@@ -1,18 +1,67 @@
 import type { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import prisma from '../prisma';
 import { env } from '../config/env';
+import type { AccessTokenScope } from '../types/auth';
+import { isAccessToken, parseScopes } from '../utils/accessTokens';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { hashToken } from '../utils/tokens';
+
+// Writing lastUsedAt on every scripted request would be wasteful; a minute is precise enough.
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
 
 /**
- * Extension of Express's Request object that includes the authenticated user's id.
+ * Extension of Express's Request object that includes the authenticated user's id
+ * and the session the access token was issued for.
  */
 export interface AuthenticatedRequest extends Request {
   userId?: number;
+  sessionId?: number;
+  /** Set when the request was made with a personal access token instead of a session. */
+  accessTokenId?: number;
+  accessTokenScopes?: AccessTokenScope[];
+}
+
+interface AccessTokenRecord {
+  id: number;
+  userId: number;
+  scopes: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+async function authenticateAccessToken(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  token: string,
+) {
+  const now = new Date();
+  const record: AccessTokenRecord | null = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+    return res.status(401).json({ message: 'Invalid, expired or revoked access token' });
+  }
+
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await prisma.personalAccessToken.update({ where: { id: record.id }, data: { lastUsedAt: now } });
+  }
+
+  req.userId = record.userId;
+  req.accessTokenId = record.id;
+  req.accessTokenScopes = parseScopes(record.scopes);
+  return next();
 }
 
 /**
  * Middleware that validates a Bearer JWT and attaches the user id to the request.
+ * The token's session must still be active, so logging out takes effect immediately.
+ * Personal access tokens are accepted too; routes limit them with `requireScope`.
  */
-export const authenticate = (
+export const authenticate = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction,
@@ -25,17 +74,78 @@ export const authenticate = (
 
   const token = authHeader.substring('Bearer '.length);
 
+  if (isAccessToken(token)) {
+    try {
+      return await authenticateAccessToken(req, res, next, token);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  let payload: { sub?: number; sid?: number } | string;
   try {
-    const payload = jwt.verify(token, env.jwtSecret) as { sub?: number } | string;
+    payload = jwt.verify(token, env.jwtSecret) as { sub?: number; sid?: number } | string;
+  } catch {
+    return res.status(401).json({ message: 'Invalid or expired token' });
+  }
+
+  if (typeof payload === 'string' || typeof payload.sub !== 'number' || typeof payload.sid !== 'number') {
+    return res.status(401).json({ message: 'Invalid token payload' });
+  }
+
+  try {
+    const session: { userId: number; revokedAt: Date | null } | null = await prisma.session.findUnique({
+      where: { id: payload.sid },
+      select: { userId: true, revokedAt: true },
+    });
 
-    if (typeof payload === 'string' || typeof payload.sub !== 'number') {
-      return res.status(401).json({ message: 'Invalid token payload' });
+    if (!session || session.userId !== payload.sub || session.revokedAt) {
+      // A signed token for a dead session: someone is still using credentials that were signed out.
+      await recordSecurityEvent(req, {
+        type: 'access_denied',
+        outcome: 'blocked',
+        userId: payload.sub,
+        detail: 'Session has been revoked',
+      });
+      return res.status(401).json({ message: 'Session has been revoked' });
     }
 
     req.userId = payload.sub;
+    req.sessionId = payload.sid;
     return next();
-  } catch {
-    return res.status(401).json({ message: 'Invalid or expired token' });
+  } catch (error) {
+    return next(error);
   }
 };
 
+/**
+ * Lets personal access tokens through only if they carry every given scope.
+ * Session requests are not limited. Use after `authenticate`.
+ */
+export const requireScope =
+  (...scopes: AccessTokenScope[]) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const granted = req.accessTokenScopes;
+    if (granted && !scopes.every((scope) => granted.includes(scope))) {
+      return res.status(403).json({
+        message: `This access token needs the ${scopes.join(', ')} scope`,
+        code: 'INSUFFICIENT_SCOPE',
+      });
+    }
+    return next();
+  };
+
+/**
+ * Refuses personal access tokens outright, for account endpoints that only a
+ * signed-in user may call (a token must not mint more tokens or change the password).
+ */
+export const rejectAccessTokens = (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ') && isAccessToken(authHeader.substring('Bearer '.length))) {
+    return res.status(403).json({
+      message: 'Access tokens cannot be used for account endpoints',
+      code: 'ACCESS_TOKEN_NOT_ALLOWED',
+    });
+  }
+  return next();
+};
@@ -0,0 +1,29 @@
+import type { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { env } from '../config/env';
+import { AVATAR_MIME_TYPES } from '../utils/avatars';
+
+const avatarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: env.avatarMaxBytes, files: 1 },
+  // Other types are skipped, leaving req.file unset for the controller to reject.
+  fileFilter: (_req, file, callback) => callback(null, AVATAR_MIME_TYPES.includes(file.mimetype)),
+});
+
+/**
+ * Reads a multipart `avatar` file into memory as `req.file`. Files over
+ * AVATAR_MAX_BYTES get a 413, other malformed uploads a 400.
+ */
+export const receiveAvatar = (req: Request, res: Response, next: NextFunction) => {
+  avatarUpload.single('avatar')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        const maxMb = Math.round((env.avatarMaxBytes / (1024 * 1024)) * 10) / 10;
+        return res.status(413).json({ message: `Avatar must be at most ${maxMb} MB`, code: 'FILE_TOO_LARGE' });
+      }
+      return res.status(400).json({ message: error.message });
+    }
+    if (error) return next(error);
+    return next();
+  });
+};
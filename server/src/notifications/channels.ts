@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { env } from '../config/env';
+import { notificationEmail, sendMail } from '../mail';
+import { isBlockedIpLiteral, publicOnlyLookup } from './webhookTarget';
+
+/** A stored notification on its way out, with what the channels need to know about its user. */
+export interface OutgoingNotification {
+  id: number;
+  kind: string;
+  title: string;
+  body: string | null;
+  taskId: number | null;
+  createdAt: Date;
+  user: {
+    id: number;
+    email: string;
+    username: string;
+    webhookUrl: string | null;
+    /** Key the webhook payload is signed with; receivers get it from their preferences. */
+    webhookSecret: string | null;
+  };
+}
+
+/**
+ * Sends a notification somewhere. Throwing marks the attempt as failed so the
+ * delivery is retried later. Implementations are picked by NOTIFICATION_CHANNELS.
+ */
+export interface NotificationChannel {
+  deliver(notification: OutgoingNotification): Promise<void>;
+}
+
+/** The web client reads notifications from the database, so storing one is all it takes. */
+export function createInAppChannel(): NotificationChannel {
+  return {
+    async deliver() {},
+  };
+}
+
+/** Emails the notification to the user's address through the mail transport. */
+export function createEmailChannel(): NotificationChannel {
+  return {
+    async deliver(notification) {
+      await sendMail(notificationEmail(notification.user, notification));
+    },
+  };
+}
+
+/**
+ * Signature header value for a webhook body: `t=<unix seconds>,v1=<hex HMAC-SHA256>`
+ * of `<t>.<body>`, keyed with the user's webhook secret. Receivers recompute it and
+ * reject old timestamps, so a captured request can't be replayed later.
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/** POSTs `body` and resolves with the status code; redirects are not followed. */
+function postJson(url: URL, body: string, headers: Record<string, string>, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode ?? 0));
+        res.on('error', reject);
+      },
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * POSTs the notification as JSON to the user's webhook URL, signed in the
+ * `X-Vitasoft-Signature` header. Only public addresses are reached, checked on
+ * every request. Anything but a 2xx answer (a redirect included) is a failure.
+ */
+export function createWebhookChannel(timeoutMs: number = env.notifications.webhookTimeoutMs): NotificationChannel {
+  return {
+    async deliver(notification) {
+      const { webhookUrl, webhookSecret } = notification.user;
+      if (!webhookUrl) throw new Error('No webhook URL is set');
+      if (!webhookSecret) throw new Error('No webhook secret is set');
+
+      const url = new URL(webhookUrl);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('Webhook URL must be http(s)');
+      if (isBlockedIpLiteral(url)) throw new Error('Webhook URL points to a non-public address');
+
+      const body = JSON.stringify({
+        id: notification.id,
+        kind: notification.kind,
+        title: notification.title,
+        body: notification.body,
+        taskId: notification.taskId,
+        taskUrl: notification.taskId !== null ? `${env.appUrl}/tasks/${notification.taskId}` : null,
+        createdAt: notification.createdAt.toISOString(),
+      });
+      const status = await postJson(
+        url,
+        body,
+        {
+          'User-Agent': 'Vitasoft-Webhook',
+          'X-Vitasoft-Signature': signWebhookPayload(body, webhookSecret, Math.floor(Date.now() / 1000)),
+        },
+        timeoutMs,
+      );
+      if (status < 200 || status >= 300) throw new Error(`Webhook answered ${status}`);
+    },
+  };
+}
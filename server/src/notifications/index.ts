@@ -0,0 +1,233 @@
+import { env, type NotificationChannelKind } from '../config/env';
+import prisma from '../prisma';
+import type { NotificationPreferencesDto } from '../types/auth';
+import type { NotificationKind } from '../types/notification';
+import {
+  createEmailChannel,
+  createInAppChannel,
+  createWebhookChannel,
+  type NotificationChannel,
+  type OutgoingNotification,
+} from './channels';
+
+export type { NotificationChannel, OutgoingNotification } from './channels';
+
+/** How long a claimed delivery is held before another run may try it again. */
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+const channels = new Map<NotificationChannelKind, NotificationChannel>();
+
+function createChannel(kind: NotificationChannelKind): NotificationChannel {
+  switch (kind) {
+    case 'in_app':
+      return createInAppChannel();
+    case 'email':
+      return createEmailChannel();
+    case 'webhook':
+      return createWebhookChannel();
+    default:
+      throw new Error(`Unknown notification channel "${String(kind)}"`);
+  }
+}
+
+/** Replaces one channel, e.g. with one that records what it was given in tests. */
+export function setNotificationChannel(kind: NotificationChannelKind, next: NotificationChannel | null): void {
+  if (next) channels.set(kind, next);
+  else channels.delete(kind);
+}
+
+function getChannel(kind: NotificationChannelKind): NotificationChannel {
+  let channel = channels.get(kind);
+  if (!channel) {
+    channel = createChannel(kind);
+    channels.set(kind, channel);
+  }
+  return channel;
+}
+
+/**
+ * The channels a user's notifications go out on: always in-app, by email when
+ * they asked for it, and to their webhook when one is set. Channels left out of
+ * NOTIFICATION_CHANNELS are never used.
+ */
+export function channelsFor(preferences: NotificationPreferencesDto): NotificationChannelKind[] {
+  const wanted: NotificationChannelKind[] = ['in_app'];
+  if (preferences.email) wanted.push('email');
+  if (preferences.webhookUrl) wanted.push('webhook');
+  return wanted.filter((kind) => env.notifications.channels.includes(kind));
+}
+
+const CHANNEL_NAMES: Record<NotificationChannelKind, string> = {
+  in_app: 'in the app',
+  email: 'by email',
+  webhook: 'to your webhook',
+};
+
+/**
+ * What the user is told about a delivery that was given up on. Never the error
+ * itself: for a webhook it would tell them what answered at the address they
+ * chose, which makes the server a probe for whatever it can reach.
+ */
+const FAILURE_SUMMARIES: Record<NotificationChannelKind, string> = {
+  in_app: 'In-app delivery failed.',
+  email: 'Email delivery failed.',
+  webhook: 'Webhook delivery failed.',
+};
+
+export interface NewNotification {
+  userId: number;
+  kind: NotificationKind;
+  title: string;
+  body?: string | null;
+  taskId?: number | null;
+  reminderId?: number | null;
+  /** Names the event; a second notification with the same key is refused. */
+  dedupeKey?: string | null;
+}
+
+/**
+ * Stores a notification with a pending delivery per channel; the scheduler sends
+ * them. Pass a transaction client as `db` to store it together with other writes.
+ * Throws Prisma's unique constraint error (P2002) when `dedupeKey` was used before.
+ */
+export async function createNotification(
+  notification: NewNotification,
+  channelKinds: NotificationChannelKind[],
+  db: typeof prisma = prisma,
+): Promise<{ id: number }> {
+  return db.notification.create({
+    data: {
+      userId: notification.userId,
+      kind: notification.kind,
+      title: notification.title,
+      body: notification.body ?? null,
+      taskId: notification.taskId ?? null,
+      reminderId: notification.reminderId ?? null,
+      dedupeKey: notification.dedupeKey ?? null,
+      deliveries: { create: channelKinds.map((channel) => ({ channel })) },
+    },
+    select: { id: true },
+  });
+}
+
+/** Delay before retrying after `attempts` failed attempts: 30s, 1m, 2m, ... up to an hour. */
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+interface PendingDelivery {
+  id: number;
+  channel: NotificationChannelKind;
+  attempts: number;
+  notification: {
+    id: number;
+    kind: NotificationKind;
+    title: string;
+    body: string | null;
+    taskId: number | null;
+    createdAt: Date;
+    user: {
+      id: number;
+      email: string;
+      username: string;
+      preferences: { webhookUrl: string | null; webhookSecret: string | null } | null;
+    };
+  };
+}
+
+/**
+ * Sends deliveries that are due. Each one is claimed first, so two server
+ * instances never send the same delivery at once; failures are retried with a
+ * growing delay until NOTIFICATION_MAX_ATTEMPTS. When an email or webhook delivery
+ * is given up on, the user gets an in-app system notification saying so; the error
+ * itself is only kept on the delivery.
+ * Returns how many were delivered.
+ */
+export async function deliverPendingNotifications(now: Date = new Date()): Promise<number> {
+  const pending: PendingDelivery[] = await prisma.notificationDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: DELIVERY_BATCH_SIZE,
+    select: {
+      id: true,
+      channel: true,
+      attempts: true,
+      notification: {
+        select: {
+          id: true,
+          kind: true,
+          title: true,
+          body: true,
+          taskId: true,
+          createdAt: true,
+          user: {
+            select: {
+              id: true,
+              email: true,
+              username: true,
+              preferences: { select: { webhookUrl: true, webhookSecret: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  let delivered = 0;
+  for (const delivery of pending) {
+    const claimed: { count: number } = await prisma.notificationDelivery.updateMany({
+      where: { id: delivery.id, status: 'pending', attempts: delivery.attempts },
+      data: { attempts: { increment: 1 }, nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+    });
+    if (claimed.count === 0) continue;
+
+    const attempts = delivery.attempts + 1;
+    const { user, ...notification } = delivery.notification;
+    const outgoing: OutgoingNotification = {
+      ...notification,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        webhookUrl: user.preferences?.webhookUrl ?? null,
+        webhookSecret: user.preferences?.webhookSecret ?? null,
+      },
+    };
+
+    try {
+      await getChannel(delivery.channel).deliver(outgoing);
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'delivered', deliveredAt: new Date(), lastError: null },
+      });
+      delivered += 1;
+    } catch (error) {
+      const gaveUp = attempts >= env.notifications.maxDeliveryAttempts;
+      const lastError = (error instanceof Error ? error.message : String(error)).slice(0, 500);
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: gaveUp ? 'failed' : 'pending',
+          nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+          lastError,
+        },
+      });
+      if (gaveUp && delivery.channel !== 'in_app') {
+        await createNotification(
+          {
+            userId: user.id,
+            kind: 'system',
+            title: `Couldn't send a notification ${CHANNEL_NAMES[delivery.channel]}`,
+            body: `${FAILURE_SUMMARIES[delivery.channel]} "${notification.title}" was not delivered after ${attempts} attempts.`,
+            taskId: notification.taskId,
+          },
+          ['in_app'],
+        );
+      }
+    }
+  }
+  return delivered;
+}
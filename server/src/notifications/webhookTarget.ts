@@ -0,0 +1,115 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Addresses a webhook may not reach: loopback, private, link-local (including
+ * cloud metadata at 169.254.169.254), carrier-grade NAT, multicast, reserved and
+ * documentation ranges. Without this, a user could make the server POST to
+ * services that are only reachable from inside its network.
+ */
+const BLOCKED_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.88.99.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  // BlockList checks IPv4-mapped addresses (::ffff:a.b.c.d) against the IPv4 ranges itself;
+  // blocking ::ffff:0:0/96 here would block every IPv4 address. NAT64 forms it doesn't unwrap.
+  ['64:ff9b::', 96, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['fec0::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const blocked = new net.BlockList();
+for (const [address, prefix, family] of BLOCKED_RANGES) {
+  blocked.addSubnet(address, prefix, family);
+}
+
+/** Whether `address` is a public IP address a webhook may be sent to. */
+export function isPublicAddress(address: string): boolean {
+  const version = net.isIP(address);
+  if (version === 0) return false;
+  return !blocked.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/** Hostname of a URL without the brackets around IPv6 literals. */
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Checks that a webhook URL points at public addresses only: an IP literal is
+ * checked as is, a host name is resolved and every address it has must be public.
+ * Returns an error message, or null when the URL may be used.
+ */
+export async function checkWebhookTarget(webhookUrl: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+  if (url.username || url.password) return 'Webhook URL must not contain credentials';
+
+  const host = hostOf(url);
+  if (net.isIP(host)) {
+    return isPublicAddress(host) ? null : 'Webhook URL must point to a public address';
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return "Webhook URL's host name could not be resolved";
+  }
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    return 'Webhook URL must point to a public address';
+  }
+  return null;
+}
+
+/**
+ * DNS lookup for outgoing webhook requests that fails when the host resolves to
+ * an address that isn't public. It checks the very addresses the socket connects
+ * to, so a host that resolved to a public address when the URL was saved can't
+ * later be pointed inside the network (DNS rebinding).
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, verbatim: true }, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const entries = Array.isArray(address) ? address : [{ address, family }];
+    if (!entries.every((entry) => isPublicAddress(entry.address))) {
+      const refused: NodeJS.ErrnoException = new Error(`Webhook host ${hostname} resolves to a non-public address`);
+      refused.code = 'EADDRNOTAVAIL';
+      callback(refused, address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+/** Whether a URL's host is an IP literal that isn't public; those never reach the lookup. */
+export function isBlockedIpLiteral(url: URL): boolean {
+  const host = hostOf(url);
+  return net.isIP(host) !== 0 && !isPublicAddress(host);
+}
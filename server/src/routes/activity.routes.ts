@@ -1,11 +1,13 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
 import { getActivityLogs } from '../controllers/activity.controller';
+import { revertToActivity } from '../controllers/task.controller';
 
 const router = Router();
 
 router.use(authenticate);
 
-router.get('/', getActivityLogs);
+router.get('/', requireScope('activity:read'), getActivityLogs);
+router.post('/:id/revert', requireScope('activity:read', 'tasks:write'), revertToActivity);
 
 export default router;
@@ -1,6 +1,43 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
-import { register, login, changePassword, getMe } from '../controllers/auth.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import {
+  register,
+  login,
+  refresh,
+  logout,
+  logoutAll,
+  getSessions,
+  revokeSession,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  changePassword,
+} from '../controllers/auth.controller';
+import {
+  getMe,
+  updateMe,
+  requestEmailChange,
+  cancelEmailChange,
+  confirmEmailChange,
+  uploadAvatar,
+  removeAvatar,
+  exportMyData,
+  deleteMe,
+  getPreferences,
+  updatePreferences,
+} from '../controllers/profile.controller';
+import {
+  getMfaStatus,
+  setupMfa,
+  enableMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+  verifyMfaLogin,
+} from '../controllers/mfa.controller';
+import { getSecurityEvents } from '../controllers/security.controller';
+import { getAccessTokens, createAccessToken, revokeAccessToken } from '../controllers/accessToken.controller';
+import { authenticate, rejectAccessTokens } from '../middleware/auth.middleware';
+import { receiveAvatar } from '../middleware/upload.middleware';
 
 const wrap = (fn: (req: Request, res: Response) => Promise<unknown>) =>
   (req: Request, res: Response, next: NextFunction) =>
@@ -8,9 +45,41 @@ const wrap = (fn: (req: Request, res: Response) => Promise<unknown>) =>
 
 const router = Router();
 
+// Account endpoints are for signed-in users only, never for personal access tokens.
+router.use(rejectAccessTokens);
+
 router.post('/register', wrap(register));
 router.post('/login', wrap(login));
+router.post('/mfa/verify', wrap(verifyMfaLogin));
+router.post('/refresh', wrap(refresh));
+router.post('/logout', wrap(logout));
+router.post('/logout-all', authenticate, wrap(logoutAll));
+router.get('/sessions', authenticate, wrap(getSessions));
+router.delete('/sessions/:id', authenticate, wrap(revokeSession));
+router.get('/security-events', authenticate, wrap(getSecurityEvents));
+router.get('/tokens', authenticate, wrap(getAccessTokens));
+router.post('/tokens', authenticate, wrap(createAccessToken));
+router.delete('/tokens/:id', authenticate, wrap(revokeAccessToken));
+router.post('/forgot-password', wrap(forgotPassword));
+router.post('/reset-password', wrap(resetPassword));
+router.post('/verify-email', wrap(verifyEmail));
+router.post('/resend-verification', wrap(resendVerification));
+router.post('/confirm-email-change', wrap(confirmEmailChange));
 router.get('/me', authenticate, wrap(getMe));
+router.put('/me', authenticate, wrap(updateMe));
+router.delete('/me', authenticate, wrap(deleteMe));
+router.get('/me/export', authenticate, wrap(exportMyData));
+router.get('/me/preferences', authenticate, wrap(getPreferences));
+router.put('/me/preferences', authenticate, wrap(updatePreferences));
+router.post('/me/email', authenticate, wrap(requestEmailChange));
+router.delete('/me/email', authenticate, wrap(cancelEmailChange));
+router.put('/me/avatar', authenticate, receiveAvatar, wrap(uploadAvatar));
+router.delete('/me/avatar', authenticate, wrap(removeAvatar));
+router.get('/mfa', authenticate, wrap(getMfaStatus));
+router.post('/mfa/setup', authenticate, wrap(setupMfa));
+router.post('/mfa/enable', authenticate, wrap(enableMfa));
+router.post('/mfa/disable', authenticate, wrap(disableMfa));
+router.post('/mfa/recovery-codes', authenticate, wrap(regenerateRecoveryCodes));
 router.put('/change-password', authenticate, wrap(changePassword));
 
 export default router;
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getAvatar } from '../controllers/avatar.controller';
+
+const router = Router();
+
+// No `authenticate`: requests carry a signed URL instead (see utils/avatars.ts).
+router.get('/:userId/:size', getAvatar);
+
+export default router;
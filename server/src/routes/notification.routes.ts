@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+import {
+  getNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  dismissNotification,
+  dismissAllNotifications,
+} from '../controllers/notification.controller';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/', requireScope('tasks:read'), getNotifications);
+router.get('/unread-count', requireScope('tasks:read'), getUnreadCount);
+router.post('/read-all', requireScope('tasks:write'), markAllNotificationsRead);
+router.delete('/', requireScope('tasks:write'), dismissAllNotifications);
+router.post('/:id/read', requireScope('tasks:write'), markNotificationRead);
+router.delete('/:id', requireScope('tasks:write'), dismissNotification);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+import {
+  getProjects,
+  getProjectById,
+  createProject,
+  updateProject,
+  deleteProject,
+} from '../controllers/project.controller';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/', requireScope('tasks:read'), getProjects);
+router.post('/', requireScope('tasks:write'), createProject);
+router.get('/:id', requireScope('tasks:read'), getProjectById);
+router.put('/:id', requireScope('tasks:write'), updateProject);
+router.patch('/:id', requireScope('tasks:write'), updateProject);
+router.delete('/:id', requireScope('tasks:write'), deleteProject);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+import { getTags, createTag, updateTag, deleteTag } from '../controllers/tag.controller';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/', requireScope('tasks:read'), getTags);
+router.post('/', requireScope('tasks:write'), createTag);
+router.put('/:id', requireScope('tasks:write'), updateTag);
+router.patch('/:id', requireScope('tasks:write'), updateTag);
+router.delete('/:id', requireScope('tasks:write'), deleteTag);
+
+export default router;
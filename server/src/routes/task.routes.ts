@@ -1,23 +1,55 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
 import {
   createTask,
   getTasks,
+  getTaskSummary,
+  getPlanner,
   getTaskById,
   updateTask,
   deleteTask,
+  getTrash,
+  restoreTask,
+  deleteTaskPermanently,
+  emptyTrash,
 } from '../controllers/task.controller';
+import {
+  getChecklist,
+  addChecklistItem,
+  updateChecklistItem,
+  reorderChecklist,
+  deleteChecklistItem,
+} from '../controllers/checklist.controller';
+import { getReminders, addReminder, deleteReminder } from '../controllers/reminder.controller';
+import { getTaskHistory } from '../controllers/activity.controller';
 
 const router = Router();
 
 router.use(authenticate);
 
-router.get('/', getTasks);
-router.post('/', createTask);
-router.get('/:id', getTaskById);
-router.put('/:id', updateTask);
-router.patch('/:id', updateTask);
-router.delete('/:id', deleteTask);
+router.get('/', requireScope('tasks:read'), getTasks);
+router.get('/summary', requireScope('tasks:read'), getTaskSummary);
+router.get('/planner', requireScope('tasks:read'), getPlanner);
+router.get('/trash', requireScope('tasks:read'), getTrash);
+router.delete('/trash', requireScope('tasks:write'), emptyTrash);
+router.post('/', requireScope('tasks:write'), createTask);
+router.get('/:id', requireScope('tasks:read'), getTaskById);
+router.put('/:id', requireScope('tasks:write'), updateTask);
+router.patch('/:id', requireScope('tasks:write'), updateTask);
+router.delete('/:id', requireScope('tasks:write'), deleteTask);
+router.post('/:id/restore', requireScope('tasks:write'), restoreTask);
+router.get('/:id/history', requireScope('activity:read'), getTaskHistory);
+router.delete('/:id/permanent', requireScope('tasks:write'), deleteTaskPermanently);
+
+router.get('/:id/checklist', requireScope('tasks:read'), getChecklist);
+router.post('/:id/checklist', requireScope('tasks:write'), addChecklistItem);
+router.put('/:id/checklist/order', requireScope('tasks:write'), reorderChecklist);
+router.patch('/:id/checklist/:itemId', requireScope('tasks:write'), updateChecklistItem);
+router.delete('/:id/checklist/:itemId', requireScope('tasks:write'), deleteChecklistItem);
+
+router.get('/:id/reminders', requireScope('tasks:read'), getReminders);
+router.post('/:id/reminders', requireScope('tasks:write'), addReminder);
+router.delete('/:id/reminders/:reminderId', requireScope('tasks:write'), deleteReminder);
 
 export default router;
 
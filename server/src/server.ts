@@ -1,5 +1,9 @@
 import { env } from './config/env';
 import { createApp } from './app';
+import { startTrashPurgeJob } from './jobs/trashPurge';
+import { startSecurityEventPurgeJob } from './jobs/securityEventPurge';
+import { startAccountDeletionJob } from './jobs/accountDeletion';
+import { startReminderJob } from './jobs/reminders';
 
 /**
  * Application entrypoint. Bootstraps the Express app and starts the HTTP server.
@@ -13,3 +17,8 @@ app.listen(env.port, () => {
   }
 });
 
+startTrashPurgeJob();
+startSecurityEventPurgeJob();
+startAccountDeletionJob();
+startReminderJob();
+
@@ -0,0 +1,28 @@
+import { env } from '../config/env';
+import { createLocalStore, createS3Store, type FileStore } from './stores';
+
+export type { FileStore, StoredFile } from './stores';
+
+let store: FileStore | null = null;
+
+function createStore(): FileStore {
+  switch (env.storage.driver) {
+    case 'local':
+      return createLocalStore();
+    case 's3':
+      return createS3Store();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${String(env.storage.driver)}"`);
+  }
+}
+
+/** Replaces the configured store, e.g. with an in-memory one in tests. */
+export function setFileStore(next: FileStore | null): void {
+  store = next;
+}
+
+/** The file store selected by STORAGE_DRIVER, created on first use. */
+export function getFileStore(): FileStore {
+  store ??= createStore();
+  return store;
+}
@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { env } from '../config/env';
+
+export interface StoredFile {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Keeps uploaded files under slash-separated keys such as `avatars/12/ab34/64.webp`.
+ * Implementations are picked by STORAGE_DRIVER.
+ */
+export interface FileStore {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Null when there is no file under the key. */
+  get(key: string): Promise<StoredFile | null>;
+  /** Removing a missing file is not an error. */
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.webp': 'image/webp',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+};
+
+/** Writes files below STORAGE_LOCAL_DIR. Each server instance sees only its own disk. */
+export function createLocalStore(rootDir: string = env.storage.localDir): FileStore {
+  const root = path.resolve(rootDir);
+
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+    async get(key) {
+      const filePath = resolve(key);
+      try {
+        const body = await fs.readFile(filePath);
+        return { body, contentType: CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+}
+
+/** Stores files in an S3 bucket, or any S3-compatible service via S3_ENDPOINT. */
+export function createS3Store(): FileStore {
+  const { bucket, region, endpoint, forcePathStyle, accessKeyId, secretAccessKey } = env.storage.s3;
+  if (!bucket) {
+    throw new Error('S3_BUCKET is required when STORAGE_DRIVER is "s3"');
+  }
+
+  const client = new S3Client({
+    region,
+    forcePathStyle,
+    ...(endpoint ? { endpoint } : {}),
+    // Without explicit keys the SDK falls back to its default chain (env, profile, instance role).
+    ...(accessKeyId && secretAccessKey ? { credentials: { accessKeyId, secretAccessKey } } : {}),
+  });
+
+  return {
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+    async get(key) {
+      try {
+        const result = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+        if (!result.Body) return null;
+        return {
+          body: Buffer.from(await result.Body.transformToByteArray()),
+          contentType: result.ContentType ?? 'application/octet-stream',
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { env } from '../config/env';
+import { accountTarget, clearFailures, refundAttempt, setAttemptStore, takeAttempt, type ThrottleTarget } from '.';
+import { createMemoryStore, type AttemptStore } from './stores';
+
+const LOCKOUT_SECONDS = env.loginThrottle.lockoutMinutes * 60;
+
+let store: AttemptStore;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2026-06-01T12:00:00Z') });
+  store = createMemoryStore();
+  setAttemptStore(store);
+});
+
+afterEach(() => {
+  setAttemptStore(null);
+  vi.useRealTimers();
+});
+
+const account = accountTarget('Someone@Example.com');
+
+/** Gets `count` attempts counted, waiting out any delay in between. */
+async function takeAttempts(targets: ThrottleTarget[], count: number): Promise<void> {
+  for (let taken = 0; taken < count; ) {
+    const wait = await takeAttempt(targets);
+    if (wait === null) taken += 1;
+    else vi.advanceTimersByTime(wait * 1000);
+  }
+}
+
+describe('takeAttempt', () => {
+  it('lets the first few attempts through without a wait', async () => {
+    for (let i = 0; i < 4; i += 1) {
+      expect(await takeAttempt([account])).toBeNull();
+    }
+  });
+
+  it('makes each attempt after the free ones wait twice as long as the last', async () => {
+    await takeAttempts([account], 4);
+    expect(await takeAttempt([account])).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(await takeAttempt([account])).toBeNull();
+    expect(await takeAttempt([account])).toBe(2);
+  });
+
+  it('locks the key out once it reaches the maximum', async () => {
+    await takeAttempts([account], env.loginThrottle.maxAttempts);
+
+    expect(await takeAttempt([account])).toBe(LOCKOUT_SECONDS);
+
+    vi.advanceTimersByTime(LOCKOUT_SECONDS * 1000);
+    expect(await takeAttempt([account])).toBeNull();
+  });
+
+  it('counts parallel attempts one by one', async () => {
+    const results = await Promise.all(Array.from({ length: 20 }, () => takeAttempt([account])));
+
+    // Three free attempts, then a fourth that starts the first delay; the rest wait.
+    expect(results.filter((wait) => wait === null)).toHaveLength(4);
+    expect(await store.get(account.key)).toMatchObject({ failures: 4 });
+  });
+
+  it('does not count an attempt against one target when another is blocked', async () => {
+    const locked: ThrottleTarget = { key: 'ip:198.51.100.1', policy: { freeAttempts: 0, maxAttempts: 1 } };
+    await takeAttempt([locked]);
+
+    expect(await takeAttempt([account, locked])).toBe(LOCKOUT_SECONDS);
+    expect(await store.get(account.key)).toMatchObject({ failures: 0 });
+  });
+
+  it('treats addresses in different cases as the same account', async () => {
+    await takeAttempts([account], 4);
+
+    expect(await takeAttempt([accountTarget('  someone@example.COM ')])).toBe(1);
+  });
+});
+
+describe('refundAttempt', () => {
+  it('takes back the failure and the wait it caused', async () => {
+    await takeAttempts([account], 4);
+    await refundAttempt([account]);
+
+    expect(await store.get(account.key)).toMatchObject({ failures: 3, blockedUntil: null });
+    expect(await takeAttempt([account])).toBeNull();
+  });
+
+  it('does nothing for a key without failures', async () => {
+    await refundAttempt([account]);
+
+    expect(await store.get(account.key)).toBeNull();
+  });
+});
+
+describe('clearFailures', () => {
+  it('forgets every failure of the key', async () => {
+    await takeAttempts([account], env.loginThrottle.maxAttempts);
+    await clearFailures([account]);
+
+    expect(await store.get(account.key)).toBeNull();
+    expect(await takeAttempt([account])).toBeNull();
+  });
+});
+
+describe('accountTarget', () => {
+  it('does not throw for a value that is not a string', () => {
+    expect(accountTarget(42 as unknown as string).key).toBe('account:42');
+  });
+});
@@ -0,0 +1,160 @@
+import type { Request, Response } from 'express';
+import { env } from '../config/env';
+import { createDatabaseStore, createMemoryStore, type AttemptStore } from './stores';
+
+export type { AttemptChange, AttemptRecord, AttemptStore } from './stores';
+
+/**
+ * How many failures a key may have before it is slowed down, and before it is
+ * locked for LOGIN_LOCKOUT_MINUTES.
+ */
+export interface ThrottlePolicy {
+  freeAttempts: number;
+  maxAttempts: number;
+}
+
+export interface ThrottleTarget {
+  key: string;
+  policy: ThrottlePolicy;
+}
+
+const BASE_DELAY_MS = 1000;
+// Many people can share an address (offices, mobile carriers), so it gets more room than one account.
+const IP_ATTEMPT_MULTIPLIER = 5;
+
+const lockoutMs = env.loginThrottle.lockoutMinutes * 60 * 1000;
+
+const ACCOUNT_POLICY: ThrottlePolicy = { freeAttempts: 3, maxAttempts: env.loginThrottle.maxAttempts };
+const IP_POLICY: ThrottlePolicy = {
+  freeAttempts: 3 * IP_ATTEMPT_MULTIPLIER,
+  maxAttempts: env.loginThrottle.maxAttempts * IP_ATTEMPT_MULTIPLIER,
+};
+// Every sign-up counts, successful or not.
+const REGISTER_POLICY: ThrottlePolicy = { freeAttempts: 5, maxAttempts: 20 };
+
+let store: AttemptStore | null = null;
+
+function createStore(): AttemptStore {
+  switch (env.loginThrottle.store) {
+    case 'memory':
+      return createMemoryStore();
+    case 'database':
+      return createDatabaseStore();
+    default:
+      throw new Error(`Unknown LOGIN_THROTTLE_STORE "${String(env.loginThrottle.store)}"`);
+  }
+}
+
+function getStore(): AttemptStore {
+  store ??= createStore();
+  return store;
+}
+
+/** Replaces the configured store, e.g. with a fresh in-memory one in tests. */
+export function setAttemptStore(next: AttemptStore | null): void {
+  store = next;
+}
+
+/**
+ * Failed sign-ins on one account, whichever address they come from. Callers check
+ * the body first; anything but a string still gets a key instead of throwing.
+ */
+export function accountTarget(email: string): ThrottleTarget {
+  const normalized = typeof email === 'string' ? email.trim().toLowerCase() : String(email);
+  return { key: `account:${normalized}`, policy: ACCOUNT_POLICY };
+}
+
+/** Failed sign-ins from one address, whichever accounts they try. */
+export function ipTarget(req: Request): ThrottleTarget {
+  return { key: `ip:${req.ip ?? 'unknown'}`, policy: IP_POLICY };
+}
+
+export function registerTarget(req: Request): ThrottleTarget {
+  return { key: `register:${req.ip ?? 'unknown'}`, policy: REGISTER_POLICY };
+}
+
+/**
+ * Wait after the latest failure: none for the first `freeAttempts`, then doubling
+ * from one second, and the full lockout once `maxAttempts` is reached.
+ */
+function blockDurationMs(failures: number, policy: ThrottlePolicy): number {
+  if (failures <= policy.freeAttempts) return 0;
+  if (failures >= policy.maxAttempts) return lockoutMs;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - policy.freeAttempts - 1), lockoutMs);
+}
+
+/**
+ * Checks the targets and, when none of them is blocked, counts this attempt as a
+ * failure up front. The check and the count are one step per key, so parallel
+ * guesses can't all get past the check before any of them is counted. Call
+ * `refundAttempt` (or `clearFailures`) once the attempt turns out to be good.
+ * Returns the seconds to wait when a target is blocked, or null to go ahead.
+ * Failures are forgotten once a key has gone a lockout period without any, or
+ * when its lockout ends.
+ */
+export async function takeAttempt(targets: ThrottleTarget[], now: number = Date.now()): Promise<number | null> {
+  const taken: ThrottleTarget[] = [];
+  for (const target of targets) {
+    let blockedUntil = 0;
+    await getStore().update(target.key, (current) => {
+      blockedUntil = current?.blockedUntil ?? 0;
+      if (blockedUntil > now) return null;
+      const failures = (current?.failures ?? 0) + 1;
+      const block = blockDurationMs(failures, target.policy);
+      const until = block > 0 ? now + block : null;
+      return {
+        record: { failures, lastFailureAt: now, blockedUntil: until },
+        expiresAt: Math.max(until ?? 0, now + lockoutMs),
+      };
+    });
+    if (blockedUntil > now) {
+      // A blocked attempt isn't counted anywhere, so take back what this one already counted.
+      await refundAttempt(taken, now);
+      return Math.ceil((blockedUntil - now) / 1000);
+    }
+    taken.push(target);
+  }
+  return null;
+}
+
+/**
+ * Takes back the failure `takeAttempt` counted, for an attempt that succeeded or
+ * got past the credentials check. Any wait it caused is recalculated.
+ */
+export async function refundAttempt(targets: ThrottleTarget[], now: number = Date.now()): Promise<void> {
+  for (const { key, policy } of targets) {
+    await getStore().update(key, (current) => {
+      if (!current || current.failures === 0) return null;
+      const failures = current.failures - 1;
+      const block = blockDurationMs(failures, policy);
+      const blockedUntil = block > 0 ? current.lastFailureAt + block : null;
+      return {
+        record: { ...current, failures, blockedUntil },
+        expiresAt: Math.max(blockedUntil ?? 0, now + lockoutMs),
+      };
+    });
+  }
+}
+
+/** Forgets the failures of the given targets, e.g. an account after a successful sign-in. */
+export async function clearFailures(targets: ThrottleTarget[]): Promise<void> {
+  for (const { key } of targets) {
+    await getStore().delete(key);
+  }
+}
+
+function describeWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/** Answers 429 with Retry-After and the wait in seconds, for the client's countdown. */
+export function rejectThrottled(res: Response, retryAfter: number) {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    message: `Too many attempts. Please try again in ${describeWait(retryAfter)}.`,
+    code: 'TOO_MANY_ATTEMPTS',
+    retryAfter,
+  });
+}
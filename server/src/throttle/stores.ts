@@ -0,0 +1,142 @@
+import prisma from '../prisma';
+
+/** Failed attempts counted against one throttle key. Times are epoch milliseconds. */
+export interface AttemptRecord {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number | null;
+}
+
+/** What to store for a key: the record and when it may be forgotten. */
+export interface AttemptChange {
+  record: AttemptRecord;
+  expiresAt: number;
+}
+
+/**
+ * Keeps attempt records until they expire. Implementations are picked by
+ * LOGIN_THROTTLE_STORE.
+ */
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  /**
+   * Replaces the record for `key` with what `change` makes of the current one
+   * (null while there is none), or leaves it when `change` returns null. Reading
+   * and writing happen as one step, so concurrent callers never both act on the
+   * same record; `change` may be called again when another caller got in first.
+   */
+  update(key: string, change: (current: AttemptRecord | null) => AttemptChange | null): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Keeps records in process memory. Each server instance counts on its own. */
+export function createMemoryStore(): AttemptStore {
+  const records = new Map<string, { record: AttemptRecord; expiresAt: number }>();
+
+  const prune = (now: number) => {
+    for (const [key, entry] of records) {
+      if (entry.expiresAt <= now) records.delete(key);
+    }
+  };
+
+  return {
+    async get(key) {
+      const entry = records.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) return null;
+      return { ...entry.record };
+    },
+    async update(key, change) {
+      // No await between reading and writing, so this runs as one step.
+      const now = Date.now();
+      prune(now);
+      const entry = records.get(key);
+      const next = change(entry ? { ...entry.record } : null);
+      if (next) records.set(key, { record: { ...next.record }, expiresAt: next.expiresAt });
+    },
+    async delete(key) {
+      records.delete(key);
+    },
+  };
+}
+
+interface LoginAttemptRow {
+  failures: number;
+  lastFailureAt: Date;
+  blockedUntil: Date | null;
+  expiresAt: Date;
+}
+
+const DATABASE_PRUNE_INTERVAL_MS = 60 * 1000;
+/** Rounds of compare-and-swap before giving up on a key that keeps changing. */
+const MAX_UPDATE_ROUNDS = 10;
+
+function toRecord(row: LoginAttemptRow): AttemptRecord {
+  return {
+    failures: row.failures,
+    lastFailureAt: row.lastFailureAt.getTime(),
+    blockedUntil: row.blockedUntil ? row.blockedUntil.getTime() : null,
+  };
+}
+
+function isUniqueConstraintError(err: unknown): boolean {
+  return Boolean(err && typeof err === 'object' && 'code' in err && (err as { code: string }).code === 'P2002');
+}
+
+/** Keeps records in the LoginAttempt table, so every instance sees the same counts. */
+export function createDatabaseStore(): AttemptStore {
+  let lastPrunedAt = 0;
+
+  return {
+    async get(key) {
+      const row: LoginAttemptRow | null = await prisma.loginAttempt.findUnique({ where: { key } });
+      if (!row || row.expiresAt.getTime() <= Date.now()) return null;
+      return toRecord(row);
+    },
+    /**
+     * Compare-and-swap: the write only lands if the row still holds what was read,
+     * otherwise the change is worked out again from the newer row.
+     */
+    async update(key, change) {
+      let written = false;
+      for (let round = 0; round < MAX_UPDATE_ROUNDS && !written; round += 1) {
+        const row: LoginAttemptRow | null = await prisma.loginAttempt.findUnique({ where: { key } });
+        const live = row && row.expiresAt.getTime() > Date.now() ? row : null;
+        const next = change(live ? toRecord(live) : null);
+        if (!next) return;
+
+        const data = {
+          failures: next.record.failures,
+          lastFailureAt: new Date(next.record.lastFailureAt),
+          blockedUntil: next.record.blockedUntil === null ? null : new Date(next.record.blockedUntil),
+          expiresAt: new Date(next.expiresAt),
+        };
+        if (row) {
+          const swapped: { count: number } = await prisma.loginAttempt.updateMany({
+            where: { key, failures: row.failures, lastFailureAt: row.lastFailureAt, expiresAt: row.expiresAt },
+            data,
+          });
+          written = swapped.count === 1;
+        } else {
+          try {
+            await prisma.loginAttempt.create({ data: { key, ...data } });
+            written = true;
+          } catch (error) {
+            if (!isUniqueConstraintError(error)) throw error;
+          }
+        }
+      }
+      if (!written) {
+        throw new Error(`Sign-in throttle record "${key}" kept changing`);
+      }
+
+      const now = Date.now();
+      if (now - lastPrunedAt >= DATABASE_PRUNE_INTERVAL_MS) {
+        lastPrunedAt = now;
+        await prisma.loginAttempt.deleteMany({ where: { expiresAt: { lte: new Date(now) } } });
+      }
+    },
+    async delete(key) {
+      await prisma.loginAttempt.deleteMany({ where: { key } });
+    },
+  };
+}
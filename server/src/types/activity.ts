@@ -1,4 +1,48 @@
-export type ActivityAction = 'created' | 'updated' | 'completed' | 'deleted';
+import type { RecurrenceRuleDto } from './task';
+
+export type ActivityAction =
+  | 'created'
+  | 'updated'
+  | 'completed'
+  | 'deleted'
+  | 'restored'
+  | 'reverted'
+  | 'checklist';
+
+/** Task fields whose changes are recorded on update. */
+export type TaskChangeField =
+  | 'title'
+  | 'description'
+  | 'priority'
+  | 'dueDate'
+  | 'startDate'
+  | 'scheduledFor'
+  | 'completed'
+  | 'project'
+  | 'tags'
+  | 'recurrence'
+  | 'completeWithChecklist';
+
+/** A project or tag as it was named when the change was recorded. */
+export interface NamedRefDto {
+  id: number;
+  name: string;
+}
+
+export type TaskChangeValue =
+  | string
+  | boolean
+  | NamedRefDto
+  | NamedRefDto[]
+  | RecurrenceRuleDto
+  | null;
+
+/** One changed field with its value before and after the update. Dates are ISO strings. */
+export interface TaskFieldChangeDto {
+  field: TaskChangeField;
+  from: TaskChangeValue;
+  to: TaskChangeValue;
+}
 
 export interface ActivityLogResponseDto {
   id: number;
@@ -7,7 +51,27 @@ export interface ActivityLogResponseDto {
   taskId: number | null;
   taskTitle: string | null;
   taskDescription: string | null;
+  /** "YYYY-MM-DD" for an all-day task, otherwise an ISO timestamp. */
   taskDueDate: string | null;
   taskCompleted: boolean | null;
+  detail: string | null;
+  /** Field-level changes for updates; null for other actions and older entries. */
+  changes: TaskFieldChangeDto[] | null;
   createdAt: string;
 }
+
+/** Activity entries that happened on one calendar day (YYYY-MM-DD in the requested time zone). */
+export interface ActivityDayGroupDto {
+  date: string;
+  items: ActivityLogResponseDto[];
+}
+
+/**
+ * A page of activity, newest first. `groups` is only present with `group=day`
+ * and holds the same entries as `items`, split by day.
+ */
+export interface ActivityListResponseDto {
+  items: ActivityLogResponseDto[];
+  nextCursor: string | null;
+  groups?: ActivityDayGroupDto[];
+}
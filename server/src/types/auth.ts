@@ -0,0 +1,204 @@
+/**
+ * Access and refresh token pair returned by login and refresh.
+ */
+export interface AuthTokensResponseDto {
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Payload for endpoints that act on a session through its refresh token.
+ */
+export interface RefreshTokenRequestDto {
+  refreshToken: string;
+}
+
+/**
+ * A signed-in device as listed on the profile page.
+ */
+export interface SessionResponseDto {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  /** True for the session the request was made with. */
+  current: boolean;
+}
+
+/**
+ * The signed-in user's account as returned by GET and PUT /me.
+ */
+export interface ProfileResponseDto {
+  id: number;
+  email: string;
+  username: string;
+  emailVerified: boolean;
+  mfaEnabled: boolean;
+  /** New address waiting to be confirmed from its inbox, if a change was requested. */
+  pendingEmail: string | null;
+  /** Signed image URLs keyed by square size in pixels (64, 128, 256); null without an avatar. */
+  avatarUrls: Record<number, string> | null;
+}
+
+export interface UpdateProfileRequestDto {
+  username: string;
+}
+
+export interface DeleteAccountRequestDto {
+  password: string;
+}
+
+export interface EmailChangeRequestDto {
+  newEmail: string;
+  /** Current password, required because the email address can be used to reset it. */
+  password: string;
+}
+
+export type ThemePreference = 'light' | 'dark';
+export type TaskViewMode = 'grid' | 'list';
+export type TaskSortKey = 'createdAt' | 'dueDate' | 'priority' | 'title';
+export type TaskStatusFilter = 'all' | 'active' | 'completed';
+
+/**
+ * Which reminders the user wants, and where else they should arrive.
+ */
+export interface NotificationPreferencesDto {
+  dueSoon: boolean;
+  overdue: boolean;
+  email: boolean;
+  /** Notifications are also POSTed here as JSON; null turns the webhook off. */
+  webhookUrl: string | null;
+  /**
+   * Read-only. Key for checking the `X-Vitasoft-Signature` header of webhook
+   * requests; set once a webhook URL is saved.
+   */
+  webhookSecret: string | null;
+}
+
+/**
+ * Settings stored per user so they follow them between browsers, as returned by
+ * GET and PUT /me/preferences.
+ */
+export interface UserPreferencesDto {
+  theme: ThemePreference;
+  defaultViewMode: TaskViewMode;
+  defaultSort: TaskSortKey;
+  defaultSortOrder: 'asc' | 'desc';
+  defaultStatusFilter: TaskStatusFilter;
+  /** First day of the week, 0 (Sunday) to 6 (Saturday). */
+  weekStartsOn: number;
+  /** IANA time zone name; null means whatever zone the browser is in. */
+  timezone: string | null;
+  /** Tasks due within this many hours count as "due soon". */
+  dueSoonHours: number;
+  notifications: NotificationPreferencesDto;
+}
+
+/**
+ * Partial update for PUT /me/preferences; fields left out keep their value.
+ */
+export type UpdatePreferencesRequestDto = Partial<Omit<UserPreferencesDto, 'notifications'>> & {
+  notifications?: Partial<Omit<NotificationPreferencesDto, 'webhookSecret'>>;
+};
+
+/**
+ * Two-factor auth state shown on the profile page.
+ */
+export interface MfaStatusResponseDto {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Enrollment details for an authenticator app; the secret is for manual entry.
+ */
+export interface MfaSetupResponseDto {
+  secret: string;
+  otpauthUri: string;
+  /** PNG data URL of a QR code for `otpauthUri`. */
+  qrCodeDataUrl: string;
+}
+
+/**
+ * One-time recovery codes, returned only when they are generated.
+ */
+export interface RecoveryCodesResponseDto {
+  recoveryCodes: string[];
+}
+
+export type SecurityEventType =
+  | 'register'
+  | 'login'
+  | 'mfa_challenge'
+  | 'logout'
+  | 'logout_all'
+  | 'session_revoked'
+  | 'token_refresh'
+  | 'token_reuse'
+  | 'access_denied'
+  | 'password_change'
+  | 'password_reset_requested'
+  | 'password_reset'
+  | 'email_verified'
+  | 'username_changed'
+  | 'email_change_requested'
+  | 'email_changed'
+  | 'data_exported'
+  | 'account_deletion_scheduled'
+  | 'account_deletion_cancelled'
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'recovery_codes_regenerated'
+  | 'access_token_created'
+  | 'access_token_revoked';
+
+/** `blocked` means the attempt was refused without checking it, e.g. by the sign-in throttle. */
+export type SecurityEventOutcome = 'success' | 'failure' | 'blocked';
+
+export interface SecurityEventResponseDto {
+  id: number;
+  type: SecurityEventType;
+  outcome: SecurityEventOutcome;
+  ipAddress: string | null;
+  userAgent: string | null;
+  detail: string | null;
+  createdAt: string;
+}
+
+/** A page of security events, newest first. */
+export interface SecurityEventListResponseDto {
+  items: SecurityEventResponseDto[];
+  nextCursor: string | null;
+}
+
+/** What a personal access token may do. Signed-in sessions can do everything. */
+export type AccessTokenScope = 'tasks:read' | 'tasks:write' | 'activity:read';
+
+/**
+ * A personal access token as listed on the profile page. The token itself is
+ * never returned again after creation.
+ */
+export interface AccessTokenResponseDto {
+  id: number;
+  name: string;
+  /** First characters of the token, to tell tokens apart. */
+  tokenPrefix: string;
+  scopes: AccessTokenScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface CreateAccessTokenRequestDto {
+  name: string;
+  scopes: AccessTokenScope[];
+  /** ISO date-time; omit or null for a token that doesn't expire. */
+  expiresAt?: string | null;
+}
+
+/** The new token with its plain value, shown only this once. */
+export interface CreatedAccessTokenResponseDto extends AccessTokenResponseDto {
+  token: string;
+}
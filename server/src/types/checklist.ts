@@ -0,0 +1,29 @@
+/**
+ * Payload required to add a checklist item to a task.
+ */
+export interface ChecklistItemCreateDto {
+  title: string;
+}
+
+/**
+ * Fields that can be updated on a checklist item.
+ */
+export interface ChecklistItemUpdateDto {
+  title?: string;
+  done?: boolean;
+}
+
+/**
+ * New order for a task's checklist: every item id, first to last.
+ */
+export interface ChecklistReorderDto {
+  itemIds: number[];
+}
+
+export interface ChecklistItemResponseDto {
+  id: number;
+  title: string;
+  done: boolean;
+  position: number;
+  createdAt: string;
+}
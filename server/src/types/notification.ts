@@ -0,0 +1,26 @@
+export type NotificationKind = 'due_soon' | 'overdue' | 'reminder' | 'system';
+
+export interface NotificationResponseDto {
+  id: number;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  /** The task it is about, if any; null once that task is deleted for good. */
+  taskId: number | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * A page of the inbox, newest first, with the number of unread notifications
+ * in the whole inbox (not just this page).
+ */
+export interface NotificationListResponseDto {
+  items: NotificationResponseDto[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
+export interface UnreadCountDto {
+  unreadCount: number;
+}
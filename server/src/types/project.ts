@@ -0,0 +1,34 @@
+/**
+ * Payload required to create a project.
+ */
+export interface ProjectCreateDto {
+  name: string;
+  color?: string;
+  description?: string | null;
+}
+
+/**
+ * Fields that can be updated on an existing project.
+ */
+export interface ProjectUpdateDto {
+  name?: string;
+  color?: string;
+  description?: string | null;
+  archived?: boolean;
+}
+
+/**
+ * Canonical shape of a project returned by the API layer.
+ * `completionPercent` is computed from the project's tasks (0 when it has none).
+ */
+export interface ProjectResponseDto {
+  id: number;
+  name: string;
+  color: string;
+  description: string | null;
+  archived: boolean;
+  taskCount: number;
+  completedCount: number;
+  completionPercent: number;
+  createdAt: string;
+}
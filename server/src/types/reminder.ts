@@ -0,0 +1,20 @@
+/**
+ * Payload to add a reminder to a task: either `offsetMinutes` before the due
+ * date, or an absolute `remindAt` moment. Exactly one of the two must be set.
+ */
+export interface ReminderCreateDto {
+  offsetMinutes?: number;
+  remindAt?: string;
+}
+
+export interface ReminderResponseDto {
+  id: number;
+  /** Minutes before the due date; null for an absolute reminder. */
+  offsetMinutes: number | null;
+  /** The absolute moment; null for a relative reminder. */
+  remindAt: string | null;
+  /** When it will (or did) fire; null while a relative reminder's task has no due date. */
+  fireAt: string | null;
+  firedAt: string | null;
+  createdAt: string;
+}
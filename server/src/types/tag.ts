@@ -0,0 +1,26 @@
+/**
+ * Payload required to create a tag.
+ */
+export interface TagCreateDto {
+  name: string;
+  color?: string;
+}
+
+/**
+ * Fields that can be updated on an existing tag.
+ */
+export interface TagUpdateDto {
+  name?: string;
+  color?: string;
+}
+
+/**
+ * Canonical shape of a tag returned by the API layer.
+ */
+export interface TagResponseDto {
+  id: number;
+  name: string;
+  color: string;
+  taskCount: number;
+  createdAt: string;
+}
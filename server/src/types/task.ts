@@ -1,5 +1,24 @@
 export type Priority = 'low' | 'medium' | 'high';
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * How a task repeats, modelled on iCalendar RRULE.
+ * Monthly rules use either `monthDay` or `nthWeekday`; without either they repeat on
+ * the due date's day of month. `count` is the number of occurrences left, this one included.
+ */
+export interface RecurrenceRuleDto {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: Weekday[];
+  monthDay?: number;
+  nthWeekday?: { n: number; weekday: Weekday };
+  count?: number;
+  until?: string;
+}
+
 /**
  * Payload required to create a new task.
  */
@@ -7,7 +26,19 @@ export interface TaskCreateDto {
   title: string;
   description?: string | null;
   priority?: Priority;
+  /**
+   * "YYYY-MM-DD" for an all-day task, or a date and time. A date-time without an
+   * offset is read in the user's time zone preference.
+   */
   dueDate?: string | null;
+  /** "YYYY-MM-DD". The task is hidden from the default lists until this date. */
+  startDate?: string | null;
+  /** "YYYY-MM-DD" of the day the task is planned for; not before startDate. */
+  scheduledFor?: string | null;
+  tagIds?: number[];
+  projectId?: number | null;
+  completeWithChecklist?: boolean;
+  recurrence?: RecurrenceRuleDto | null;
 }
 
 /**
@@ -18,7 +49,22 @@ export interface TaskUpdateDto {
   description?: string | null;
   completed?: boolean;
   priority?: Priority;
+  /** Same formats as TaskCreateDto.dueDate. */
   dueDate?: string | null;
+  startDate?: string | null;
+  scheduledFor?: string | null;
+  tagIds?: number[];
+  projectId?: number | null;
+  completeWithChecklist?: boolean;
+  recurrence?: RecurrenceRuleDto | null;
+}
+
+/**
+ * Checklist progress shown on task cards, e.g. 3 of 5 items done.
+ */
+export interface ChecklistProgressDto {
+  done: number;
+  total: number;
 }
 
 /**
@@ -30,8 +76,75 @@ export interface TaskResponseDto {
   description: string | null;
   completed: boolean;
   priority: Priority;
+  /** "YYYY-MM-DD" for an all-day task, otherwise an ISO timestamp. */
   dueDate: string | null;
+  dueAllDay: boolean;
+  /** "YYYY-MM-DD" */
+  startDate: string | null;
+  /** "YYYY-MM-DD" */
+  scheduledFor: string | null;
   createdAt: string;
   userId: number;
+  projectId: number | null;
+  tagIds: number[];
+  checklist: ChecklistProgressDto;
+  completeWithChecklist: boolean;
+  recurrence: RecurrenceRuleDto | null;
+  deletedAt: string | null;
+}
+
+/**
+ * Tasks in the trash, most recently deleted first.
+ * `retentionDays` is how long they stay before being purged (0 = forever).
+ */
+export interface TrashListResponseDto {
+  items: TaskResponseDto[];
+  retentionDays: number;
+}
+
+export type TaskStatusFilter = 'all' | 'active' | 'completed';
+
+export type TaskSortKey = 'createdAt' | 'dueDate' | 'priority' | 'title';
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * One page of tasks returned by GET /tasks.
+ * `nextCursor` is null when there are no more pages.
+ */
+export interface TaskListResponseDto {
+  items: TaskResponseDto[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * One day of the planner, with the active tasks planned or due on it.
+ */
+export interface PlannerDayDto {
+  /** "YYYY-MM-DD" */
+  date: string;
+  tasks: TaskResponseDto[];
+}
+
+/**
+ * The Today page returned by GET /tasks/planner. `days` starts with today.
+ * A task goes on its scheduled day, or else on the day it is due; `earlier`
+ * holds the unfinished ones whose day has passed (overdue or carried over).
+ */
+export interface PlannerResponseDto {
+  /** "YYYY-MM-DD" in the requested time zone. */
+  today: string;
+  earlier: TaskResponseDto[];
+  days: PlannerDayDto[];
 }
 
+/**
+ * Counts shown in the task summary cards.
+ */
+export interface TaskSummaryDto {
+  total: number;
+  completed: number;
+  pending: number;
+  overdue: number;
+}
@@ -0,0 +1,31 @@
+import type { AccessTokenScope } from '../types/auth';
+import { generateToken } from './tokens';
+
+/** Marks personal access tokens, so `authenticate` can tell them from JWTs at a glance. */
+export const ACCESS_TOKEN_PREFIX = 'vst_';
+
+// Characters of the token kept in plain text for display, including the prefix.
+const DISPLAY_PREFIX_LENGTH = ACCESS_TOKEN_PREFIX.length + 6;
+
+export const ACCESS_TOKEN_SCOPES: AccessTokenScope[] = ['tasks:read', 'tasks:write', 'activity:read'];
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+/** New random token and the part of it that may be stored and shown in lists. */
+export function generateAccessToken(): { token: string; tokenPrefix: string } {
+  const token = `${ACCESS_TOKEN_PREFIX}${generateToken()}`;
+  return { token, tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/** Scopes are stored comma separated; unknown ones are dropped. */
+export function parseScopes(stored: string): AccessTokenScope[] {
+  return stored
+    .split(',')
+    .filter((scope): scope is AccessTokenScope => ACCESS_TOKEN_SCOPES.includes(scope as AccessTokenScope));
+}
+
+export function serializeScopes(scopes: AccessTokenScope[]): string {
+  return ACCESS_TOKEN_SCOPES.filter((scope) => scopes.includes(scope)).join(',');
+}
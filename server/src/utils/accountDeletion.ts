@@ -0,0 +1,36 @@
+import type { Request } from 'express';
+import prisma from '../prisma';
+import { deleteAvatar } from './avatars';
+import { recordSecurityEvent } from './securityEvents';
+
+/**
+ * Signing in during the grace period keeps the account: clears a scheduled
+ * deletion and returns true if there was one.
+ */
+export async function cancelScheduledDeletion(
+  user: { id: number; deletionScheduledAt?: Date | null },
+  req: Request,
+): Promise<boolean> {
+  if (!user.deletionScheduledAt) return false;
+
+  await prisma.user.update({ where: { id: user.id }, data: { deletionScheduledAt: null } });
+  await recordSecurityEvent(req, {
+    type: 'account_deletion_cancelled',
+    outcome: 'success',
+    userId: user.id,
+    detail: 'Signed in during the grace period',
+  });
+  return true;
+}
+
+/**
+ * Erases the user for good. Tasks, projects, tags, activity, sessions and the
+ * rest go with it through the schema's cascades; the avatar files are removed
+ * from storage first.
+ */
+export async function eraseAccount(user: { id: number; avatarPath: string | null }): Promise<void> {
+  if (user.avatarPath) {
+    await deleteAvatar(user.avatarPath);
+  }
+  await prisma.user.delete({ where: { id: user.id } });
+}
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { env } from '../config/env';
+import { getFileStore } from '../storage';
+
+/** Square sizes every avatar is stored in, in pixels. */
+export const AVATAR_SIZES = [64, 128, 256] as const;
+export type AvatarSize = (typeof AVATAR_SIZES)[number];
+
+export const AVATAR_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// What the bytes must actually decode as; the upload's MIME type is only a claim.
+const AVATAR_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+// Decompression bombs: a small file can still expand to an enormous bitmap.
+const MAX_INPUT_PIXELS = 40_000_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const URL_TTL_DAYS = 7;
+
+export function isAvatarSize(value: number): value is AvatarSize {
+  return (AVATAR_SIZES as readonly number[]).includes(value);
+}
+
+function avatarKey(avatarPath: string, size: AvatarSize): string {
+  return `${avatarPath}/${size}.webp`;
+}
+
+/**
+ * Resizes an uploaded image to every avatar size (center-cropped squares, WebP,
+ * EXIF orientation applied) and stores them under a fresh path. Returns that
+ * path, or null when the upload isn't a supported image.
+ */
+export async function saveAvatar(userId: number, input: Buffer): Promise<string | null> {
+  try {
+    const { format } = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    if (!format || !AVATAR_FORMATS.includes(format)) return null;
+  } catch {
+    return null;
+  }
+
+  // A new path per upload, so signed URLs of the previous picture stop matching.
+  const avatarPath = `avatars/${userId}/${crypto.randomBytes(8).toString('hex')}`;
+  const store = getFileStore();
+  for (const size of AVATAR_SIZES) {
+    const body = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(size, size, { fit: 'cover' })
+      .webp({ quality: 85 })
+      .toBuffer();
+    await store.put(avatarKey(avatarPath, size), body, 'image/webp');
+  }
+  return avatarPath;
+}
+
+export async function deleteAvatar(avatarPath: string): Promise<void> {
+  const store = getFileStore();
+  await Promise.all(AVATAR_SIZES.map((size) => store.delete(avatarKey(avatarPath, size))));
+}
+
+export async function readAvatar(avatarPath: string, size: AvatarSize) {
+  return getFileStore().get(avatarKey(avatarPath, size));
+}
+
+function sign(userId: number, avatarPath: string, size: AvatarSize, expires: number): string {
+  return crypto
+    .createHmac('sha256', env.jwtSecret)
+    .update(`${userId}:${avatarPath}:${size}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Signed URLs for each size, since <img> can't send an Authorization header.
+ * Expiry is rounded to the day so URLs stay the same, and cacheable, for a while.
+ */
+export function avatarUrls(userId: number, avatarPath: string, now: Date = new Date()): Record<AvatarSize, string> {
+  const expires = Math.ceil((now.getTime() + URL_TTL_DAYS * DAY_MS) / DAY_MS) * (DAY_MS / 1000);
+  const urls = {} as Record<AvatarSize, string>;
+  for (const size of AVATAR_SIZES) {
+    const params = new URLSearchParams({ expires: String(expires), sig: sign(userId, avatarPath, size, expires) });
+    urls[size] = `/api/avatars/${userId}/${size}?${params.toString()}`;
+  }
+  return urls;
+}
+
+/** True when the signature matches the user's current avatar and hasn't expired. */
+export function verifyAvatarSignature(
+  userId: number,
+  avatarPath: string,
+  size: AvatarSize,
+  expires: number,
+  signature: string,
+  now: Date = new Date(),
+): boolean {
+  if (!Number.isInteger(expires) || expires * 1000 <= now.getTime()) return false;
+  const expected = Buffer.from(sign(userId, avatarPath, size, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,19 @@
+/**
+ * Color helpers shared by entities that carry a user-chosen color (tags, projects).
+ */
+
+export const HEX_COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
+
+/** Colors handed out in turn when an entity is created without one. */
+export const COLOR_PALETTE = ['#0ea5e9', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#14b8a6', '#64748b'];
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR_REGEX.test(value);
+}
+
+/**
+ * Picks the palette color for the nth entity, cycling through the palette.
+ */
+export function paletteColor(index: number): string {
+  return COLOR_PALETTE[index % COLOR_PALETTE.length] ?? '#64748b';
+}
@@ -0,0 +1,159 @@
+import prisma from '../prisma';
+import { parseScopes } from './accessTokens';
+import { getUserPreferences } from './preferences';
+
+/** Bumped whenever the export's layout changes in a way readers must know about. */
+const EXPORT_FORMAT_VERSION = 1;
+
+interface ActivityLogRecord {
+  id: number;
+  action: string;
+  taskId: number | null;
+  taskTitle: string | null;
+  taskDescription: string | null;
+  taskDueDate: Date | null;
+  taskDueAllDay: boolean | null;
+  taskCompleted: boolean | null;
+  detail: string | null;
+  changes: string | null;
+  createdAt: Date;
+}
+
+function parseChanges(changes: string | null): unknown {
+  if (!changes) return null;
+  try {
+    return JSON.parse(changes) as unknown;
+  } catch {
+    return changes;
+  }
+}
+
+/**
+ * Everything stored about a user, for the "download my data" export: profile,
+ * preferences, projects, tags, tasks (trashed ones too) with their checklists and
+ * reminders, notifications, the full activity log, sessions, access tokens and
+ * security events. Password hashes,
+ * MFA secrets and token hashes are left out.
+ */
+export async function buildUserExport(userId: number, now: Date = new Date()) {
+  const [
+    user,
+    preferences,
+    projects,
+    tags,
+    tasks,
+    notifications,
+    activityLog,
+    sessions,
+    accessTokens,
+    securityEvents,
+  ] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, username: true, email: true, emailVerified: true, mfaEnabled: true },
+    }),
+    getUserPreferences(userId),
+    prisma.project.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: { id: true, name: true, color: true, description: true, archived: true, createdAt: true },
+    }),
+    prisma.tag.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: { id: true, name: true, color: true, createdAt: true },
+    }),
+    prisma.task.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        completed: true,
+        priority: true,
+        dueDate: true,
+        dueAllDay: true,
+        startDate: true,
+        scheduledFor: true,
+        createdAt: true,
+        completeWithChecklist: true,
+        recurrence: true,
+        deletedAt: true,
+        projectId: true,
+        tags: { select: { id: true, name: true } },
+        checklistItems: {
+          orderBy: { position: 'asc' },
+          select: { id: true, title: true, done: true, position: true, createdAt: true },
+        },
+        reminders: {
+          orderBy: { id: 'asc' },
+          select: { id: true, offsetMinutes: true, remindAt: true, fireAt: true, firedAt: true, createdAt: true },
+        },
+      },
+    }),
+    prisma.notification.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        kind: true,
+        title: true,
+        body: true,
+        taskId: true,
+        readAt: true,
+        dismissedAt: true,
+        createdAt: true,
+        deliveries: { select: { channel: true, status: true, deliveredAt: true } },
+      },
+    }),
+    prisma.activityLog.findMany({ where: { userId }, orderBy: { id: 'asc' } }) as Promise<ActivityLogRecord[]>,
+    prisma.session.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+      },
+    }),
+    prisma.personalAccessToken.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        tokenPrefix: true,
+        scopes: true,
+        createdAt: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        revokedAt: true,
+      },
+    }) as Promise<{ scopes: string }[]>,
+    prisma.securityEvent.findMany({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: { id: true, type: true, outcome: true, ipAddress: true, userAgent: true, detail: true, createdAt: true },
+    }),
+  ]);
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: now.toISOString(),
+    profile: user,
+    preferences,
+    projects,
+    tags,
+    tasks,
+    notifications,
+    activityLog: activityLog.map(({ changes, ...entry }) => ({ ...entry, changes: parseChanges(changes) })),
+    sessions,
+    accessTokens: accessTokens.map((token) => ({ ...token, scopes: parseScopes(token.scopes) })),
+    securityEvents,
+  };
+}
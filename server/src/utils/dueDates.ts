@@ -0,0 +1,211 @@
+/**
+ * Due dates are either all-day (a calendar date, stored as UTC midnight) or an
+ * exact moment. Calendar dates only become moments in a time zone: an all-day
+ * task is overdue once its date has ended where the user is. Start and
+ * scheduled dates are always calendar dates, stored the same way.
+ */
+import { DATE_ONLY_REGEX } from './pagination';
+import { getUserPreferences } from './preferences';
+import { isTimeZone } from './validation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A wall-clock time without an offset, e.g. 2026-03-10T14:30 from a datetime-local input.
+const LOCAL_DATE_TIME_REGEX = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d{1,3})?)?$/;
+
+export interface ParsedDueDate {
+  dueDate: Date;
+  dueAllDay: boolean;
+}
+
+/** UTC midnight of a YYYY-MM-DD date, or null for impossible dates such as 2026-02-30. */
+function calendarDate(day: string): Date | null {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === day ? date : null;
+}
+
+/** How far the zone's wall clock is ahead of UTC at `instant`, in milliseconds. */
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The moment a wall-clock time (given as if it were UTC) happens in `timeZone`.
+ * The second pass settles times near a daylight saving change.
+ */
+export function fromWallClock(wallClock: number, timeZone: string): Date {
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  return new Date(wallClock - zoneOffset(guess, timeZone));
+}
+
+/** The wall-clock time in `timeZone` at `instant`, given as if it were UTC; undone by fromWallClock. */
+export function wallClockIn(instant: Date, timeZone: string): number {
+  return instant.getTime() + zoneOffset(instant.getTime(), timeZone);
+}
+
+/** The calendar date (YYYY-MM-DD) it is in `timeZone` at `instant`. */
+export function dayInZone(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+    instant,
+  );
+}
+
+function startOfDayInZone(day: Date, timeZone: string): Date {
+  return fromWallClock(day.getTime(), timeZone);
+}
+
+/**
+ * Parses a due date sent by a client. "YYYY-MM-DD" makes an all-day task. A
+ * date-time with an offset ("...Z", "...+02:00") is taken as is; without one
+ * it is wall-clock time in `timeZone`. Returns null for anything else.
+ */
+export function parseDueDate(value: unknown, timeZone: string): ParsedDueDate | null {
+  if (typeof value !== 'string' || value === '') return null;
+
+  if (DATE_ONLY_REGEX.test(value)) {
+    const date = calendarDate(value);
+    return date ? { dueDate: date, dueAllDay: true } : null;
+  }
+
+  const local = LOCAL_DATE_TIME_REGEX.exec(value);
+  if (local) {
+    const [, day = '', hours = '0', minutes = '0', seconds = '0'] = local;
+    const date = calendarDate(day);
+    if (!date || Number(hours) > 23 || Number(minutes) > 59 || Number(seconds) > 59) return null;
+    const wallClock = date.getTime() + ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+    return { dueDate: fromWallClock(wallClock, timeZone), dueAllDay: false };
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : { dueDate: date, dueAllDay: false };
+}
+
+/** Parses a "YYYY-MM-DD" calendar date, e.g. a start or scheduled date. Returns null for anything else. */
+export function parseCalendarDate(value: unknown): Date | null {
+  return typeof value === 'string' && DATE_ONLY_REGEX.test(value) ? calendarDate(value) : null;
+}
+
+/** A stored calendar date as "YYYY-MM-DD". */
+export function formatCalendarDate(date: Date): string;
+export function formatCalendarDate(date: Date | null): string | null;
+export function formatCalendarDate(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+/** The date it is in `timeZone` at `instant`, as a stored calendar date (UTC midnight). */
+export function calendarDayInZone(instant: Date, timeZone: string): Date {
+  return calendarDate(dayInZone(instant, timeZone)) as Date;
+}
+
+/** The calendar date `days` after a stored calendar date. */
+export function addCalendarDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY_MS);
+}
+
+/** Whole days from one stored calendar date to another. */
+export function calendarDaysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/** The moment it is `minutes` past midnight of a stored calendar date in `timeZone`. */
+export function atTimeOfDay(day: Date, minutes: number, timeZone: string): Date {
+  return fromWallClock(day.getTime() + minutes * 60 * 1000, timeZone);
+}
+
+/** The day a due date falls on in `timeZone`, as a stored calendar date. */
+export function dueDay(dueDate: Date, dueAllDay: boolean, timeZone: string): Date {
+  return dueAllDay ? dueDate : calendarDayInZone(dueDate, timeZone);
+}
+
+/** A due date as the API returns it: "YYYY-MM-DD" when all-day, otherwise an ISO timestamp. */
+export function formatDueDate(dueDate: Date | null, dueAllDay: boolean | null): string | null {
+  if (!dueDate) return null;
+  return dueAllDay ? dueDate.toISOString().slice(0, 10) : dueDate.toISOString();
+}
+
+/**
+ * Prisma filter for tasks that are overdue at `now`: timed tasks whose moment has
+ * passed, and all-day tasks dated before today in `timeZone`.
+ */
+export function overdueWhere(now: Date, timeZone: string): Record<string, unknown> {
+  const today = calendarDayInZone(now, timeZone);
+  return {
+    OR: [
+      { dueAllDay: true, dueDate: { lt: today } },
+      { dueAllDay: false, dueDate: { lt: now } },
+    ],
+  };
+}
+
+/** Prisma filter for tasks that have started by today in `timeZone` (or have no start date). */
+export function startedWhere(now: Date, timeZone: string): Record<string, unknown> {
+  return { OR: [{ startDate: null }, { startDate: { lte: calendarDayInZone(now, timeZone) } }] };
+}
+
+interface DueBound {
+  /** Compared with all-day due dates (UTC midnights). */
+  allDay: Date;
+  /** Compared with timed due dates. */
+  timed: Date;
+}
+
+/**
+ * Parses a `dueFrom`/`dueTo` bound. A date covers that whole day in `timeZone`;
+ * a moment includes all-day tasks on the day it falls on. Returns null when invalid.
+ */
+export function parseDueBound(value: string, bound: 'from' | 'to', timeZone: string): DueBound | null {
+  if (DATE_ONLY_REGEX.test(value)) {
+    const day = calendarDate(value);
+    if (!day) return null;
+    const timed =
+      bound === 'from'
+        ? startOfDayInZone(day, timeZone)
+        : new Date(startOfDayInZone(new Date(day.getTime() + DAY_MS), timeZone).getTime() - 1);
+    return { allDay: day, timed };
+  }
+
+  const instant = new Date(value);
+  if (Number.isNaN(instant.getTime())) return null;
+  return { allDay: calendarDayInZone(instant, timeZone), timed: instant };
+}
+
+/** Prisma filter for tasks due between two bounds (both inclusive, either optional). */
+export function dueRangeWhere(from: DueBound | undefined, to: DueBound | undefined): Record<string, unknown> {
+  const range = (key: keyof DueBound) => ({
+    ...(from ? { gte: from[key] } : {}),
+    ...(to ? { lte: to[key] } : {}),
+  });
+  return {
+    OR: [
+      { dueAllDay: true, dueDate: range('allDay') },
+      { dueAllDay: false, dueDate: range('timed') },
+    ],
+  };
+}
+
+/** The user's preferred time zone, or UTC when they follow their browser's. */
+export async function userTimeZone(userId: number): Promise<string> {
+  const { timezone } = await getUserPreferences(userId);
+  return timezone ?? 'UTC';
+}
+
+/**
+ * The time zone to read dates in: `requested` (e.g. a `tz` query parameter) when
+ * given, else the user's preference. Returns null for an unknown zone.
+ */
+export async function resolveTimeZone(userId: number, requested: string | undefined): Promise<string | null> {
+  if (requested !== undefined) return isTimeZone(requested) ? requested : null;
+  return userTimeZone(userId);
+}
@@ -0,0 +1,49 @@
+import prisma from '../prisma';
+import { env } from '../config/env';
+import { sendMail, verificationEmail } from '../mail';
+import { generateToken, hashToken } from './tokens';
+
+const HOUR_MS = 60 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const MAX_EMAILS_PER_HOUR = 5;
+
+/**
+ * Creates a verification token and mails its link. Earlier links stay valid
+ * until they expire; any of them verifies the same address.
+ */
+export async function sendVerificationEmail(user: { id: number; email: string; username: string }): Promise<void> {
+  const token = generateToken();
+  await prisma.emailVerificationToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + env.emailVerificationTtlHours * HOUR_MS),
+    },
+  });
+  await sendMail(verificationEmail(user, token));
+}
+
+/**
+ * Seconds the user has to wait before another verification email may be sent,
+ * or null when one can go out now. Allows one email a minute and five an hour.
+ */
+export async function verificationRetryAfter(userId: number, now: Date = new Date()): Promise<number | null> {
+  const recent: { createdAt: Date }[] = await prisma.emailVerificationToken.findMany({
+    where: { userId, createdAt: { gt: new Date(now.getTime() - HOUR_MS) } },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+
+  const waits: number[] = [];
+  const latest = recent[0];
+  if (latest) {
+    waits.push(latest.createdAt.getTime() + RESEND_COOLDOWN_MS - now.getTime());
+  }
+  const oldestCounted = recent[MAX_EMAILS_PER_HOUR - 1];
+  if (oldestCounted) {
+    waits.push(oldestCounted.createdAt.getTime() + HOUR_MS - now.getTime());
+  }
+
+  const wait = Math.max(0, ...waits);
+  return wait > 0 ? Math.ceil(wait / 1000) : null;
+}
@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { env } from '../config/env';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const VERSION = 'v1';
+
+// Any string works as MFA_ENCRYPTION_KEY; hashing it yields the 32-byte AES key.
+const key = crypto.createHash('sha256').update(env.mfaEncryptionKey).digest();
+
+/**
+ * Encrypts a secret for storage with AES-256-GCM.
+ * Output is `v1:<iv>:<auth tag>:<ciphertext>`, each part base64-encoded.
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/** Reverses `encryptSecret`. Throws if the value was tampered with or the key changed. */
+export function decryptSecret(stored: string): string {
+  const [version, iv, tag, ciphertext] = stored.split(':');
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported encrypted secret format');
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
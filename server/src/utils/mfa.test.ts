@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyMfaCode } from './mfa';
+
+interface UserRow {
+  id: number;
+  mfaLastUsedStep: number | null;
+}
+
+const users: UserRow[] = [];
+
+// A user table with the one conditional update verifyMfaCode makes. Like the
+// database, it checks and writes in one step.
+vi.mock('../prisma', () => ({
+  default: {
+    user: {
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: number; OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: number } }] };
+        data: { mfaLastUsedStep: number };
+      }) => {
+        const lessThan = where.OR[1].mfaLastUsedStep.lt;
+        const matching = users.filter(
+          (user) => user.id === where.id && (user.mfaLastUsedStep === null || user.mfaLastUsedStep < lessThan),
+        );
+        for (const user of matching) user.mfaLastUsedStep = data.mfaLastUsedStep;
+        return { count: matching.length };
+      },
+    },
+  },
+}));
+
+vi.mock('./encryption', () => ({ decryptSecret: (stored: string) => stored }));
+
+// Every well-formed code is valid for step 1000, so the tests are about the replay check only.
+vi.mock('./totp', () => ({ verifyTotp: (_secret: string, code: string) => (/^\d{6}$/.test(code) ? 1000 : null) }));
+
+const mfaUser = { id: 1, mfaSecret: 'SECRET' };
+
+beforeEach(() => {
+  users.length = 0;
+  users.push({ id: 1, mfaLastUsedStep: null });
+});
+
+describe('verifyMfaCode', () => {
+  it('accepts a valid code once and records its step', async () => {
+    expect(await verifyMfaCode(mfaUser, '123456')).toBe('totp');
+    expect(users[0]?.mfaLastUsedStep).toBe(1000);
+  });
+
+  it('refuses a code whose step was already used', async () => {
+    users[0]!.mfaLastUsedStep = 1000;
+
+    expect(await verifyMfaCode(mfaUser, '123456')).toBeNull();
+  });
+
+  it('accepts the same code only once when two sign-ins send it at the same time', async () => {
+    const results = await Promise.all([verifyMfaCode(mfaUser, '123456'), verifyMfaCode(mfaUser, '123456')]);
+
+    expect(results.filter((result) => result === 'totp')).toHaveLength(1);
+    expect(results).toContain(null);
+  });
+
+  it('refuses a code when TOTP is not set up', async () => {
+    expect(await verifyMfaCode({ id: 1, mfaSecret: null }, '123456')).toBeNull();
+    expect(users[0]?.mfaLastUsedStep).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../prisma';
+import { env } from '../config/env';
+import { decryptSecret } from './encryption';
+import { hashToken } from './tokens';
+import { verifyTotp } from './totp';
+
+export const MFA_ISSUER = 'Vitasoft';
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const CHALLENGE_TTL = '5m';
+const CHALLENGE_AUDIENCE = 'mfa-challenge';
+const MAX_CHALLENGE_FAILURES = 5;
+
+export interface MfaUser {
+  id: number;
+  mfaSecret: string | null;
+}
+
+function randomRecoveryCode(): string {
+  const chars = Array.from(crypto.randomBytes(10), (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+/** Recovery codes are compared case- and dash-insensitively, as people retype them. */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Replaces a user's recovery codes with a fresh set and returns them in plain
+ * text. This is the only time they are visible; only hashes are stored.
+ */
+export async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomRecoveryCode);
+  await prisma.$transaction([
+    prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.mfaRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+    }),
+  ]);
+  return codes;
+}
+
+/**
+ * Accepts either a current TOTP code or an unused recovery code. A TOTP code is
+ * refused if its time step was already used, even by a sign-in running at the
+ * same moment; a recovery code is consumed.
+ */
+export async function verifyMfaCode(user: MfaUser, code: string): Promise<'totp' | 'recovery' | null> {
+  const trimmed = code.trim();
+
+  if (/^\d{6}$/.test(trimmed.replace(/\s/g, ''))) {
+    if (!user.mfaSecret) return null;
+    const step = verifyTotp(decryptSecret(user.mfaSecret), trimmed);
+    if (step === null) return null;
+    // Claiming the step is the check: of two sign-ins with the same code, only one updates the row.
+    const claimed: { count: number } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }] },
+      data: { mfaLastUsedStep: step },
+    });
+    return claimed.count === 1 ? 'totp' : null;
+  }
+
+  const consumed: { count: number } = await prisma.mfaRecoveryCode.updateMany({
+    where: { userId: user.id, codeHash: hashToken(normalizeRecoveryCode(trimmed)), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return consumed.count > 0 ? 'recovery' : null;
+}
+
+/**
+ * Short-lived token proving the password step of a login succeeded. It can't be
+ * used as an access token: it has no session and a dedicated audience.
+ */
+export function signMfaChallenge(userId: number): string {
+  return jwt.sign({ sub: userId }, env.jwtSecret, {
+    audience: CHALLENGE_AUDIENCE,
+    expiresIn: CHALLENGE_TTL,
+    jwtid: crypto.randomUUID(),
+  });
+}
+
+/** User id and token id of a valid challenge, or null if it is invalid or expired. */
+export function verifyMfaChallenge(token: string): { userId: number; challengeId: string } | null {
+  try {
+    const payload = jwt.verify(token, env.jwtSecret, { audience: CHALLENGE_AUDIENCE }) as
+      | { sub?: number; jti?: string }
+      | string;
+    if (typeof payload === 'string' || typeof payload.sub !== 'number' || !payload.jti) return null;
+    return { userId: payload.sub, challengeId: payload.jti };
+  } catch {
+    return null;
+  }
+}
+
+// Wrong codes per challenge, kept in memory for the challenge's short lifetime.
+const challengeFailures = new Map<string, { count: number; expiresAt: number }>();
+
+/**
+ * Records a wrong code for a challenge. Returns true once the challenge has used
+ * up its attempts, after which the user has to enter their password again.
+ */
+export function recordChallengeFailure(challengeId: string, now: number = Date.now()): boolean {
+  for (const [id, entry] of challengeFailures) {
+    if (entry.expiresAt <= now) challengeFailures.delete(id);
+  }
+  const entry = challengeFailures.get(challengeId) ?? { count: 0, expiresAt: now + 5 * 60 * 1000 };
+  entry.count += 1;
+  challengeFailures.set(challengeId, entry);
+  return entry.count >= MAX_CHALLENGE_FAILURES;
+}
+
+export function isChallengeExhausted(challengeId: string): boolean {
+  return (challengeFailures.get(challengeId)?.count ?? 0) >= MAX_CHALLENGE_FAILURES;
+}
@@ -0,0 +1,64 @@
+/**
+ * Helpers shared by list endpoints that support opaque cursor pagination.
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Returns the first non-empty string for a query parameter, or undefined.
+ * Express gives us string | string[] | ParsedQs, so we normalise it here.
+ */
+export function queryString(value: unknown): string | undefined {
+  if (Array.isArray(value)) return queryString(value[0]);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : trimmed;
+}
+
+/**
+ * Returns every value of a query parameter that may be repeated
+ * (`?priority=low&priority=high`) or comma separated (`?priority=low,high`).
+ */
+export function queryList(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : [value];
+  return raw
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter((v) => v !== '');
+}
+
+/**
+ * Parses the `limit` query parameter, clamped to [1, MAX_PAGE_SIZE].
+ * Returns null when the value is present but not a positive integer.
+ */
+export function parseLimit(value: unknown): number | null {
+  const raw = queryString(value);
+  if (raw === undefined) return DEFAULT_PAGE_SIZE;
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1) return null;
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+export const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Encodes a cursor payload so clients treat it as an opaque string.
+ */
+export function encodeCursor(payload: object): string {
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by encodeCursor. Returns null for anything
+ * that is not a base64url-encoded JSON object.
+ */
+export function decodeCursor<T extends object>(raw: string): T | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,173 @@
+import prisma from '../prisma';
+import type {
+  NotificationPreferencesDto,
+  TaskSortKey,
+  TaskStatusFilter,
+  TaskViewMode,
+  ThemePreference,
+  UpdatePreferencesRequestDto,
+  UserPreferencesDto,
+} from '../types/auth';
+import { env } from '../config/env';
+import { isTimeZone } from './validation';
+
+const THEMES: ThemePreference[] = ['light', 'dark'];
+const VIEW_MODES: TaskViewMode[] = ['grid', 'list'];
+const SORT_KEYS: TaskSortKey[] = ['createdAt', 'dueDate', 'priority', 'title'];
+const STATUS_FILTERS: TaskStatusFilter[] = ['all', 'active', 'completed'];
+export const MAX_DUE_SOON_HOURS = 24 * 30;
+const MAX_WEBHOOK_URL_LENGTH = 2000;
+
+export const DEFAULT_PREFERENCES: UserPreferencesDto = {
+  theme: 'dark',
+  defaultViewMode: 'grid',
+  defaultSort: 'createdAt',
+  defaultSortOrder: 'desc',
+  defaultStatusFilter: 'all',
+  weekStartsOn: 1,
+  timezone: null,
+  dueSoonHours: 48,
+  notifications: { dueSoon: true, overdue: true, email: false, webhookUrl: null, webhookSecret: null },
+};
+
+export interface PreferencesRecord {
+  theme: string;
+  defaultViewMode: string;
+  defaultSort: string;
+  defaultSortOrder: string;
+  defaultStatusFilter: string;
+  weekStartsOn: number;
+  timezone: string | null;
+  dueSoonHours: number;
+  notifyDueSoon: boolean;
+  notifyOverdue: boolean;
+  notifyByEmail: boolean;
+  webhookUrl: string | null;
+  webhookSecret: string | null;
+}
+
+/** Column values for a `UserPreferences` row. */
+export type PreferencesData = Partial<PreferencesRecord>;
+
+function oneOf<T extends string>(value: string, allowed: readonly T[], fallback: T): T {
+  return (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+}
+
+export function toPreferencesDto(record: PreferencesRecord | null): UserPreferencesDto {
+  if (!record) return DEFAULT_PREFERENCES;
+  return {
+    theme: oneOf(record.theme, THEMES, DEFAULT_PREFERENCES.theme),
+    defaultViewMode: oneOf(record.defaultViewMode, VIEW_MODES, DEFAULT_PREFERENCES.defaultViewMode),
+    defaultSort: oneOf(record.defaultSort, SORT_KEYS, DEFAULT_PREFERENCES.defaultSort),
+    defaultSortOrder: oneOf(record.defaultSortOrder, ['asc', 'desc'], DEFAULT_PREFERENCES.defaultSortOrder),
+    defaultStatusFilter: oneOf(record.defaultStatusFilter, STATUS_FILTERS, DEFAULT_PREFERENCES.defaultStatusFilter),
+    weekStartsOn: record.weekStartsOn,
+    timezone: record.timezone,
+    dueSoonHours: record.dueSoonHours,
+    notifications: {
+      dueSoon: record.notifyDueSoon,
+      overdue: record.notifyOverdue,
+      email: record.notifyByEmail,
+      webhookUrl: record.webhookUrl,
+      webhookSecret: record.webhookSecret,
+    },
+  };
+}
+
+/** The user's preferences, with defaults for anything never saved. */
+export async function getUserPreferences(userId: number): Promise<UserPreferencesDto> {
+  const record: PreferencesRecord | null = await prisma.userPreferences.findUnique({ where: { userId } });
+  return toPreferencesDto(record);
+}
+
+function checkChoice<T extends string>(value: unknown, allowed: readonly T[], field: string): string | null {
+  if (value === undefined || (typeof value === 'string' && (allowed as readonly string[]).includes(value))) return null;
+  return `${field} must be one of ${allowed.join(', ')}`;
+}
+
+/**
+ * Webhooks must be http(s); plain http only outside production. Where the URL
+ * points is checked separately (`checkWebhookTarget`), since that takes a DNS lookup.
+ */
+function isWebhookUrl(value: string): boolean {
+  if (value.length > MAX_WEBHOOK_URL_LENGTH) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || (protocol === 'http:' && env.nodeEnv !== 'production');
+  } catch {
+    return false;
+  }
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validates a PUT /me/preferences body and maps it to column values. Fields that
+ * are left out are not in the result, so they keep their stored value.
+ */
+export function validatePreferencesUpdate(value: unknown): { data: PreferencesData } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Preferences must be an object' };
+  }
+  const body = value as Record<keyof UpdatePreferencesRequestDto, unknown>;
+
+  const choiceError =
+    checkChoice(body.theme, THEMES, 'theme') ??
+    checkChoice(body.defaultViewMode, VIEW_MODES, 'defaultViewMode') ??
+    checkChoice(body.defaultSort, SORT_KEYS, 'defaultSort') ??
+    checkChoice(body.defaultSortOrder, ['asc', 'desc'], 'defaultSortOrder') ??
+    checkChoice(body.defaultStatusFilter, STATUS_FILTERS, 'defaultStatusFilter');
+  if (choiceError) return { error: choiceError };
+
+  const { weekStartsOn, timezone, dueSoonHours, notifications } = body;
+  if (weekStartsOn !== undefined && !isIntegerBetween(weekStartsOn, 0, 6)) {
+    return { error: 'weekStartsOn must be a whole number from 0 (Sunday) to 6 (Saturday)' };
+  }
+  if (timezone !== undefined && timezone !== null && !(typeof timezone === 'string' && isTimeZone(timezone))) {
+    return { error: 'timezone must be an IANA time zone name such as "Europe/Berlin", or null' };
+  }
+  if (dueSoonHours !== undefined && !isIntegerBetween(dueSoonHours, 1, MAX_DUE_SOON_HOURS)) {
+    return { error: `dueSoonHours must be a whole number between 1 and ${MAX_DUE_SOON_HOURS}` };
+  }
+
+  let notify: Partial<Record<Exclude<keyof NotificationPreferencesDto, 'webhookSecret'>, unknown>> = {};
+  if (notifications !== undefined) {
+    if (!notifications || typeof notifications !== 'object' || Array.isArray(notifications)) {
+      return { error: 'notifications must be an object' };
+    }
+    notify = notifications as typeof notify;
+    for (const key of ['dueSoon', 'overdue', 'email'] as const) {
+      if (notify[key] !== undefined && typeof notify[key] !== 'boolean') {
+        return { error: `notifications.${key} must be true or false` };
+      }
+    }
+    const { webhookUrl } = notify;
+    if (
+      webhookUrl !== undefined &&
+      webhookUrl !== null &&
+      webhookUrl !== '' &&
+      !(typeof webhookUrl === 'string' && isWebhookUrl(webhookUrl.trim()))
+    ) {
+      return {
+        error: `notifications.webhookUrl must be an ${env.nodeEnv === 'production' ? 'https' : 'http(s)'} URL of at most ${MAX_WEBHOOK_URL_LENGTH} characters, or null`,
+      };
+    }
+  }
+
+  const data: PreferencesData = {};
+  if (body.theme !== undefined) data.theme = body.theme as string;
+  if (body.defaultViewMode !== undefined) data.defaultViewMode = body.defaultViewMode as string;
+  if (body.defaultSort !== undefined) data.defaultSort = body.defaultSort as string;
+  if (body.defaultSortOrder !== undefined) data.defaultSortOrder = body.defaultSortOrder as string;
+  if (body.defaultStatusFilter !== undefined) data.defaultStatusFilter = body.defaultStatusFilter as string;
+  if (weekStartsOn !== undefined) data.weekStartsOn = weekStartsOn as number;
+  if (timezone !== undefined) data.timezone = timezone as string | null;
+  if (dueSoonHours !== undefined) data.dueSoonHours = dueSoonHours as number;
+  if (notify.dueSoon !== undefined) data.notifyDueSoon = notify.dueSoon as boolean;
+  if (notify.overdue !== undefined) data.notifyOverdue = notify.overdue as boolean;
+  if (notify.email !== undefined) data.notifyByEmail = notify.email as boolean;
+  if (notify.webhookUrl !== undefined) data.webhookUrl = (notify.webhookUrl as string | null)?.trim() || null;
+  return { data };
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { formatRecurrence, nextOccurrence, parseRecurrence } from './recurrence';
+
+describe('nextOccurrence', () => {
+  describe('timed tasks', () => {
+    it('keeps the wall-clock time when daylight saving time starts', () => {
+      // 09:00 EST the day before the clocks go forward in New York.
+      const next = nextOccurrence(
+        { frequency: 'daily', interval: 1 },
+        new Date('2026-03-07T14:00:00Z'),
+        false,
+        'America/New_York',
+      );
+      expect(next?.dueDate.toISOString()).toBe('2026-03-08T13:00:00.000Z');
+    });
+
+    it('keeps the wall-clock time when daylight saving time ends', () => {
+      // 09:00 EDT the day before the clocks go back in New York.
+      const next = nextOccurrence(
+        { frequency: 'daily', interval: 1 },
+        new Date('2026-10-31T13:00:00Z'),
+        false,
+        'America/New_York',
+      );
+      expect(next?.dueDate.toISOString()).toBe('2026-11-01T14:00:00.000Z');
+    });
+
+    it("picks weekdays in the user's zone, not in UTC", () => {
+      // Tuesday 20:00 in Los Angeles is already Wednesday in UTC.
+      const next = nextOccurrence(
+        { frequency: 'weekly', interval: 1, weekdays: ['MO', 'WE'] },
+        new Date('2026-03-04T04:00:00Z'),
+        false,
+        'America/Los_Angeles',
+      );
+      expect(next?.dueDate.toISOString()).toBe('2026-03-05T04:00:00.000Z');
+    });
+
+    it('moves a weekly task across a European clock change', () => {
+      // Monday 08:00 CET; the next Monday is in CEST.
+      const next = nextOccurrence(
+        { frequency: 'weekly', interval: 1 },
+        new Date('2026-03-23T07:00:00Z'),
+        false,
+        'Europe/Berlin',
+      );
+      expect(next?.dueDate.toISOString()).toBe('2026-03-30T06:00:00.000Z');
+    });
+
+    it('works in zones ahead of UTC near midnight', () => {
+      // 00:30 on the 1st in Tokyo is still the previous month in UTC.
+      const next = nextOccurrence(
+        { frequency: 'monthly', interval: 1 },
+        new Date('2026-04-30T15:30:00Z'),
+        false,
+        'Asia/Tokyo',
+      );
+      expect(next?.dueDate.toISOString()).toBe('2026-05-31T15:30:00.000Z');
+    });
+  });
+
+  describe('all-day tasks', () => {
+    it('clamps a monthly date to the end of a short month', () => {
+      const next = nextOccurrence(
+        { frequency: 'monthly', interval: 1 },
+        new Date('2026-01-31T00:00:00Z'),
+        true,
+        'America/New_York',
+      );
+      expect(next?.dueDate.toISOString()).toBe('2026-02-28T00:00:00.000Z');
+    });
+
+    it('finds the nth weekday of the month', () => {
+      const next = nextOccurrence(
+        { frequency: 'monthly', interval: 1, nthWeekday: { n: -1, weekday: 'FR' } },
+        new Date('2026-01-30T00:00:00Z'),
+        true,
+        'UTC',
+      );
+      expect(next?.dueDate.toISOString()).toBe('2026-02-27T00:00:00.000Z');
+    });
+
+    it('skips weeks for a weekly interval', () => {
+      const next = nextOccurrence(
+        { frequency: 'weekly', interval: 2, weekdays: ['MO'] },
+        new Date('2026-03-02T00:00:00Z'),
+        true,
+        'UTC',
+      );
+      expect(next?.dueDate.toISOString()).toBe('2026-03-16T00:00:00.000Z');
+    });
+  });
+
+  describe('end of the series', () => {
+    it('counts down the remaining occurrences', () => {
+      const next = nextOccurrence({ frequency: 'daily', interval: 1, count: 3 }, new Date('2026-03-01'), true, 'UTC');
+      expect(next?.rule.count).toBe(2);
+    });
+
+    it('ends after the last counted occurrence', () => {
+      const rule = { frequency: 'daily' as const, interval: 1, count: 1 };
+      expect(nextOccurrence(rule, new Date('2026-03-01'), true, 'UTC')).toBeNull();
+    });
+
+    it('ends when the next date is after until', () => {
+      const rule = { frequency: 'weekly' as const, interval: 1, until: '2026-03-05T23:59:59.999Z' };
+      expect(nextOccurrence(rule, new Date('2026-03-01'), true, 'UTC')).toBeNull();
+    });
+  });
+});
+
+describe('parseRecurrence', () => {
+  it('reads back what formatRecurrence stores', () => {
+    const rule = {
+      frequency: 'monthly' as const,
+      interval: 2,
+      nthWeekday: { n: 2, weekday: 'TU' as const },
+      count: 5,
+    };
+    expect(parseRecurrence(formatRecurrence(rule))).toEqual(rule);
+  });
+
+  it('returns null for anything that is not a rule', () => {
+    expect(parseRecurrence(null)).toBeNull();
+    expect(parseRecurrence('FREQ=HOURLY')).toBeNull();
+  });
+});
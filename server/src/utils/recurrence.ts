@@ -0,0 +1,259 @@
+/**
+ * Recurrence rules for repeating tasks. Rules are stored on the task as an
+ * RRULE-style string (`FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE`) and exposed to the API
+ * as a RecurrenceRuleDto. Date math is done on UTC fields: all-day due dates are
+ * UTC midnights already, and timed ones are first turned into the wall-clock time
+ * in the user's time zone, so weekdays and "9:00 every day" hold across DST changes.
+ */
+import type { RecurrenceFrequency, RecurrenceRuleDto, Weekday } from '../types/task';
+import { fromWallClock, wallClockIn } from './dueDates';
+import { DATE_ONLY_REGEX } from './pagination';
+
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+/** Indexed like Date#getUTCDay(). */
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const NTH_VALUES = [1, 2, 3, 4, -1];
+const MAX_INTERVAL = 365;
+const MAX_COUNT = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isWeekday(value: unknown): value is Weekday {
+  return typeof value === 'string' && (WEEKDAYS as string[]).includes(value);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Same time of day as `base`, on the given calendar date (month may overflow into later years). */
+function atDate(base: Date, year: number, month: number, day: number): Date {
+  const normalized = new Date(Date.UTC(year, month, 1));
+  const y = normalized.getUTCFullYear();
+  const m = normalized.getUTCMonth();
+  return new Date(
+    Date.UTC(y, m, Math.min(day, daysInMonth(y, m)), base.getUTCHours(), base.getUTCMinutes(), base.getUTCSeconds()),
+  );
+}
+
+/** Day of month of the nth weekday (n = -1 for the last one). */
+function nthWeekdayOfMonth(year: number, month: number, n: number, weekday: Weekday): number {
+  const target = WEEKDAYS.indexOf(weekday);
+  if (n > 0) {
+    const firstDay = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return 1 + ((target - firstDay + 7) % 7) + (n - 1) * 7;
+  }
+  const lastDate = daysInMonth(year, month);
+  const lastDay = new Date(Date.UTC(year, month, lastDate)).getUTCDay();
+  return lastDate - ((lastDay - target + 7) % 7);
+}
+
+/** Start (Monday 00:00 UTC) of the week containing `date`. */
+function weekStart(date: Date): number {
+  const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return midnight - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+/**
+ * Validates a recurrence payload from the API. `null` clears the rule.
+ */
+export function validateRecurrence(value: unknown): { rule: RecurrenceRuleDto | null } | { error: string } {
+  if (value === null) return { rule: null };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Recurrence must be an object or null' };
+  }
+  const input = value as Record<string, unknown>;
+
+  if (!FREQUENCIES.includes(input.frequency as RecurrenceFrequency)) {
+    return { error: 'Recurrence frequency must be daily, weekly, monthly, or yearly' };
+  }
+  const frequency = input.frequency as RecurrenceFrequency;
+  const rule: RecurrenceRuleDto = { frequency, interval: 1 };
+
+  if (input.interval !== undefined) {
+    if (!Number.isInteger(input.interval) || (input.interval as number) < 1 || (input.interval as number) > MAX_INTERVAL) {
+      return { error: `Recurrence interval must be a whole number between 1 and ${MAX_INTERVAL}` };
+    }
+    rule.interval = input.interval as number;
+  }
+
+  if (input.weekdays !== undefined) {
+    if (frequency !== 'weekly') return { error: 'Weekdays can only be set on weekly recurrence' };
+    if (!Array.isArray(input.weekdays) || !input.weekdays.every(isWeekday)) {
+      return { error: 'Weekdays must be a list of MO, TU, WE, TH, FR, SA, SU' };
+    }
+    rule.weekdays = WEEKDAYS.filter((day) => (input.weekdays as Weekday[]).includes(day));
+  }
+
+  if (input.monthDay !== undefined && input.nthWeekday !== undefined) {
+    return { error: 'Use either monthDay or nthWeekday, not both' };
+  }
+
+  if (input.monthDay !== undefined) {
+    if (frequency !== 'monthly') return { error: 'monthDay can only be set on monthly recurrence' };
+    if (!Number.isInteger(input.monthDay) || (input.monthDay as number) < 1 || (input.monthDay as number) > 31) {
+      return { error: 'monthDay must be between 1 and 31' };
+    }
+    rule.monthDay = input.monthDay as number;
+  }
+
+  if (input.nthWeekday !== undefined) {
+    if (frequency !== 'monthly') return { error: 'nthWeekday can only be set on monthly recurrence' };
+    const nth = input.nthWeekday as { n?: unknown; weekday?: unknown } | null;
+    if (!nth || typeof nth !== 'object' || !NTH_VALUES.includes(nth.n as number) || !isWeekday(nth.weekday)) {
+      return { error: 'nthWeekday must have n of 1-4 or -1 (last) and a weekday' };
+    }
+    rule.nthWeekday = { n: nth.n as number, weekday: nth.weekday };
+  }
+
+  if (input.count !== undefined && input.until !== undefined) {
+    return { error: 'Use either count or until, not both' };
+  }
+
+  if (input.count !== undefined) {
+    if (!Number.isInteger(input.count) || (input.count as number) < 1 || (input.count as number) > MAX_COUNT) {
+      return { error: `Recurrence count must be between 1 and ${MAX_COUNT}` };
+    }
+    rule.count = input.count as number;
+  }
+
+  if (input.until !== undefined) {
+    const until = parseUntil(input.until);
+    if (!until) return { error: 'Recurrence until must be a valid date' };
+    rule.until = until.toISOString();
+  }
+
+  return { rule };
+}
+
+/** Date-only values mean "through the end of that day". */
+function parseUntil(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(DATE_ONLY_REGEX.test(value) ? `${value}T23:59:59.999Z` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Serialises a rule to the RRULE-style string stored on the task.
+ */
+export function formatRecurrence(rule: RecurrenceRuleDto): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.weekdays?.length) parts.push(`BYDAY=${rule.weekdays.join(',')}`);
+  if (rule.nthWeekday) parts.push(`BYDAY=${rule.nthWeekday.n}${rule.nthWeekday.weekday}`);
+  if (rule.monthDay !== undefined) parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  return parts.join(';');
+}
+
+/**
+ * Parses a stored RRULE-style string. Returns null for empty or unreadable values.
+ */
+export function parseRecurrence(raw: string | null | undefined): RecurrenceRuleDto | null {
+  if (!raw) return null;
+  const fields = new Map(
+    raw.split(';').map((part) => {
+      const [key = '', val = ''] = part.split('=');
+      return [key, val] as const;
+    }),
+  );
+
+  const frequency = fields.get('FREQ')?.toLowerCase() as RecurrenceFrequency | undefined;
+  if (!frequency || !FREQUENCIES.includes(frequency)) return null;
+  const rule: RecurrenceRuleDto = { frequency, interval: Number(fields.get('INTERVAL') ?? 1) || 1 };
+
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    const nth = /^(-?\d)([A-Z]{2})$/.exec(byDay);
+    if (nth && isWeekday(nth[2])) {
+      rule.nthWeekday = { n: Number(nth[1]), weekday: nth[2] };
+    } else {
+      rule.weekdays = byDay.split(',').filter(isWeekday);
+    }
+  }
+  if (fields.has('BYMONTHDAY')) rule.monthDay = Number(fields.get('BYMONTHDAY'));
+  if (fields.has('COUNT')) rule.count = Number(fields.get('COUNT'));
+
+  const until = fields.get('UNTIL');
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(until);
+    if (match) {
+      const [, y, mo, d, h, mi, s] = match;
+      rule.until = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}.999Z`).toISOString();
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * The date after `from` on which the rule next occurs, ignoring count and until.
+ * Calendar fields are read in UTC, so `from` is a calendar date or a wall-clock time.
+ */
+function nextDate(rule: RecurrenceRuleDto, from: Date): Date {
+  const year = from.getUTCFullYear();
+  const month = from.getUTCMonth();
+
+  switch (rule.frequency) {
+    case 'daily':
+      return new Date(from.getTime() + rule.interval * DAY_MS);
+
+    case 'weekly': {
+      const days = rule.weekdays?.length ? rule.weekdays : [WEEKDAYS[from.getUTCDay()] as Weekday];
+      const startWeek = weekStart(from);
+      // Walk forward day by day; a match is always found within interval + 1 weeks.
+      for (let offset = 1; offset <= (rule.interval + 1) * 7; offset += 1) {
+        const candidate = new Date(from.getTime() + offset * DAY_MS);
+        const weeksApart = Math.round((weekStart(candidate) - startWeek) / (7 * DAY_MS));
+        if (weeksApart % rule.interval === 0 && days.includes(WEEKDAYS[candidate.getUTCDay()] as Weekday)) {
+          return candidate;
+        }
+      }
+      return new Date(from.getTime() + rule.interval * 7 * DAY_MS);
+    }
+
+    case 'monthly': {
+      if (rule.nthWeekday) {
+        const target = atDate(from, year, month + rule.interval, 1);
+        const day = nthWeekdayOfMonth(
+          target.getUTCFullYear(),
+          target.getUTCMonth(),
+          rule.nthWeekday.n,
+          rule.nthWeekday.weekday,
+        );
+        return atDate(from, target.getUTCFullYear(), target.getUTCMonth(), day);
+      }
+      // Short months clamp to their last day (the 31st becomes the 30th or 28th).
+      return atDate(from, year, month + rule.interval, rule.monthDay ?? from.getUTCDate());
+    }
+
+    case 'yearly':
+      return atDate(from, year + rule.interval, month, from.getUTCDate());
+  }
+}
+
+/**
+ * Works out the next occurrence after a task due on `dueDate` is completed. A timed
+ * due date keeps its wall-clock time and weekday in `timeZone`.
+ * Returns the shifted due date and the rule to store on the new task (with its
+ * count decremented), or null when the series has ended.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRuleDto,
+  dueDate: Date,
+  dueAllDay: boolean,
+  timeZone: string,
+): { dueDate: Date; rule: RecurrenceRuleDto } | null {
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const next = dueAllDay
+    ? nextDate(rule, dueDate)
+    : fromWallClock(nextDate(rule, new Date(wallClockIn(dueDate, timeZone))).getTime(), timeZone);
+  if (rule.until && next.getTime() > new Date(rule.until).getTime()) return null;
+
+  return {
+    dueDate: next,
+    rule: rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule,
+  };
+}
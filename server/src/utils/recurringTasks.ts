@@ -0,0 +1,107 @@
+/**
+ * Repeating tasks: when a task with a recurrence rule is completed, its next
+ * occurrence is created. Shared by every path that can complete a task.
+ */
+import prisma from '../prisma';
+import type { RecurrenceRuleDto } from '../types/task';
+import { formatRecurrence, nextOccurrence, parseRecurrence } from './recurrence';
+import { addCalendarDays, calendarDaysBetween, dueDay, userTimeZone } from './dueDates';
+import { copyRelativeReminders } from './reminders';
+
+export interface CompletedTask {
+  id: number;
+  title: string;
+  description: string | null;
+  priority: string;
+  dueDate: Date | null;
+  dueAllDay: boolean;
+  startDate: Date | null;
+  projectId: number | null;
+  completeWithChecklist: boolean;
+  recurrence: string | null;
+  tags?: { id: number }[];
+}
+
+interface CreatedTask {
+  id: number;
+  userId: number;
+  title: string;
+  description: string | null;
+  dueDate: Date | null;
+  dueAllDay: boolean;
+  completed: boolean;
+}
+
+/**
+ * Creates the next occurrence of a recurring task that was just completed: same
+ * details, tags, checklist (unchecked) and relative reminders, due on the next
+ * date of the rule.
+ * The rule moves to the new task so re-completing the old one doesn't repeat it.
+ * Returns false when the series has ended.
+ */
+async function createNextOccurrence(userId: number, task: CompletedTask, rule: RecurrenceRuleDto): Promise<boolean> {
+  if (!task.dueDate) return false;
+  const timeZone = await userTimeZone(userId);
+  const occurrence = nextOccurrence(rule, task.dueDate, task.dueAllDay, timeZone);
+  if (!occurrence) return false;
+
+  const checklistItems: { title: string; position: number }[] = await prisma.checklistItem.findMany({
+    where: { taskId: task.id },
+    orderBy: { position: 'asc' },
+  });
+
+  // The start date moves along with the due date; the plan for the old one doesn't carry over.
+  const shift = calendarDaysBetween(
+    dueDay(task.dueDate, task.dueAllDay, timeZone),
+    dueDay(occurrence.dueDate, task.dueAllDay, timeZone),
+  );
+
+  const next: CreatedTask = await prisma.task.create({
+    data: {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      dueDate: occurrence.dueDate,
+      dueAllDay: task.dueAllDay,
+      startDate: task.startDate ? addCalendarDays(task.startDate, shift) : null,
+      userId,
+      projectId: task.projectId,
+      completeWithChecklist: task.completeWithChecklist,
+      recurrence: formatRecurrence(occurrence.rule),
+      tags: { connect: (task.tags ?? []).map((tag) => ({ id: tag.id })) },
+      checklistItems: {
+        create: checklistItems.map((item) => ({ title: item.title, position: item.position })),
+      },
+    },
+  });
+
+  await prisma.task.update({ where: { id: task.id }, data: { recurrence: null } });
+  await copyRelativeReminders(task.id, next);
+
+  await prisma.activityLog.create({
+    data: {
+      userId,
+      action: 'created',
+      taskId: next.id,
+      taskTitle: next.title,
+      taskDescription: next.description,
+      taskDueDate: next.dueDate,
+      taskDueAllDay: next.dueAllDay,
+      taskCompleted: next.completed,
+      detail: 'Next occurrence of a recurring task',
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Call after a task was marked completed. Creates its next occurrence when it has
+ * a recurrence rule; returns true when one was created (the completed task no
+ * longer carries the rule then).
+ */
+export async function spawnNextOccurrence(userId: number, task: CompletedTask): Promise<boolean> {
+  const rule = parseRecurrence(task.recurrence);
+  if (!rule) return false;
+  return createNextOccurrence(userId, task, rule);
+}
@@ -0,0 +1,76 @@
+import prisma from '../prisma';
+import { atTimeOfDay, userTimeZone } from './dueDates';
+
+/** Relative reminders go at most this many minutes (30 days) before the due date. */
+export const MAX_REMINDER_OFFSET_MINUTES = 30 * 24 * 60;
+export const MAX_REMINDERS_PER_TASK = 10;
+
+/** All-day tasks count as due at 09:00 where the user is when reminding about them. */
+const ALL_DAY_REMINDER_MINUTES = 9 * 60;
+
+interface ReminderTiming {
+  offsetMinutes: number | null;
+  remindAt: Date | null;
+}
+
+interface TaskDue {
+  dueDate: Date | null;
+  dueAllDay: boolean;
+}
+
+/**
+ * When a reminder should fire: its own moment when absolute, otherwise
+ * `offsetMinutes` before the task is due. Null when a relative reminder's task
+ * has no due date.
+ */
+export function computeFireAt(reminder: ReminderTiming, task: TaskDue, timeZone: string): Date | null {
+  if (reminder.offsetMinutes === null) return reminder.remindAt;
+  if (!task.dueDate) return null;
+  const due = task.dueAllDay ? atTimeOfDay(task.dueDate, ALL_DAY_REMINDER_MINUTES, timeZone) : task.dueDate;
+  return new Date(due.getTime() - reminder.offsetMinutes * 60 * 1000);
+}
+
+/**
+ * Moves a task's relative reminders along with its due date. A reminder whose
+ * time moved into the future is armed again, even if it already fired.
+ */
+export async function rescheduleReminders(
+  task: TaskDue & { id: number; userId: number },
+  now: Date = new Date(),
+): Promise<void> {
+  const reminders: (ReminderTiming & { id: number; fireAt: Date | null; firedAt: Date | null })[] =
+    await prisma.reminder.findMany({ where: { taskId: task.id, offsetMinutes: { not: null } } });
+  if (reminders.length === 0) return;
+
+  const timeZone = await userTimeZone(task.userId);
+  for (const reminder of reminders) {
+    const fireAt = computeFireAt(reminder, task, timeZone);
+    if (fireAt?.getTime() === reminder.fireAt?.getTime()) continue;
+    await prisma.reminder.update({
+      where: { id: reminder.id },
+      data: { fireAt, ...(fireAt && fireAt > now ? { firedAt: null } : {}) },
+    });
+  }
+}
+
+/** Gives a new occurrence of a recurring task the same relative reminders as the one before. */
+export async function copyRelativeReminders(
+  fromTaskId: number,
+  task: TaskDue & { id: number; userId: number },
+): Promise<void> {
+  const reminders: { offsetMinutes: number }[] = await prisma.reminder.findMany({
+    where: { taskId: fromTaskId, offsetMinutes: { not: null } },
+    select: { offsetMinutes: true },
+  });
+  if (reminders.length === 0) return;
+
+  const timeZone = await userTimeZone(task.userId);
+  await prisma.reminder.createMany({
+    data: reminders.map(({ offsetMinutes }) => ({
+      taskId: task.id,
+      userId: task.userId,
+      offsetMinutes,
+      fireAt: computeFireAt({ offsetMinutes, remindAt: null }, task, timeZone),
+    })),
+  });
+}
@@ -0,0 +1,33 @@
+import type { Request } from 'express';
+import prisma from '../prisma';
+import type { SecurityEventOutcome, SecurityEventType } from '../types/auth';
+import { clientInfo } from './sessions';
+
+export interface SecurityEventInput {
+  type: SecurityEventType;
+  outcome: SecurityEventOutcome;
+  /** Null when the attempt names an account that doesn't exist. */
+  userId: number | null;
+  detail?: string;
+}
+
+/**
+ * Records an authentication event with the caller's IP address and user agent.
+ * A failed write is logged, not thrown: the audit trail must not block sign-in.
+ */
+export async function recordSecurityEvent(req: Request, event: SecurityEventInput): Promise<void> {
+  try {
+    await prisma.securityEvent.create({
+      data: {
+        userId: event.userId,
+        type: event.type,
+        outcome: event.outcome,
+        detail: event.detail ?? null,
+        ...clientInfo(req),
+      },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('Failed to record security event', error);
+  }
+}
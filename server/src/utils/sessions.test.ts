@@ -0,0 +1,134 @@
+import type { Request } from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { REFRESH_REUSE_GRACE_MS, rotateSession, type SessionRecord } from './sessions';
+import { hashToken } from './tokens';
+
+const sessions: SessionRecord[] = [];
+
+// A session table just big enough for rotateSession: lookups by one unique column, updates by id.
+vi.mock('../prisma', () => ({
+  default: {
+    session: {
+      findUnique: async ({ where }: { where: Partial<SessionRecord> }) => {
+        const [column, value] = Object.entries(where)[0] as [keyof SessionRecord, unknown];
+        const found = sessions.find((session) => session[column] === value);
+        return found ? { ...found } : null;
+      },
+      update: async ({ where, data }: { where: { id: number }; data: Partial<SessionRecord> }) => {
+        const session = sessions.find((s) => s.id === where.id);
+        if (!session) throw new Error(`No session ${where.id}`);
+        Object.assign(session, data);
+        return { ...session };
+      },
+    },
+  },
+}));
+
+const req = { ip: '203.0.113.7', get: () => 'vitest' } as unknown as Request;
+
+function addSession(refreshToken: string): SessionRecord {
+  const now = new Date();
+  const session: SessionRecord = {
+    id: sessions.length + 1,
+    userId: 42,
+    tokenHash: hashToken(refreshToken),
+    previousTokenHash: null,
+    userAgent: null,
+    ipAddress: null,
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+    revokedAt: null,
+  };
+  sessions.push(session);
+  return session;
+}
+
+async function rotate(refreshToken: string) {
+  return rotateSession(refreshToken, req);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2026-06-01T12:00:00Z') });
+  sessions.length = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('rotateSession', () => {
+  it('swaps the refresh token for a new one and remembers the old one', async () => {
+    const session = addSession('first');
+
+    const result = await rotate('first');
+
+    expect(result).toMatchObject({ session: { id: session.id } });
+    if (!('refreshToken' in result)) throw new Error(result.error);
+    expect(result.refreshToken).not.toBe('first');
+    expect(sessions[0]).toMatchObject({
+      tokenHash: hashToken(result.refreshToken),
+      previousTokenHash: hashToken('first'),
+      ipAddress: '203.0.113.7',
+    });
+  });
+
+  it('keeps rotating with each new token', async () => {
+    addSession('first');
+    const second = await rotate('first');
+    if (!('refreshToken' in second)) throw new Error(second.error);
+
+    const third = await rotate(second.refreshToken);
+
+    if (!('refreshToken' in third)) throw new Error(third.error);
+    expect(sessions[0]?.tokenHash).toBe(hashToken(third.refreshToken));
+    expect(sessions[0]?.revokedAt).toBeNull();
+  });
+
+  it('hands out the current token again when the previous one is reused within the grace period', async () => {
+    addSession('first');
+    const rotated = await rotate('first');
+    if (!('refreshToken' in rotated)) throw new Error(rotated.error);
+
+    vi.advanceTimersByTime(REFRESH_REUSE_GRACE_MS - 1000);
+    const retried = await rotate('first');
+
+    expect(retried).toMatchObject({ refreshToken: rotated.refreshToken });
+    expect(sessions[0]?.revokedAt).toBeNull();
+  });
+
+  it('revokes the session when the previous token is reused after the grace period', async () => {
+    addSession('first');
+    const rotated = await rotate('first');
+    if (!('refreshToken' in rotated)) throw new Error(rotated.error);
+
+    vi.advanceTimersByTime(REFRESH_REUSE_GRACE_MS + 1000);
+    const reused = await rotate('first');
+
+    expect(reused).toEqual({ error: 'Invalid refresh token', userId: 42, reused: true });
+    expect(sessions[0]?.revokedAt).toEqual(new Date());
+    expect(await rotate(rotated.refreshToken)).toEqual({ error: 'Session expired', userId: 42 });
+  });
+
+  it('does not give a revoked session a new token through the grace period', async () => {
+    addSession('first');
+    await rotate('first');
+    sessions[0]!.revokedAt = new Date();
+
+    expect(await rotate('first')).toMatchObject({ error: 'Invalid refresh token' });
+  });
+
+  it('refuses expired sessions', async () => {
+    const session = addSession('first');
+    session.expiresAt = new Date(Date.now() - 1000);
+
+    expect(await rotate('first')).toEqual({ error: 'Session expired', userId: 42 });
+  });
+
+  it('refuses unknown tokens', async () => {
+    addSession('first');
+
+    expect(await rotate('someone-elses')).toEqual({ error: 'Invalid refresh token' });
+    expect(sessions[0]?.revokedAt).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import type { Request } from 'express';
+import jwt, { type Secret, type SignOptions } from 'jsonwebtoken';
+import prisma from '../prisma';
+import { env } from '../config/env';
+import { generateToken, hashToken } from './tokens';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_AGENT_MAX_LENGTH = 255;
+/**
+ * How long the refresh token just rotated away keeps working. Two tabs that
+ * refresh at the same moment both present the same token; the later one gets
+ * the current pair instead of tripping reuse detection.
+ */
+export const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+export interface SessionRecord {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  previousTokenHash: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+function refreshExpiry(now: Date): Date {
+  return new Date(now.getTime() + env.refreshTokenTtlDays * DAY_MS);
+}
+
+/**
+ * The refresh token that replaces `refreshToken` on rotation. It is derived rather
+ * than random so the same token rotates to the same successor: concurrent refreshes
+ * agree, and a retry within the grace period can be handed the current token again.
+ */
+function successorToken(refreshToken: string): string {
+  return crypto.createHmac('sha256', env.jwtSecret).update(`refresh:${refreshToken}`).digest('base64url');
+}
+
+/** Device details recorded on a session so users can tell their sessions apart. */
+export function clientInfo(req: Request): { userAgent: string | null; ipAddress: string | null } {
+  const userAgent = req.get('user-agent');
+  return {
+    userAgent: userAgent ? userAgent.slice(0, USER_AGENT_MAX_LENGTH) : null,
+    ipAddress: req.ip ?? null,
+  };
+}
+
+/**
+ * Signs a short-lived access token bound to a session, so revoking the session
+ * also invalidates the access tokens issued for it.
+ */
+export function signAccessToken(user: { id: number; email: string }, sessionId: number): string {
+  // `sub` stays numeric; the auth middleware relies on it.
+  const payload = { sub: user.id, email: user.email, sid: sessionId };
+  const secret: Secret = env.jwtSecret;
+  const options: SignOptions = { expiresIn: env.jwtExpiresIn as unknown as number };
+  return jwt.sign(payload, secret, options);
+}
+
+/**
+ * Starts a new session for a user who just signed in.
+ * Returns the session and the plain refresh token, which is never stored.
+ */
+export async function createSession(
+  userId: number,
+  req: Request,
+): Promise<{ session: SessionRecord; refreshToken: string }> {
+  const refreshToken = generateToken();
+  const session: SessionRecord = await prisma.session.create({
+    data: {
+      userId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: refreshExpiry(new Date()),
+      ...clientInfo(req),
+    },
+  });
+  return { session, refreshToken };
+}
+
+export interface LoginUser {
+  id: number;
+  email: string;
+  username: string;
+  emailVerified: boolean;
+}
+
+/** Starts a session once every sign-in step has passed; the body of a successful login. */
+export async function completeLogin(user: LoginUser, req: Request) {
+  const { session, refreshToken } = await createSession(user.id, req);
+  return {
+    token: signAccessToken(user, session.id),
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      emailVerified: user.emailVerified,
+    },
+  };
+}
+
+/**
+ * Exchanges a refresh token for a new one. Presenting a token that was already
+ * rotated away means it leaked, so the whole session is revoked, unless it was
+ * rotated within REFRESH_REUSE_GRACE_MS: then the current token is returned again.
+ * Errors carry the session's user when it is known, for the security log.
+ */
+export async function rotateSession(
+  refreshToken: string,
+  req: Request,
+): Promise<
+  { session: SessionRecord; refreshToken: string } | { error: string; userId?: number; reused?: boolean }
+> {
+  const now = new Date();
+  const tokenHash = hashToken(refreshToken);
+
+  const session: SessionRecord | null = await prisma.session.findUnique({ where: { tokenHash } });
+  if (!session) {
+    const reused: SessionRecord | null = await prisma.session.findUnique({
+      where: { previousTokenHash: tokenHash },
+    });
+    if (reused && !reused.revokedAt) {
+      const current = successorToken(refreshToken);
+      const inGrace =
+        now.getTime() - reused.lastUsedAt.getTime() <= REFRESH_REUSE_GRACE_MS &&
+        reused.expiresAt > now &&
+        reused.tokenHash === hashToken(current);
+      if (inGrace) {
+        return { session: reused, refreshToken: current };
+      }
+      await prisma.session.update({ where: { id: reused.id }, data: { revokedAt: now } });
+      return { error: 'Invalid refresh token', userId: reused.userId, reused: true };
+    }
+    return { error: 'Invalid refresh token' };
+  }
+
+  if (session.revokedAt || session.expiresAt <= now) {
+    return { error: 'Session expired', userId: session.userId };
+  }
+
+  const nextToken = successorToken(refreshToken);
+  const rotated: SessionRecord = await prisma.session.update({
+    where: { id: session.id },
+    data: {
+      tokenHash: hashToken(nextToken),
+      previousTokenHash: tokenHash,
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(now),
+      ...clientInfo(req),
+    },
+  });
+  return { session: rotated, refreshToken: nextToken };
+}
+
+/** Revokes every active session of a user, optionally keeping one (usually the caller's). */
+export async function revokeSessions(userId: number, exceptSessionId?: number): Promise<number> {
+  const result: { count: number } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId !== undefined ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
@@ -0,0 +1,178 @@
+/**
+ * Field-level change tracking for task updates. Each update stores the fields
+ * that changed, with their old and new values, as a JSON array on the
+ * activity log entry. The same data lets us rebuild earlier versions of a task.
+ */
+import type { Priority, RecurrenceRuleDto } from '../types/task';
+import type { NamedRefDto, TaskChangeField, TaskChangeValue, TaskFieldChangeDto } from '../types/activity';
+import { formatCalendarDate, formatDueDate, parseCalendarDate, parseDueDate } from './dueDates';
+import { parseRecurrence } from './recurrence';
+
+/** A task as loaded with TASK_CHANGE_INCLUDE. */
+export interface TrackedTask {
+  title: string;
+  description: string | null;
+  priority: Priority;
+  dueDate: Date | null;
+  dueAllDay: boolean;
+  startDate: Date | null;
+  scheduledFor: Date | null;
+  completed: boolean;
+  recurrence: string | null;
+  completeWithChecklist: boolean;
+  project?: NamedRefDto | null;
+  tags?: NamedRefDto[];
+}
+
+/** Relations needed to describe projects and tags by name in a diff. */
+export const TASK_CHANGE_INCLUDE = {
+  project: { select: { id: true, name: true } },
+  tags: { select: { id: true, name: true } },
+};
+
+/** Every tracked field of a task, in the shape used by change entries. */
+export type TaskVersion = Record<TaskChangeField, TaskChangeValue>;
+
+/** An activity entry as stored, with the task snapshot taken at the time. */
+export interface ActivitySnapshot {
+  taskTitle: string | null;
+  taskDescription: string | null;
+  taskDueDate: Date | null;
+  taskDueAllDay: boolean | null;
+  taskCompleted: boolean | null;
+  changes: string | null;
+}
+
+/** Used when neither the task nor its history says anything about a field. */
+const DEFAULT_VERSION: TaskVersion = {
+  title: '',
+  description: null,
+  priority: 'medium',
+  dueDate: null,
+  startDate: null,
+  scheduledFor: null,
+  completed: false,
+  project: null,
+  tags: [],
+  recurrence: null,
+  completeWithChecklist: false,
+};
+
+function snapshot(task: TrackedTask): TaskVersion {
+  return {
+    title: task.title,
+    description: task.description ?? null,
+    priority: task.priority,
+    dueDate: formatDueDate(task.dueDate, task.dueAllDay),
+    startDate: formatCalendarDate(task.startDate),
+    scheduledFor: formatCalendarDate(task.scheduledFor),
+    completed: task.completed,
+    project: task.project ? { id: task.project.id, name: task.project.name } : null,
+    tags: [...(task.tags ?? [])]
+      .sort((a, b) => a.id - b.id)
+      .map((tag) => ({ id: tag.id, name: tag.name })),
+    recurrence: parseRecurrence(task.recurrence),
+    completeWithChecklist: task.completeWithChecklist,
+  };
+}
+
+/** Compares by identity for projects and tags so renames alone don't count as changes. */
+function sameValue(field: TaskChangeField, a: TaskChangeValue, b: TaskChangeValue): boolean {
+  if (field === 'project') {
+    return (a as NamedRefDto | null)?.id === (b as NamedRefDto | null)?.id;
+  }
+  if (field === 'tags') {
+    const ids = (value: TaskChangeValue) => (value as NamedRefDto[]).map((tag) => tag.id).join(',');
+    return ids(a) === ids(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Lists the fields that differ between two versions of a task.
+ */
+export function diffTask(before: TrackedTask, after: TrackedTask): TaskFieldChangeDto[] {
+  const from = snapshot(before);
+  const to = snapshot(after);
+  return (Object.keys(from) as TaskChangeField[])
+    .filter((field) => !sameValue(field, from[field], to[field]))
+    .map((field) => ({ field, from: from[field], to: to[field] }));
+}
+
+/** Serialises changes for the ActivityLog `changes` column; empty lists are stored as null. */
+export function formatChanges(changes: TaskFieldChangeDto[]): string | null {
+  return changes.length > 0 ? JSON.stringify(changes) : null;
+}
+
+/** Parses the stored `changes` column. Returns null for empty or unreadable values. */
+export function parseChanges(raw: string | null | undefined): TaskFieldChangeDto[] | null {
+  if (!raw) return null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as TaskFieldChangeDto[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+function findChange(entry: { changes: string | null }, field: TaskChangeField): TaskFieldChangeDto | undefined {
+  return parseChanges(entry.changes)?.find((change) => change.field === field);
+}
+
+/**
+ * Rebuilds the task as it was right after `entry`. Title, description, due date and
+ * status come from the entry's snapshot. Other fields are taken from the first later
+ * change to them (its "from" value), else from the task as it is now, else from the
+ * last change up to and including the entry.
+ *
+ * `later` must be in chronological order and `earlier` (which includes the entry
+ * itself) in reverse chronological order.
+ */
+export function versionAt(
+  entry: ActivitySnapshot,
+  later: { changes: string | null }[],
+  earlier: { changes: string | null }[],
+  current: TrackedTask | null,
+): TaskVersion {
+  const now = current ? snapshot(current) : null;
+  const version = { ...DEFAULT_VERSION };
+
+  for (const field of Object.keys(DEFAULT_VERSION) as TaskChangeField[]) {
+    const next = later.map((log) => findChange(log, field)).find(Boolean);
+    if (next) {
+      version[field] = next.from;
+    } else if (now) {
+      version[field] = now[field];
+    } else {
+      const previous = earlier.map((log) => findChange(log, field)).find(Boolean);
+      if (previous) version[field] = previous.to;
+    }
+  }
+
+  return {
+    ...version,
+    title: entry.taskTitle ?? version.title,
+    description: entry.taskDescription,
+    dueDate: formatDueDate(entry.taskDueDate, entry.taskDueAllDay),
+    completed: entry.taskCompleted ?? version.completed,
+  };
+}
+
+/** Typed accessors for a rebuilt version. Due dates are stored with an offset, so the zone doesn't matter. */
+export function versionFields(version: TaskVersion) {
+  const due = parseDueDate(version.dueDate, 'UTC');
+  return {
+    title: version.title as string,
+    description: version.description as string | null,
+    priority: version.priority as Priority,
+    dueDate: due?.dueDate ?? null,
+    dueAllDay: due?.dueAllDay ?? false,
+    startDate: parseCalendarDate(version.startDate),
+    scheduledFor: parseCalendarDate(version.scheduledFor),
+    completed: version.completed as boolean,
+    projectId: (version.project as NamedRefDto | null)?.id ?? null,
+    tagIds: ((version.tags as NamedRefDto[] | null) ?? []).map((tag) => tag.id),
+    recurrence: version.recurrence as RecurrenceRuleDto | null,
+    completeWithChecklist: version.completeWithChecklist as boolean,
+  };
+}
@@ -0,0 +1,11 @@
+import crypto from 'crypto';
+
+/** Random URL-safe token for refresh, reset and verification links. */
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/** Tokens are stored as SHA-256 hashes; they are random, so no salt is needed. */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,40 @@
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const USERNAME_MIN_LENGTH = 2;
+
+const PASSWORD_REGEX = {
+  length: /^.{8,}$/,
+  uppercase: /[A-Z]/,
+  number: /[0-9]/,
+  special: /[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?`~]/,
+};
+
+/** Lower-cased, trimmed email address, or null when it isn't a valid one. */
+export function normalizeEmail(email: unknown): string | null {
+  const normalized = String(email ?? '').trim().toLowerCase();
+  return EMAIL_REGEX.test(normalized) ? normalized : null;
+}
+
+/** Error message for a username that can't be used (after trimming), or null. */
+export function validateUsername(username: string): string | null {
+  if (username.length < USERNAME_MIN_LENGTH) return `Username must be at least ${USERNAME_MIN_LENGTH} characters`;
+  return null;
+}
+
+/** True for time zone names the runtime knows, e.g. "Europe/Berlin" or "UTC". */
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function validatePassword(password: string): string | null {
+  if (!PASSWORD_REGEX.length.test(password)) return 'Password must be at least 8 characters';
+  if (!PASSWORD_REGEX.uppercase.test(password)) return 'Password must contain at least 1 uppercase letter';
+  if (!PASSWORD_REGEX.number.test(password)) return 'Password must contain at least 1 number';
+  if (!PASSWORD_REGEX.special.test(password)) return 'Password must contain at least 1 special character';
+  return null;
+}